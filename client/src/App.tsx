@@ -10,6 +10,8 @@ import { Navbar } from "@/components/navbar";
 import Footer from "@/components/footer";
 import { CartSidebar } from "@/components/cart-sidebar";
 import { CurrencyProvider } from "@/lib/currency";
+import { useAuthStore } from "@/lib/auth";
+import { useCartSync } from "@/lib/cart-sync";
 
 // Pages
 import Home from "@/pages/home";
@@ -22,6 +24,9 @@ import Categories from "@/pages/categories";
 import Support from "@/pages/support";
 import BecomeVendor from "@/pages/become-vendor";
 import Checkout from "@/pages/checkout";
+import MyOrders from "@/pages/my-orders";
+import TrackOrder from "@/pages/track-order";
+import Wishlist from "@/pages/wishlist";
 import NotFound from "@/pages/not-found";
 
 /* --- Optional tiny helper to log which route mounted (debug only) --- */
@@ -42,6 +47,21 @@ function ScrollToTop() {
   return null;
 }
 
+/* --- Re-validate the persisted user against the server session on load --- */
+function SessionSync() {
+  const refresh = useAuthStore((s) => s.refresh);
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+  return null;
+}
+
+/* --- Keep a signed-in buyer's cart saved on the server --- */
+function CartSync() {
+  useCartSync();
+  return null;
+}
+
 function AppRoutes() {
   return (
     <>
@@ -133,6 +153,27 @@ function AppRoutes() {
         </>
       </Route>
 
+      <Route path="/orders">
+        <>
+          <RouteProbe tag="my-orders" />
+          <MyOrders />
+        </>
+      </Route>
+
+      <Route path="/wishlist">
+        <>
+          <RouteProbe tag="wishlist" />
+          <Wishlist />
+        </>
+      </Route>
+
+      <Route path="/track-order">
+        <>
+          <RouteProbe tag="track-order" />
+          <TrackOrder />
+        </>
+      </Route>
+
       {/* Catch-all 404 */}
       <Route path="*">
         <>
@@ -153,6 +194,8 @@ export default function App() {
           <div className="min-h-screen bg-background overflow-x-hidden">
             <Navbar />
             <main>
+              <SessionSync />
+              <CartSync />
               <ScrollToTop />
               <AppRoutes />
             </main>
@@ -0,0 +1,148 @@
+// client/src/components/attribute-fields.tsx
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import type { AttributeDef, AttributeValue, ProductAttributes } from "@shared/attributes";
+
+/** Select can't hold an empty value, so "not set" gets its own item */
+const UNSET = "__unset__";
+
+function AttributeInput({
+  def,
+  value,
+  onChange,
+  disabled,
+}: {
+  def: AttributeDef;
+  value: AttributeValue | undefined;
+  onChange: (value: AttributeValue | undefined) => void;
+  disabled?: boolean;
+}) {
+  const id = `attr-${def.key}`;
+  switch (def.type) {
+    case "boolean":
+      return (
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={(v) => onChange(v)}
+          disabled={disabled}
+          data-testid={`switch-${id}`}
+        />
+      );
+    case "select":
+      return (
+        <Select
+          value={typeof value === "string" && value ? value : UNSET}
+          onValueChange={(v) => onChange(v === UNSET ? undefined : v)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} data-testid={`select-${id}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET}>Not set</SelectItem>
+            {def.options?.map((o) => (
+              <SelectItem key={o} value={o}>{o}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "multiselect": {
+      const chosen = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {def.options?.map((o) => (
+            <label key={o} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={chosen.includes(o)}
+                onCheckedChange={(v) =>
+                  onChange(v === true ? [...chosen, o] : chosen.filter((c) => c !== o))
+                }
+                disabled={disabled}
+                data-testid={`checkbox-${id}-${o}`}
+              />
+              {o}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case "number":
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            id={id}
+            type="number"
+            step="any"
+            value={value === undefined ? "" : String(value)}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            data-testid={`input-${id}`}
+          />
+          {def.unit && <span className="text-sm text-muted-foreground">{def.unit}</span>}
+        </div>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={value === undefined ? "" : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          data-testid={`input-${id}`}
+        />
+      );
+  }
+}
+
+/**
+ * Inputs for a category's attribute schema. Values are passed through as
+ * typed (numbers as the text entered); the server checks and converts them.
+ */
+export function AttributeFields({
+  defs,
+  values,
+  onChange,
+  disabled,
+}: {
+  defs: AttributeDef[];
+  values: ProductAttributes;
+  onChange: (values: ProductAttributes) => void;
+  disabled?: boolean;
+}) {
+  if (!defs.length) return null;
+
+  const set = (key: string, value: AttributeValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="space-y-3 rounded-md border p-3" data-testid="fieldset-attributes">
+      <legend className="px-1 text-sm font-medium">Specifications</legend>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {defs.map((def) => (
+          <div key={def.key} className="space-y-2">
+            <Label htmlFor={`attr-${def.key}`}>
+              {def.label}
+              {def.required && <span className="ml-0.5 text-destructive">*</span>}
+            </Label>
+            <AttributeInput
+              def={def}
+              value={values[def.key]}
+              onChange={(v) => set(def.key, v)}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
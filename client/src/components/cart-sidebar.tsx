@@ -6,21 +6,29 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { useCartStore } from "@/lib/cart";
-import { useQuery } from "@tanstack/react-query";
-import { Minus, Plus, X, ShoppingBag } from "lucide-react";
+import { cartProductsKey, useCartStore } from "@/lib/cart";
+import { applyServerCart } from "@/lib/cart-sync";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useWishlist, useWishlistActions } from "@/lib/wishlist";
+import { useToast } from "@/hooks/use-toast";
+import { Minus, Plus, X, ShoppingBag, AlertTriangle, Heart } from "lucide-react";
 import { useLocation } from "wouter";
 import { useCurrency } from "@/lib/currency";
+import { cartIssueLabel, type CartLine, type CartLineIssue } from "@shared/cart";
 
 export function CartSidebar() {
   const { items, isOpen, closeCart, removeItem, updateQuantity, clearCart } =
     useCartStore();
   const [, setLocation] = useLocation();
   const { format } = useCurrency(); // ✅ currency formatter (NLe-first)
+  const { toast } = useToast();
+  const { items: saved, signedIn } = useWishlist();
+  const { save } = useWishlistActions();
 
   // Pull product details so we can show names/prices/images
   const { data: products = [] } = useQuery<any[]>({
-    queryKey: ["/api/products"],
+    queryKey: cartProductsKey(items),
     enabled: items.length > 0,
   });
 
@@ -33,20 +41,71 @@ export function CartSidebar() {
     .filter(Boolean) as Array<{
     id: string;
     productId: string;
+    variantId?: string | null;
+    variantLabel?: string | null;
+    imageUrl?: string | null;
+    priceEach: number;
     quantity: number;
     product: any;
+    currentPrice?: number;
+    priceChanged?: boolean;
+    available?: number;
+    issue?: CartLineIssue | null;
   }>;
 
+  // Saved (signed-in) carts come with the current price. Otherwise variant
+  // lines keep the variant's price from when they were added (checkout
+  // re-prices everything) and plain lines follow the live product
+  const unitPrice = (item: (typeof cartItemsWithProducts)[number]) =>
+    item.currentPrice ??
+    (item.variantId ? item.priceEach : Number(item.product?.price ?? 0));
+
+  const pricesChanged = cartItemsWithProducts.some((i) => i.priceChanged);
+
+  // the buyer has seen the new prices: stop flagging them
+  const acceptPrices = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/cart/accept-prices");
+      applyServerCart((await res.json()) as CartLine[]);
+    },
+  });
+
   // Compute total (numbers only, even if API sends strings)
-  const totalPrice = cartItemsWithProducts.reduce((sum, item) => {
-    const unit = Number(item.product?.price ?? 0);
-    return sum + unit * item.quantity;
-  }, 0);
+  const totalPrice = cartItemsWithProducts.reduce(
+    (sum, item) => sum + unitPrice(item) * item.quantity,
+    0,
+  );
 
   const dec = (id: string, qty: number) =>
     updateQuantity(id, Math.max(1, qty - 1));
   const inc = (id: string, qty: number) => updateQuantity(id, qty + 1);
 
+  // Move a line to the wishlist (keeping its variant and price); it only
+  // leaves the cart once it is saved
+  const saveForLater = (item: (typeof cartItemsWithProducts)[number]) => {
+    if (!signedIn) {
+      toast({ title: "Sign in to save items", description: "Your wishlist is kept with your account." });
+      closeCart();
+      setLocation("/login");
+      return;
+    }
+    save.mutate(
+      { productId: item.productId, variantId: item.variantId ?? null, priceEach: item.priceEach },
+      {
+        onSuccess: () => {
+          removeItem(item.id);
+          toast({ title: "Saved for later", description: item.product.name });
+        },
+        onError: () => toast({ title: "Couldn't save this item", variant: "destructive" }),
+      },
+    );
+  };
+
+  const openWishlist = () => {
+    closeCart();
+    setLocation("/wishlist");
+  };
+
   const handleCheckout = () => {
     closeCart();
     setLocation("/checkout");
@@ -68,6 +127,15 @@ export function CartSidebar() {
               <div className="text-center">
                 <ShoppingBag className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <p className="text-muted-foreground">Your cart is empty</p>
+                {saved.length > 0 && (
+                  <Button
+                    variant="link"
+                    onClick={openWishlist}
+                    data-testid="link-saved-for-later"
+                  >
+                    Saved for later ({saved.length})
+                  </Button>
+                )}
               </div>
             </div>
           ) : (
@@ -75,14 +143,14 @@ export function CartSidebar() {
               {/* Cart Items */}
               <div className="flex-1 overflow-y-auto py-6 space-y-4">
                 {cartItemsWithProducts.map((item) => {
-                  const unit = Number(item.product?.price ?? 0);
+                  const unit = unitPrice(item);
                   return (
                     <div
                       key={item.id}
                       className="flex items-center gap-4 pb-4 border-b border-border"
                     >
                       <img
-                        src={item.product.imageUrl}
+                        src={item.imageUrl || item.product.imageUrl}
                         alt={item.product.name}
                         className="w-16 h-16 object-cover rounded-lg"
                       />
@@ -93,12 +161,44 @@ export function CartSidebar() {
                         >
                           {item.product.name}
                         </h3>
+                        {item.variantLabel && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {item.variantLabel}
+                          </p>
+                        )}
                         <p
                           className="text-sm text-muted-foreground"
                           data-testid={`text-cart-item-price-${item.id}`}
                         >
                           {format(unit)}
+                          {item.priceChanged && (
+                            <span
+                              className="ml-2 text-xs text-amber-600"
+                              data-testid={`text-cart-item-was-${item.id}`}
+                            >
+                              was {format(item.priceEach)}
+                            </span>
+                          )}
                         </p>
+                        {item.issue && (
+                          <p
+                            className="flex items-center gap-1 text-xs text-destructive"
+                            data-testid={`text-cart-item-issue-${item.id}`}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            {cartIssueLabel({ issue: item.issue, available: item.available ?? 0 })}
+                          </p>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => saveForLater(item)}
+                          disabled={save.isPending}
+                          className="mt-1 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+                          data-testid={`button-save-for-later-${item.id}`}
+                        >
+                          <Heart className="h-3 w-3" />
+                          Save for later
+                        </button>
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -144,6 +244,20 @@ export function CartSidebar() {
 
               {/* Cart Footer */}
               <div className="border-t border-border pt-6 space-y-4">
+                {pricesChanged && (
+                  <div className="flex items-center justify-between gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-800">
+                    <span>Some prices changed since you added these items.</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={acceptPrices.isPending}
+                      onClick={() => acceptPrices.mutate()}
+                      data-testid="button-accept-prices"
+                    >
+                      OK
+                    </Button>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="text-lg font-semibold">Total:</span>
                   <span
@@ -169,6 +283,16 @@ export function CartSidebar() {
                 >
                   Clear Cart
                 </Button>
+                {saved.length > 0 && (
+                  <Button
+                    onClick={openWishlist}
+                    variant="link"
+                    className="w-full"
+                    data-testid="link-saved-for-later"
+                  >
+                    Saved for later ({saved.length})
+                  </Button>
+                )}
               </div>
             </>
           )}
@@ -0,0 +1,709 @@
+// client/src/components/category-manager.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Category, Product } from "@shared/schema";
+import {
+  CATEGORY_ICONS,
+  MAX_CATEGORY_DEPTH,
+  buildCategoryTree,
+  categoryLabel,
+  categoryPath,
+  descendantIds,
+  flattenCategoryTree,
+  slugify,
+} from "@shared/categories";
+import {
+  ATTRIBUTE_TYPES,
+  MAX_ATTRIBUTES,
+  effectiveAttributes,
+  type AttributeDef,
+  type AttributeType,
+} from "@shared/attributes";
+import { ArrowDown, ArrowUp, Edit, MoveRight, Plus, SlidersHorizontal, Trash2, X } from "lucide-react";
+
+const CATEGORIES_KEY = ["/api/categories"];
+const PRODUCTS_KEY = ["/api/admin/products"];
+
+/** Radix Select can't hold an empty value, so "no parent" gets a stand-in */
+const TOP_LEVEL = "__top__";
+
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+type CategoryForm = {
+  name: string;
+  slug: string;
+  parentId: string;
+  icon: string;
+  description: string;
+};
+
+const emptyForm = (parentId: string | null = null): CategoryForm => ({
+  name: "",
+  slug: "",
+  parentId: parentId ?? TOP_LEVEL,
+  icon: "tag",
+  description: "",
+});
+
+/** Add (no `category`) or edit dialog; the slug follows the name until edited */
+function CategoryFormDialog({
+  categories,
+  category,
+  trigger,
+}: {
+  categories: Category[];
+  category?: Category;
+  trigger: React.ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<CategoryForm>(emptyForm());
+  const [slugTouched, setSlugTouched] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setSlugTouched(!!category);
+    setForm(
+      category
+        ? {
+            name: category.name,
+            slug: category.slug,
+            parentId: category.parentId ?? TOP_LEVEL,
+            icon: category.icon,
+            description: category.description ?? "",
+          }
+        : emptyForm(),
+    );
+  }, [open, category]);
+
+  // a category can't go under itself or its own subcategories, or too deep
+  const excluded = new Set(category ? descendantIds(categories, category.id) : []);
+  const parents = flattenCategoryTree(buildCategoryTree(categories)).filter(
+    ({ category: c }) =>
+      !excluded.has(c.id) && categoryPath(categories, c.id).length < MAX_CATEGORY_DEPTH,
+  );
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        slug: form.slug.trim() || undefined,
+        parentId: form.parentId === TOP_LEVEL ? null : form.parentId,
+        icon: form.icon,
+        description: form.description.trim() || null,
+      };
+      if (category) await apiRequest("PATCH", `/api/categories/${category.id}`, body);
+      else await apiRequest("POST", "/api/categories", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_KEY });
+      toast({ title: category ? "Category updated" : "Category added" });
+      setOpen(false);
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save category", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "Add Category"}</DialogTitle>
+          <DialogDescription>
+            Categories nest up to {MAX_CATEGORY_DEPTH} levels. The slug is used in links.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save.mutate();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              value={form.name}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  name: e.target.value,
+                  slug: slugTouched ? f.slug : slugify(e.target.value),
+                }))
+              }
+              data-testid="input-category-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-slug">Slug</Label>
+            <Input
+              id="category-slug"
+              value={form.slug}
+              onChange={(e) => {
+                setSlugTouched(true);
+                setForm((f) => ({ ...f, slug: e.target.value }));
+              }}
+              data-testid="input-category-slug"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Parent</Label>
+              <Select value={form.parentId} onValueChange={(parentId) => setForm((f) => ({ ...f, parentId }))}>
+                <SelectTrigger data-testid="select-category-parent"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                  {parents.map(({ category: c }) => (
+                    <SelectItem key={c.id} value={c.id}>{categoryLabel(categories, c.id)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Icon</Label>
+              <Select value={form.icon} onValueChange={(icon) => setForm((f) => ({ ...f, icon }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CATEGORY_ICONS.map((icon) => (
+                    <SelectItem key={icon} value={icon}>{icon}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="category-description">Description</Label>
+            <Textarea
+              id="category-description"
+              rows={3}
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={save.isPending || !form.name.trim()}>
+              {category ? "Save" : "Add"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+  text: "Text",
+  number: "Number",
+  boolean: "Yes / No",
+  select: "One of",
+  multiselect: "Any of",
+};
+
+/** An attribute being edited; options are typed as a comma-separated list */
+type AttributeRow = {
+  key: string;
+  label: string;
+  type: AttributeType;
+  options: string;
+  unit: string;
+  required: boolean;
+  filterable: boolean;
+  /** New rows derive their key from the label until the key is edited */
+  autoKey: boolean;
+};
+
+const toKey = (label: string) => slugify(label).replace(/-/g, "_").replace(/^[^a-z]+/, "").slice(0, 40);
+
+const toRow = (def: AttributeDef): AttributeRow => ({
+  key: def.key,
+  label: def.label,
+  type: def.type,
+  options: (def.options ?? []).join(", "),
+  unit: def.unit ?? "",
+  required: !!def.required,
+  filterable: !!def.filterable,
+  autoKey: false,
+});
+
+function toDef(row: AttributeRow): AttributeDef {
+  const choices = row.type === "select" || row.type === "multiselect";
+  return {
+    key: row.key.trim(),
+    label: row.label.trim(),
+    type: row.type,
+    ...(choices && {
+      options: row.options.split(",").map((o) => o.trim()).filter(Boolean),
+    }),
+    ...(row.type === "number" && row.unit.trim() && { unit: row.unit.trim() }),
+    ...(row.required && { required: true }),
+    ...(row.filterable && row.type !== "number" && { filterable: true }),
+  };
+}
+
+/**
+ * The category's own attribute schema. Subcategories inherit these, so the
+ * parents' attributes are listed for reference but edited on the parent.
+ */
+function CategoryAttributesDialog({
+  categories,
+  category,
+}: {
+  categories: Category[];
+  category: Category;
+}) {
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<AttributeRow[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setRows((category.attributes ?? []).map(toRow));
+  }, [open, category]);
+
+  const inherited = category.parentId
+    ? effectiveAttributes(categories, category.parentId).filter(
+        (def) => !rows.some((r) => r.key === def.key),
+      )
+    : [];
+
+  const patch = (i: number, change: Partial<AttributeRow>) =>
+    setRows((list) =>
+      list.map((r, j) => {
+        if (j !== i) return r;
+        const next = { ...r, ...change };
+        if (change.label !== undefined && r.autoKey) next.key = toKey(change.label);
+        if (change.key !== undefined) next.autoKey = false;
+        return next;
+      }),
+    );
+
+  const save = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/categories/${category.id}`, { attributes: rows.map(toDef) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_KEY });
+      toast({ title: "Attributes saved" });
+      setOpen(false);
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save attributes", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Attributes" data-testid={`button-category-attributes-${category.id}`}>
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attributes: {category.name}</DialogTitle>
+          <DialogDescription>
+            Vendors fill these in for products in this category and its subcategories. Changing a
+            key hides the values products already have under the old one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {inherited.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Inherited: {inherited.map((d) => d.label).join(", ")}
+          </p>
+        )}
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save.mutate();
+          }}
+        >
+          {rows.map((row, i) => {
+            const choices = row.type === "select" || row.type === "multiselect";
+            return (
+              <div key={i} className="space-y-3 rounded-md border p-3" data-testid={`row-attribute-${i}`}>
+                <div className="grid grid-cols-[1fr_1fr_10rem_auto] items-end gap-2">
+                  <div className="space-y-1">
+                    <Label>Label</Label>
+                    <Input
+                      value={row.label}
+                      onChange={(e) => patch(i, { label: e.target.value })}
+                      placeholder="Warranty"
+                      data-testid={`input-attribute-label-${i}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Key</Label>
+                    <Input
+                      value={row.key}
+                      onChange={(e) => patch(i, { key: e.target.value })}
+                      placeholder="warranty_months"
+                      data-testid={`input-attribute-key-${i}`}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select value={row.type} onValueChange={(type) => patch(i, { type: type as AttributeType })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_TYPES.map((t) => (
+                          <SelectItem key={t} value={t}>{ATTRIBUTE_TYPE_LABELS[t]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Remove"
+                    onClick={() => setRows((list) => list.filter((_, j) => j !== i))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {choices && (
+                  <div className="space-y-1">
+                    <Label>Options</Label>
+                    <Input
+                      value={row.options}
+                      onChange={(e) => patch(i, { options: e.target.value })}
+                      placeholder="S, M, L, XL"
+                    />
+                  </div>
+                )}
+                {row.type === "number" && (
+                  <div className="space-y-1">
+                    <Label>Unit</Label>
+                    <Input
+                      className="w-40"
+                      value={row.unit}
+                      onChange={(e) => patch(i, { unit: e.target.value })}
+                      placeholder="months"
+                    />
+                  </div>
+                )}
+                <div className="flex gap-6">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={row.required} onCheckedChange={(v) => patch(i, { required: v === true })} />
+                    Required
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={row.filterable}
+                      disabled={row.type === "number"}
+                      onCheckedChange={(v) => patch(i, { filterable: v === true })}
+                    />
+                    Show as a filter
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={rows.length >= MAX_ATTRIBUTES}
+            onClick={() =>
+              setRows((list) => [
+                ...list,
+                {
+                  key: "",
+                  label: "",
+                  type: "text",
+                  options: "",
+                  unit: "",
+                  required: false,
+                  filterable: false,
+                  autoKey: true,
+                },
+              ])
+            }
+            data-testid="button-add-attribute"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Attribute
+          </Button>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={save.isPending}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Re-file every product of `category` under another category */
+function MoveProductsDialog({
+  categories,
+  category,
+  productCount,
+}: {
+  categories: Category[];
+  category: Category;
+  productCount: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const move = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/categories/${category.id}/move-products`, {
+        toCategoryId: target,
+      });
+      return (await res.json()) as { moved: number };
+    },
+    onSuccess: ({ moved }) => {
+      queryClient.invalidateQueries({ queryKey: PRODUCTS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({ title: `Moved ${moved} product${moved === 1 ? "" : "s"}` });
+      setOpen(false);
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't move products", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setTarget("");
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Move products"
+          disabled={productCount === 0}
+          data-testid={`button-move-products-${category.id}`}
+        >
+          <MoveRight className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Products</DialogTitle>
+          <DialogDescription>
+            Move all {productCount} product{productCount === 1 ? "" : "s"} in “{category.name}” to:
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger data-testid="select-move-target"><SelectValue placeholder="Choose a category" /></SelectTrigger>
+          <SelectContent>
+            {flattenCategoryTree(buildCategoryTree(categories))
+              .filter(({ category: c }) => c.id !== category.id)
+              .map(({ category: c }) => (
+                <SelectItem key={c.id} value={c.id}>{categoryLabel(categories, c.id)}</SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!target || move.isPending} onClick={() => move.mutate()}>
+            Move
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Admin: the category tree. Add, rename and re-parent categories, reorder
+ * siblings, edit attribute schemas, move products out and delete categories
+ * once they're empty.
+ */
+export function CategoryManager() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: categories = [], isLoading } = useQuery<Category[]>({ queryKey: CATEGORIES_KEY });
+  const { data: products = [] } = useQuery<Product[]>({ queryKey: PRODUCTS_KEY });
+
+  const productCounts = new Map<string, number>();
+  products.forEach((p) => productCounts.set(p.categoryId, (productCounts.get(p.categoryId) ?? 0) + 1));
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+
+  const onError = (e: unknown) =>
+    toast({ title: "Action failed", description: errorMessage(e), variant: "destructive" });
+
+  const reorder = useMutation({
+    mutationFn: async (body: { parentId: string | null; ids: string[] }) => {
+      await apiRequest("PUT", "/api/categories/order", body);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CATEGORIES_KEY }),
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/categories/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CATEGORIES_KEY });
+      toast({ title: "Category deleted" });
+    },
+    onError,
+  });
+
+  /** Swap a category with its previous (-1) or next (+1) sibling */
+  const shift = (category: Category, by: -1 | 1) => {
+    const siblings = rows
+      .map((r) => r.category)
+      .filter((c) => c.parentId === category.parentId)
+      .map((c) => c.id);
+    const from = siblings.indexOf(category.id);
+    const to = from + by;
+    if (to < 0 || to >= siblings.length) return;
+    [siblings[from], siblings[to]] = [siblings[to], siblings[from]];
+    reorder.mutate({ parentId: category.parentId, ids: siblings });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Categories</CardTitle>
+        <CategoryFormDialog
+          categories={categories}
+          trigger={
+            <Button size="sm" data-testid="button-add-category">
+              <Plus className="mr-1 h-4 w-4" />
+              Add Category
+            </Button>
+          }
+        />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Icon</TableHead>
+                  <TableHead className="text-right">Products</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ category: c, depth }) => {
+                  const count = productCounts.get(c.id) ?? 0;
+                  return (
+                    <TableRow key={c.id} data-testid={`row-category-${c.id}`}>
+                      <TableCell style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>{c.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{c.slug}</TableCell>
+                      <TableCell className="text-sm">{c.icon}</TableCell>
+                      <TableCell className="text-right">{count}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Move up"
+                            disabled={reorder.isPending}
+                            onClick={() => shift(c, -1)}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Move down"
+                            disabled={reorder.isPending}
+                            onClick={() => shift(c, 1)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <CategoryFormDialog
+                            categories={categories}
+                            category={c}
+                            trigger={
+                              <Button variant="ghost" size="sm" title="Edit" data-testid={`button-edit-category-${c.id}`}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                          <CategoryAttributesDialog categories={categories} category={c} />
+                          <MoveProductsDialog categories={categories} category={c} productCount={count} />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={c.children.length || count ? "Only empty categories can be deleted" : "Delete"}
+                            className="text-destructive hover:text-destructive"
+                            disabled={remove.isPending || c.children.length > 0 || count > 0}
+                            onClick={() => {
+                              if (confirm(`Delete “${c.name}”?`)) remove.mutate(c.id);
+                            }}
+                            data-testid={`button-delete-category-${c.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {!rows.length && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-sm text-muted-foreground">
+                      No categories yet.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
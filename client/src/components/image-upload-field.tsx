@@ -0,0 +1,75 @@
+// client/src/components/image-upload-field.tsx
+import { useMutation } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { toAbsoluteUrl } from "@/lib/queryClient";
+import { thumbnailUrl } from "@shared/images";
+import { Loader2 } from "lucide-react";
+
+const ACCEPT = "image/jpeg,image/png,image/webp";
+const MAX_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Pick an image file, upload it to /api/uploads and hand back its URL.
+ * The file is sent as the raw request body (as with payment receipts).
+ */
+export function ImageUploadField({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (url: string) => void;
+  disabled?: boolean;
+}) {
+  const { toast } = useToast();
+
+  const upload = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch(toAbsoluteUrl("/api/uploads"), {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || `Upload failed (${res.status})`);
+      }
+      return (await res.json()) as { url: string };
+    },
+    onSuccess: ({ url }) => onChange(url),
+    onError: (e: Error) =>
+      toast({ title: "Upload failed", description: e.message, variant: "destructive" }),
+  });
+
+  return (
+    <div className="flex items-center gap-3">
+      {value ? (
+        <img
+          src={thumbnailUrl(value, 320)}
+          alt="Product"
+          className="h-16 w-16 rounded-md object-cover border"
+        />
+      ) : (
+        <div className="h-16 w-16 rounded-md bg-muted" />
+      )}
+      <Input
+        type="file"
+        accept={ACCEPT}
+        disabled={disabled || upload.isPending}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (!file) return;
+          if (file.size > MAX_BYTES) {
+            toast({ title: "File too large", description: "Please upload an image under 8 MB.", variant: "destructive" });
+            return;
+          }
+          upload.mutate(file);
+        }}
+      />
+      {upload.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+// client/src/components/mobile-money-payment.tsx
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+import { CheckCircle2, Loader2, Smartphone, XCircle } from "lucide-react";
+
+type PaymentState = {
+  paymentId: string;
+  provider: string;
+  method: string;
+  providerRef: string | null;
+  amount: string;
+  status: "pending" | "succeeded" | "failed";
+  failureReason: string | null;
+  instructions?: string;
+};
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Pay a placed checkout with Orange Money / AfriMoney.
+ * Starts the charge, then polls /confirm until the provider settles it
+ * (the webhook usually gets there first).
+ */
+export function MobileMoneyPayment({
+  reference,
+  email,
+  method,
+  defaultPhone = "",
+}: {
+  reference: string;
+  email: string;
+  method: "orange_money" | "afrimoney";
+  defaultPhone?: string;
+}) {
+  const [phone, setPhone] = useState(defaultPhone);
+  const [started, setStarted] = useState<PaymentState | null>(null);
+  const { toast } = useToast();
+
+  const initiate = useMutation({
+    mutationFn: async (): Promise<PaymentState> => {
+      const res = await apiRequest("POST", "/api/payments/initiate", {
+        reference,
+        email,
+        method,
+        phone: phone.trim(),
+      });
+      return res.json();
+    },
+    onSuccess: setStarted,
+    onError: (e) =>
+      toast({ title: "Couldn't start payment", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const statusQuery = useQuery<PaymentState>({
+    queryKey: ["payment", started?.paymentId],
+    enabled: !!started,
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/payments/${started!.paymentId}/confirm`, {
+        reference,
+        email,
+      });
+      return res.json();
+    },
+    refetchInterval: (q) => (q.state.data?.status ?? "pending") === "pending" ? 4000 : false,
+    staleTime: 0,
+  });
+
+  const simulate = useMutation({
+    mutationFn: async (outcome: "succeeded" | "failed") => {
+      await apiRequest("POST", `/api/payments/simulator/${started!.providerRef}`, { outcome });
+    },
+    onSuccess: () => statusQuery.refetch(),
+    onError: (e) =>
+      toast({ title: "Simulator error", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const payment = statusQuery.data ?? started;
+
+  // paid after every order was cancelled: there's nothing to retry
+  if (payment?.failureReason === "refund_due") {
+    return (
+      <div className="rounded-md border p-3 text-sm flex items-center gap-2">
+        <XCircle className="h-4 w-4 text-destructive" />
+        This order was cancelled before your payment arrived. We'll refund{" "}
+        {formatAmount(payment.amount, "NLE", 1)} to your mobile money account.
+      </div>
+    );
+  }
+
+  if (!payment || payment.status === "failed") {
+    return (
+      <div className="space-y-2 rounded-md border p-3">
+        {payment?.status === "failed" && (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <XCircle className="h-4 w-4" /> Payment failed
+            {payment.failureReason ? ` (${payment.failureReason.replace(/_/g, " ")})` : ""}. You can try again.
+          </p>
+        )}
+        <Label htmlFor="momo-phone">Mobile money number</Label>
+        <Input
+          id="momo-phone"
+          inputMode="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="+232…"
+        />
+        <Button
+          className="w-full"
+          disabled={phone.trim().length < 6 || initiate.isPending}
+          onClick={() => initiate.mutate()}
+          data-testid="button-pay-mobile-money"
+        >
+          <Smartphone className="h-4 w-4 mr-1" />
+          {initiate.isPending ? "Starting…" : "Pay now"}
+        </Button>
+      </div>
+    );
+  }
+
+  if (payment.status === "succeeded") {
+    return (
+      <div className="rounded-md border p-3 text-sm flex items-center gap-2">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        Payment of {formatAmount(payment.amount, "NLE", 1)} received. Thank you!
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Waiting for your approval of {formatAmount(payment.amount, "NLE", 1)}
+        <Badge variant="outline">{payment.status}</Badge>
+      </div>
+      {started?.instructions && <p className="text-muted-foreground">{started.instructions}</p>}
+
+      {payment.provider === "simulator" && payment.providerRef && (
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={simulate.isPending}
+            onClick={() => simulate.mutate("succeeded")}
+          >
+            Simulate approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={simulate.isPending}
+            onClick={() => simulate.mutate("failed")}
+          >
+            Simulate decline
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ export function Navbar() {
     { name: "Home", href: "/" },
     { name: "Categories", href: "/categories" },
     { name: "Become Vendor", href: "/become-vendor" },
+    { name: "Track Order", href: "/track-order" },
     { name: "Support", href: "/support" },
   ];
 
@@ -108,6 +109,14 @@ export function Navbar() {
                   Welcome, {user?.firstName}
                 </span>
 
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/orders">My Orders</Link>
+                </Button>
+
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/wishlist">Wishlist</Link>
+                </Button>
+
                 {user?.role === "vendor" && (
                   <Button variant="outline" size="sm" asChild>
                     <Link href="/vendor-dashboard">Dashboard</Link>
@@ -175,6 +184,22 @@ export function Navbar() {
                   <div className="mt-4 flex gap-2">
                     {isAuthenticated ? (
                       <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          asChild
+                          className="flex-1"
+                        >
+                          <Link href="/orders">My Orders</Link>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          asChild
+                          className="flex-1"
+                        >
+                          <Link href="/wishlist">Wishlist</Link>
+                        </Button>
                         {user?.role === "vendor" && (
                           <Button
                             variant="outline"
@@ -0,0 +1,126 @@
+// client/src/components/order-card.tsx
+import type { ReactNode } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { statusBadgeVariant } from "@/components/order-timeline";
+import { formatAmount } from "@/lib/currency";
+
+/** One vendor order as returned by /api/orders/mine and /api/orders/lookup */
+export type OrderDetail = {
+  id: string;
+  reference: string | null;
+  storeName: string | null;
+  status: string;
+  currency: string;
+  rate: string;
+  subtotal: string;
+  shippingFee: string;
+  total: string;
+  paymentMethod: string;
+  createdAt: string;
+  items: Array<{
+    id: string;
+    productId: string;
+    name: string;
+    variantLabel?: string | null;
+    imageUrl: string | null;
+    price: string;
+    quantity: number;
+  }>;
+  refunds?: Array<{
+    id: string;
+    amount: string;
+    method: string;
+    reason: string;
+    createdAt: string;
+  }>;
+};
+
+/**
+ * Lines and totals of one order, priced in the currency/rate saved at checkout.
+ * `children` renders below the totals (timeline, actions).
+ */
+export function OrderCard({
+  order,
+  children,
+}: {
+  order: OrderDetail;
+  children?: ReactNode;
+}) {
+  const money = (n: string | number) => formatAmount(n, order.currency, order.rate);
+
+  return (
+    <Card data-testid={`card-order-${order.id}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-base">
+            {order.storeName ?? "Vendor"} · #{order.id.substring(0, 8)}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {order.reference ? `${order.reference} · ` : ""}
+            {new Date(order.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+        <Badge variant={statusBadgeVariant(order.status)}>{order.status}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="divide-y">
+          {order.items.map((item) => (
+            <li key={item.id} className="flex items-center gap-3 py-2">
+              {item.imageUrl && (
+                <img
+                  src={item.imageUrl}
+                  alt={item.name}
+                  className="h-12 w-12 rounded object-cover"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <Link
+                  href={`/products/${item.productId}`}
+                  className="font-medium hover:underline truncate block"
+                >
+                  {item.name}
+                </Link>
+                {item.variantLabel && (
+                  <span className="block text-xs text-muted-foreground">{item.variantLabel}</span>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  {item.quantity} × {money(item.price)}
+                </span>
+              </div>
+              <span className="font-medium">
+                {money(Number(item.price) * item.quantity)}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{money(order.subtotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Shipping</span>
+            <span>{money(order.shippingFee)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>Total</span>
+            <span>{money(order.total)}</span>
+          </div>
+          {order.refunds?.map((r) => (
+            <div key={r.id} className="flex justify-between text-muted-foreground">
+              <span>
+                Refunded {new Date(r.createdAt).toLocaleDateString()} · {r.reason}
+              </span>
+              <span>−{money(r.amount)}</span>
+            </div>
+          ))}
+        </div>
+
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+// client/src/components/order-timeline.tsx
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { allowedNextStatuses, type OrderActorRole } from "@shared/order-status";
+import { History } from "lucide-react";
+
+export type OrderEvent = {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actorRole: string;
+  /** Only on the signed-in events endpoint */
+  actorName?: string | null;
+  note: string | null;
+  createdAt: string;
+};
+
+export function statusBadgeVariant(status: string) {
+  if (status === "delivered") return "secondary" as const;
+  if (status === "pending") return "destructive" as const;
+  if (status === "cancelled" || status === "refunded") return "outline" as const;
+  return "default" as const;
+}
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  const json = raw.slice(raw.indexOf(":") + 1).trim();
+  try {
+    return JSON.parse(json).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Status history, oldest first */
+export function OrderTimeline({
+  events,
+  isLoading = false,
+}: {
+  events: OrderEvent[];
+  isLoading?: boolean;
+}) {
+  return (
+    <ol className="space-y-3 border-l pl-4 max-h-72 overflow-y-auto">
+      {isLoading && <li className="text-sm text-muted-foreground">Loading…</li>}
+      {!isLoading && !events.length && (
+        <li className="text-sm text-muted-foreground">No history recorded.</li>
+      )}
+      {events.map((e) => (
+        <li key={e.id} className="text-sm">
+          <div className="font-medium">
+            {e.fromStatus && e.fromStatus !== e.toStatus
+              ? `${e.fromStatus} → ${e.toStatus}`
+              : e.toStatus}
+          </div>
+          <div className="text-muted-foreground">
+            {new Date(e.createdAt).toLocaleString()} · {e.actorName ?? e.actorRole}
+          </div>
+          {e.note && <div className="mt-1">{e.note}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Status history of one order plus, when `role` may move it, a control to
+ * change the status. `invalidate` lists the order-list queries to refresh.
+ */
+export function OrderTimelineDialog({
+  orderId,
+  status,
+  role,
+  invalidate = [],
+  readOnly = false,
+  trigger,
+}: {
+  orderId: string;
+  status: string;
+  role: OrderActorRole;
+  invalidate?: QueryKey[];
+  /** History only, no status control */
+  readOnly?: boolean;
+  trigger?: ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+  const [next, setNext] = useState("");
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const eventsKey = [`/api/orders/${orderId}/events`];
+  const { data: events = [], isLoading } = useQuery<OrderEvent[]>({
+    queryKey: eventsKey,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const options = readOnly ? [] : allowedNextStatuses(status, role);
+
+  const updateStatus = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/orders/${orderId}/status`, {
+        status: next,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eventsKey });
+      invalidate.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setNext("");
+      setNote("");
+      toast({ title: "Order status updated" });
+    },
+    onError: (e) => {
+      toast({
+        title: "Couldn't update status",
+        description: errorMessage(e),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button size="sm" variant="outline" data-testid={`button-order-history-${orderId}`}>
+            <History className="h-4 w-4 mr-1" /> History
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Order #{orderId.substring(0, 8)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          Current status: <Badge variant={statusBadgeVariant(status)}>{status}</Badge>
+        </div>
+
+        <OrderTimeline events={events} isLoading={isLoading} />
+
+        {options.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <Select value={next} onValueChange={setNext}>
+              <SelectTrigger data-testid={`select-order-status-${orderId}`}>
+                <SelectValue placeholder="Move to…" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((s) => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              placeholder="Note (optional)"
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button
+              className="w-full"
+              disabled={!next || updateStatus.isPending}
+              onClick={() => updateStatus.mutate()}
+            >
+              {updateStatus.isPending ? "Updating…" : "Update status"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
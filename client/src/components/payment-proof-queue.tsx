@@ -0,0 +1,160 @@
+// client/src/components/payment-proof-queue.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toAbsoluteUrl } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+import { Check, ExternalLink, X } from "lucide-react";
+
+type ProofRow = {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  checkoutGroupId: string;
+  reference: string | null;
+  customerEmail: string;
+  total: string;
+};
+
+const QUEUE_KEY = ["/api/payment-proofs", { status: "pending" }];
+
+/** Admin queue of bank-transfer receipts waiting for verification */
+export function PaymentProofQueue() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState<ProofRow | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: proofs = [], isLoading, isError, error } = useQuery<ProofRow[]>({
+    queryKey: QUEUE_KEY,
+    staleTime: 10_000,
+  });
+
+  const review = useMutation({
+    mutationFn: async (v: { id: string; decision: "approve" | "reject"; note?: string }) => {
+      await apiRequest("POST", `/api/payment-proofs/${v.id}/review`, {
+        decision: v.decision,
+        note: v.note || undefined,
+      });
+    },
+    onSuccess: (_d, v) => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      setRejecting(null);
+      setNote("");
+      toast({ title: v.decision === "approve" ? "Payment approved" : "Receipt rejected" });
+    },
+    onError: (e: any) =>
+      toast({ title: "Review failed", description: e?.message, variant: "destructive" }),
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader><CardTitle>Payment Verification</CardTitle></CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{(error as Error)?.message}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order Ref</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {proofs.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell className="font-mono text-sm">
+                      {p.reference ?? `#${p.checkoutGroupId.substring(0, 8)}`}
+                    </TableCell>
+                    <TableCell>{p.customerEmail}</TableCell>
+                    <TableCell className="font-medium">{formatAmount(p.total, "NLE", 1)}</TableCell>
+                    <TableCell>{new Date(p.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <a
+                        href={toAbsoluteUrl(`/api/payment-proofs/${p.id}/file`)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                      >
+                        {p.fileName} <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => review.mutate({ id: p.id, decision: "approve" })}
+                          disabled={review.isPending}
+                          data-testid={`button-approve-proof-${p.id}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" /> Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRejecting(p)}
+                          disabled={review.isPending}
+                          data-testid={`button-reject-proof-${p.id}`}
+                        >
+                          <X className="h-4 w-4 mr-1" /> Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {!proofs.length && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                      No receipts waiting for review.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject receipt {rejecting?.reference ?? ""}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            placeholder="Tell the buyer what's wrong (sent with the notification)"
+            value={note}
+            maxLength={500}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button
+            variant="destructive"
+            disabled={review.isPending}
+            onClick={() => rejecting && review.mutate({ id: rejecting.id, decision: "reject", note })}
+          >
+            Reject and notify buyer
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+// client/src/components/payment-proof-upload.tsx
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { toAbsoluteUrl } from "@/lib/queryClient";
+import { CheckCircle2, Upload } from "lucide-react";
+
+const ACCEPT = "image/jpeg,image/png,image/webp,application/pdf";
+const MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Upload a bank-transfer receipt for a checkout. The file is sent as the raw
+ * request body; reference + email identify the order (same as tracking).
+ */
+export function PaymentProofUpload({
+  reference,
+  email,
+}: {
+  reference: string;
+  email: string;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const { toast } = useToast();
+
+  const upload = useMutation({
+    mutationFn: async (f: File) => {
+      const res = await fetch(toAbsoluteUrl("/api/payment-proofs"), {
+        method: "POST",
+        headers: {
+          "Content-Type": f.type || "application/octet-stream",
+          "X-Order-Reference": reference,
+          "X-Order-Email": email,
+          "X-File-Name": f.name,
+        },
+        body: f,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || `Upload failed (${res.status})`);
+      }
+      return res.json();
+    },
+    onError: (e: Error) =>
+      toast({ title: "Upload failed", description: e.message, variant: "destructive" }),
+  });
+
+  if (upload.isSuccess) {
+    return (
+      <div className="rounded-md border p-3 text-sm flex items-center gap-2">
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+        Receipt received. We'll confirm your payment shortly.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label htmlFor={`proof-${reference}`}>Upload your transfer receipt (image or PDF, max 5 MB)</Label>
+      <Input
+        id={`proof-${reference}`}
+        type="file"
+        accept={ACCEPT}
+        onChange={(e) => {
+          const f = e.target.files?.[0] ?? null;
+          if (f && f.size > MAX_BYTES) {
+            toast({ title: "File too large", description: "Please upload a file under 5 MB.", variant: "destructive" });
+            e.target.value = "";
+            return;
+          }
+          setFile(f);
+        }}
+      />
+      <Button
+        className="w-full"
+        disabled={!file || upload.isPending}
+        onClick={() => file && upload.mutate(file)}
+        data-testid="button-upload-proof"
+      >
+        <Upload className="h-4 w-4 mr-1" />
+        {upload.isPending ? "Uploading…" : "Send receipt"}
+      </Button>
+    </div>
+  );
+}
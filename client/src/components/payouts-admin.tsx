@@ -0,0 +1,309 @@
+// client/src/components/payouts-admin.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+
+type BalanceRow = {
+  vendorId: string;
+  storeName: string;
+  isApproved: boolean;
+  accountMethod: string | null;
+  accountProvider: string | null;
+  commissionPercent: number | null;
+  balance: number;
+};
+
+type Batch = {
+  id: string;
+  note: string | null;
+  createdAt: string;
+  payouts: Array<{
+    id: string;
+    amount: string;
+    method: string;
+    provider: string;
+    accountName: string;
+    accountNumber: string;
+    status: string;
+    reference: string | null;
+    vendor: { storeName: string } | null;
+  }>;
+};
+
+type CommissionConfig = {
+  defaultPercent: number;
+  rates: Array<{
+    id: string;
+    vendorId: string | null;
+    categoryId: string | null;
+    percent: string;
+    categoryName: string | null;
+  }>;
+};
+
+type Category = { id: string; name: string };
+
+const BALANCES_KEY = ["/api/payouts/balances"];
+const BATCHES_KEY = ["/api/payouts/batches"];
+const COMMISSION_KEY = ["/api/payouts/commission"];
+
+const nle = (n: number | string) => formatAmount(n, "NLE", 1);
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Blank input = use the default; saving a blank removes the override */
+function RateInput({
+  value,
+  placeholder,
+  onSave,
+}: {
+  value: number | string | null;
+  placeholder: string;
+  onSave: (percent: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(Number(value)));
+  const dirty = draft !== (value === null ? "" : String(Number(value)));
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        className="w-20"
+        type="number"
+        min={0}
+        max={100}
+        step="0.5"
+        placeholder={placeholder}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      <span className="text-sm">%</span>
+      {dirty && (
+        <Button size="sm" variant="ghost" onClick={() => onSave(draft === "" ? null : Number(draft))}>
+          Save
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Admin: vendor balances and commission rates, payout batches, and
+ * marking each payout paid or failed once the transfer went through.
+ */
+export function PayoutsAdmin() {
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [references, setReferences] = useState<Record<string, string>>({});
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: balances = [] } = useQuery<BalanceRow[]>({ queryKey: BALANCES_KEY, staleTime: 0 });
+  const { data: batches = [] } = useQuery<Batch[]>({ queryKey: BATCHES_KEY, staleTime: 0 });
+  const { data: commission } = useQuery<CommissionConfig>({ queryKey: COMMISSION_KEY });
+  const { data: categories = [] } = useQuery<Category[]>({ queryKey: ["/api/categories"] });
+
+  const refresh = () => {
+    [BALANCES_KEY, BATCHES_KEY, COMMISSION_KEY].forEach((queryKey) =>
+      queryClient.invalidateQueries({ queryKey }),
+    );
+  };
+  const onError = (e: unknown) =>
+    toast({ title: "Action failed", description: errorMessage(e), variant: "destructive" });
+
+  const setRate = useMutation({
+    mutationFn: async (body: { vendorId?: string; categoryId?: string; percent: number | null }) => {
+      await apiRequest("PUT", "/api/payouts/commission", body);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Commission updated" });
+    },
+    onError,
+  });
+
+  const createBatch = useMutation({
+    mutationFn: async (vendorIds: string[]) => {
+      await apiRequest("POST", "/api/payouts/batches", { vendorIds });
+    },
+    onSuccess: () => {
+      setSelected({});
+      refresh();
+      toast({ title: "Payout batch created" });
+    },
+    onError,
+  });
+
+  const settle = useMutation({
+    mutationFn: async (body: { id: string; status: "paid" | "failed" }) => {
+      // one input: the transfer reference when paid, the reason when failed
+      const text = references[body.id]?.trim() || undefined;
+      await apiRequest("PUT", `/api/payouts/${body.id}`, {
+        status: body.status,
+        reference: body.status === "paid" ? text : undefined,
+        reason: body.status === "failed" ? text : undefined,
+      });
+    },
+    onSuccess: () => refresh(),
+    onError,
+  });
+
+  const payable = balances.filter((b) => b.balance > 0 && b.accountMethod);
+  const chosen = payable.filter((b) => selected[b.vendorId]).map((b) => b.vendorId);
+  const defaultRate = String(commission?.defaultPercent ?? "");
+
+  return (
+    <Card className="mb-8">
+      <CardHeader><CardTitle>Vendor Payouts</CardTitle></CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead>Store</TableHead>
+                <TableHead>Payout account</TableHead>
+                <TableHead>Commission</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map((b) => (
+                <TableRow key={b.vendorId}>
+                  <TableCell>
+                    <Checkbox
+                      disabled={!(b.balance > 0 && b.accountMethod)}
+                      checked={!!selected[b.vendorId]}
+                      onCheckedChange={(v) => setSelected({ ...selected, [b.vendorId]: v === true })}
+                    />
+                  </TableCell>
+                  <TableCell>{b.storeName}</TableCell>
+                  <TableCell className="text-sm">
+                    {b.accountMethod ? (
+                      `${b.accountProvider} (${b.accountMethod.replace("_", " ")})`
+                    ) : (
+                      <span className="text-muted-foreground">Not set</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <RateInput
+                      value={b.commissionPercent}
+                      placeholder={defaultRate}
+                      onSave={(percent) => setRate.mutate({ vendorId: b.vendorId, percent })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{nle(b.balance)}</TableCell>
+                </TableRow>
+              ))}
+              {!balances.length && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-sm text-muted-foreground">No vendors yet.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            disabled={!chosen.length || createBatch.isPending}
+            onClick={() => createBatch.mutate(chosen)}
+          >
+            Pay selected ({chosen.length})
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!payable.length || createBatch.isPending}
+            onClick={() => createBatch.mutate(payable.map((b) => b.vendorId))}
+          >
+            Pay all with a balance
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="font-medium">Category commission (default {defaultRate}%)</p>
+          <p className="text-xs text-muted-foreground">
+            A subcategory without its own rate uses its nearest parent's.
+          </p>
+          <div className="grid md:grid-cols-3 gap-2">
+            {categories.map((c) => {
+              const rate = commission?.rates.find((r) => r.categoryId === c.id);
+              return (
+                <div key={c.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{c.name}</span>
+                  <RateInput
+                    value={rate?.percent ?? null}
+                    placeholder={defaultRate}
+                    onSave={(percent) => setRate.mutate({ categoryId: c.id, percent })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {batches.map((batch) => (
+          <div key={batch.id} className="border rounded-md p-3 space-y-2">
+            <p className="text-sm font-medium">
+              Batch of {new Date(batch.createdAt).toLocaleString()}
+              {batch.note ? ` · ${batch.note}` : ""}
+            </p>
+            {batch.payouts.map((p) => (
+              <div key={p.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="flex-1 min-w-[12rem]">
+                  {p.vendor?.storeName ?? "Vendor"} · {p.provider.replace("_", " ")} {p.accountNumber} ({p.accountName})
+                </span>
+                <span className="font-medium">{nle(p.amount)}</span>
+                {p.status === "pending" ? (
+                  <>
+                    <Input
+                      className="w-44"
+                      placeholder="Transfer ref / reason"
+                      value={references[p.id] ?? ""}
+                      onChange={(e) => setReferences({ ...references, [p.id]: e.target.value })}
+                    />
+                    <Button
+                      size="sm"
+                      disabled={settle.isPending}
+                      onClick={() => settle.mutate({ id: p.id, status: "paid" })}
+                    >
+                      Paid
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={settle.isPending}
+                      onClick={() => settle.mutate({ id: p.id, status: "failed" })}
+                    >
+                      Failed
+                    </Button>
+                  </>
+                ) : (
+                  <Badge variant={p.status === "failed" ? "destructive" : "default"}>
+                    {p.status}
+                    {p.reference ? ` · ${p.reference}` : ""}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
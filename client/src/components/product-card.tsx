@@ -6,6 +6,9 @@ import { useCurrency } from "@/lib/currency";
 import { Star, ShoppingCart, ImageOff } from "lucide-react";
 import { Link } from "wouter";
 import type { Product } from "@shared/schema";
+import { imageSrcSet, thumbnailUrl } from "@shared/images";
+import { formatRating } from "@shared/reviews";
+import { WishlistButton } from "@/components/wishlist-button";
 
 interface ProductCardProps {
   product: Product;
@@ -23,8 +26,13 @@ export function ProductCard({ product }: ProductCardProps) {
     (product as any)?.title ??
     "Product";
   const hasImage = Boolean((product as any)?.imageUrl);
+  // variants are picked on the product page; price is then the lowest variant price
+  const hasVariants = Boolean(product?.hasVariants);
+  // published reviews only (server/reviews.ts keeps these current)
+  const ratingCount = Number(product?.ratingCount ?? 0);
 
   const handleAddToCart = (e: React.MouseEvent) => {
+    if (hasVariants) return; // let the <Link> open the product page
     // Prevent the surrounding <Link> from navigating when clicking the button
     e.preventDefault();
     e.stopPropagation();
@@ -35,10 +43,13 @@ export function ProductCard({ product }: ProductCardProps) {
   return (
     <Link href={`/products/${(product as any).id}`}>
       <Card className="group cursor-pointer overflow-hidden hover:shadow-xl transition-all">
-        <div className="aspect-square overflow-hidden bg-muted">
+        <div className="relative aspect-square overflow-hidden bg-muted">
+          <WishlistButton productId={(product as any).id} className="absolute right-2 top-2 z-10" />
           {hasImage ? (
             <img
-              src={(product as any).imageUrl as string}
+              src={thumbnailUrl((product as any).imageUrl as string, 640)}
+              srcSet={imageSrcSet((product as any).imageUrl as string)}
+              sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
               alt={name}
               className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
               data-testid={`img-product-${(product as any).id}`}
@@ -74,12 +85,21 @@ export function ProductCard({ product }: ProductCardProps) {
               className="text-2xl font-bold text-primary"
               data-testid={`text-price-${(product as any).id}`}
             >
-              {format(price)}
+              {hasVariants ? `From ${format(price)}` : format(price)}
             </span>
-            <div className="flex items-center space-x-1">
-              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-              <span className="text-sm text-muted-foreground">4.8 (124)</span>
-            </div>
+            {ratingCount > 0 ? (
+              <div
+                className="flex items-center space-x-1"
+                data-testid={`text-rating-${(product as any).id}`}
+              >
+                <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                <span className="text-sm text-muted-foreground">
+                  {formatRating(product.ratingAverage)} ({ratingCount})
+                </span>
+              </div>
+            ) : (
+              <span className="text-sm text-muted-foreground">No reviews</span>
+            )}
           </div>
 
           <div className="flex items-center justify-between mb-4">
@@ -98,7 +118,7 @@ export function ProductCard({ product }: ProductCardProps) {
             data-testid={`button-add-to-cart-${(product as any).id}`}
           >
             <ShoppingCart className="h-4 w-4 mr-2" />
-            Add to Cart
+            {hasVariants ? "Choose Options" : "Add to Cart"}
           </Button>
         </CardContent>
       </Card>
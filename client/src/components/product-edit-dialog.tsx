@@ -0,0 +1,281 @@
+// client/src/components/product-edit-dialog.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage,
+} from "@/components/ui/form";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { AttributeFields } from "@/components/attribute-fields";
+import { insertProductSchema, type Category } from "@shared/schema";
+import { buildCategoryTree, categoryLabel, flattenCategoryTree } from "@shared/categories";
+import { effectiveAttributes, type ProductAttributes } from "@shared/attributes";
+import { Edit } from "lucide-react";
+
+/** The fields of a product the dashboard can edit (as listed in its table) */
+export type EditableProduct = {
+  id: string;
+  vendorId: string;
+  categoryId?: string;
+  name?: string;
+  description?: string;
+  price: number | string;
+  stock?: number | string;
+  imageUrl?: string;
+  isActive?: boolean;
+  hasVariants?: boolean;
+  attributes?: ProductAttributes;
+};
+
+
+/** Same rules as the server (shared insertProductSchema); inputs hold strings */
+const editFormSchema = insertProductSchema
+  .omit({ vendorId: true })
+  .extend({
+    price: z.string().min(1, "Price is required")
+      .refine((v) => Number(v) >= 0, "Price can't be negative"),
+    stock: z.string().min(1, "Stock is required")
+      .refine((v) => Number.isInteger(Number(v)) && Number(v) >= 0, "Stock must be a whole number"),
+    categoryId: z.string().min(1, "Choose a category"),
+    name: z.string().trim().min(1, "Name is required"),
+    imageUrl: z.string().trim().min(1, "Upload an image or paste its URL"),
+    isActive: z.boolean(),
+  });
+
+type EditForm = z.infer<typeof editFormSchema>;
+
+function toFormValues(p: EditableProduct): EditForm {
+  return {
+    name: p.name ?? "",
+    description: p.description ?? "",
+    price: String(p.price ?? ""),
+    stock: String(p.stock ?? 0),
+    categoryId: p.categoryId ?? "",
+    imageUrl: p.imageUrl ?? "",
+    isActive: p.isActive ?? true,
+  };
+}
+
+/**
+ * Edit a product in place. The products list (`listKey`) is patched
+ * optimistically and rolled back if the server rejects the change.
+ */
+export function ProductEditDialog({
+  product,
+  listKey,
+  disabled,
+}: {
+  product: EditableProduct;
+  listKey: QueryKey;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [attributes, setAttributes] = useState<ProductAttributes>({});
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: open,
+  });
+
+  const form = useForm<EditForm>({
+    resolver: zodResolver(editFormSchema),
+    defaultValues: toFormValues(product),
+  });
+  const categoryId = form.watch("categoryId");
+  const attributeDefs = categoryId ? effectiveAttributes(categories, categoryId) : [];
+
+  // start from the latest saved values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    form.reset(toFormValues(product));
+    setAttributes(product.attributes ?? {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const update = useMutation({
+    mutationFn: async (data: EditForm) => {
+      await apiRequest("PUT", `/api/products/${product.id}`, {
+        ...data,
+        price: Number(data.price),
+        stock: Number(data.stock),
+        attributes,
+      });
+    },
+    onMutate: async (data) => {
+      await queryClient.cancelQueries({ queryKey: listKey });
+      const previous = queryClient.getQueryData<EditableProduct[]>(listKey);
+      queryClient.setQueryData<EditableProduct[]>(listKey, (list) =>
+        list?.map((p) =>
+          p.id === product.id
+            ? { ...p, ...data, price: Number(data.price), stock: Number(data.stock), attributes }
+            : p,
+        ),
+      );
+      setOpen(false);
+      return { previous };
+    },
+    onError: (e: any, _data, ctx) => {
+      if (ctx?.previous) queryClient.setQueryData(listKey, ctx.previous);
+      toast({
+        title: "Failed to update product",
+        description: e?.message || "Your changes were not saved.",
+        variant: "destructive",
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Product updated" });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: listKey });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          title={disabled ? "Read-only" : "Edit"}
+          data-testid={`button-edit-product-${product.id}`}
+        >
+          <Edit className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader><DialogTitle>Edit Product</DialogTitle></DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => update.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Product Name</FormLabel>
+                  <FormControl><Input {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl><Textarea {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price (NLe)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" disabled={product.hasVariants} {...field} />
+                    </FormControl>
+                    {product.hasVariants && <FormDescription>Set per variant.</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stock"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Stock Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" disabled={product.hasVariants} {...field} />
+                    </FormControl>
+                    {product.hasVariants && <FormDescription>Set per variant.</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="categoryId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue placeholder="Choose a category" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {flattenCategoryTree(buildCategoryTree(categories)).map(({ category: c }) => (
+                        <SelectItem key={c.id} value={c.id}>{categoryLabel(categories, c.id)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <AttributeFields defs={attributeDefs} values={attributes} onChange={setAttributes} />
+            <FormField
+              control={form.control}
+              name="imageUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Image</FormLabel>
+                  <ImageUploadField value={field.value} onChange={field.onChange} />
+                  <FormControl><Input placeholder="…or paste an image URL" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive products are hidden from the shop.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={update.isPending}>
+                Save Changes
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
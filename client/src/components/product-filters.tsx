@@ -0,0 +1,225 @@
+// client/src/components/product-filters.tsx
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  PRODUCT_SORTS,
+  PRODUCT_SORT_LABELS,
+  type FacetCount,
+  type ProductFacets,
+  type ProductFilters,
+  type ProductSort,
+} from "@shared/catalog";
+
+export function ProductSortSelect({
+  value,
+  onChange,
+}: {
+  value: ProductSort;
+  onChange: (sort: ProductSort) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ProductSort)}>
+      <SelectTrigger className="w-48" data-testid="select-product-sort">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PRODUCT_SORTS.map((s) => (
+          <SelectItem key={s} value={s}>
+            {PRODUCT_SORT_LABELS[s]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** One facet as a list of toggles: picking the selected value again clears it */
+function FacetList({
+  title,
+  counts,
+  selected,
+  onSelect,
+  testId,
+}: {
+  title: string;
+  counts: FacetCount[];
+  selected?: string;
+  onSelect: (id: string | undefined) => void;
+  testId: string;
+}) {
+  if (!counts.length) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <ul className="space-y-1">
+        {counts.map((c) => {
+          const isSelected = c.id === selected;
+          return (
+            <li key={c.id}>
+              <button
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => onSelect(isSelected ? undefined : c.id)}
+                className={`flex w-full items-center justify-between rounded-md px-2 py-1 text-left text-sm hover:bg-muted ${
+                  isSelected ? "bg-muted font-medium" : ""
+                }`}
+                data-testid={`${testId}-${c.id}`}
+              >
+                <span className="truncate">{c.name}</span>
+                <span className="ml-2 text-xs text-muted-foreground">{c.count}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Facet sidebar for the product listing. Counts come from the server and
+ * already take the other filters into account.
+ */
+export function ProductFilterPanel({
+  filters,
+  facets,
+  onChange,
+  onClear,
+  showCategories = true,
+}: {
+  filters: ProductFilters;
+  facets: ProductFacets | null | undefined;
+  onChange: (patch: Partial<ProductFilters>) => void;
+  onClear: () => void;
+  showCategories?: boolean;
+}) {
+  // price inputs apply on submit, not on every keystroke
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  useEffect(() => {
+    setMinPrice(filters.minPrice === undefined ? "" : String(filters.minPrice));
+    setMaxPrice(filters.maxPrice === undefined ? "" : String(filters.maxPrice));
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const toPrice = (text: string) => {
+    const n = Number(text);
+    return text.trim() === "" || !Number.isFinite(n) || n < 0 ? undefined : n;
+  };
+
+  const hasFilters =
+    !!filters.categoryId ||
+    !!filters.vendorId ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    !!filters.inStock ||
+    !!filters.attributes;
+
+  const setAttribute = (key: string, value: string | undefined) => {
+    const attributes = { ...filters.attributes };
+    if (value === undefined) delete attributes[key];
+    else attributes[key] = value;
+    onChange({ attributes: Object.keys(attributes).length ? attributes : undefined });
+  };
+
+  return (
+    <aside className="space-y-5" data-testid="panel-product-filters">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Filters</h2>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={onClear} data-testid="button-clear-filters">
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {showCategories && (
+        <FacetList
+          title="Category"
+          counts={facets?.categories ?? []}
+          selected={filters.categoryId}
+          onSelect={(categoryId) => onChange({ categoryId })}
+          testId="facet-category"
+        />
+      )}
+
+      <FacetList
+        title="Store"
+        counts={facets?.vendors ?? []}
+        selected={filters.vendorId}
+        onSelect={(vendorId) => onChange({ vendorId })}
+        testId="facet-vendor"
+      />
+
+      {facets?.attributes.map((facet) => (
+        <FacetList
+          key={facet.key}
+          title={facet.label}
+          counts={facet.values}
+          selected={filters.attributes?.[facet.key]}
+          onSelect={(value) => setAttribute(facet.key, value)}
+          testId={`facet-attr-${facet.key}`}
+        />
+      ))}
+
+      <Separator />
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onChange({ minPrice: toPrice(minPrice), maxPrice: toPrice(maxPrice) });
+        }}
+      >
+        <h3 className="text-sm font-semibold">Price (NLe)</h3>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={facets?.price.min != null ? String(Math.floor(facets.price.min)) : "Min"}
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            aria-label="Minimum price"
+            data-testid="input-min-price"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={facets?.price.max != null ? String(Math.ceil(facets.price.max)) : "Max"}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            aria-label="Maximum price"
+            data-testid="input-max-price"
+          />
+        </div>
+        <Button type="submit" variant="outline" size="sm" className="w-full" data-testid="button-apply-price">
+          Apply
+        </Button>
+      </form>
+
+      <Separator />
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="filter-in-stock"
+          checked={!!filters.inStock}
+          onCheckedChange={(v) => onChange({ inStock: v === true || undefined })}
+          data-testid="checkbox-in-stock"
+        />
+        <Label htmlFor="filter-in-stock" className="text-sm font-normal">
+          In stock only
+          {facets && <span className="ml-1 text-xs text-muted-foreground">({facets.inStock})</span>}
+        </Label>
+      </div>
+    </aside>
+  );
+}
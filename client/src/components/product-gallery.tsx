@@ -0,0 +1,80 @@
+// client/src/components/product-gallery.tsx
+import { useEffect, useState } from "react";
+import {
+  Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+import { imageSrcSet, thumbnailUrl, type GalleryImage } from "@shared/images";
+
+/** Swipeable product gallery with a thumbnail strip (one image: no controls) */
+export function ProductGallery({ images, name }: { images: GalleryImage[]; name: string }) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  if (!images.length) {
+    return <div className="aspect-square w-full rounded-lg border bg-muted" />;
+  }
+
+  const multiple = images.length > 1;
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} opts={{ loop: multiple }} className="w-full">
+        <CarouselContent>
+          {images.map((img, i) => (
+            <CarouselItem key={img.id ?? img.url}>
+              <div className="aspect-square overflow-hidden rounded-lg border">
+                <img
+                  src={img.url}
+                  srcSet={imageSrcSet(img.url)}
+                  sizes="(min-width: 1024px) 50vw, 100vw"
+                  alt={img.alt || name}
+                  loading={i === 0 ? "eager" : "lazy"}
+                  className="h-full w-full object-cover"
+                  data-testid={i === 0 ? "img-product" : undefined}
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {multiple && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+      </Carousel>
+
+      {multiple && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((img, i) => (
+            <button
+              key={img.id ?? img.url}
+              type="button"
+              onClick={() => api?.scrollTo(i)}
+              aria-label={`Show image ${i + 1} of ${images.length}`}
+              aria-current={i === current}
+              className={cn(
+                "h-16 w-16 shrink-0 overflow-hidden rounded-md border-2",
+                i === current ? "border-primary" : "border-transparent opacity-70 hover:opacity-100",
+              )}
+            >
+              <img src={thumbnailUrl(img.url, 320)} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
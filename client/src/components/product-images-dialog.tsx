@@ -0,0 +1,232 @@
+// client/src/components/product-images-dialog.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { thumbnailUrl, type GalleryImage } from "@shared/images";
+import { ArrowDown, ArrowUp, Images, Trash2 } from "lucide-react";
+
+const MAX_IMAGES = 10;
+
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Alt text input that saves when it loses focus */
+function AltInput({ image, onSave }: { image: GalleryImage; onSave: (alt: string) => void }) {
+  const [alt, setAlt] = useState(image.alt);
+  return (
+    <Input
+      value={alt}
+      placeholder="Describe the image for screen readers"
+      maxLength={200}
+      onChange={(e) => setAlt(e.target.value)}
+      onBlur={() => {
+        if (alt.trim() !== image.alt) onSave(alt.trim());
+      }}
+    />
+  );
+}
+
+/**
+ * Manage a product's gallery: add (upload or URL), alt text, reorder, delete.
+ * The first image is the cover shown on product cards; `listKey` (the
+ * dashboard's products list) is refreshed whenever the cover may change.
+ */
+export function ProductImagesDialog({
+  productId,
+  listKey,
+  disabled,
+}: {
+  productId: string;
+  listKey: QueryKey;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [urlDraft, setUrlDraft] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const galleryKey = [`/api/products/${productId}/images`];
+
+  const { data: images = [], isLoading } = useQuery<GalleryImage[]>({
+    queryKey: galleryKey,
+    enabled: open,
+  });
+
+  const onSaved = (gallery: GalleryImage[]) => {
+    queryClient.setQueryData(galleryKey, gallery);
+    queryClient.invalidateQueries({ queryKey: ["/api/products", productId] });
+    queryClient.invalidateQueries({ queryKey: listKey });
+  };
+  const onError = (e: unknown) =>
+    toast({ title: "Couldn't update images", description: errorMessage(e), variant: "destructive" });
+
+  const add = useMutation({
+    mutationFn: async (url: string) => {
+      const res = await apiRequest("POST", `/api/products/${productId}/images`, { url });
+      return (await res.json()) as GalleryImage[];
+    },
+    onSuccess: (gallery) => {
+      setUrlDraft("");
+      onSaved(gallery);
+    },
+    onError,
+  });
+
+  const reorder = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await apiRequest("PUT", `/api/products/${productId}/images/order`, { ids });
+      return (await res.json()) as GalleryImage[];
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (imageId: string) => {
+      const res = await apiRequest("DELETE", `/api/products/${productId}/images/${imageId}`);
+      return (await res.json()) as GalleryImage[];
+    },
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const saveAlt = useMutation({
+    mutationFn: async ({ imageId, alt }: { imageId: string; alt: string }) => {
+      await apiRequest("PATCH", `/api/products/${productId}/images/${imageId}`, { alt });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: galleryKey });
+      toast({ title: "Alt text saved" });
+    },
+    onError,
+  });
+
+  // a legacy-only product gets real rows on its first add
+  const editable = images.every((img) => img.id);
+  const busy = add.isPending || reorder.isPending || remove.isPending;
+
+  const move = (index: number, by: -1 | 1) => {
+    const ids = images.map((img) => img.id!);
+    [ids[index], ids[index + by]] = [ids[index + by], ids[index]];
+    reorder.mutate(ids);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          title={disabled ? "Read-only" : "Images"}
+          data-testid={`button-product-images-${productId}`}
+        >
+          <Images className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Product Images</DialogTitle>
+          <DialogDescription>
+            Up to {MAX_IMAGES} images. The first one is the cover shown on product cards.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <ul className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {images.map((img, i) => (
+              <li key={img.id ?? img.url} className="flex items-center gap-3 rounded-md border p-2">
+                <img
+                  src={thumbnailUrl(img.url, 320)}
+                  alt={img.alt}
+                  className="h-16 w-16 shrink-0 rounded-md object-cover"
+                />
+                <div className="flex-1 space-y-1">
+                  {i === 0 && <Badge variant="secondary">Cover</Badge>}
+                  {img.id ? (
+                    <AltInput
+                      image={img}
+                      onSave={(alt) => saveAlt.mutate({ imageId: img.id!, alt })}
+                    />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Add another image to start arranging the gallery.
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Move up"
+                    disabled={!editable || busy || i === 0}
+                    onClick={() => move(i, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Move down"
+                    disabled={!editable || busy || i === images.length - 1}
+                    onClick={() => move(i, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={images.length === 1 ? "A product needs at least one image" : "Delete"}
+                    className="text-destructive hover:text-destructive"
+                    disabled={!img.id || busy || images.length === 1}
+                    onClick={() => remove.mutate(img.id!)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {images.length < MAX_IMAGES && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium">Add an image</p>
+            <ImageUploadField value="" onChange={(url) => add.mutate(url)} disabled={busy} />
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (urlDraft.trim()) add.mutate(urlDraft.trim());
+              }}
+            >
+              <Input
+                placeholder="…or paste an image URL"
+                value={urlDraft}
+                onChange={(e) => setUrlDraft(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={busy || !urlDraft.trim()}>
+                Add
+              </Button>
+            </form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+// client/src/components/product-questions.tsx
+import { useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthStore } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  MAX_QUESTION_LENGTH,
+  type ProductQuestionsResponse,
+  type PublicQuestion,
+} from "@shared/questions";
+import { MessageCircleQuestion, Store } from "lucide-react";
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+function QuestionItem({ question }: { question: PublicQuestion }) {
+  return (
+    <li className="space-y-2 border-b pb-4 last:border-0" data-testid={`question-${question.id}`}>
+      <p className="flex gap-2 font-medium">
+        <span className="text-primary">Q:</span>
+        <span className="whitespace-pre-line">{question.body}</span>
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {question.author} · {new Date(question.createdAt).toLocaleDateString()}
+      </p>
+      {question.answer ? (
+        <div className="ml-4 rounded-md bg-muted p-3 text-sm" data-testid={`question-answer-${question.id}`}>
+          <p className="mb-1 flex items-center gap-1 font-medium">
+            <Store className="h-3 w-3" /> Answer from the store
+          </p>
+          <p className="whitespace-pre-line text-muted-foreground">{question.answer}</p>
+        </div>
+      ) : (
+        <p className="ml-4 text-sm italic text-muted-foreground">Awaiting the store's answer</p>
+      )}
+    </li>
+  );
+}
+
+function AskForm({ productId, onAsked }: { productId: string; onAsked: () => void }) {
+  const [body, setBody] = useState("");
+  const { toast } = useToast();
+
+  const ask = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/products/${productId}/questions`, { body: body.trim() });
+    },
+    onSuccess: () => {
+      setBody("");
+      onAsked();
+      toast({ title: "Question posted", description: "We've let the store know." });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't post your question", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        <h3 className="font-semibold">Ask the store</h3>
+        <Textarea
+          placeholder="Sizing, compatibility, delivery… your question is shown publicly with the answer."
+          value={body}
+          maxLength={MAX_QUESTION_LENGTH}
+          rows={3}
+          onChange={(e) => setBody(e.target.value)}
+          data-testid="input-question-body"
+        />
+        <Button
+          disabled={body.trim().length < 5 || ask.isPending}
+          onClick={() => ask.mutate()}
+          data-testid="button-submit-question"
+        >
+          {ask.isPending ? "Posting…" : "Post question"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The product page's public Q&A: signed-in shoppers ask, the store answers.
+ * Questions a moderator hid are shown only to their author.
+ */
+export function ProductQuestions({ productId }: { productId: string }) {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+  const questionsKey = [`/api/products/${productId}/questions`];
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: questionsKey,
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", `/api/products/${productId}/questions?offset=${pageParam}`);
+      return (await res.json()) as ProductQuestionsResponse;
+    },
+    getNextPageParam: (last) => last.nextOffset,
+  });
+
+  const hidden = data?.pages[0]?.hidden ?? [];
+  const questions = data?.pages.flatMap((p) => p.questions) ?? [];
+
+  return (
+    <section id="questions" className="mt-16 scroll-mt-24" data-testid="section-questions">
+      <h2 className="mb-6 flex items-center gap-2 text-2xl font-bold">
+        <MessageCircleQuestion className="h-6 w-6" /> Questions &amp; Answers
+      </h2>
+      <div className="space-y-6">
+        {isAuthenticated ? (
+          <AskForm
+            productId={productId}
+            onAsked={() => queryClient.invalidateQueries({ queryKey: questionsKey })}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            <Link href="/login" className="text-primary underline">
+              Sign in
+            </Link>{" "}
+            to ask the store a question.
+          </p>
+        )}
+
+        {hidden.map((q) => (
+          <p
+            key={q.id}
+            className="rounded-md bg-destructive/10 p-2 text-sm text-destructive"
+            data-testid={`text-question-hidden-${q.id}`}
+          >
+            A moderator has hidden your question “{q.body}”{q.moderationNote ? `: ${q.moderationNote}` : "."}
+          </p>
+        ))}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading questions…</p>
+        ) : questions.length ? (
+          <ul className="space-y-4">
+            {questions.map((q) => (
+              <QuestionItem key={q.id} question={q} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No questions yet. Be the first to ask.</p>
+        )}
+
+        {hasNextPage && (
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading…" : "More questions"}
+          </Button>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,356 @@
+// client/src/components/product-reviews.tsx
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { StarInput, StarRating } from "@/components/star-rating";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toAbsoluteUrl } from "@/lib/queryClient";
+import { thumbnailUrl } from "@shared/images";
+import {
+  MAX_REVIEW_LENGTH,
+  MAX_REVIEW_PHOTOS,
+  formatRating,
+  type OwnReview,
+  type ProductReviewsResponse,
+  type PublicReview,
+  type RatingSummary,
+} from "@shared/reviews";
+import { BadgeCheck, Store, X } from "lucide-react";
+
+const ACCEPT = "image/jpeg,image/png,image/webp";
+const MAX_BYTES = 8 * 1024 * 1024;
+
+/** apiRequest throws "403: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Photos are sent one by one as raw bodies, like return photos */
+async function uploadPhoto(reviewId: string, file: File) {
+  const res = await fetch(toAbsoluteUrl(`/api/reviews/${reviewId}/photos`), {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || `Photo upload failed (${res.status})`);
+  }
+}
+
+function RatingBreakdown({ summary }: { summary: RatingSummary }) {
+  return (
+    <div className="space-y-3" data-testid="rating-summary">
+      <div className="flex items-end gap-3">
+        <span className="text-4xl font-bold" data-testid="text-rating-average">
+          {formatRating(summary.average)}
+        </span>
+        <div className="pb-1">
+          <StarRating value={summary.average} />
+          <p className="text-sm text-muted-foreground">
+            {summary.count} review{summary.count === 1 ? "" : "s"}
+          </p>
+        </div>
+      </div>
+      <ul className="space-y-1">
+        {[5, 4, 3, 2, 1].map((stars) => {
+          const n = summary.stars[stars - 1];
+          return (
+            <li key={stars} className="flex items-center gap-2 text-sm">
+              <span className="w-10 text-muted-foreground">{stars} star</span>
+              <Progress value={summary.count ? (n / summary.count) * 100 : 0} className="h-2 flex-1" />
+              <span className="w-8 text-right text-muted-foreground">{n}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function ReviewItem({ review }: { review: PublicReview }) {
+  return (
+    <li className="space-y-2 border-b pb-4 last:border-0" data-testid={`review-${review.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <StarRating value={review.rating} />
+        {review.title && <span className="font-medium">{review.title}</span>}
+      </div>
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        {review.author} · {new Date(review.createdAt).toLocaleDateString()}
+        <span className="inline-flex items-center gap-1 text-green-700">
+          <BadgeCheck className="h-3 w-3" /> Verified buyer
+        </span>
+      </p>
+      {review.body && <p className="whitespace-pre-line text-sm">{review.body}</p>}
+      {review.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {review.photos.map((p) => (
+            <a key={p.id} href={p.url} target="_blank" rel="noreferrer">
+              <img
+                src={thumbnailUrl(p.url, 320)}
+                alt="Buyer's photo"
+                className="h-20 w-20 rounded-md object-cover"
+                loading="lazy"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {review.vendorReply && (
+        <div className="ml-4 rounded-md bg-muted p-3 text-sm" data-testid={`review-reply-${review.id}`}>
+          <p className="mb-1 flex items-center gap-1 font-medium">
+            <Store className="h-3 w-3" /> Reply from the store
+          </p>
+          <p className="whitespace-pre-line text-muted-foreground">{review.vendorReply}</p>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/** Write, edit or delete the signed-in buyer's review */
+function ReviewForm({
+  productId,
+  mine,
+  onChanged,
+}: {
+  productId: string;
+  mine: OwnReview | null;
+  onChanged: () => void;
+}) {
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setRating(mine?.rating ?? 0);
+    setTitle(mine?.title ?? "");
+    setBody(mine?.body ?? "");
+    setFiles([]);
+  }, [mine]);
+
+  const photoSlots = MAX_REVIEW_PHOTOS - (mine?.photos.length ?? 0);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/products/${productId}/reviews`, {
+        rating,
+        title: title.trim() || null,
+        body: body.trim() || null,
+      });
+      const saved: { id: string } = await res.json();
+      for (const file of files) await uploadPhoto(saved.id, file);
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: mine ? "Review updated" : "Thanks for your review!" });
+    },
+    onError: (e) => {
+      onChanged(); // the review may have saved before a photo failed
+      toast({ title: "Couldn't save your review", description: errorMessage(e), variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/products/${productId}/reviews/mine`);
+    },
+    onSuccess: () => {
+      onChanged();
+      toast({ title: "Review deleted" });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't delete your review", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const removePhoto = useMutation({
+    mutationFn: async (photoId: string) => {
+      await apiRequest("DELETE", `/api/reviews/${mine!.id}/photos/${photoId}`);
+    },
+    onSuccess: onChanged,
+    onError: (e) =>
+      toast({ title: "Couldn't remove the photo", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <h3 className="font-semibold">{mine ? "Your review" : "Write a review"}</h3>
+        {mine?.status === "hidden" && (
+          <p className="rounded-md bg-destructive/10 p-2 text-sm text-destructive" data-testid="text-review-hidden">
+            A moderator has hidden your review{mine.moderationNote ? `: ${mine.moderationNote}` : "."}
+          </p>
+        )}
+        <StarInput value={rating} onChange={setRating} disabled={save.isPending} />
+        <Input
+          placeholder="Title (optional)"
+          value={title}
+          maxLength={120}
+          onChange={(e) => setTitle(e.target.value)}
+          data-testid="input-review-title"
+        />
+        <Textarea
+          placeholder="What did you like or dislike?"
+          value={body}
+          maxLength={MAX_REVIEW_LENGTH}
+          rows={4}
+          onChange={(e) => setBody(e.target.value)}
+          data-testid="input-review-body"
+        />
+
+        {mine && mine.photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {mine.photos.map((p) => (
+              <div key={p.id} className="relative">
+                <img src={thumbnailUrl(p.url, 320)} alt="" className="h-16 w-16 rounded-md object-cover" />
+                <button
+                  type="button"
+                  title="Remove photo"
+                  className="absolute -right-2 -top-2 rounded-full bg-background p-0.5 shadow"
+                  disabled={removePhoto.isPending}
+                  onClick={() => removePhoto.mutate(p.id)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {photoSlots > 0 && (
+          <div className="space-y-1">
+            <Label htmlFor={`review-photos-${productId}`}>
+              Photos (optional, up to {photoSlots} more, max 8 MB each)
+            </Label>
+            <Input
+              key={mine?.updatedAt ?? "new"} // clears the picked files once saved
+              id={`review-photos-${productId}`}
+              type="file"
+              accept={ACCEPT}
+              multiple
+              onChange={(e) => {
+                const picked = Array.from(e.target.files ?? []);
+                if (picked.length > photoSlots || picked.some((f) => f.size > MAX_BYTES)) {
+                  toast({
+                    title: "Too many or too large photos",
+                    description: `Choose up to ${photoSlots} photos under 8 MB each.`,
+                    variant: "destructive",
+                  });
+                  e.target.value = "";
+                  return;
+                }
+                setFiles(picked);
+              }}
+            />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            disabled={!rating || save.isPending}
+            onClick={() => save.mutate()}
+            data-testid="button-submit-review"
+          >
+            {save.isPending ? "Saving…" : mine ? "Update review" : "Post review"}
+          </Button>
+          {mine && (
+            <Button
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              disabled={remove.isPending}
+              onClick={() => {
+                if (confirm("Delete your review?")) remove.mutate();
+              }}
+              data-testid="button-delete-review"
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * The product page's reviews: rating breakdown, the buyer's own review form
+ * (verified buyers only) and published reviews, newest first.
+ */
+export function ProductReviews({ productId }: { productId: string }) {
+  const queryClient = useQueryClient();
+  const reviewsKey = [`/api/products/${productId}/reviews`];
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: reviewsKey,
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", `/api/products/${productId}/reviews?offset=${pageParam}`);
+      return (await res.json()) as ProductReviewsResponse;
+    },
+    getNextPageParam: (last) => last.nextOffset,
+  });
+
+  const first = data?.pages[0];
+  const reviews = data?.pages.flatMap((p) => p.reviews) ?? [];
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: reviewsKey });
+    // product page header, cards and listings show the average too
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  return (
+    <section id="reviews" className="mt-16 scroll-mt-24" data-testid="section-reviews">
+      <h2 className="mb-6 text-2xl font-bold">Customer Reviews</h2>
+      {isLoading || !first ? (
+        <p className="text-sm text-muted-foreground">Loading reviews…</p>
+      ) : (
+        <div className="grid gap-8 lg:grid-cols-[280px_1fr]">
+          <div className="space-y-6">
+            <RatingBreakdown summary={first.summary} />
+            {!first.canReview && !first.mine && (
+              <p className="text-sm text-muted-foreground">
+                Bought this item? You can review it once your order has been delivered.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {(first.canReview || first.mine) && (
+              <ReviewForm productId={productId} mine={first.mine} onChanged={onChanged} />
+            )}
+
+            {reviews.length ? (
+              <ul className="space-y-4">
+                {reviews.map((r) => (
+                  <ReviewItem key={r.id} review={r} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No reviews yet.</p>
+            )}
+
+            {hasNextPage && (
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? "Loading…" : "More reviews"}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
@@ -0,0 +1,337 @@
+// client/src/components/product-variants-dialog.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ImageUploadField } from "@/components/image-upload-field";
+import {
+  MAX_OPTIONS,
+  MAX_VARIANTS,
+  optionCombinations,
+  sameOptions,
+  variantLabel,
+  type ProductVariantsResponse,
+  type VariantOptions,
+} from "@shared/variants";
+import { Layers, Plus, Trash2 } from "lucide-react";
+
+/** Editable rows; values are kept as the text the vendor typed */
+type OptionRow = { name: string; values: string };
+type VariantRow = {
+  id?: string;
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  stock: string;
+  imageUrl: string;
+  isActive: boolean;
+};
+
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+const splitValues = (text: string) =>
+  text.split(",").map((v) => v.trim()).filter(Boolean);
+
+/** "Cotton Tee" + { Size: "M" } -> "COTTON-TEE-M" */
+const suggestSku = (productName: string, options: VariantOptions) =>
+  [productName, ...Object.values(options)]
+    .join("-")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 64);
+
+/**
+ * Options (Size, Colour…) and one row per combination with its own SKU,
+ * price, stock and image. Saving replaces the whole set; the product's own
+ * price and stock then follow its variants.
+ */
+export function ProductVariantsDialog({
+  product,
+  listKey,
+  disabled,
+}: {
+  product: { id: string; name?: string; price: number | string };
+  listKey: QueryKey;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<OptionRow[]>([]);
+  const [variants, setVariants] = useState<VariantRow[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const variantsKey = [`/api/products/${product.id}/variants`];
+
+  const { data, isLoading } = useQuery<ProductVariantsResponse>({
+    queryKey: variantsKey,
+    enabled: open,
+  });
+
+  // start from the saved set each time the dialog opens
+  useEffect(() => {
+    if (!open || !data) return;
+    setOptions(data.options.map((o) => ({ name: o.name, values: o.values.join(", ") })));
+    setVariants(
+      data.variants.map((v) => ({
+        id: v.id,
+        sku: v.sku,
+        options: v.options,
+        price: String(v.price),
+        stock: String(v.stock),
+        imageUrl: v.imageUrl ?? "",
+        isActive: v.isActive,
+      })),
+    );
+  }, [open, data]);
+
+  const parsedOptions = options
+    .map((o) => ({ name: o.name.trim(), values: splitValues(o.values) }))
+    .filter((o) => o.name && o.values.length);
+
+  /** One row per combination; rows that already exist keep their details */
+  const generate = () => {
+    const combos = optionCombinations(parsedOptions);
+    if (combos.length > MAX_VARIANTS) {
+      toast({
+        title: "Too many combinations",
+        description: `A product can have at most ${MAX_VARIANTS} variants.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setVariants(
+      combos.map(
+        (combo) =>
+          variants.find((v) => sameOptions(v.options, combo)) ?? {
+            sku: suggestSku(product.name ?? "SKU", combo),
+            options: combo,
+            price: String(product.price ?? ""),
+            stock: "0",
+            imageUrl: "",
+            isActive: true,
+          },
+      ),
+    );
+  };
+
+  const updateVariant = (index: number, patch: Partial<VariantRow>) =>
+    setVariants((rows) => rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const save = useMutation({
+    mutationFn: async (body: { options: typeof parsedOptions; variants: unknown[] }) => {
+      const res = await apiRequest("PUT", `/api/products/${product.id}/variants`, body);
+      return (await res.json()) as ProductVariantsResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(variantsKey, saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/products", product.id] });
+      queryClient.invalidateQueries({ queryKey: listKey });
+      toast({ title: saved.variants.length ? "Variants saved" : "Variants removed" });
+      setOpen(false);
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save variants", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const submit = (clear = false) =>
+    save.mutate(
+      clear
+        ? { options: [], variants: [] }
+        : {
+            options: parsedOptions,
+            variants: variants.map((v) => ({
+              id: v.id,
+              sku: v.sku.trim(),
+              options: v.options,
+              price: Number(v.price),
+              stock: Number(v.stock),
+              imageUrl: v.imageUrl.trim() || null,
+              isActive: v.isActive,
+            })),
+          },
+    );
+
+  const optionNames = parsedOptions.map((o) => o.name);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled}
+          title={disabled ? "Read-only" : "Variants"}
+          data-testid={`button-product-variants-${product.id}`}
+        >
+          <Layers className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Variants</DialogTitle>
+          <DialogDescription>
+            List the options buyers choose from (values separated by commas), then
+            generate a variant for each combination.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {options.map((o, i) => (
+                <div key={i} className="flex gap-2">
+                  <Input
+                    className="w-40"
+                    placeholder="Option, e.g. Size"
+                    value={o.name}
+                    onChange={(e) =>
+                      setOptions((rows) => rows.map((r, j) => (j === i ? { ...r, name: e.target.value } : r)))
+                    }
+                  />
+                  <Input
+                    placeholder="Values, e.g. S, M, L"
+                    value={o.values}
+                    onChange={(e) =>
+                      setOptions((rows) => rows.map((r, j) => (j === i ? { ...r, values: e.target.value } : r)))
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Remove option"
+                    onClick={() => setOptions((rows) => rows.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={options.length >= MAX_OPTIONS}
+                  onClick={() => setOptions((rows) => [...rows, { name: "", values: "" }])}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Option
+                </Button>
+                <Button size="sm" disabled={!parsedOptions.length} onClick={generate}>
+                  Generate Variants
+                </Button>
+              </div>
+            </div>
+
+            {variants.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead className="w-28">Price (NLe)</TableHead>
+                    <TableHead className="w-24">Stock</TableHead>
+                    <TableHead>Image</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variants.map((v, i) => (
+                    <TableRow key={v.id ?? variantLabel(v.options)}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {variantLabel(v.options, optionNames)}
+                      </TableCell>
+                      <TableCell>
+                        <Input value={v.sku} onChange={(e) => updateVariant(i, { sku: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={v.price}
+                          onChange={(e) => updateVariant(i, { price: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={v.stock}
+                          onChange={(e) => updateVariant(i, { stock: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell className="min-w-[220px]">
+                        <ImageUploadField
+                          value={v.imageUrl}
+                          onChange={(url) => updateVariant(i, { imageUrl: url })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={v.isActive}
+                          onCheckedChange={(isActive) => updateVariant(i, { isActive })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove variant"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setVariants((rows) => rows.filter((_, j) => j !== i))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex justify-between gap-3">
+              <Button
+                variant="outline"
+                className="text-destructive hover:text-destructive"
+                disabled={save.isPending || !data?.variants.length}
+                onClick={() => {
+                  if (confirm("Remove all variants? The product will be sold as a single item again.")) {
+                    submit(true);
+                  }
+                }}
+              >
+                Remove All Variants
+              </Button>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button disabled={save.isPending || !variants.length} onClick={() => submit()}>
+                  Save Variants
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+// client/src/components/question-moderation.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { QuestionSummaryCell } from "@/components/vendor-questions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ManagedQuestion, QuestionStatus } from "@shared/questions";
+
+const ALL = "all";
+
+/** apiRequest throws "404: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+function ModerationActions({ question, onDone }: { question: ManagedQuestion; onDone: () => void }) {
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  const moderate = useMutation({
+    mutationFn: async (status: QuestionStatus) => {
+      await apiRequest("PUT", `/api/questions/${question.id}/moderation`, {
+        status,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: (_data, status) => {
+      setNote("");
+      onDone();
+      toast({ title: status === "hidden" ? "Question hidden" : "Question published" });
+    },
+    onError: (e) =>
+      toast({ title: "Update failed", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  if (question.status === "hidden") {
+    return (
+      <div className="space-y-2">
+        {question.moderationNote && (
+          <p className="text-sm text-muted-foreground">Note: {question.moderationNote}</p>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={moderate.isPending}
+          onClick={() => moderate.mutate("published")}
+          data-testid={`button-publish-question-${question.id}`}
+        >
+          Publish again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Reason (shown to the asker)"
+        value={note}
+        maxLength={500}
+        onChange={(e) => setNote(e.target.value)}
+      />
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={moderate.isPending}
+        onClick={() => moderate.mutate("hidden")}
+        data-testid={`button-hide-question-${question.id}`}
+      >
+        Hide
+      </Button>
+    </div>
+  );
+}
+
+/** Admin: every store's product questions; hiding one removes it (and its answer) from the shop */
+export function QuestionModeration() {
+  const [status, setStatus] = useState<string>(ALL);
+  const queryClient = useQueryClient();
+
+  const { data: questions = [], isLoading } = useQuery<ManagedQuestion[]>({
+    queryKey: ["/api/questions", status === ALL ? {} : { status }],
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Product Questions</CardTitle>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40" data-testid="select-question-status"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All questions</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+            <SelectItem value="hidden">Hidden</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : questions.length ? (
+          <ul className="divide-y">
+            {questions.map((q) => (
+              <li key={q.id} className="grid gap-3 py-4 md:grid-cols-[1fr_16rem]" data-testid={`row-question-${q.id}`}>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{q.storeName}</p>
+                  <QuestionSummaryCell question={q} />
+                  {q.answer && (
+                    <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">
+                      Store answer: {q.answer}
+                    </p>
+                  )}
+                </div>
+                <ModerationActions question={q} onDone={refresh} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No questions.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+// client/src/components/refund-dialog.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+import { Undo2 } from "lucide-react";
+
+type RefundSummary = {
+  order: { id: string; status: string; total: string; shippingFee: string };
+  items: Array<{
+    orderItemId: string;
+    name: string;
+    price: string;
+    quantity: number;
+    refundedQuantity: number;
+  }>;
+  shippingRefunded: boolean;
+  refundedTotal: number;
+  refunds: Array<{ id: string; amount: string; method: string; reason: string; createdAt: string }>;
+};
+
+const METHODS = [
+  { value: "mobile_money", label: "Mobile money" },
+  { value: "bank", label: "Bank transfer" },
+  { value: "cash", label: "Cash" },
+] as const;
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+const nle = (n: number | string) => formatAmount(n, "NLE", 1);
+
+/**
+ * Admin: refund some lines (with quantities) or the whole order.
+ * Amounts are computed by the server from the order's price snapshot.
+ */
+export function RefundDialog({
+  orderId,
+  invalidate = [],
+}: {
+  orderId: string;
+  invalidate?: QueryKey[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [qty, setQty] = useState<Record<string, number>>({});
+  const [includeShipping, setIncludeShipping] = useState(false);
+  const [method, setMethod] = useState<(typeof METHODS)[number]["value"]>("mobile_money");
+  const [reason, setReason] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const summaryKey = [`/api/refunds/order/${orderId}`];
+  const { data: summary, isLoading } = useQuery<RefundSummary>({
+    queryKey: summaryKey,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const remaining = (i: RefundSummary["items"][number]) => i.quantity - i.refundedQuantity;
+  const selected = Object.entries(qty).filter(([, q]) => q > 0);
+  const estimate =
+    (summary?.items ?? []).reduce((s, i) => s + Number(i.price) * (qty[i.orderItemId] ?? 0), 0) +
+    (includeShipping && summary && !summary.shippingRefunded ? Number(summary.order.shippingFee) : 0);
+
+  const refund = useMutation({
+    mutationFn: async (full: boolean) => {
+      await apiRequest("POST", "/api/refunds", {
+        orderId,
+        full: full || undefined,
+        items: full
+          ? undefined
+          : selected.map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        includeShipping: includeShipping || undefined,
+        method,
+        reason: reason.trim(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: summaryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/refunds"] });
+      invalidate.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setQty({});
+      setIncludeShipping(false);
+      setReason("");
+      toast({ title: "Refund recorded" });
+    },
+    onError: (e) =>
+      toast({ title: "Refund failed", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const canSubmit = reason.trim().length >= 3 && !refund.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-refund-${orderId}`}>
+          <Undo2 className="h-4 w-4 mr-1" /> Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Refund order #{orderId.substring(0, 8)}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !summary ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Order total {nle(summary.order.total)} · already refunded {nle(summary.refundedTotal)}
+            </p>
+
+            <div className="space-y-2">
+              {summary.items.map((i) => (
+                <div key={i.orderItemId} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 truncate">
+                    {i.name}
+                    <span className="text-muted-foreground">
+                      {" "}· {nle(i.price)} · {remaining(i)} of {i.quantity} refundable
+                    </span>
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={remaining(i)}
+                    disabled={remaining(i) === 0}
+                    className="w-20"
+                    value={qty[i.orderItemId] ?? 0}
+                    onChange={(e) =>
+                      setQty({
+                        ...qty,
+                        [i.orderItemId]: Math.min(remaining(i), Math.max(0, Number(e.target.value) || 0)),
+                      })
+                    }
+                  />
+                </div>
+              ))}
+              {!summary.shippingRefunded && Number(summary.order.shippingFee) > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={includeShipping}
+                    onCheckedChange={(v) => setIncludeShipping(v === true)}
+                  />
+                  Include shipping ({nle(summary.order.shippingFee)})
+                </label>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(v) => setMethod(v as typeof method)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {METHODS.map((m) => (
+                      <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 text-right">
+                <Label>Selected</Label>
+                <p className="font-semibold pt-2">{nle(estimate)}</p>
+              </div>
+            </div>
+
+            <Textarea
+              placeholder="Reason (shown to the buyer)"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                disabled={!canSubmit || (!selected.length && !includeShipping)}
+                onClick={() => refund.mutate(false)}
+              >
+                Refund selected
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!canSubmit}
+                onClick={() => refund.mutate(true)}
+              >
+                Refund everything left
+              </Button>
+            </div>
+
+            {summary.refunds.length > 0 && (
+              <div className="border-t pt-3 space-y-1 text-sm">
+                {summary.refunds.map((r) => (
+                  <div key={r.id} className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {new Date(r.createdAt).toLocaleDateString()} · {r.method.replace("_", " ")} · {r.reason}
+                    </span>
+                    <span>{nle(r.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
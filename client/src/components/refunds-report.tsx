@@ -0,0 +1,93 @@
+// client/src/components/refunds-report.tsx
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { formatAmount } from "@/lib/currency";
+
+type RefundsReport = {
+  refunds: Array<{
+    id: string;
+    orderId: string;
+    amount: string;
+    method: string;
+    reason: string;
+    createdAt: string;
+    customerName: string;
+    orderStatus: string;
+  }>;
+  totals: Array<{ method: string; count: number; amount: string }>;
+};
+
+const nle = (n: number | string) => formatAmount(n, "NLE", 1);
+
+/** Admin: refunded money per method and the latest refunds */
+export function RefundsReport() {
+  const { data, isLoading, isError, error } = useQuery<RefundsReport>({
+    queryKey: ["/api/refunds"],
+    staleTime: 10_000,
+  });
+
+  const grandTotal = (data?.totals ?? []).reduce((s, t) => s + Number(t.amount), 0);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader><CardTitle>Refunds</CardTitle></CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{(error as Error)?.message}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-6 text-sm">
+              <div>
+                <span className="text-muted-foreground">Total refunded </span>
+                <span className="font-semibold" data-testid="text-refunds-total">{nle(grandTotal)}</span>
+              </div>
+              {data!.totals.map((t) => (
+                <div key={t.method}>
+                  <span className="text-muted-foreground">{t.method.replace("_", " ")} </span>
+                  <span className="font-medium">{nle(t.amount)} ({t.count})</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data!.refunds.slice(0, 20).map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell>{new Date(r.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="font-mono text-sm">#{r.orderId.substring(0, 8)}</TableCell>
+                      <TableCell>{r.customerName}</TableCell>
+                      <TableCell>{r.method.replace("_", " ")}</TableCell>
+                      <TableCell className="max-w-[24ch] truncate">{r.reason}</TableCell>
+                      <TableCell className="text-right font-medium">{nle(r.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {!data!.refunds.length && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">No refunds yet.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+// client/src/components/return-request-dialog.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, toAbsoluteUrl } from "@/lib/queryClient";
+import { PackageX } from "lucide-react";
+
+/** One return as returned by /api/returns/mine and /api/returns/vendor/:id */
+export type ReturnDetail = {
+  id: string;
+  orderId: string;
+  vendorId: string;
+  reason: string;
+  status: string;
+  vendorNote: string | null;
+  createdAt: string;
+  updatedAt: string;
+  items: Array<{
+    orderItemId: string;
+    quantity: number;
+    orderItem: {
+      name: string;
+      variantLabel?: string | null;
+      imageUrl: string | null;
+      price: string;
+      productId: string;
+    };
+  }>;
+  photos: Array<{ id: string }>;
+  vendor: { storeName: string } | null;
+  order?: { customerName: string; customerPhone: string | null };
+};
+
+type Eligibility = {
+  deliveredAt: string | null;
+  windowDays: number;
+  deadline: string | null;
+  open: boolean;
+  items: Array<{ orderItemId: string; name: string; quantity: number; returnableQuantity: number }>;
+};
+
+export function returnBadgeVariant(status: string) {
+  if (status === "rejected") return "destructive" as const;
+  if (status === "restocked") return "default" as const;
+  if (status === "requested") return "outline" as const;
+  return "secondary" as const;
+}
+
+/** Order line name with its variant, e.g. "Tee (Size: M)" */
+export const itemName = (i: { name: string; variantLabel?: string | null }) =>
+  i.variantLabel ? `${i.name} (${i.variantLabel})` : i.name;
+
+export const returnPhotoUrl = (returnId: string, photoId: string) =>
+  toAbsoluteUrl(`/api/returns/${returnId}/photos/${photoId}`);
+
+const ACCEPT = "image/jpeg,image/png,image/webp";
+const MAX_BYTES = 5 * 1024 * 1024;
+const MAX_PHOTOS = 5;
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Photos are sent one by one as raw bodies, like payment receipts */
+async function uploadPhoto(returnId: string, file: File) {
+  const res = await fetch(toAbsoluteUrl(`/api/returns/${returnId}/photos`), {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || `Photo upload failed (${res.status})`);
+  }
+}
+
+/**
+ * Buyer: ask the store to take back some of a delivered order's items.
+ * The store's return window and already-requested quantities come from the API.
+ */
+export function ReturnRequestDialog({
+  orderId,
+  invalidate = [],
+}: {
+  orderId: string;
+  invalidate?: QueryKey[];
+}) {
+  const [open, setOpen] = useState(false);
+  const [qty, setQty] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const eligibilityKey = [`/api/returns/eligibility/${orderId}`];
+  const { data: eligibility, isLoading } = useQuery<Eligibility>({
+    queryKey: eligibilityKey,
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const selected = Object.entries(qty).filter(([, q]) => q > 0);
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/returns", {
+        orderId,
+        items: selected.map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        reason: reason.trim(),
+      });
+      const created: { id: string } = await res.json();
+      for (const photo of photos) await uploadPhoto(created.id, photo);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eligibilityKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/returns/mine"] });
+      invalidate.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      setQty({});
+      setReason("");
+      setPhotos([]);
+      setOpen(false);
+      toast({ title: "Return requested", description: "The store will review it shortly." });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't request a return", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={`button-return-${orderId}`}>
+          <PackageX className="h-4 w-4 mr-1" /> Return items
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Return items from #{orderId.substring(0, 8)}</DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !eligibility ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : !eligibility.open ? (
+          <p className="text-sm text-muted-foreground">
+            {eligibility.windowDays === 0
+              ? "This store does not accept returns."
+              : `Returns were accepted for ${eligibility.windowDays} days after delivery.`}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {eligibility.deadline && (
+              <p className="text-sm text-muted-foreground">
+                Request by {new Date(eligibility.deadline).toLocaleDateString()}.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {eligibility.items.map((i) => (
+                <div key={i.orderItemId} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 truncate">
+                    {i.name}
+                    <span className="text-muted-foreground">
+                      {" "}· {i.returnableQuantity} of {i.quantity} returnable
+                    </span>
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={i.returnableQuantity}
+                    disabled={i.returnableQuantity === 0}
+                    className="w-20"
+                    value={qty[i.orderItemId] ?? 0}
+                    onChange={(e) =>
+                      setQty({
+                        ...qty,
+                        [i.orderItemId]: Math.min(
+                          i.returnableQuantity,
+                          Math.max(0, Number(e.target.value) || 0),
+                        ),
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Textarea
+              placeholder="What's wrong with the item(s)?"
+              value={reason}
+              maxLength={1000}
+              onChange={(e) => setReason(e.target.value)}
+            />
+
+            <div className="space-y-1">
+              <Label htmlFor={`return-photos-${orderId}`}>
+                Photos (optional, up to {MAX_PHOTOS}, max 5 MB each)
+              </Label>
+              <Input
+                id={`return-photos-${orderId}`}
+                type="file"
+                accept={ACCEPT}
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  if (files.length > MAX_PHOTOS || files.some((f) => f.size > MAX_BYTES)) {
+                    toast({
+                      title: "Too many or too large photos",
+                      description: `Choose up to ${MAX_PHOTOS} photos under 5 MB each.`,
+                      variant: "destructive",
+                    });
+                    e.target.value = "";
+                    return;
+                  }
+                  setPhotos(files);
+                }}
+              />
+            </div>
+
+            <Button
+              className="w-full"
+              disabled={!selected.length || reason.trim().length < 3 || submit.isPending}
+              onClick={() => submit.mutate()}
+            >
+              {submit.isPending ? "Sending…" : "Request return"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Compact list of a buyer's returns for one order */
+export function ReturnStatusList({ returns }: { returns: ReturnDetail[] }) {
+  if (!returns.length) return null;
+  return (
+    <div className="space-y-2 text-sm">
+      {returns.map((r) => (
+        <div key={r.id} className="rounded-md border p-2 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span>
+              Return · {r.items.map((i) => `${i.quantity} × ${itemName(i.orderItem)}`).join(", ")}
+            </span>
+            <Badge variant={returnBadgeVariant(r.status)}>{r.status}</Badge>
+          </div>
+          {r.vendorNote && <p className="text-muted-foreground">Store: {r.vendorNote}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
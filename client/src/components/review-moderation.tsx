@@ -0,0 +1,141 @@
+// client/src/components/review-moderation.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { ReviewSummaryCell } from "@/components/vendor-reviews";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ManagedReview, ReviewStatus } from "@shared/reviews";
+
+const ALL = "all";
+
+/** apiRequest throws "404: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+function ModerationActions({ review, onDone }: { review: ManagedReview; onDone: () => void }) {
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+
+  const moderate = useMutation({
+    mutationFn: async (status: ReviewStatus) => {
+      await apiRequest("PUT", `/api/reviews/${review.id}/moderation`, {
+        status,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: (_data, status) => {
+      setNote("");
+      onDone();
+      toast({ title: status === "hidden" ? "Review hidden" : "Review published" });
+    },
+    onError: (e) =>
+      toast({ title: "Update failed", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  if (review.status === "hidden") {
+    return (
+      <div className="space-y-2">
+        {review.moderationNote && (
+          <p className="text-sm text-muted-foreground">Note: {review.moderationNote}</p>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={moderate.isPending}
+          onClick={() => moderate.mutate("published")}
+          data-testid={`button-publish-review-${review.id}`}
+        >
+          Publish again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Reason (shown to the author)"
+        value={note}
+        maxLength={500}
+        onChange={(e) => setNote(e.target.value)}
+      />
+      <Button
+        size="sm"
+        variant="destructive"
+        disabled={moderate.isPending}
+        onClick={() => moderate.mutate("hidden")}
+        data-testid={`button-hide-review-${review.id}`}
+      >
+        Hide
+      </Button>
+    </div>
+  );
+}
+
+/** Admin: every store's reviews; hiding one removes it from the shop and the ratings */
+export function ReviewModeration() {
+  const [status, setStatus] = useState<string>(ALL);
+  const queryClient = useQueryClient();
+
+  const { data: reviews = [], isLoading } = useQuery<ManagedReview[]>({
+    queryKey: ["/api/reviews", status === ALL ? {} : { status }],
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Reviews</CardTitle>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40" data-testid="select-review-status"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All reviews</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+            <SelectItem value="hidden">Hidden</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : reviews.length ? (
+          <ul className="divide-y">
+            {reviews.map((r) => (
+              <li key={r.id} className="grid gap-3 py-4 md:grid-cols-[1fr_16rem]" data-testid={`row-review-${r.id}`}>
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{r.storeName}</p>
+                  <ReviewSummaryCell review={r} />
+                  {r.vendorReply && (
+                    <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">
+                      Store reply: {r.vendorReply}
+                    </p>
+                  )}
+                </div>
+                <ModerationActions review={r} onDone={refresh} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No reviews.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
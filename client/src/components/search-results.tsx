@@ -0,0 +1,111 @@
+// client/src/components/search-results.tsx
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrency } from "@/lib/currency";
+import { thumbnailUrl } from "@shared/images";
+import type { HighlightSegment, SearchResponse } from "@shared/search";
+import { ImageOff } from "lucide-react";
+
+/** Text with the matched words wrapped in <mark> */
+function Highlighted({ segments, fallback }: { segments: HighlightSegment[]; fallback?: string }) {
+  if (!segments.length) return <>{fallback ?? ""}</>;
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.match ? (
+          <mark key={i} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-700">
+            {s.text}
+          </mark>
+        ) : (
+          <span key={i}>{s.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/** Ranked results of GET /api/search for the navbar's `?search=` */
+export function SearchResults({ query }: { query: string }) {
+  const { format } = useCurrency();
+  const { data, isLoading, isError } = useQuery<SearchResponse>({
+    queryKey: ["/api/search", { q: query }],
+  });
+  const results = data?.results ?? [];
+
+  return (
+    <section className="py-12">
+      <div className="container mx-auto px-4">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h2 className="text-2xl font-bold" data-testid="text-search-title">
+            Results for “{query}”
+          </h2>
+          <Button variant="outline" asChild data-testid="button-clear-search">
+            <Link href="/">Clear Search</Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+        ) : isError ? (
+          <p className="py-12 text-center text-lg text-destructive">Search failed. Please try again.</p>
+        ) : results.length === 0 ? (
+          <p className="py-12 text-center text-lg text-muted-foreground" data-testid="text-no-results">
+            No products match “{query}”. Try different or fewer words.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {results.map((r) => (
+              <Link key={r.id} href={`/products/${r.id}`}>
+                <Card className="cursor-pointer transition-shadow hover:shadow-md" data-testid={`card-search-result-${r.id}`}>
+                  <CardContent className="flex gap-4 p-4">
+                    <div className="h-24 w-24 shrink-0 overflow-hidden rounded-md bg-muted">
+                      {r.imageUrl ? (
+                        <img
+                          src={thumbnailUrl(r.imageUrl, 320)}
+                          alt={r.name}
+                          className="h-full w-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+                          <ImageOff className="h-5 w-5" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <h3 className="font-semibold">
+                        <Highlighted segments={r.highlight.name} fallback={r.name} />
+                      </h3>
+                      <p className="line-clamp-2 text-sm text-muted-foreground">
+                        <Highlighted segments={r.highlight.description} />
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {r.categoryName} · {r.storeName}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end justify-between">
+                      <span className="font-bold text-primary">
+                        {r.hasVariants ? `From ${format(Number(r.price))}` : format(Number(r.price))}
+                      </span>
+                      <Badge variant={r.stock > 0 ? "secondary" : "destructive"}>
+                        {r.stock > 0 ? "In stock" : "Out of stock"}
+                      </Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+// client/src/components/star-rating.tsx
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+/** Five stars filled to the nearest whole star (read-only) */
+export function StarRating({
+  value,
+  className = "h-4 w-4",
+}: {
+  value: number | null;
+  className?: string;
+}) {
+  const filled = Math.round(value ?? 0);
+  return (
+    <span className="inline-flex" aria-label={value === null ? "Not rated" : `${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <Star
+          key={n}
+          className={cn(className, n <= filled ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40")}
+        />
+      ))}
+    </span>
+  );
+}
+
+/** Pick 1–5 stars */
+export function StarInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: number;
+  onChange: (rating: number) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          role="radio"
+          aria-checked={value === n}
+          aria-label={`${n} star${n === 1 ? "" : "s"}`}
+          disabled={disabled}
+          onClick={() => onChange(n)}
+          data-testid={`button-rating-${n}`}
+        >
+          <Star
+            className={cn(
+              "h-6 w-6 transition-colors",
+              n <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40 hover:text-yellow-400",
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+// client/src/components/variant-picker.tsx
+import { Button } from "@/components/ui/button";
+import type { ProductVariantsResponse, VariantOptions } from "@shared/variants";
+
+type Variant = ProductVariantsResponse["variants"][number];
+
+/** The active variant matching every selected option, if any */
+export function findVariant(variants: Variant[], selected: VariantOptions): Variant | undefined {
+  return variants.find(
+    (v) => v.isActive && Object.entries(v.options).every(([k, val]) => selected[k] === val),
+  );
+}
+
+/**
+ * One row of buttons per option (Size, Colour…). A value is disabled when no
+ * active variant has it; picking a value that doesn't go with the other
+ * choices starts the selection over from that value.
+ */
+export function VariantPicker({
+  options,
+  variants,
+  selected,
+  onChange,
+}: {
+  options: ProductVariantsResponse["options"];
+  variants: Variant[];
+  selected: VariantOptions;
+  onChange: (selected: VariantOptions) => void;
+}) {
+  const available = (name: string, value: string) =>
+    variants.some((v) => v.isActive && v.options[name] === value);
+
+  const compatible = (choice: VariantOptions) =>
+    variants.some(
+      (v) => v.isActive && Object.entries(choice).every(([k, val]) => v.options[k] === val),
+    );
+
+  return (
+    <div className="space-y-4">
+      {options.map((o) => (
+        <div key={o.name}>
+          <p className="mb-2 text-sm font-medium">
+            {o.name}
+            {selected[o.name] && (
+              <span className="ml-2 font-normal text-muted-foreground">{selected[o.name]}</span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {o.values.map((value) => {
+              const isSelected = selected[o.name] === value;
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? "default" : "outline"}
+                  aria-pressed={isSelected}
+                  disabled={!available(o.name, value)}
+                  onClick={() => {
+                    const next = { ...selected, [o.name]: value };
+                    // drop the other choices if they no longer go together
+                    onChange(compatible(next) ? next : { [o.name]: value });
+                  }}
+                  data-testid={`button-option-${o.name}-${value}`}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
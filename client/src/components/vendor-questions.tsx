@@ -0,0 +1,161 @@
+// client/src/components/vendor-questions.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { reviewBadgeVariant } from "@/components/vendor-reviews";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_ANSWER_LENGTH, type ManagedQuestion } from "@shared/questions";
+
+export const vendorQuestionsKey = (vendorId: string) => [`/api/questions/vendor/${vendorId}`];
+
+/** apiRequest throws "403: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Product, asker and text of a question as listed in the dashboards */
+export function QuestionSummaryCell({ question }: { question: ManagedQuestion }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">{question.productName}</span>
+        <Badge variant={reviewBadgeVariant(question.status)}>{question.status}</Badge>
+        {!question.answer && <Badge variant="outline">unanswered</Badge>}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {question.author} · {new Date(question.createdAt).toLocaleDateString()}
+      </p>
+      <p className="whitespace-pre-line text-sm">{question.body}</p>
+    </div>
+  );
+}
+
+function AnswerForm({ question, onDone }: { question: ManagedQuestion; onDone: () => void }) {
+  const [editing, setEditing] = useState(!question.answer);
+  const [answer, setAnswer] = useState(question.answer ?? "");
+  const { toast } = useToast();
+
+  const save = useMutation({
+    mutationFn: async (text: string | null) => {
+      await apiRequest("PUT", `/api/questions/${question.id}/answer`, { answer: text });
+    },
+    onSuccess: (_data, text) => {
+      setEditing(!text);
+      if (!text) setAnswer("");
+      onDone();
+      toast({ title: text ? "Answer saved" : "Answer removed" });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save the answer", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  if (!editing) {
+    return (
+      <div className="space-y-2">
+        <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">{question.answer}</p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setAnswer(question.answer ?? "");
+            setEditing(true);
+          }}
+          data-testid={`button-edit-answer-${question.id}`}
+        >
+          Edit answer
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        rows={3}
+        maxLength={MAX_ANSWER_LENGTH}
+        placeholder="Your public answer"
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        data-testid={`input-answer-${question.id}`}
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          disabled={save.isPending || !answer.trim()}
+          onClick={() => save.mutate(answer.trim())}
+          data-testid={`button-answer-${question.id}`}
+        >
+          {question.answer ? "Save" : "Answer"}
+        </Button>
+        {question.answer && (
+          <>
+            <Button size="sm" variant="ghost" disabled={save.isPending} onClick={() => save.mutate(null)}>
+              Remove
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Vendor dashboard: shoppers' questions about the store's products,
+ * unanswered first. Answers are shown on the product page.
+ */
+export function VendorQuestions({ vendorId, canManage }: { vendorId: string; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const { data: questions = [], isLoading } = useQuery<ManagedQuestion[]>({
+    queryKey: vendorQuestionsKey(vendorId),
+    staleTime: 0,
+  });
+  const unanswered = questions.filter((q) => !q.answer && q.status === "published").length;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Questions</CardTitle>
+        {unanswered > 0 && (
+          <span className="text-sm text-muted-foreground" data-testid="text-unanswered-questions">
+            {unanswered} awaiting an answer
+          </span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : questions.length ? (
+          <ul className="divide-y">
+            {questions.map((q) => (
+              <li key={q.id} className="grid gap-3 py-4 md:grid-cols-[1fr_18rem]" data-testid={`row-question-${q.id}`}>
+                <QuestionSummaryCell question={q} />
+                {canManage ? (
+                  <AnswerForm
+                    question={q}
+                    onDone={() => queryClient.invalidateQueries({ queryKey: vendorQuestionsKey(vendorId) })}
+                  />
+                ) : (
+                  q.answer && <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">{q.answer}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No questions yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+// client/src/components/vendor-returns.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryKey } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  returnBadgeVariant,
+  itemName,
+  returnPhotoUrl,
+  type ReturnDetail,
+} from "@/components/return-request-dialog";
+import { RETURN_TRANSITIONS, type ReturnStatus } from "@shared/return-status";
+
+const ACTION_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approve",
+  rejected: "Reject",
+  received: "Mark received",
+  restocked: "Restock",
+};
+
+/** apiRequest throws "409: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+function ReturnActions({
+  request,
+  onDone,
+}: {
+  request: ReturnDetail;
+  onDone: () => void;
+}) {
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const next = RETURN_TRANSITIONS[request.status as ReturnStatus] ?? [];
+
+  const move = useMutation({
+    mutationFn: async (status: ReturnStatus) => {
+      await apiRequest("PUT", `/api/returns/${request.id}/status`, {
+        status,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setNote("");
+      onDone();
+    },
+    onError: (e) =>
+      toast({ title: "Update failed", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  if (!next.length) return <span className="text-sm text-muted-foreground">—</span>;
+
+  return (
+    <div className="flex flex-col gap-2 min-w-[12rem]">
+      {request.status === "requested" && (
+        <Input
+          placeholder="Note to buyer (optional)"
+          value={note}
+          maxLength={500}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      )}
+      <div className="flex gap-2">
+        {next.map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={status === "rejected" ? "destructive" : "outline"}
+            disabled={move.isPending}
+            onClick={() => move.mutate(status)}
+            data-testid={`button-return-${status}-${request.id}`}
+          >
+            {ACTION_LABELS[status]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Vendor dashboard: the store's return window and its return requests.
+ * Restocking a return puts the quantities back into product stock.
+ */
+export function VendorReturns({
+  vendorId,
+  returnWindowDays,
+  canManage,
+  invalidate = [],
+}: {
+  vendorId: string;
+  returnWindowDays: number;
+  canManage: boolean;
+  invalidate?: QueryKey[];
+}) {
+  const [windowDays, setWindowDays] = useState(String(returnWindowDays));
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => setWindowDays(String(returnWindowDays)), [returnWindowDays]);
+
+  const returnsKey = [`/api/returns/vendor/${vendorId}`];
+  const { data: returns = [], isLoading } = useQuery<ReturnDetail[]>({
+    queryKey: returnsKey,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: returnsKey });
+    invalidate.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const savePolicy = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/vendors/${vendorId}/return-policy`, {
+        returnWindowDays: Number(windowDays),
+      });
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Return policy saved" });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader><CardTitle>Returns</CardTitle></CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="return-window">Return window (days after delivery, 0 = no returns)</Label>
+            <Input
+              id="return-window"
+              type="number"
+              min={0}
+              max={90}
+              className="w-32"
+              value={windowDays}
+              disabled={!canManage}
+              onChange={(e) => setWindowDays(e.target.value)}
+            />
+          </div>
+          {canManage && (
+            <Button
+              variant="outline"
+              disabled={savePolicy.isPending || Number(windowDays) === returnWindowDays}
+              onClick={() => savePolicy.mutate()}
+            >
+              Save
+            </Button>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returns.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="font-mono text-sm">#{r.orderId.substring(0, 8)}</TableCell>
+                  <TableCell>{r.order?.customerName ?? "—"}</TableCell>
+                  <TableCell className="text-sm">
+                    {r.items.map((i) => (
+                      <div key={i.orderItemId}>{i.quantity} × {itemName(i.orderItem)}</div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-sm max-w-[28ch]">
+                    <p>{r.reason}</p>
+                    {r.photos.length > 0 && (
+                      <div className="flex gap-1 mt-1">
+                        {r.photos.map((p) => (
+                          <a key={p.id} href={returnPhotoUrl(r.id, p.id)} target="_blank" rel="noreferrer">
+                            <img
+                              src={returnPhotoUrl(r.id, p.id)}
+                              alt="Return photo"
+                              className="h-10 w-10 rounded object-cover border"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={returnBadgeVariant(r.status)}>{r.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <ReturnActions request={r} onDone={refresh} />
+                    ) : (
+                      <span className="text-sm text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!returns.length && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                    {isLoading ? "Loading…" : "No return requests."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+// client/src/components/vendor-reviews.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { StarRating } from "@/components/star-rating";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { thumbnailUrl } from "@shared/images";
+import { formatRating, type ManagedReview, type RatingSummary } from "@shared/reviews";
+
+/** GET /api/reviews/vendor/:vendorId */
+export type VendorReviewsResponse = { summary: RatingSummary; reviews: ManagedReview[] };
+
+export const vendorReviewsKey = (vendorId: string) => [`/api/reviews/vendor/${vendorId}`];
+
+export function reviewBadgeVariant(status: string) {
+  return status === "hidden" ? ("destructive" as const) : ("secondary" as const);
+}
+
+/** apiRequest throws "403: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+/** Stars, text and photos of a review as listed in the dashboards */
+export function ReviewSummaryCell({ review }: { review: ManagedReview }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <StarRating value={review.rating} />
+        <span className="text-sm font-medium">{review.productName}</span>
+        <Badge variant={reviewBadgeVariant(review.status)}>{review.status}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {review.author} · {new Date(review.createdAt).toLocaleDateString()}
+      </p>
+      {review.title && <p className="text-sm font-medium">{review.title}</p>}
+      {review.body && <p className="whitespace-pre-line text-sm">{review.body}</p>}
+      {review.photos.length > 0 && (
+        <div className="flex gap-1">
+          {review.photos.map((p) => (
+            <a key={p.id} href={p.url} target="_blank" rel="noreferrer">
+              <img src={thumbnailUrl(p.url, 320)} alt="" className="h-12 w-12 rounded object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReplyForm({
+  review,
+  onDone,
+}: {
+  review: ManagedReview;
+  onDone: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [reply, setReply] = useState(review.vendorReply ?? "");
+  const { toast } = useToast();
+
+  const save = useMutation({
+    mutationFn: async (text: string | null) => {
+      await apiRequest("PUT", `/api/reviews/${review.id}/reply`, { reply: text });
+    },
+    onSuccess: () => {
+      setEditing(false);
+      onDone();
+      toast({ title: "Reply saved" });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save the reply", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  if (!editing) {
+    return (
+      <div className="space-y-2">
+        {review.vendorReply && (
+          <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">{review.vendorReply}</p>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setReply(review.vendorReply ?? "");
+            setEditing(true);
+          }}
+          data-testid={`button-reply-review-${review.id}`}
+        >
+          {review.vendorReply ? "Edit reply" : "Reply"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        rows={3}
+        maxLength={1000}
+        placeholder="Your public reply"
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" disabled={save.isPending || !reply.trim()} onClick={() => save.mutate(reply.trim())}>
+          Save
+        </Button>
+        {review.vendorReply && (
+          <Button size="sm" variant="ghost" disabled={save.isPending} onClick={() => save.mutate(null)}>
+            Remove
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Vendor dashboard: the store's rating and its product reviews, with a
+ * public reply to each. Hidden reviews were removed by an admin.
+ */
+export function VendorReviews({ vendorId, canManage }: { vendorId: string; canManage: boolean }) {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery<VendorReviewsResponse>({
+    queryKey: vendorReviewsKey(vendorId),
+    staleTime: 0,
+  });
+  const reviews = data?.reviews ?? [];
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Reviews</CardTitle>
+        {data && (
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <StarRating value={data.summary.average} />
+            {formatRating(data.summary.average)} from {data.summary.count} review
+            {data.summary.count === 1 ? "" : "s"}
+          </span>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : reviews.length ? (
+          <ul className="divide-y">
+            {reviews.map((r) => (
+              <li key={r.id} className="grid gap-3 py-4 md:grid-cols-[1fr_18rem]" data-testid={`row-review-${r.id}`}>
+                <ReviewSummaryCell review={r} />
+                {canManage ? (
+                  <ReplyForm
+                    review={r}
+                    onDone={() => queryClient.invalidateQueries({ queryKey: vendorReviewsKey(vendorId) })}
+                  />
+                ) : (
+                  r.vendorReply && (
+                    <p className="rounded-md bg-muted p-2 text-sm whitespace-pre-line">{r.vendorReply}</p>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No reviews yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+// client/src/components/vendor-statement.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+
+type PayoutAccount = {
+  method: "mobile_money" | "bank";
+  provider: string;
+  accountName: string;
+  accountNumber: string;
+};
+
+type Statement = {
+  balance: number;
+  commissionPercent: number | null;
+  defaultCommissionPercent: number;
+  account: PayoutAccount | null;
+  entries: Array<{
+    id: string;
+    type: string;
+    gross: string;
+    commission: string;
+    amount: string;
+    note: string | null;
+    createdAt: string;
+  }>;
+  payouts: Array<{
+    id: string;
+    amount: string;
+    status: string;
+    reference: string | null;
+    failureReason: string | null;
+    createdAt: string;
+  }>;
+};
+
+const ENTRY_LABELS: Record<string, string> = {
+  sale: "Sale",
+  refund: "Refund",
+  payout: "Payout",
+  payout_reversal: "Payout reversed",
+};
+
+const nle = (n: number | string) => formatAmount(n, "NLE", 1);
+
+/** apiRequest throws "400: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+const EMPTY_ACCOUNT: PayoutAccount = {
+  method: "mobile_money",
+  provider: "orange_money",
+  accountName: "",
+  accountNumber: "",
+};
+
+/**
+ * Vendor dashboard: what the platform owes the store, where payouts go,
+ * and the ledger behind the balance (sales net of commission, refunds, payouts).
+ */
+export function VendorStatement({
+  vendorId,
+  canManage,
+}: {
+  vendorId: string;
+  canManage: boolean;
+}) {
+  const [account, setAccount] = useState<PayoutAccount>(EMPTY_ACCOUNT);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const statementKey = [`/api/payouts/vendor/${vendorId}`];
+  const { data, isLoading, isError, error } = useQuery<Statement>({
+    queryKey: statementKey,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (data?.account) setAccount(data.account);
+  }, [data?.account]);
+
+  const saveAccount = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/payouts/vendor/${vendorId}/account`, account);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: statementKey });
+      toast({ title: "Payout details saved" });
+    },
+    onError: (e) =>
+      toast({ title: "Couldn't save", description: errorMessage(e), variant: "destructive" }),
+  });
+
+  const rate = data?.commissionPercent ?? data?.defaultCommissionPercent;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader><CardTitle>Balance & Payouts</CardTitle></CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : isError || !data ? (
+          <p className="text-sm text-destructive">{(error as Error)?.message || "Couldn't load your statement."}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-8">
+              <div>
+                <p className="text-sm text-muted-foreground">Available balance</p>
+                <p className="text-2xl font-bold" data-testid="text-vendor-balance">{nle(data.balance)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Platform commission</p>
+                <p className="text-2xl font-bold">{rate}%</p>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-4 gap-2 items-end">
+              <div className="space-y-1">
+                <Label>Payout method</Label>
+                <Select
+                  value={account.method}
+                  disabled={!canManage}
+                  onValueChange={(v) => setAccount({ ...account, method: v as PayoutAccount["method"] })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mobile_money">Mobile money</SelectItem>
+                    <SelectItem value="bank">Bank transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{account.method === "bank" ? "Bank" : "Provider"}</Label>
+                <Input
+                  value={account.provider}
+                  disabled={!canManage}
+                  placeholder={account.method === "bank" ? "e.g. Rokel Commercial Bank" : "orange_money"}
+                  onChange={(e) => setAccount({ ...account, provider: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Account name</Label>
+                <Input
+                  value={account.accountName}
+                  disabled={!canManage}
+                  onChange={(e) => setAccount({ ...account, accountName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>{account.method === "bank" ? "Account number" : "Phone number"}</Label>
+                <Input
+                  value={account.accountNumber}
+                  disabled={!canManage}
+                  onChange={(e) => setAccount({ ...account, accountNumber: e.target.value })}
+                />
+              </div>
+            </div>
+            {canManage && (
+              <Button
+                variant="outline"
+                disabled={saveAccount.isPending}
+                onClick={() => saveAccount.mutate()}
+              >
+                Save payout details
+              </Button>
+            )}
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                    <TableHead className="text-right">Commission</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.entries.map((e) => (
+                    <TableRow key={e.id}>
+                      <TableCell>{new Date(e.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>{ENTRY_LABELS[e.type] ?? e.type}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{e.note}</TableCell>
+                      <TableCell className="text-right">{nle(e.gross)}</TableCell>
+                      <TableCell className="text-right">{nle(e.commission)}</TableCell>
+                      <TableCell className="text-right font-medium">{nle(e.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {!data.entries.length && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                        No paid orders yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {data.payouts.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium">Payouts</p>
+                {data.payouts.map((p) => (
+                  <div key={p.id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {new Date(p.createdAt).toLocaleDateString()}
+                      {p.reference ? ` · ref ${p.reference}` : ""}
+                      {p.failureReason ? ` · ${p.failureReason}` : ""}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {nle(p.amount)}
+                      <Badge variant={p.status === "failed" ? "destructive" : p.status === "paid" ? "default" : "outline"}>
+                        {p.status}
+                      </Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+// client/src/components/wishlist-button.tsx
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useWishlist, useWishlistActions } from "@/lib/wishlist";
+import { cn } from "@/lib/utils";
+import { findProductBookmark } from "@shared/wishlist";
+import { Heart } from "lucide-react";
+
+/**
+ * Heart toggle bookmarking a product (as a whole, not a variant). Guests are
+ * sent to sign in. Safe inside a card <Link>: clicks don't navigate.
+ */
+export function WishlistButton({
+  productId,
+  className,
+  withLabel = false,
+}: {
+  productId: string;
+  className?: string;
+  withLabel?: boolean;
+}) {
+  const { items, signedIn } = useWishlist();
+  const { save, remove } = useWishlistActions();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const bookmark = findProductBookmark(items, productId);
+  const busy = save.isPending || remove.isPending;
+
+  const onClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!signedIn) {
+      toast({ title: "Sign in to save items", description: "Your wishlist is kept with your account." });
+      setLocation("/login");
+      return;
+    }
+    const onError = () =>
+      toast({ title: "Couldn't update your wishlist", variant: "destructive" });
+    if (bookmark) remove.mutate(bookmark.id, { onError });
+    else save.mutate({ productId }, { onError });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={withLabel ? "outline" : "ghost"}
+      size={withLabel ? "lg" : "icon"}
+      className={cn(!withLabel && "rounded-full bg-background/80 hover:bg-background", className)}
+      disabled={busy}
+      onClick={onClick}
+      aria-pressed={!!bookmark}
+      aria-label={bookmark ? "Remove from wishlist" : "Add to wishlist"}
+      data-testid={`button-wishlist-${productId}`}
+    >
+      <Heart className={cn("h-5 w-5", bookmark && "fill-red-500 text-red-500", withLabel && "mr-2")} />
+      {withLabel && (bookmark ? "Saved" : "Save")}
+    </Button>
+  );
+}
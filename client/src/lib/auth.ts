@@ -1,7 +1,7 @@
 // client/src/lib/auth.ts
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import { apiRequest } from "./queryClient";
+import { apiRequest, toAbsoluteUrl } from "./queryClient";
 import type { User } from "@shared/schema";
 
 /* ---------------- Types ---------------- */
@@ -20,7 +20,9 @@ interface AuthState {
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  /** Rebuild auth state from the server session (GET /api/auth/me) */
+  refresh: () => Promise<void>;
   setUser: (user: User | null) => void;
 }
 
@@ -61,12 +63,12 @@ export const useAuthStore = create<AuthState>()(
 
       /* Register -> POST /api/auth/register */
       async register(data: RegisterData) {
+        // Role is decided by the server (always "customer" on sign-up)
         const payload = {
           email: data.email.trim().toLowerCase(),
           password: data.password,
           firstName: data.firstName,
           lastName: data.lastName,
-          role: (data.role ?? "customer") as Role,
         };
 
         const res = await apiRequest("POST", "/api/auth/register", payload);
@@ -78,9 +80,34 @@ export const useAuthStore = create<AuthState>()(
         set({ user, isAuthenticated: true });
       },
 
-      /* Local-only logout (no server session to clear) */
-      logout() {
-        set({ user: null, isAuthenticated: false });
+      /* Logout -> POST /api/auth/logout (clear local state even if it fails) */
+      async logout() {
+        try {
+          await apiRequest("POST", "/api/auth/logout");
+        } catch {
+          // session may already be gone; nothing else to do
+        } finally {
+          set({ user: null, isAuthenticated: false });
+        }
+      },
+
+      /* Session check -> GET /api/auth/me; the server's answer always wins */
+      async refresh() {
+        try {
+          const res = await fetch(toAbsoluteUrl("/api/auth/me"), {
+            credentials: "include",
+            headers: { Accept: "application/json" },
+          });
+          if (res.status === 401) {
+            set({ user: null, isAuthenticated: false });
+            return;
+          }
+          if (!res.ok) return; // server hiccup: keep what we have
+          const user = normalizeUser(await res.json());
+          set(user.id ? { user, isAuthenticated: true } : { user: null, isAuthenticated: false });
+        } catch {
+          // offline: keep cached state until the next check
+        }
       },
 
       /* Manually set/clear user */
@@ -91,7 +118,7 @@ export const useAuthStore = create<AuthState>()(
     {
       name: "auth-storage",
       storage: createJSONStorage(() => localStorage),
-      // Persist only what’s needed
+      // Persist only what’s needed (a display cache; refresh() re-validates it)
       partialize: (state) => ({ user: state.user, isAuthenticated: state.isAuthenticated }),
       version: 1,
     },
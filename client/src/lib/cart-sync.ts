@@ -0,0 +1,121 @@
+// client/src/lib/cart-sync.ts
+import { useEffect } from "react";
+import { useAuthStore } from "./auth";
+import { toCartLineInputs, useCartStore } from "./cart";
+import { apiRequest } from "./queryClient";
+import { cartLineKey } from "@shared/variants";
+import type { CartLine } from "@shared/cart";
+
+/*
+ * Keeps a signed-in buyer's cart on the server (GET/PUT /api/cart):
+ * - page load: the saved cart replaces the browser copy (it may have changed
+ *   on another device); so does coming back to the tab
+ * - sign-in: the guest cart is merged into the saved one
+ * - sign-out: the browser copy is cleared (the saved cart stays)
+ * - local edits: the whole cart is PUT shortly after the last change, but
+ *   only once that first pull or merge has landed (until then the browser copy
+ *   may be stale and would overwrite the saved cart)
+ * Each server answer brings the price-change and stock flags along.
+ */
+
+const PUSH_DELAY_MS = 600;
+
+/** Lines and quantities, order-insensitive: what the server holds vs. the browser */
+function signature(items: Array<{ productId: string; variantId?: string | null; quantity: number }>) {
+  return items
+    .map((i) => `${cartLineKey(i.productId, i.variantId)}=${i.quantity}`)
+    .sort()
+    .join(",");
+}
+
+let serverSignature = "";
+let pushTimer: number | undefined;
+/** The signed-in buyer's saved cart has been loaded (or merged) at least once */
+let synced = false;
+/** A sign-in merge that hasn't gone through yet; retried instead of a plain pull */
+let mergePending = false;
+/** undefined until the first render, so a persisted session counts as a page load */
+let lastUserId: string | null | undefined;
+
+/** Show the saved cart (e.g. a /api/cart response) in the browser */
+export function applyServerCart(lines: CartLine[]) {
+  serverSignature = signature(lines);
+  useCartStore.getState().setFromServer(lines);
+}
+
+async function pushCart() {
+  pushTimer = undefined;
+  if (!synced) return;
+  const items = useCartStore.getState().items;
+  const sent = signature(items);
+  try {
+    const res = await apiRequest("PUT", "/api/cart", { items: toCartLineInputs(items) });
+    const lines: CartLine[] = await res.json();
+    serverSignature = signature(lines);
+    // newer edits are already queued; don't overwrite them with this answer
+    if (signature(useCartStore.getState().items) === sent) applyServerCart(lines);
+  } catch {
+    // offline or signed out: the next edit or page load tries again
+  }
+}
+
+async function pullCart(mergeGuestCart: boolean) {
+  mergePending = mergeGuestCart;
+  try {
+    const res = mergeGuestCart
+      ? await apiRequest("POST", "/api/cart/merge", {
+          items: toCartLineInputs(useCartStore.getState().items),
+        })
+      : await apiRequest("GET", "/api/cart");
+    applyServerCart(await res.json());
+    mergePending = false;
+    synced = true;
+  } catch {
+    // keep the browser copy until the next attempt
+  }
+}
+
+/** Mounted once in App */
+export function useCartSync() {
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+
+  // page load, sign-in and sign-out
+  useEffect(() => {
+    const prev = lastUserId;
+    lastUserId = userId;
+    if (!userId) {
+      serverSignature = "";
+      synced = false;
+      mergePending = false;
+      window.clearTimeout(pushTimer);
+      pushTimer = undefined;
+      if (prev) useCartStore.getState().clearCart();
+      return;
+    }
+    if (prev !== userId) {
+      synced = false;
+      pullCart(prev === null);
+    }
+  }, [userId]);
+
+  // local edits while signed in
+  useEffect(
+    () =>
+      useCartStore.subscribe((state, prev) => {
+        if (state.items === prev.items || !useAuthStore.getState().user || !synced) return;
+        if (signature(state.items) === serverSignature) return;
+        window.clearTimeout(pushTimer);
+        pushTimer = window.setTimeout(pushCart, PUSH_DELAY_MS);
+      }),
+    [],
+  );
+
+  // another device may have changed the cart meanwhile
+  useEffect(() => {
+    const onFocus = () => {
+      if (useAuthStore.getState().user && pushTimer === undefined) pullCart(mergePending);
+    };
+    window.addEventListener("focus", onFocus);
+    return () => window.removeEventListener("focus", onFocus);
+  }, []);
+}
@@ -2,6 +2,17 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import type { Product } from "@shared/schema";
+import { variantLabel, type VariantOptions } from "@shared/variants";
+import type { CartLine, CartLineInput, CartLineIssue } from "@shared/cart";
+
+/** The variant picked on the product page (snapshot at time of add) */
+export type CartVariant = {
+  id: string;
+  sku: string;
+  options: VariantOptions;
+  price: number | string;
+  imageUrl?: string | null;
+};
 
 type UICartItem = {
   /** Unique line id for this cart entry */
@@ -10,22 +21,38 @@ type UICartItem = {
   product: Product;
   /** Product id (duplicated for convenience) */
   productId: string;
+  /** Chosen variant id; null for products without variants (and older saved carts) */
+  variantId?: string | null;
+  /** e.g. "Size: M / Colour: Red" */
+  variantLabel?: string | null;
+  /** Variant image, if it has its own */
+  imageUrl?: string | null;
   /** Price snapshot at time of add (number) */
   priceEach: number;
   /** How many of this product are in the cart */
   quantity: number;
   /** ISO string */
   createdAt: string;
+  /* Checked by the server for signed-in carts (see lib/cart-sync.ts) */
+  /** Unit price now */
+  currentPrice?: number;
+  /** currentPrice differs from priceEach */
+  priceChanged?: boolean;
+  /** Stock left */
+  available?: number;
+  issue?: CartLineIssue | null;
 };
 
 interface CartState {
   items: UICartItem[];
   isOpen: boolean;
 
-  addItem: (product: Product, quantity?: number) => void;
+  addItem: (product: Product, quantity?: number, variant?: CartVariant | null) => void;
   removeItem: (lineId: string) => void;
   updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
+  /** Replace the lines with the signed-in buyer's saved cart */
+  setFromServer: (lines: CartLine[]) => void;
 
   openCart: () => void;
   closeCart: () => void;
@@ -39,19 +66,39 @@ function toNumber(n: unknown): number {
   return Number.isFinite(v) ? v : 0;
 }
 
+/** What PUT /api/cart and POST /api/cart/merge expect for each line */
+export function toCartLineInputs(items: Array<Pick<UICartItem, "productId" | "variantId" | "quantity" | "priceEach">>): CartLineInput[] {
+  return items.map((i) => ({
+    productId: i.productId,
+    variantId: i.variantId ?? null,
+    quantity: i.quantity,
+    priceEach: i.priceEach,
+  }));
+}
+
+/** Query key for the live product records behind the cart (GET /api/products/batch) */
+export function cartProductsKey(items: Array<{ productId: string }>) {
+  const ids = Array.from(new Set(items.map((i) => i.productId))).sort();
+  return ["/api/products/batch", { ids: ids.join(",") }] as const;
+}
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
       isOpen: false,
 
-      addItem: (product, qty = 1) => {
+      addItem: (product, qty = 1, variant = null) => {
         const quantity = Math.max(1, Math.floor(qty));
         const productId = String(product.id);
-        const priceEach = toNumber((product as any)?.price);
+        const variantId = variant?.id ?? null;
+        const priceEach = toNumber(variant ? variant.price : (product as any)?.price);
 
         set((state) => {
-          const existing = state.items.find((i) => i.productId === productId);
+          // the same product in another variant is a separate line
+          const existing = state.items.find(
+            (i) => i.productId === productId && (i.variantId ?? null) === variantId,
+          );
           if (existing) {
             // Increment quantity on the existing line
             return {
@@ -69,6 +116,9 @@ export const useCartStore = create<CartState>()(
             id: `line-${Date.now()}-${productId}`,
             product,
             productId,
+            variantId,
+            variantLabel: variant ? variantLabel(variant.options) : null,
+            imageUrl: variant?.imageUrl ?? null,
             priceEach,
             quantity: quantity,
             createdAt: new Date().toISOString(),
@@ -96,6 +146,25 @@ export const useCartStore = create<CartState>()(
 
       clearCart: () => set({ items: [] }),
 
+      setFromServer: (lines) =>
+        set({
+          items: lines.map((l) => ({
+            id: l.id,
+            product: l.product,
+            productId: l.productId,
+            variantId: l.variantId,
+            variantLabel: l.variantLabel,
+            imageUrl: l.imageUrl,
+            priceEach: l.priceEach,
+            quantity: l.quantity,
+            createdAt: l.createdAt,
+            currentPrice: l.currentPrice,
+            priceChanged: l.priceChanged,
+            available: l.available,
+            issue: l.issue,
+          })),
+        }),
+
       openCart: () => set({ isOpen: true }),
       closeCart: () => set({ isOpen: false }),
 
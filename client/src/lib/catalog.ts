@@ -0,0 +1,72 @@
+// client/src/lib/catalog.ts
+import { useMemo } from "react";
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { ATTRIBUTE_PARAM_PREFIX } from "@shared/attributes";
+import {
+  PRODUCT_FILTER_PARAMS,
+  parseProductFilters,
+  productFilterParams,
+  type ProductFilters,
+  type ProductListResponse,
+} from "@shared/catalog";
+
+/**
+ * Listing filters kept in the page URL. Changing them pushes a history
+ * entry, so the back button steps back through earlier filters.
+ */
+export function useProductFilters() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const filters = useMemo(() => parseProductFilters(search), [search]);
+
+  const setFilters = (patch: Partial<ProductFilters>) => {
+    const sp = new URLSearchParams(search);
+    PRODUCT_FILTER_PARAMS.forEach((k) => sp.delete(k));
+    Array.from(sp.keys())
+      .filter((k) => k.startsWith(ATTRIBUTE_PARAM_PREFIX))
+      .forEach((k) => sp.delete(k));
+    const next = { ...filters, ...patch };
+    // attribute filters belong to the category's schema
+    if ("categoryId" in patch && patch.categoryId !== filters.categoryId && !("attributes" in patch)) {
+      next.attributes = undefined;
+    }
+    Object.entries(productFilterParams(next)).forEach(([k, v]) => sp.set(k, v));
+    const qs = sp.toString();
+    navigate(qs ? `${location}?${qs}` : location);
+  };
+
+  /** Drop every filter except the sort order */
+  const clearFilters = () =>
+    setFilters({
+      categoryId: undefined,
+      vendorId: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      inStock: undefined,
+      attributes: undefined,
+    });
+
+  return { filters, setFilters, clearFilters };
+}
+
+/** GET /api/products page by page; facets and total come with the first page */
+export function useProductListing(filters: ProductFilters, options: { enabled?: boolean } = {}) {
+  const params = productFilterParams(filters);
+  return useInfiniteQuery({
+    queryKey: ["/api/products", params],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const sp = new URLSearchParams(params);
+      if (pageParam) sp.set("cursor", pageParam);
+      const qs = sp.toString();
+      const res = await apiRequest("GET", qs ? `/api/products?${qs}` : "/api/products");
+      return (await res.json()) as ProductListResponse;
+    },
+    getNextPageParam: (last) => last.nextCursor,
+    // keep showing the old page and facets while a new filter loads
+    placeholderData: keepPreviousData,
+    enabled: options.enabled,
+  });
+}
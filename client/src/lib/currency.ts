@@ -33,7 +33,7 @@ const ENV_USD_RATE =
     ((process as any).env.VITE_USD_RATE || (process as any).env.USD_RATE)) ||
   "25";
 
-type CurrencyCode = "NLE" | "USD";
+export type CurrencyCode = "NLE" | "USD";
 
 type CurrencyCtx = {
   currency: CurrencyCode;
@@ -81,6 +81,25 @@ function parsePositiveFloat(v: unknown, fallback: number): number {
   return Number.isFinite(n) && n > 0 ? n : fallback;
 }
 
+/**
+ * Format a DB amount (NLe) in a given currency at a given rate.
+ * Orders use this with their saved currency/rate so history doesn't drift
+ * with today's rate.
+ */
+export function formatAmount(
+  dbAmountNLe: number | string,
+  currency: string,
+  rateNLePerUsd: number | string,
+): string {
+  const nle = Number(dbAmountNLe ?? 0);
+  const usd = clampCurrency(currency) === "USD";
+  if (!Number.isFinite(nle)) return usd ? "$0.00" : "NLe 0.00";
+
+  const opts = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+  if (!usd) return `NLe ${nle.toLocaleString(undefined, opts)}`;
+  return `$${(nle / parsePositiveFloat(rateNLePerUsd, 1)).toLocaleString(undefined, opts)}`;
+}
+
 export function CurrencyProvider({ children }: { children: React.ReactNode }) {
   // Initial currency: LS -> ENV -> "NLE"
   const [currency, setCurrency] = useState<CurrencyCode>(() => {
@@ -118,24 +137,9 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
   );
 
   const format = useCallback(
-    (dbAmountNLe: number | string) => {
-      const nle = Number(dbAmountNLe ?? 0);
-      if (!Number.isFinite(nle))
-        return currency === "USD" ? "$0.00" : "NLe 0.00";
-
-      if (currency === "NLE") {
-        return `NLe ${nle.toLocaleString(undefined, {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 2,
-        })}`;
-      }
-      const usd = toUsd(nle);
-      return `$${usd.toLocaleString(undefined, {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      })}`;
-    },
-    [currency, toUsd],
+    (dbAmountNLe: number | string) =>
+      formatAmount(dbAmountNLe, currency, rateNLePerUsd),
+    [currency, rateNLePerUsd],
   );
 
   const value = useMemo(
@@ -13,7 +13,7 @@ async function throwIfResNotOk(res: Response) {
 }
 
 /** Prefix URL with API_BASE unless it's already absolute. */
-function toAbsoluteUrl(url: string): string {
+export function toAbsoluteUrl(url: string): string {
   const isAbsolute = /^https?:\/\//i.test(url);
   return isAbsolute ? url : `${API_BASE}${url}`;
 }
@@ -0,0 +1,66 @@
+// client/src/lib/wishlist.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuthStore } from "./auth";
+import { apiRequest } from "./queryClient";
+import type { WishlistEntry } from "@shared/wishlist";
+
+/** GET /api/wishlist, per signed-in user (the id keeps accounts' caches apart) */
+export const wishlistKey = (userId: string | null) => ["/api/wishlist", userId];
+
+/**
+ * The signed-in buyer's wishlist (empty for guests). `fresh` refetches on
+ * mount, for the wishlist page; hearts share the cached copy.
+ */
+export function useWishlist({ fresh = false }: { fresh?: boolean } = {}) {
+  const userId = useAuthStore((s) => s.user?.id ?? null);
+  const query = useQuery<WishlistEntry[]>({
+    queryKey: wishlistKey(userId),
+    enabled: !!userId,
+    ...(fresh && { staleTime: 0 }),
+  });
+  return { ...query, items: userId ? (query.data ?? []) : [], signedIn: !!userId };
+}
+
+export type SaveToWishlist = {
+  productId: string;
+  variantId?: string | null;
+  /** A cart line's price snapshot, when saving it for later */
+  priceEach?: number;
+};
+
+/** Add, remove and alert toggles; each refreshes the cached wishlist */
+export function useWishlistActions() {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+
+  const save = useMutation({
+    mutationFn: async (input: SaveToWishlist) => {
+      const res = await apiRequest("POST", "/api/wishlist", input);
+      return (await res.json()) as WishlistEntry;
+    },
+    onSuccess: refresh,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/wishlist/${id}`);
+    },
+    onSuccess: refresh,
+  });
+
+  const setAlerts = useMutation({
+    mutationFn: async ({
+      id,
+      ...alerts
+    }: {
+      id: string;
+      notifyPriceDrop?: boolean;
+      notifyBackInStock?: boolean;
+    }) => {
+      await apiRequest("PATCH", `/api/wishlist/${id}`, alerts);
+    },
+    onSuccess: refresh,
+  });
+
+  return { save, remove, setAlerts };
+}
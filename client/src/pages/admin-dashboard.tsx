@@ -8,6 +8,14 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { site } from "@/config/site";
+import { OrderTimelineDialog, statusBadgeVariant } from "@/components/order-timeline";
+import { PaymentProofQueue } from "@/components/payment-proof-queue";
+import { RefundDialog } from "@/components/refund-dialog";
+import { RefundsReport } from "@/components/refunds-report";
+import { PayoutsAdmin } from "@/components/payouts-admin";
+import { CategoryManager } from "@/components/category-manager";
+import { ReviewModeration } from "@/components/review-moderation";
+import { QuestionModeration } from "@/components/question-moderation";
 import {
   Store, Users, Package, TrendingUp, UserPlus, Flag, Settings,
   Eye, Check, X, Ban, Mail, RefreshCw, Trash2, Loader2,
@@ -165,7 +173,7 @@ export default function AdminDashboard() {
 
   const productsQuery = useQuery<any[]>({
     queryKey: ["products"],
-    queryFn: () => fetchJSON(`${API_BASE}/api/products`).catch(() => []),
+    queryFn: () => fetchJSON(`${API_BASE}/api/admin/products`).catch(() => []),
     retry: false,
   });
 
@@ -598,6 +606,77 @@ export default function AdminDashboard() {
         </CardContent>
       </Card>
 
+      {/* Bank-transfer receipts awaiting review */}
+      <PaymentProofQueue />
+
+      {/* Recent Orders */}
+      <Card className="mb-8">
+        <CardHeader><CardTitle>Recent Orders</CardTitle></CardHeader>
+        <CardContent>
+          {ordersQuery.isLoading ? (
+            Loading
+          ) : ordersQuery.isError ? (
+            <ErrorMsg msg={(ordersQuery.error as any)?.message} />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order ID</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.slice(0, 20).map((o: any) => (
+                    <TableRow key={o.id}>
+                      <TableCell className="font-mono text-sm">#{String(o.id).substring(0, 8)}</TableCell>
+                      <TableCell>{o.customerName ?? o.customerEmail ?? "—"}</TableCell>
+                      <TableCell className="font-medium">{Number(o.total || 0).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusBadgeVariant(o.status)}>{o.status}</Badge>
+                      </TableCell>
+                      <TableCell>{o.createdAt ? new Date(o.createdAt).toLocaleDateString() : "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <OrderTimelineDialog
+                            orderId={String(o.id)}
+                            status={o.status}
+                            role="admin"
+                            invalidate={[["orders"]]}
+                          />
+                          {o.status !== "pending" && o.status !== "refunded" && (
+                            <RefundDialog orderId={String(o.id)} invalidate={[["orders"]]} />
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {!orders.length && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">No orders yet.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RefundsReport />
+
+      <PayoutsAdmin />
+
+      <CategoryManager />
+
+      <ReviewModeration />
+
+      <QuestionModeration />
+
       {/* Platform Analytics */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <Card>
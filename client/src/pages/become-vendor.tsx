@@ -53,13 +53,13 @@ export default function BecomeVendor() {
       const res = await fetch(`${API_BASE}/api/vendors/apply`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        credentials: "include",
         body: JSON.stringify({
           storeName: storeName.trim(),
           email: requireEmail() ? email.trim() : undefined,
           phone: phone || undefined,
           address: address || undefined,
           description: description || undefined,
-          userId: user?.id ?? undefined,
         }),
       });
 
@@ -138,7 +138,7 @@ export default function BecomeVendor() {
             />
 
             <Input
-              placeholder="Phone Number (optional)"
+              placeholder="WhatsApp Number for store alerts (optional)"
               value={phone}
               onChange={(e) => setPhone(e.target.value)}
             />
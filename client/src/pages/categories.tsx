@@ -1,10 +1,21 @@
-import { useMemo, useState } from "react";
+import { Fragment, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { ProductFilterPanel, ProductSortSelect } from "@/components/product-filters";
+import { useProductFilters, useProductListing } from "@/lib/catalog";
+import { categoryPath } from "@shared/categories";
 import { Package, Tag, ArrowLeft, Search } from "lucide-react";
 
 /* ----------------------------- Types ----------------------------- */
@@ -13,20 +24,14 @@ type Category = {
   name?: string;
   title?: string;
   slug?: string;
+  parentId: string | null; // null for top-level categories
+  position?: number;
   createdAt?: string;
 };
 
-type ApiCategory = Omit<Category, "id"> & { id: string | number };
-
-type Product = {
-  id: string;
-  name?: string;
-  title?: string;
-  imageUrl?: string;
-  price: number | string;
-  isActive?: boolean;
-  description?: string;
-  createdAt?: string;
+type ApiCategory = Omit<Category, "id" | "parentId"> & {
+  id: string | number;
+  parentId?: string | null;
 };
 
 /* --------------------------- Image helper ------------------------ */
@@ -44,7 +49,8 @@ function Img({ src, alt }: { src?: string; alt: string }) {
 
 export default function Categories() {
   const [search, setSearch] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  // ?categoryId=… (plus the listing filters) keeps the open category in the URL
+  const { filters, setFilters, clearFilters } = useProductFilters();
 
   /* 1) Load categories */
   const {
@@ -55,31 +61,37 @@ export default function Categories() {
     queryKey: ["/api/categories"],
   });
 
-  // Normalize ids to string + optional sort by name/title for nicer UX
+  // Normalize ids to string; keep the admin's order among siblings, then name/title
   const categories: Category[] = useMemo(() => {
-    const list = rawCategories.map((c) => ({ ...c, id: String(c.id) }));
-    return list.sort((a, b) =>
-      (a.name ?? a.title ?? "").localeCompare(b.name ?? b.title ?? "")
+    const list = rawCategories.map((c) => ({ ...c, id: String(c.id), parentId: c.parentId ?? null }));
+    return list.sort(
+      (a, b) =>
+        (a.position ?? 0) - (b.position ?? 0) ||
+        (a.name ?? a.title ?? "").localeCompare(b.name ?? b.title ?? "")
     );
   }, [rawCategories]);
 
-  /* 2) Load products for a selected category */
-  const catId = selectedCategory?.id ?? null;
+  const nameOf = (c: Category) => c.name ?? c.title ?? "Unnamed";
 
-  const {
-    data: products = [],
-    isLoading: loadingProducts,
-    isError: prodError,
-  } = useQuery<Product[]>({
-    // IMPORTANT: keep the queryKey as a URL string your defaultQueryFn can fetch.
-    queryKey: catId ? [`/api/products?categoryId=${encodeURIComponent(catId)}`] : [],
-    enabled: !!catId,
-  });
+  /* 2) Load products for the selected category */
+  const catId = filters.categoryId ?? null;
+  const selectedCategory: Category | null = catId
+    ? categories.find((c) => c.id === catId) ?? { id: catId, parentId: null }
+    : null;
+  // root first, ending with the selected category (for the breadcrumb)
+  const trail = catId ? categoryPath(categories, catId) : [];
+  const subcategories = catId ? categories.filter((c) => c.parentId === catId) : [];
+
+  const listing = useProductListing(filters, { enabled: !!catId });
+  const products = listing.data?.pages.flatMap((p) => p.items) ?? [];
+  const facets = listing.data?.pages[0]?.facets;
+  const loadingProducts = listing.isLoading;
+  const prodError = listing.isError;
 
-  /* 3) Filter categories by search */
+  /* 3) Top-level categories, or matches at any level while searching */
   const filteredCategories = useMemo(() => {
     const q = search.trim().toLowerCase();
-    if (!q) return categories;
+    if (!q) return categories.filter((c) => !c.parentId);
     return categories.filter((c) =>
       (c.name ?? c.title ?? "").toLowerCase().includes(q)
     );
@@ -88,11 +100,42 @@ export default function Categories() {
   /* ------------------------------ UI ----------------------------- */
   return (
     <div className="container mx-auto px-4 py-8">
+      {/* Breadcrumb */}
+      {selectedCategory && (
+        <Breadcrumb className="mb-4" data-testid="breadcrumb-categories">
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link href="/categories">Categories</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            {trail.map((c, i) => (
+              <Fragment key={c.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {i === trail.length - 1 ? (
+                    <BreadcrumbPage>{nameOf(c)}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink asChild>
+                      <Link href={`/categories?categoryId=${encodeURIComponent(c.id)}`}>{nameOf(c)}</Link>
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+      )}
+
       {/* Header */}
       <div className="mb-6 flex items-center justify-between gap-4">
         <div>
           <h1 className="text-3xl font-bold">
-            {selectedCategory ? "Products by Category" : "Browse Categories"}
+            {selectedCategory
+              ? trail.length
+                ? nameOf(trail[trail.length - 1])
+                : "Products by Category"
+              : "Browse Categories"}
           </h1>
           <p className="text-muted-foreground">
             {selectedCategory
@@ -104,7 +147,7 @@ export default function Categories() {
         {selectedCategory && (
           <Button
             variant="outline"
-            onClick={() => setSelectedCategory(null)}
+            onClick={clearFilters}
             data-testid="button-back-to-categories"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -153,13 +196,6 @@ export default function Categories() {
           ))}
         </div>
       )}
-      {loadingProducts && selectedCategory && (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {Array.from({ length: 6 }).map((_, i) => (
-            <div key={i} className="h-64 rounded-xl bg-muted animate-pulse" />
-          ))}
-        </div>
-      )}
 
       {/* Category list */}
       {!selectedCategory && !loadingCats && (
@@ -178,12 +214,13 @@ export default function Categories() {
               data-testid="grid-categories"
             >
               {filteredCategories.map((c) => {
-                const label = c.name ?? c.title ?? "Unnamed";
+                const label = nameOf(c);
+                const parents = categoryPath(categories, c.id).slice(0, -1);
                 return (
                   <Card
                     key={c.id}
                     className="cursor-pointer hover:shadow-md transition"
-                    onClick={() => setSelectedCategory(c)}
+                    onClick={() => setFilters({ categoryId: c.id })}
                     data-testid={`card-category-${c.id}`}
                   >
                     <CardHeader className="pb-2">
@@ -194,7 +231,9 @@ export default function Categories() {
                     </CardHeader>
                     <CardContent className="pt-0">
                       <p className="text-xs text-muted-foreground">
-                        Tap to view products
+                        {parents.length
+                          ? `in ${parents.map(nameOf).join(" › ")}`
+                          : "Tap to view products"}
                       </p>
                     </CardContent>
                   </Card>
@@ -205,61 +244,124 @@ export default function Categories() {
         </>
       )}
 
-      {/* Products for selected category */}
-      {selectedCategory && !loadingProducts && (
-        <>
-          {!products.length ? (
-            <Card>
-              <CardContent className="py-8">
-                <p className="text-muted-foreground">
-                  No products found in “
-                  {selectedCategory.name ?? selectedCategory.title ?? "Category"}
-                  ”.
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div
-              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
-              data-testid="grid-products"
+      {/* Subcategories of the selected category */}
+      {subcategories.length > 0 && (
+        <div className="mb-6 flex flex-wrap gap-2" data-testid="list-subcategories">
+          {subcategories.map((c) => (
+            <Button
+              key={c.id}
+              variant="outline"
+              size="sm"
+              onClick={() => setFilters({ categoryId: c.id })}
+              data-testid={`button-subcategory-${c.id}`}
             >
-              {products.map((p) => {
-                const displayName = p.name ?? p.title ?? "(no name)";
-                const price = Number(p.price ?? 0);
-                return (
-                  <Card key={p.id} className="overflow-hidden">
-                    <CardContent className="p-0">
-                      <Img src={p.imageUrl} alt={displayName} />
-                    </CardContent>
-                    <CardHeader className="space-y-2">
-                      <CardTitle className="text-lg line-clamp-1">
-                        {displayName}
-                      </CardTitle>
-                      <div className="flex items-center justify-between">
-                        <Badge
-                          variant={p.isActive ? "secondary" : "destructive"}
-                        >
-                          {p.isActive ? "Active" : "Inactive"}
-                        </Badge>
-                        <span className="font-semibold">
-                          ${price.toFixed(2)}
-                        </span>
-                      </div>
-                      <div className="pt-2">
-                        <Button asChild className="w-full" size="sm">
-                          <Link href={`/products/${p.id}`}>
-                            <Package className="h-4 w-4 mr-2" />
-                            View Details
-                          </Link>
-                        </Button>
-                      </div>
-                    </CardHeader>
-                  </Card>
-                );
-              })}
+              <Tag className="h-3 w-3 mr-2" />
+              {nameOf(c)}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Products for selected category (and its subcategories) */}
+      {selectedCategory && (
+        <div className="grid gap-8 lg:grid-cols-[220px_1fr]">
+          <ProductFilterPanel
+            filters={filters}
+            facets={facets}
+            onChange={setFilters}
+            onClear={() =>
+              setFilters({
+                vendorId: undefined,
+                minPrice: undefined,
+                maxPrice: undefined,
+                inStock: undefined,
+                attributes: undefined,
+              })
+            }
+            showCategories={false}
+          />
+
+          <div>
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground" data-testid="text-products-total">
+                {listing.data?.pages[0]?.total != null &&
+                  `${listing.data.pages[0].total} ${listing.data.pages[0].total === 1 ? "product" : "products"}`}
+              </p>
+              <ProductSortSelect value={filters.sort} onChange={(sort) => setFilters({ sort })} />
             </div>
-          )}
-        </>
+
+            {loadingProducts ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <div key={i} className="h-64 rounded-xl bg-muted animate-pulse" />
+                ))}
+              </div>
+            ) : !products.length ? (
+              <Card>
+                <CardContent className="py-8">
+                  <p className="text-muted-foreground">
+                    No products found in “
+                    {selectedCategory.name ?? selectedCategory.title ?? "Category"}
+                    ”.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <div
+                  className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
+                  data-testid="grid-products"
+                >
+                  {products.map((p) => {
+                    const displayName = p.name ?? "(no name)";
+                    const price = Number(p.price ?? 0);
+                    const inStock = p.stock > 0;
+                    return (
+                      <Card key={p.id} className="overflow-hidden">
+                        <CardContent className="p-0">
+                          <Img src={p.imageUrl} alt={displayName} />
+                        </CardContent>
+                        <CardHeader className="space-y-2">
+                          <CardTitle className="text-lg line-clamp-1">
+                            {displayName}
+                          </CardTitle>
+                          <div className="flex items-center justify-between">
+                            <Badge variant={inStock ? "secondary" : "destructive"}>
+                              {inStock ? "In stock" : "Out of stock"}
+                            </Badge>
+                            <span className="font-semibold">
+                              {p.hasVariants ? "From " : ""}${price.toFixed(2)}
+                            </span>
+                          </div>
+                          <div className="pt-2">
+                            <Button asChild className="w-full" size="sm">
+                              <Link href={`/products/${p.id}`}>
+                                <Package className="h-4 w-4 mr-2" />
+                                View Details
+                              </Link>
+                            </Button>
+                          </div>
+                        </CardHeader>
+                      </Card>
+                    );
+                  })}
+                </div>
+                {listing.hasNextPage && (
+                  <div className="mt-8 text-center">
+                    <Button
+                      variant="outline"
+                      onClick={() => listing.fetchNextPage()}
+                      disabled={listing.isFetchingNextPage}
+                      data-testid="button-load-more"
+                    >
+                      {listing.isFetchingNextPage ? "Loading…" : "Load More"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
       )}
     </div>
   );
@@ -1,5 +1,5 @@
-import { useMemo, useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMemo, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,10 +8,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { useCartStore } from "@/lib/cart";
+import { cartProductsKey, useCartStore } from "@/lib/cart";
 import { apiRequest } from "@/lib/queryClient";
+import { cartLineKey } from "@shared/variants";
 import { useCurrency } from "@/lib/currency";
 import { site } from "@/config/site";
+import { MobileMoneyPayment } from "@/components/mobile-money-payment";
+import { PaymentProofUpload } from "@/components/payment-proof-upload";
 
 import {
   ShoppingBag,
@@ -42,6 +45,23 @@ type CheckoutForm = {
   notes: string;
 };
 
+/** Server-priced cart (POST /api/checkout/quote); amounts are NLe strings */
+type Quote = {
+  vendorOrders: Array<{
+    vendorId: string;
+    lines: Array<{
+      productId: string;
+      variantId: string | null;
+      unitPrice: string;
+      lineTotal: string;
+    }>;
+  }>;
+  subtotal: string;
+  shippingFee: string;
+  total: string;
+  unavailable?: Array<{ productId: string; variantId: string | null; reason: string }>;
+};
+
 type PaymentMethod =
   | "orange_money"
   | "afrimoney"
@@ -51,6 +71,17 @@ type PaymentMethod =
 
 /** ---------- Utils ---------- */
 const digits = (s: string) => s.replace(/\D/g, "");
+
+/** apiRequest throws "409: {json}" — recover the JSON body when there is one */
+function errorBody(e: unknown): { status: number; body: any } | null {
+  const m = /^(\d{3}): ([\s\S]*)$/.exec(String((e as Error)?.message ?? ""));
+  if (!m) return null;
+  try {
+    return { status: Number(m[1]), body: JSON.parse(m[2]) };
+  } catch {
+    return { status: Number(m[1]), body: null };
+  }
+}
 const randomOrderRef = () =>
   `LWG-${Date.now().toString(36).toUpperCase()}-${Math.floor(Math.random() * 999)
     .toString()
@@ -59,27 +90,57 @@ const randomOrderRef = () =>
 export default function Checkout() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const { format, currency } = useCurrency();
-  const { items, clearCart } = useCartStore();
+  const { format, currency, rateNLePerUsd } = useCurrency();
+  const { items, clearCart, removeItem, updateQuantity } = useCartStore();
+  const queryClient = useQueryClient();
 
   // Load latest products so we have current prices
   const { data: products = [] } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+    queryKey: cartProductsKey(items),
     enabled: items.length > 0,
   });
 
+  // Server-side prices & totals — what will actually be charged
+  const quoteItems = items.map((ci) => ({
+    productId: ci.productId,
+    variantId: ci.variantId ?? null,
+    quantity: ci.quantity,
+  }));
+  const quoteKey = ["checkout-quote", quoteItems] as const;
+  const { data: quote } = useQuery<Quote>({
+    queryKey: quoteKey,
+    enabled: items.length > 0,
+    staleTime: 0,
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/checkout/quote", { items: quoteItems });
+      return res.json();
+    },
+  });
+
+  const quotedPrice = (lineKey: string) => {
+    for (const v of quote?.vendorOrders ?? []) {
+      const l = v.lines.find((x) => cartLineKey(x.productId, x.variantId) === lineKey);
+      if (l) return Number(l.unitPrice);
+    }
+    return undefined;
+  };
+
   // Hydrate cart lines with product info
   const lines = useMemo(() => {
     return items
       .map((ci) => {
         const p = products.find((x) => x.id === ci.productId);
         if (!p) return null;
-        const unit = Number(p.price ?? 0);
+        const variantId = ci.variantId ?? null;
+        const unit =
+          quotedPrice(cartLineKey(p.id, variantId)) ??
+          (variantId ? ci.priceEach : Number(p.price ?? 0));
         return {
           id: ci.id,
           productId: p.id,
-          name: p.name,
-          imageUrl: p.imageUrl,
+          variantId,
+          name: ci.variantLabel ? `${p.name} (${ci.variantLabel})` : p.name,
+          imageUrl: ci.imageUrl || p.imageUrl,
           quantity: ci.quantity,
           unitPrice: unit,
           lineTotal: unit * ci.quantity,
@@ -89,6 +150,7 @@ export default function Checkout() {
       .filter(Boolean) as Array<{
       id: string;
       productId: string;
+      variantId: string | null;
       name: string;
       imageUrl?: string;
       quantity: number;
@@ -96,12 +158,14 @@ export default function Checkout() {
       lineTotal: number;
       vendorId: string | null;
     }>;
-  }, [items, products]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, products, quote]);
 
-  // Totals
-  const subtotal = lines.reduce((s, l) => s + l.lineTotal, 0);
-  const shipping = lines.length ? 0 : 0; // set a flat fee if you want
-  const grandTotal = subtotal + shipping;
+  // Totals (server quote wins; local sum is only a placeholder while it loads)
+  const localSubtotal = lines.reduce((s, l) => s + l.lineTotal, 0);
+  const subtotal = quote ? Number(quote.subtotal) : localSubtotal;
+  const shipping = quote ? Number(quote.shippingFee) : 0;
+  const grandTotal = quote ? Number(quote.total) : localSubtotal;
 
   // Form state (seed from localStorage for convenience)
   const [form, setForm] = useState<CheckoutForm>(() => {
@@ -132,6 +196,12 @@ export default function Checkout() {
   const [method, setMethod] = useState<PaymentMethod>("orange_money");
   const [placing, setPlacing] = useState(false);
   const [orderRef, setOrderRef] = useState<string | null>(null);
+  // One reference per checkout attempt; retries reuse it so the server can dedupe
+  const attemptRef = useRef<string | null>(null);
+  // How many per-vendor orders the server split this checkout into
+  const [vendorOrderCount, setVendorOrderCount] = useState(0);
+  // true once the server accepted the checkout (not the offline receipt fallback)
+  const [placedOnServer, setPlacedOnServer] = useState(false);
 
   const valid =
     form.fullName.trim() &&
@@ -154,20 +224,20 @@ export default function Checkout() {
       title: "Orange Money (NLe)",
       acctName: "LWG Partners Network",
       number: site.supportPhone,
-      note: "Send payment to the number above, include your Order Ref in the transfer note.",
+      note: "After placing your order, tap Pay now and approve the prompt on your phone. You can also send payment to the number above with your Order Ref as the note.",
     },
     afrimoney: {
       title: "AfriMoney (NLe)",
       acctName: "LWG Partners Network",
       number: site.supportPhone,
-      note: "Send payment to the number above, include your Order Ref in the transfer note.",
+      note: "After placing your order, tap Pay now and approve the prompt on your phone. You can also send payment to the number above with your Order Ref as the note.",
     },
     bank_transfer: {
       title: "Bank Transfer (NLe)",
       bank: "Your Bank Name",
       acctName: "LWG Partners Network",
       acctNo: "000-000000-0",
-      note: "Use your Order Ref as narration. Orders ship after funds are received.",
+      note: "Use your Order Ref as narration, then upload your transfer receipt. Orders ship after funds are verified.",
     },
     cash_on_delivery: {
       title: "Cash on Delivery",
@@ -182,7 +252,10 @@ export default function Checkout() {
   /** ---------- Order submit (best-effort POST, always produce receipt) ---------- */
   const createOrder = useMutation({
     mutationFn: async (payload: any) => {
-      const res = await apiRequest("POST", "/api/orders", payload);
+      // Server splits the cart into one order per vendor under one checkout
+      const res = await apiRequest("POST", "/api/checkout", payload, {
+        "Idempotency-Key": payload.ref,
+      });
       // Even if server returns no body, we continue the flow
       try {
         return await res.json();
@@ -202,32 +275,93 @@ export default function Checkout() {
       return;
     }
 
-    const ref = randomOrderRef();
+    const ref = (attemptRef.current ??= randomOrderRef());
     setPlacing(true);
 
     const payload = {
       ref,
-      currency, // "NLe" or "USD" from your switcher
-      totals: { subtotal, shipping, grandTotal },
+      customerName: form.fullName.trim(),
+      customerEmail: form.email.trim(),
+      customerPhone: form.phone.trim(),
+      shippingAddress: { address: form.address.trim(), city: form.city.trim() },
+      currency, // "NLE" or "USD" from your switcher
+      rate: currency === "USD" ? rateNLePerUsd : 1,
       paymentMethod: method,
-      contact: form,
       items: lines.map((l) => ({
         productId: l.productId,
-        name: l.name,
+        variantId: l.variantId,
         quantity: l.quantity,
         unitPrice: l.unitPrice,
-        lineTotal: l.lineTotal,
-        vendorId: l.vendorId,
       })),
+      total: grandTotal, // server rejects with PRICE_CHANGED if this is stale
       notes: form.notes,
     };
 
     try {
-      await createOrder.mutateAsync(payload);
+      const result = await createOrder.mutateAsync(payload);
+      setVendorOrderCount(Array.isArray(result?.orders) ? result.orders.length : 0);
+      attemptRef.current = null; // next checkout gets a fresh reference
+      setPlacedOnServer(true);
       setOrderRef(ref);
       toast({ title: "Order placed", description: `Reference: ${ref}` });
       clearCart(); // clear now; remove this if you want to clear later
     } catch (e: any) {
+      const err = errorBody(e);
+
+      // Stale prices: show the corrected amounts and let the buyer confirm again
+      if (err?.status === 409 && err.body?.code === "PRICE_CHANGED") {
+        if (err.body.quote) queryClient.setQueryData(quoteKey, err.body.quote);
+        queryClient.invalidateQueries({ queryKey: ["/api/products/batch"] });
+        toast({
+          title: "Prices updated",
+          description: "Some prices changed. Please review the new total and place your order again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Gone or deactivated products/variants: drop them so the buyer can continue
+      if (err?.status === 409 && err.body?.code === "UNAVAILABLE") {
+        const gone = new Set<string>(
+          (err.body.items ?? []).map((i: { productId: string; variantId: string | null }) =>
+            cartLineKey(i.productId, i.variantId),
+          ),
+        );
+        items
+          .filter((i) => gone.has(cartLineKey(i.productId, i.variantId)))
+          .forEach((i) => removeItem(i.id));
+        toast({
+          title: "Some items are unavailable",
+          description: "We removed them from your cart. Please review your order.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Not enough stock: trim each short line to what's left (0 removes it)
+      if (err?.status === 409 && err.body?.code === "OUT_OF_STOCK") {
+        const short: Array<{
+          productId: string;
+          variantId: string | null;
+          name: string;
+          available: number;
+        }> = err.body.items ?? [];
+        short.forEach((s) => {
+          const line = items.find(
+            (i) => cartLineKey(i.productId, i.variantId) === cartLineKey(s.productId, s.variantId),
+          );
+          if (line) updateQuantity(line.id, s.available);
+        });
+        toast({
+          title: "Not enough stock",
+          description: short
+            .map((s) => (s.available > 0 ? `${s.name}: only ${s.available} left` : `${s.name}: sold out`))
+            .join(" · "),
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Still allow user to send receipt
       setOrderRef(ref);
       toast({
@@ -512,11 +646,29 @@ export default function Checkout() {
                 <div className="space-y-2">
                   <div className="rounded-md border p-3 text-sm">
                     <p className="font-medium">Order placed — Reference: {orderRef}</p>
+                    {vendorOrderCount > 1 && (
+                      <p className="text-muted-foreground">
+                        Your items come from {vendorOrderCount} sellers and may arrive separately.
+                      </p>
+                    )}
                     <p className="text-muted-foreground">
                       Send the receipt to confirm payment and speed up processing.
                     </p>
                   </div>
 
+                  {placedOnServer && method === "bank_transfer" && (
+                    <PaymentProofUpload reference={orderRef} email={form.email.trim()} />
+                  )}
+
+                  {placedOnServer && (method === "orange_money" || method === "afrimoney") && (
+                    <MobileMoneyPayment
+                      reference={orderRef}
+                      email={form.email.trim()}
+                      method={method}
+                      defaultPhone={form.phone.trim()}
+                    />
+                  )}
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                     <Button asChild variant="outline">
                       <a href={emailHref}>Email receipt (admin + you)</a>
@@ -535,6 +687,14 @@ export default function Checkout() {
                     Your info is used only for order processing.
                   </div>
 
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setLocation(`/track-order?ref=${encodeURIComponent(orderRef)}`)}
+                  >
+                    Track this order
+                  </Button>
+
                   <Button variant="ghost" className="w-full" onClick={() => setLocation("/")}>
                     Back to Home
                   </Button>
@@ -1,11 +1,15 @@
-import { useState, type ComponentType, type SVGProps } from "react";
+import type { ComponentType, SVGProps } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import ProductCard from "@/components/product-card"; // ⬅️ default import
 import { Skeleton } from "@/components/ui/skeleton";
+import { SearchResults } from "@/components/search-results";
+import { ProductFilterPanel, ProductSortSelect } from "@/components/product-filters";
+import { useProductFilters, useProductListing } from "@/lib/catalog";
+import { productFilterParams } from "@shared/catalog";
 import {
   Laptop,
   Shirt,
@@ -24,6 +28,7 @@ type ApiCategory = {
   slug: string;
   icon: string; // "bolt" | "shirt" | "home" | "football" | "book" | "baby" | ...
   description?: string;
+  parentId?: string | null; // subcategories are listed on /categories
 };
 
 type Product = {
@@ -32,9 +37,13 @@ type Product = {
   title?: string;
   imageUrl?: string;
   price: number | string;
+  stock?: number;
   isActive?: boolean;
+  hasVariants?: boolean;
+  ratingAverage?: string | null;
+  ratingCount?: number;
   description?: string;
-  createdAt?: string;
+  createdAt?: string | Date;
 };
 
 /* --------------------- Fallback (if API empty) ------------------- */
@@ -88,34 +97,33 @@ function adaptForCard(p: Product) {
     price: Number(p.price ?? 0),
     // anything extra ProductCard supports can be added here
     description: p.description ?? "",
+    stock: p.stock ?? 0,
     isActive: p.isActive ?? true,
+    hasVariants: p.hasVariants ?? false,
+    ratingAverage: p.ratingAverage ?? null,
+    ratingCount: p.ratingCount ?? 0,
   };
 }
 
 export default function Home() {
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  // filters live in the URL (?categoryId=…&sort=…); the navbar's search box sends users to /?search=…
+  const { filters, setFilters, clearFilters } = useProductFilters();
+  const searchQuery = new URLSearchParams(useSearch()).get("search")?.trim() ?? "";
 
-  // Products (filtered when selectedCategory is set)
-  const {
-    data: products = [],
-    isLoading: productsLoading,
-    isError: productsError,
-  } = useQuery<Product[]>({
-    // Keep query keys as full URL strings so your default fetcher works.
-    queryKey: selectedCategory
-      ? [`/api/products?categoryId=${encodeURIComponent(selectedCategory)}`]
-      : ["/api/products"],
-  });
+  const listing = useProductListing(filters, { enabled: !searchQuery });
+  const products = listing.data?.pages.flatMap((p) => p.items) ?? [];
+  const firstPage = listing.data?.pages[0];
+  const hasFilters = Object.keys(productFilterParams({ ...filters, sort: "newest" })).length > 0;
 
   // Categories from API
   const { data: apiCategories = [] } = useQuery<ApiCategory[]>({
     queryKey: ["/api/categories"],
   });
 
-  // Use API categories if present; otherwise fallback list
+  // Top-level API categories if present; otherwise fallback list
   const displayCategories =
     apiCategories.length > 0
-      ? apiCategories.map((c) => ({
+      ? apiCategories.filter((c) => !c.parentId).map((c) => ({
           id: String(c.id),
           name: c.name,
           slug: c.slug,
@@ -124,6 +132,14 @@ export default function Home() {
         }))
       : fallbackCategories;
 
+  if (searchQuery) {
+    return (
+      <div className="min-h-screen">
+        <SearchResults query={searchQuery} />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen">
       {/* Hero Section */}
@@ -165,7 +181,7 @@ export default function Home() {
                 <Card
                   key={category.id}
                   className="cursor-pointer hover:shadow-lg transition-all"
-                  onClick={() => setSelectedCategory(String(category.id))}
+                  onClick={() => setFilters({ categoryId: String(category.id) })}
                   data-testid={`card-category-${category.id}`}
                 >
                   <CardContent className="p-6 text-center">
@@ -186,17 +202,21 @@ export default function Home() {
       {/* Featured / Filtered Products */}
       <section className="py-16">
         <div className="container mx-auto px-4">
-          <div className="flex justify-between items-center mb-12">
-            <h2 className="text-3xl font-bold" data-testid="text-products-title">
-              {selectedCategory ? "Filtered Products" : "Featured Products"}
-            </h2>
-            <div className="flex space-x-4">
-              {selectedCategory && (
-                <Button
-                  variant="outline"
-                  onClick={() => setSelectedCategory(null)}
-                  data-testid="button-clear-filter"
-                >
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-12">
+            <div>
+              <h2 className="text-3xl font-bold" data-testid="text-products-title">
+                {hasFilters ? "Filtered Products" : "Featured Products"}
+              </h2>
+              {firstPage?.total != null && (
+                <p className="text-sm text-muted-foreground" data-testid="text-products-total">
+                  {firstPage.total} {firstPage.total === 1 ? "product" : "products"}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <ProductSortSelect value={filters.sort} onChange={(sort) => setFilters({ sort })} />
+              {hasFilters && (
+                <Button variant="outline" onClick={clearFilters} data-testid="button-clear-filter">
                   Clear Filter
                 </Button>
               )}
@@ -206,37 +226,62 @@ export default function Home() {
             </div>
           </div>
 
-          {productsLoading ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-              {Array.from({ length: 8 }).map((_, i) => (
-                <Card key={i}>
-                  <Skeleton className="aspect-square w-full" />
-                  <CardContent className="p-6">
-                    <Skeleton className="h-4 w-3/4 mb-2" />
-                    <Skeleton className="h-3 w-full mb-2" />
-                    <Skeleton className="h-3 w-1/2 mb-4" />
-                    <Skeleton className="h-10 w-full" />
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          ) : productsError ? (
-            <div className="text-center py-12">
-              <p className="text-destructive text-lg">Failed to load products</p>
-            </div>
-          ) : products.length === 0 ? (
-            <div className="text-center py-12">
-              <p className="text-muted-foreground text-lg" data-testid="text-no-products">
-                No products found
-              </p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-              {products.map((p) => (
-                <ProductCard key={String(p.id)} product={adaptForCard(p)} />
-              ))}
+          <div className="grid gap-8 lg:grid-cols-[220px_1fr]">
+            <ProductFilterPanel
+              filters={filters}
+              facets={firstPage?.facets}
+              onChange={setFilters}
+              onClear={clearFilters}
+            />
+
+            <div>
+              {listing.isLoading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                  {Array.from({ length: 6 }).map((_, i) => (
+                    <Card key={i}>
+                      <Skeleton className="aspect-square w-full" />
+                      <CardContent className="p-6">
+                        <Skeleton className="h-4 w-3/4 mb-2" />
+                        <Skeleton className="h-3 w-full mb-2" />
+                        <Skeleton className="h-3 w-1/2 mb-4" />
+                        <Skeleton className="h-10 w-full" />
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : listing.isError ? (
+                <div className="text-center py-12">
+                  <p className="text-destructive text-lg">Failed to load products</p>
+                </div>
+              ) : products.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground text-lg" data-testid="text-no-products">
+                    No products found
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                    {products.map((p) => (
+                      <ProductCard key={String(p.id)} product={adaptForCard(p)} />
+                    ))}
+                  </div>
+                  {listing.hasNextPage && (
+                    <div className="mt-10 text-center">
+                      <Button
+                        variant="outline"
+                        onClick={() => listing.fetchNextPage()}
+                        disabled={listing.isFetchingNextPage}
+                        data-testid="button-load-more"
+                      >
+                        {listing.isFetchingNextPage ? "Loading…" : "Load More"}
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </section>
 
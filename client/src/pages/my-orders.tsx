@@ -0,0 +1,83 @@
+// client/src/pages/my-orders.tsx
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { AuthGuard } from "@/components/auth-guard";
+import { OrderCard, type OrderDetail } from "@/components/order-card";
+import { OrderTimelineDialog } from "@/components/order-timeline";
+import {
+  ReturnRequestDialog,
+  ReturnStatusList,
+  type ReturnDetail,
+} from "@/components/return-request-dialog";
+import { Package } from "lucide-react";
+
+const MY_ORDERS_KEY = ["/api/orders/mine"];
+const MY_RETURNS_KEY = ["/api/returns/mine"];
+
+function MyOrdersList() {
+  const { data: orders = [], isLoading, isError, error } = useQuery<OrderDetail[]>({
+    queryKey: MY_ORDERS_KEY,
+    staleTime: 0,
+  });
+  const { data: returns = [] } = useQuery<ReturnDetail[]>({
+    queryKey: MY_RETURNS_KEY,
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading your orders…</p>;
+  }
+  if (isError) {
+    return <p className="text-destructive">{(error as Error)?.message || "Couldn't load your orders."}</p>;
+  }
+  if (!orders.length) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <Package className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="text-muted-foreground">You haven't placed any orders yet.</p>
+        <Button asChild>
+          <Link href="/">Start shopping</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {orders.map((order) => (
+        <OrderCard key={order.id} order={order}>
+          <ReturnStatusList returns={returns.filter((r) => r.orderId === order.id)} />
+          <div className="flex justify-end gap-2">
+            {order.status === "delivered" && (
+              <ReturnRequestDialog orderId={order.id} invalidate={[MY_ORDERS_KEY]} />
+            )}
+            {/* buyers can see the history and cancel while the order is pending */}
+            <OrderTimelineDialog
+              orderId={order.id}
+              status={order.status}
+              role="customer"
+              invalidate={[MY_ORDERS_KEY]}
+            />
+          </div>
+        </OrderCard>
+      ))}
+    </div>
+  );
+}
+
+export default function MyOrders() {
+  return (
+    <AuthGuard>
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold" data-testid="text-my-orders-title">My Orders</h1>
+          <p className="text-muted-foreground">
+            Each store ships its part of your checkout separately.
+          </p>
+        </div>
+        <MyOrdersList />
+      </div>
+    </AuthGuard>
+  );
+}
@@ -1,23 +1,44 @@
+import { useEffect, useState } from "react";
 import { useParams, Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
 import { useCartStore } from "@/lib/cart";
 import { useToast } from "@/hooks/use-toast";
 import {
-  Star,
   ShoppingCart,
   ArrowLeft,
   Truck,
   Shield,
   RotateCcw,
 } from "lucide-react";
+import { ProductGallery } from "@/components/product-gallery";
+import { findVariant, VariantPicker } from "@/components/variant-picker";
+import { ProductReviews } from "@/components/product-reviews";
+import { ProductQuestions } from "@/components/product-questions";
+import { WishlistButton } from "@/components/wishlist-button";
+import { StarRating } from "@/components/star-rating";
+import { formatRating } from "@shared/reviews";
+import type { GalleryImage } from "@shared/images";
+import type { Category } from "@shared/schema";
+import {
+  effectiveAttributes,
+  formatAttributeValue,
+  type ProductAttributes,
+} from "@shared/attributes";
+import {
+  variantLabel,
+  type ProductVariantsResponse,
+  type VariantOptions,
+} from "@shared/variants";
 
 /* ---------- Types ---------- */
 type Product = {
   id: string;
+  categoryId?: string;
   name?: string;
   title?: string;
   imageUrl?: string | null;
@@ -26,6 +47,12 @@ type Product = {
   description?: string;
   createdAt?: string;
   isActive?: boolean;
+  attributes: ProductAttributes;
+  ratingAverage: number | null;
+  ratingCount: number;
+  images: GalleryImage[];
+  options: ProductVariantsResponse["options"];
+  variants: ProductVariantsResponse["variants"];
 };
 
 /* ---------- Helpers ---------- */
@@ -68,6 +95,7 @@ export default function ProductDetails() {
       if (!p) return null;
       return {
         id: String(p.id),
+        categoryId: p.categoryId ?? p.category_id,
         name: p.name ?? p.title ?? "",
         title: p.title ?? p.name ?? "",
         imageUrl: p.imageUrl ?? p.image_url ?? null,
@@ -77,13 +105,41 @@ export default function ProductDetails() {
         createdAt: p.createdAt ?? p.created_at,
         isActive:
           typeof p.isActive === "boolean" ? p.isActive : !!p.is_active,
+        attributes: p.attributes ?? {},
+        ratingAverage: p.ratingAverage == null ? null : toNumber(p.ratingAverage),
+        ratingCount: toNumber(p.ratingCount),
+        images: Array.isArray(p.images) ? p.images : [],
+        options: Array.isArray(p.options) ? p.options : [],
+        variants: Array.isArray(p.variants) ? p.variants : [],
       } as Product;
     },
   });
 
+  // the category's attribute schema gives the spec table its labels and order
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: !!product?.categoryId,
+  });
+  const specs = product?.categoryId
+    ? effectiveAttributes(categories, product.categoryId).filter(
+        (def) => product.attributes[def.key] !== undefined,
+      )
+    : [];
+
+  // chosen option values; starts on the first variant that's in stock
+  const [selected, setSelected] = useState<VariantOptions>({});
+  useEffect(() => {
+    const active = product?.variants.filter((v) => v.isActive) ?? [];
+    const first = active.find((v) => v.stock > 0) ?? active[0];
+    setSelected(first ? { ...first.options } : {});
+  }, [product]);
+
+  const hasVariants = !!product?.options.length;
+  const variant = product && hasVariants ? findVariant(product.variants, selected) : undefined;
+
   const handleAddToCart = () => {
-    if (!product) return;
-    addItem(product as any);
+    if (!product || (hasVariants && !variant)) return;
+    addItem(product as any, 1, variant ?? null);
     toast({
       title: "Added to cart",
       description: `${product.name ?? product.title ?? "Item"} added to your cart`,
@@ -132,9 +188,21 @@ export default function ProductDetails() {
 
   // Normalized fields
   const displayName = product.name ?? product.title ?? "Product";
-  const price = toNumber(product.price, 0);
-  const stock = toNumber(product.stock, 0);
+  const price = toNumber(variant ? variant.price : product.price, 0);
+  const stock = hasVariants ? variant?.stock ?? 0 : toNumber(product.stock, 0);
   const img = product.imageUrl || "";
+  const gallery: GalleryImage[] = product.images.length
+    ? product.images
+    : img
+    ? [{ id: null, url: img, alt: displayName }]
+    : [];
+  // a variant with its own picture leads the gallery
+  const images: GalleryImage[] = variant?.imageUrl
+    ? [
+        { id: null, url: variant.imageUrl, alt: `${displayName} (${variantLabel(variant.options)})` },
+        ...gallery.filter((g) => g.url !== variant.imageUrl),
+      ]
+    : gallery;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -148,21 +216,8 @@ export default function ProductDetails() {
       </div>
 
       <div className="grid grid-cols-1 gap-12 lg:grid-cols-2">
-        {/* Product Image */}
-        <div className="space-y-4">
-          <div className="aspect-square overflow-hidden rounded-lg border">
-            {img ? (
-              <img
-                src={img}
-                alt={displayName}
-                className="h-full w-full object-cover"
-                data-testid="img-product"
-              />
-            ) : (
-              <div className="h-full w-full bg-muted" />
-            )}
-          </div>
-        </div>
+        {/* Product Images */}
+        <ProductGallery key={images[0]?.url} images={images} name={displayName} />
 
         {/* Product Info */}
         <div className="space-y-6">
@@ -175,19 +230,14 @@ export default function ProductDetails() {
             </h1>
 
             <div className="mb-4 flex items-center space-x-4">
-              <div className="flex items-center space-x-1">
-                {Array.from({ length: 5 }).map((_, i) => (
-                  <Star
-                    key={i}
-                    className={`h-5 w-5 ${
-                      i < 4 ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
-                    }`}
-                  />
-                ))}
+              <a href="#reviews" className="flex items-center space-x-1" data-testid="link-reviews">
+                <StarRating value={product.ratingAverage} className="h-5 w-5" />
                 <span className="ml-2 text-sm text-muted-foreground">
-                  (124 reviews)
+                  {product.ratingCount
+                    ? `${formatRating(product.ratingAverage)} (${product.ratingCount} review${product.ratingCount === 1 ? "" : "s"})`
+                    : "No reviews yet"}
                 </span>
-              </div>
+              </a>
             </div>
 
             <div className="mb-6 flex items-center space-x-4">
@@ -197,12 +247,14 @@ export default function ProductDetails() {
               >
                 ${price.toFixed(2)}
               </span>
-              <Badge
-                variant={stock > 0 ? "secondary" : "destructive"}
-                data-testid="badge-stock"
-              >
-                {stock > 0 ? `${stock} in stock` : "Out of stock"}
-              </Badge>
+              {(!hasVariants || variant) && (
+                <Badge
+                  variant={stock > 0 ? "secondary" : "destructive"}
+                  data-testid="badge-stock"
+                >
+                  {stock > 0 ? `${stock} in stock` : "Out of stock"}
+                </Badge>
+              )}
             </div>
           </div>
 
@@ -216,18 +268,53 @@ export default function ProductDetails() {
             </p>
           </div>
 
+          {/* Specifications */}
+          {specs.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-lg font-semibold">Specifications</h3>
+              <Table data-testid="table-specifications">
+                <TableBody>
+                  {specs.map((def) => (
+                    <TableRow key={def.key}>
+                      <TableCell className="w-1/3 font-medium">{def.label}</TableCell>
+                      <TableCell className="text-muted-foreground" data-testid={`text-spec-${def.key}`}>
+                        {formatAttributeValue(def, product.attributes[def.key])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Options */}
+          {hasVariants && (
+            <VariantPicker
+              options={product.options}
+              variants={product.variants}
+              selected={selected}
+              onChange={setSelected}
+            />
+          )}
+
           {/* Add to Cart */}
-          <div className="space-y-4">
+          <div className="flex gap-3">
             <Button
               onClick={handleAddToCart}
-              disabled={stock === 0}
+              disabled={stock === 0 || (hasVariants && !variant)}
               size="lg"
-              className="w-full"
+              className="flex-1"
               data-testid="button-add-to-cart"
             >
               <ShoppingCart className="mr-2 h-5 w-5" />
-              {stock > 0 ? "Add to Cart" : "Out of Stock"}
+              {hasVariants && !variant
+                ? "Choose Options"
+                : stock > 0
+                ? "Add to Cart"
+                : "Out of Stock"}
             </Button>
+            {/* alerts for it are switched on from the wishlist page */}
+            <WishlistButton productId={product.id} withLabel />
           </div>
 
           {/* Features */}
@@ -262,6 +349,9 @@ export default function ProductDetails() {
           </div>
         </div>
       </div>
+
+      <ProductReviews productId={product.id} />
+      <ProductQuestions productId={product.id} />
     </div>
   );
 }
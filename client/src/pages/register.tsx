@@ -85,8 +85,8 @@ export default function Register() {
       if (data.role === "vendor") {
         setLocation("/become-vendor");
       } else {
-        // For customers, go to login (works whether register() logs in or not)
-        setLocation("/login");
+        // register() signs the new customer in, so go straight to the shop
+        setLocation("/");
       }
     } catch (error: any) {
       // Try to surface backend message when possible
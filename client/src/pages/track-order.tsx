@@ -0,0 +1,130 @@
+// client/src/pages/track-order.tsx
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { OrderCard, type OrderDetail } from "@/components/order-card";
+import { OrderTimeline, type OrderEvent } from "@/components/order-timeline";
+import { PaymentProofUpload } from "@/components/payment-proof-upload";
+import { apiRequest } from "@/lib/queryClient";
+import { formatAmount } from "@/lib/currency";
+import { Search } from "lucide-react";
+
+type LookupResult = {
+  reference: string;
+  customerEmail: string;
+  paymentMethod: string;
+  currency: string;
+  rate: string;
+  total: string;
+  createdAt: string;
+  orders: Array<OrderDetail & { events: OrderEvent[] }>;
+};
+
+/** apiRequest throws "404: {json}"; surface the server's message */
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+export default function TrackOrder() {
+  const [reference, setReference] = useState(() =>
+    typeof window !== "undefined"
+      ? new URLSearchParams(window.location.search).get("ref") ?? ""
+      : "",
+  );
+  const [email, setEmail] = useState("");
+
+  const lookup = useMutation({
+    mutationFn: async (): Promise<LookupResult> => {
+      const res = await apiRequest("POST", "/api/orders/lookup", {
+        reference: reference.trim(),
+        email: email.trim(),
+      });
+      return res.json();
+    },
+  });
+
+  const result = lookup.data;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Track your order</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Enter the order reference from your receipt (e.g. LWG-XXXX-123) and the email you used at checkout.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              lookup.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="track-ref">Order reference</Label>
+              <Input
+                id="track-ref"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="LWG-…"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="track-email">Email</Label>
+              <Input
+                id="track-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={lookup.isPending} data-testid="button-track-order">
+              <Search className="h-4 w-4 mr-1" />
+              {lookup.isPending ? "Looking up…" : "Track"}
+            </Button>
+          </form>
+          {lookup.isError && (
+            <p className="mt-4 text-sm text-destructive">{errorMessage(lookup.error)}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <div className="space-y-6">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              {result.reference} · placed {new Date(result.createdAt).toLocaleDateString()}
+            </span>
+            <span className="font-semibold">
+              Total {formatAmount(result.total, result.currency, result.rate)}
+            </span>
+          </div>
+          {result.paymentMethod === "bank_transfer" &&
+            result.orders.some((o) => o.status === "pending") && (
+              <PaymentProofUpload reference={result.reference} email={result.customerEmail} />
+            )}
+          {result.orders.map((order) => (
+            <OrderCard key={order.id} order={order}>
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold mb-2">History</h3>
+                <OrderTimeline events={order.events} />
+              </div>
+            </OrderCard>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,14 +18,35 @@ import {
 import {
   Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 
 import { useAuthStore } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertProductSchema } from "@shared/schema";
+import { insertProductSchema, type Category } from "@shared/schema";
+import { buildCategoryTree, categoryLabel, flattenCategoryTree } from "@shared/categories";
+import { effectiveAttributes, type ProductAttributes } from "@shared/attributes";
+import { OrderTimelineDialog, statusBadgeVariant } from "@/components/order-timeline";
+import { ImageUploadField } from "@/components/image-upload-field";
+import { AttributeFields } from "@/components/attribute-fields";
+import { ProductEditDialog } from "@/components/product-edit-dialog";
+import { ProductImagesDialog } from "@/components/product-images-dialog";
+import { ProductVariantsDialog } from "@/components/product-variants-dialog";
+import { thumbnailUrl } from "@shared/images";
+import { VendorReturns } from "@/components/vendor-returns";
+import { VendorStatement } from "@/components/vendor-statement";
+import {
+  VendorReviews,
+  vendorReviewsKey,
+  type VendorReviewsResponse,
+} from "@/components/vendor-reviews";
+import { VendorQuestions } from "@/components/vendor-questions";
+import { formatRating } from "@shared/reviews";
 import {
-  Plus, Package, Clock, DollarSign, Star, Edit, Trash2, Store,
+  Plus, Package, Clock, DollarSign, Star, Trash2, Store,
   CheckCircle2, XCircle, Loader2,
 } from "lucide-react";
 
@@ -58,6 +79,7 @@ function normalizeVendor(v: any) {
     isApproved: !!isApproved,
     createdAt: v.createdAt ?? v.created_at ?? null,
     email: v.email ?? v.contact_email ?? null,
+    returnWindowDays: Number(v.returnWindowDays ?? v.return_window_days ?? 14),
   } as Vendor;
 }
 
@@ -99,6 +121,7 @@ type Vendor = {
   isApproved: boolean;
   createdAt: string | null;
   email?: string | null;
+  returnWindowDays: number;
 };
 
 type Order = {
@@ -113,6 +136,7 @@ type Order = {
 type Product = {
   id: string;
   vendorId: string;
+  categoryId?: string;
   name?: string;
   title?: string;
   price: number | string;
@@ -120,13 +144,19 @@ type Product = {
   imageUrl?: string;
   description?: string;
   isActive?: boolean;
+  hasVariants?: boolean;
+  attributes?: ProductAttributes;
   createdAt?: string;
 };
 
 /** ---------- Form Schema (UI strings -> server numbers) ---------- */
 const productFormSchema = insertProductSchema
-  .extend({ price: z.string().min(1), stock: z.string().min(1) })
-  .partial({ vendorId: true, categoryId: true });
+  .extend({
+    price: z.string().min(1),
+    stock: z.string().min(1),
+    categoryId: z.string().min(1, "Choose a category"),
+  })
+  .partial({ vendorId: true });
 
 type ProductForm = z.infer<typeof productFormSchema>;
 
@@ -162,7 +192,7 @@ export default function VendorDashboard() {
       if (viewMode) {
         return fetchVendorByIdRobust(asVendorId!);
       }
-      const raw = await fetchJSON<any>(`${API_BASE}/api/vendors/user/${user!.id}`);
+      const raw = await fetchJSON<any>(`${API_BASE}/api/vendors/me`);
       const v = normalizeVendor(raw?.vendor ?? raw);
       if (!v?.id) throw new Error("Vendor not found for this user");
       return v;
@@ -176,10 +206,11 @@ export default function VendorDashboard() {
     queryKey: ["products-by-vendor", vendor?.id],
     enabled: !!vendor?.id,
     queryFn: async () => {
-      const list = await fetchJSON<any[]>(`${API_BASE}/api/products?vendorId=${vendor!.id}`);
+      const list = await fetchJSON<any[]>(`${API_BASE}/api/vendors/${vendor!.id}/products`);
       return (list ?? []).map((p) => ({
         id: String(p.id),
         vendorId: String(p.vendorId ?? p.vendor_id ?? vendor!.id),
+        categoryId: p.categoryId ?? p.category_id,
         name: p.name ?? p.title ?? "",
         title: p.title,
         price: p.price,
@@ -187,6 +218,7 @@ export default function VendorDashboard() {
         imageUrl: p.imageUrl ?? p.image_url ?? "",
         description: p.description ?? "",
         isActive: typeof p.isActive === "boolean" ? p.isActive : !!p.is_active,
+        attributes: p.attributes ?? {},
         createdAt: p.createdAt ?? p.created_at,
       })) as Product[];
     },
@@ -209,6 +241,13 @@ export default function VendorDashboard() {
   });
 
   const products = productsQuery.data ?? [];
+
+  const reviewsQuery = useQuery<VendorReviewsResponse>({
+    queryKey: vendorReviewsKey(vendor?.id ?? ""),
+    enabled: !!vendor?.id,
+    staleTime: 0,
+  });
+  const rating = reviewsQuery.data?.summary;
   const orders = ordersQuery.data ?? [];
 
   /** ---------- Form ---------- */
@@ -220,6 +259,15 @@ export default function VendorDashboard() {
     },
   });
 
+  // typed spec values, kept outside the form since their fields depend on the category
+  const [attributes, setAttributes] = useState<ProductAttributes>({});
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+    enabled: isProductDialogOpen,
+  });
+  const categoryId = form.watch("categoryId");
+  const attributeDefs = categoryId ? effectiveAttributes(categories, categoryId) : [];
+
   // inject vendorId once loaded
   useEffect(() => {
     if (vendor?.id) {
@@ -239,6 +287,7 @@ export default function VendorDashboard() {
         vendorId: vendor!.id,
         price: Number(data.price),
         stock: Number(data.stock),
+        attributes,
       };
       await apiRequest("POST", "/api/products", payload);
     },
@@ -249,6 +298,7 @@ export default function VendorDashboard() {
         vendorId: vendor?.id ?? "", categoryId: "", name: "", description: "",
         price: "", stock: "", imageUrl: "",
       });
+      setAttributes({});
       toast({ title: "Product created successfully" });
     },
     onError: (e: any) => {
@@ -379,7 +429,14 @@ export default function VendorDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-muted-foreground">Store Rating</p>
-              <p className="text-2xl font-bold" data-testid="text-store-rating">4.8</p>
+              <p className="text-2xl font-bold" data-testid="text-store-rating">
+                {formatRating(rating?.average)}
+              </p>
+              {rating && (
+                <p className="text-xs text-muted-foreground">
+                  {rating.count} review{rating.count === 1 ? "" : "s"}
+                </p>
+              )}
             </div>
             <div className="w-12 h-12 bg-accent/10 rounded-full flex items-center justify-center">
               <Star className="h-6 w-6 text-accent" />
@@ -396,7 +453,7 @@ export default function VendorDashboard() {
               <Plus className="mr-2 h-4 w-4" /> Add New Product
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader><DialogTitle>Add New Product</DialogTitle></DialogHeader>
 
             {!canManage && (
@@ -477,14 +534,43 @@ export default function VendorDashboard() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="categoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={!canManage}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-product-category">
+                            <SelectValue placeholder="Choose a category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {flattenCategoryTree(buildCategoryTree(categories)).map(({ category: c }) => (
+                            <SelectItem key={c.id} value={c.id}>{categoryLabel(categories, c.id)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <AttributeFields
+                  defs={attributeDefs}
+                  values={attributes}
+                  onChange={setAttributes}
+                  disabled={!canManage}
+                />
                 <FormField
                   control={form.control}
                   name="imageUrl"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Image URL</FormLabel>
+                      <FormLabel>Image</FormLabel>
+                      <ImageUploadField value={field.value ?? ""} onChange={field.onChange} disabled={!canManage} />
                       <FormControl>
-                        <Input placeholder="https://example.com/image.jpg" {...field} disabled={!canManage} />
+                        <Input placeholder="…or paste an image URL" {...field} disabled={!canManage} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -539,7 +625,7 @@ export default function VendorDashboard() {
                         <TableCell>
                           <div className="flex items-center space-x-3">
                             {img ? (
-                              <img src={img} alt={name} className="w-12 h-12 object-cover rounded-lg" />
+                              <img src={thumbnailUrl(img, 320)} alt={name} className="w-12 h-12 object-cover rounded-lg" />
                             ) : (
                               <div className="w-12 h-12 rounded-lg bg-muted" />
                             )}
@@ -562,9 +648,21 @@ export default function VendorDashboard() {
                         </TableCell>
                         <TableCell>
                           <div className="flex gap-2">
-                            <Button variant="ghost" size="sm" disabled={!canManage} title={canManage ? "Edit" : "Read-only"}>
-                              <Edit className="h-4 w-4" />
-                            </Button>
+                            <ProductEditDialog
+                              product={p}
+                              listKey={["products-by-vendor", vendor?.id]}
+                              disabled={!canManage}
+                            />
+                            <ProductImagesDialog
+                              productId={p.id}
+                              listKey={["products-by-vendor", vendor?.id]}
+                              disabled={!canManage}
+                            />
+                            <ProductVariantsDialog
+                              product={p}
+                              listKey={["products-by-vendor", vendor?.id]}
+                              disabled={!canManage}
+                            />
                             <Button
                               variant="ghost"
                               size="sm"
@@ -612,6 +710,7 @@ export default function VendorDashboard() {
                   <TableHead>Amount</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -621,16 +720,23 @@ export default function VendorDashboard() {
                     <TableCell>{o.customerId}</TableCell>
                     <TableCell className="font-medium">${Number(o.total || 0).toFixed(2)}</TableCell>
                     <TableCell>
-                      <Badge variant={o.status === "delivered" ? "secondary" : o.status === "pending" ? "destructive" : "default"}>
-                        {o.status}
-                      </Badge>
+                      <Badge variant={statusBadgeVariant(o.status)}>{o.status}</Badge>
                     </TableCell>
                     <TableCell>{new Date(o.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <OrderTimelineDialog
+                        orderId={o.id}
+                        status={o.status}
+                        role={user?.role === "admin" ? "admin" : "vendor"}
+                        readOnly={!canManage}
+                        invalidate={[["orders-by-vendor", vendor?.id]]}
+                      />
+                    </TableCell>
                   </TableRow>
                 ))}
                 {!orders?.length && (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-sm text-muted-foreground">No orders yet.</TableCell>
+                    <TableCell colSpan={6} className="text-sm text-muted-foreground">No orders yet.</TableCell>
                   </TableRow>
                 )}
               </TableBody>
@@ -638,6 +744,21 @@ export default function VendorDashboard() {
           </div>
         </CardContent>
       </Card>
+
+      {vendor?.id && (
+        <VendorReturns
+          vendorId={vendor.id}
+          returnWindowDays={vendor.returnWindowDays}
+          canManage={canManage}
+          invalidate={[["vendor-by-user", user?.id], ["products-by-vendor", vendor.id]]}
+        />
+      )}
+
+      {vendor?.id && <VendorReviews vendorId={vendor.id} canManage={canManage} />}
+
+      {vendor?.id && <VendorQuestions vendorId={vendor.id} canManage={canManage} />}
+
+      {vendor?.id && <VendorStatement vendorId={vendor.id} canManage={canManage} />}
     </div>
   );
 }
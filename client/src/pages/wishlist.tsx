@@ -0,0 +1,185 @@
+// client/src/pages/wishlist.tsx
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { AuthGuard } from "@/components/auth-guard";
+import { useToast } from "@/hooks/use-toast";
+import { useCartStore } from "@/lib/cart";
+import { useCurrency } from "@/lib/currency";
+import { useWishlist, useWishlistActions } from "@/lib/wishlist";
+import type { WishlistEntry } from "@shared/wishlist";
+import { Heart, ShoppingCart, X } from "lucide-react";
+
+function errorMessage(e: unknown): string {
+  const raw = e instanceof Error ? e.message : String(e);
+  try {
+    return JSON.parse(raw.slice(raw.indexOf(":") + 1)).message ?? raw;
+  } catch {
+    return raw;
+  }
+}
+
+function WishlistRow({ entry }: { entry: WishlistEntry }) {
+  const { format } = useCurrency();
+  const { toast } = useToast();
+  const { addItem } = useCartStore();
+  const { remove, setAlerts } = useWishlistActions();
+
+  const { product } = entry;
+  const onError = (err: unknown) =>
+    toast({ title: "Couldn't update your wishlist", description: errorMessage(err), variant: "destructive" });
+
+  // a bookmarked product with variants needs its options picked first
+  const needsOptions = !entry.variant && product.hasVariants;
+
+  const moveToCart = () => {
+    addItem(product, 1, entry.variant);
+    remove.mutate(entry.id, { onError });
+  };
+
+  return (
+    <div
+      className="flex flex-col sm:flex-row gap-4 border-b border-border pb-6"
+      data-testid={`wishlist-item-${entry.id}`}
+    >
+      <Link href={`/products/${product.id}`} className="shrink-0">
+        <img
+          src={entry.variant?.imageUrl || product.imageUrl || ""}
+          alt={product.name}
+          className="w-24 h-24 object-cover rounded-lg"
+        />
+      </Link>
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div>
+          <Link href={`/products/${product.id}`} className="font-medium hover:underline">
+            {product.name}
+          </Link>
+          {entry.variantLabel && (
+            <p className="text-sm text-muted-foreground">{entry.variantLabel}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-semibold" data-testid={`text-wishlist-price-${entry.id}`}>
+            {needsOptions ? `From ${format(entry.currentPrice)}` : format(entry.currentPrice)}
+          </span>
+          {entry.currentPrice !== entry.priceAtAdd && (
+            <span
+              className={entry.currentPrice < entry.priceAtAdd ? "text-green-600" : "text-muted-foreground"}
+            >
+              was {format(entry.priceAtAdd)} when saved
+            </span>
+          )}
+          <Badge variant={entry.inStock ? "secondary" : "destructive"}>
+            {entry.inStock ? "In stock" : "Out of stock"}
+          </Badge>
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+          <label className="flex items-center gap-2">
+            <Switch
+              checked={entry.notifyPriceDrop}
+              disabled={setAlerts.isPending}
+              onCheckedChange={(on) =>
+                setAlerts.mutate({ id: entry.id, notifyPriceDrop: on }, { onError })
+              }
+              data-testid={`switch-price-drop-${entry.id}`}
+            />
+            Email me if the price drops
+          </label>
+          <label className="flex items-center gap-2">
+            <Switch
+              checked={entry.notifyBackInStock}
+              disabled={setAlerts.isPending}
+              onCheckedChange={(on) =>
+                setAlerts.mutate({ id: entry.id, notifyBackInStock: on }, { onError })
+              }
+              data-testid={`switch-back-in-stock-${entry.id}`}
+            />
+            Email me when it's back in stock
+          </label>
+        </div>
+      </div>
+
+      <div className="flex sm:flex-col gap-2 sm:w-40">
+        {needsOptions ? (
+          <Button size="sm" asChild className="flex-1">
+            <Link href={`/products/${product.id}`}>Choose options</Link>
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="flex-1"
+            disabled={!entry.inStock || remove.isPending}
+            onClick={moveToCart}
+            data-testid={`button-move-to-cart-${entry.id}`}
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Move to cart
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={remove.isPending}
+          onClick={() => remove.mutate(entry.id, { onError })}
+          data-testid={`button-remove-wishlist-${entry.id}`}
+        >
+          <X className="h-4 w-4 mr-2" />
+          Remove
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function WishlistItems() {
+  const { items, isLoading, isError, error } = useWishlist({ fresh: true });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading your wishlist…</p>;
+  }
+  if (isError) {
+    return <p className="text-destructive">{errorMessage(error)}</p>;
+  }
+  if (!items.length) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <Heart className="h-12 w-12 mx-auto text-muted-foreground" />
+        <p className="text-muted-foreground">
+          Nothing saved yet. Tap the heart on a product, or save a cart item for later.
+        </p>
+        <Button asChild>
+          <Link href="/">Start shopping</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {items.map((entry) => (
+        <WishlistRow key={entry.id} entry={entry} />
+      ))}
+    </div>
+  );
+}
+
+export default function Wishlist() {
+  return (
+    <AuthGuard>
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold" data-testid="text-wishlist-title">Wishlist</h1>
+          <p className="text-muted-foreground">
+            Saved products and items you moved out of your cart.
+          </p>
+        </div>
+        <WishlistItems />
+      </div>
+    </AuthGuard>
+  );
+}
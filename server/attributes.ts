@@ -0,0 +1,127 @@
+// server/attributes.ts
+import { z } from "zod";
+import { db, categories } from "./db";
+import type { Tx } from "./inventory";
+import {
+  ATTRIBUTE_TYPES,
+  MAX_ATTRIBUTE_OPTIONS,
+  MAX_ATTRIBUTES,
+  effectiveAttributes,
+  type AttributeDef,
+  type AttributeValue,
+  type ProductAttributes,
+} from "../shared/attributes";
+
+/** Rejected attribute values; the central error handler uses `status` */
+export class AttributeError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_TEXT_LENGTH = 200;
+
+/** A category's own attribute list (PATCH /api/categories/:id { attributes }) */
+export const attributeDefsSchema = z
+  .array(
+    z
+      .object({
+        key: z
+          .string()
+          .trim()
+          .regex(/^[a-z][a-z0-9_]{0,39}$/, "Attribute keys use lowercase letters, digits and _"),
+        label: z.string().trim().min(1).max(60),
+        type: z.enum(ATTRIBUTE_TYPES),
+        options: z.array(z.string().trim().min(1).max(60)).max(MAX_ATTRIBUTE_OPTIONS).optional(),
+        unit: z.string().trim().max(20).optional(),
+        required: z.boolean().optional(),
+        filterable: z.boolean().optional(),
+      })
+      .transform((def) => {
+        const choices = def.type === "select" || def.type === "multiselect";
+        return {
+          ...def,
+          options: choices ? Array.from(new Set(def.options ?? [])) : undefined,
+          unit: def.type === "number" ? def.unit || undefined : undefined,
+        };
+      })
+      .refine(
+        (def) => (def.type !== "select" && def.type !== "multiselect") || !!def.options?.length,
+        "Choice attributes need at least one option",
+      ),
+  )
+  .max(MAX_ATTRIBUTES)
+  .refine((defs) => new Set(defs.map((d) => d.key)).size === defs.length, "Attribute keys must be unique");
+
+/** The attribute schema products in `categoryId` follow, inherited ones included */
+export async function getCategoryAttributes(
+  categoryId: string,
+  q: Tx | typeof db = db,
+): Promise<AttributeDef[]> {
+  const rows = await q
+    .select({ id: categories.id, parentId: categories.parentId, attributes: categories.attributes })
+    .from(categories);
+  return effectiveAttributes(rows, categoryId);
+}
+
+const isEmpty = (v: unknown) =>
+  v === undefined ||
+  v === null ||
+  (typeof v === "string" && v.trim() === "") ||
+  (Array.isArray(v) && v.length === 0);
+
+function coerce(def: AttributeDef, raw: unknown): AttributeValue {
+  const fail = (): never => {
+    throw new AttributeError(`Invalid value for ${def.label}`);
+  };
+  switch (def.type) {
+    case "text": {
+      if (typeof raw !== "string" && typeof raw !== "number") return fail();
+      const text = String(raw).trim();
+      return text.length > MAX_TEXT_LENGTH ? fail() : text;
+    }
+    case "number": {
+      const n = typeof raw === "number" ? raw : Number(String(raw).trim());
+      return Number.isFinite(n) ? n : fail();
+    }
+    case "boolean":
+      if (raw === true || raw === "true") return true;
+      if (raw === false || raw === "false") return false;
+      return fail();
+    case "select":
+      return typeof raw === "string" && def.options?.includes(raw) ? raw : fail();
+    case "multiselect": {
+      const values = Array.isArray(raw) ? raw : fail();
+      if (!values.every((v) => typeof v === "string" && def.options?.includes(v))) fail();
+      return Array.from(new Set(values as string[]));
+    }
+  }
+}
+
+/**
+ * Checks `input` against the schema and returns the typed values. Keys the
+ * schema doesn't define are dropped (e.g. after a category change); required
+ * attributes are only enforced when `enforceRequired` is set.
+ */
+export function validateAttributes(
+  defs: AttributeDef[],
+  input: unknown,
+  { enforceRequired = true }: { enforceRequired?: boolean } = {},
+): ProductAttributes {
+  if (input !== undefined && input !== null && (typeof input !== "object" || Array.isArray(input))) {
+    throw new AttributeError("Attributes must be an object");
+  }
+  const values = (input ?? {}) as Record<string, unknown>;
+  const out: ProductAttributes = {};
+  for (const def of defs) {
+    const raw = values[def.key];
+    if (isEmpty(raw)) {
+      if (def.required && enforceRequired) throw new AttributeError(`${def.label} is required`);
+      continue;
+    }
+    out[def.key] = coerce(def, raw);
+  }
+  return out;
+}
@@ -0,0 +1,155 @@
+// server/auth.ts
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { eq } from "drizzle-orm";
+import { db, pool, users, vendors, type User, type Vendor } from "./db";
+import { env } from "./env";
+
+export type Role = "customer" | "vendor" | "admin";
+
+/** What the API is allowed to reveal about a user (never the password hash) */
+export type SessionUser = {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: Role;
+};
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireAuth / requireRole */
+      authUser?: SessionUser;
+    }
+  }
+}
+
+const PgStore = connectPgSimple(session);
+
+export const SESSION_COOKIE = "lwg.sid";
+
+/**
+ * Cookie-based sessions stored in Postgres (`user_sessions` table).
+ * - The table is created on first boot if it doesn't exist.
+ * - Cookies are `secure` in production (we sit behind Render's proxy).
+ */
+export const sessionMiddleware = session({
+  name: SESSION_COOKIE,
+  secret: env.SESSION_SECRET,
+  store: new PgStore({
+    pool,
+    tableName: "user_sessions",
+    createTableIfMissing: true,
+  }),
+  resave: false,
+  saveUninitialized: false,
+  rolling: true,
+  cookie: {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: env.NODE_ENV === "production",
+    maxAge: 1000 * 60 * 60 * 24 * 30, // 30 days
+  },
+});
+
+export function toSessionUser(user: User): SessionUser {
+  const role = (["customer", "vendor", "admin"].includes(user.role)
+    ? user.role
+    : "customer") as Role;
+
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role,
+  };
+}
+
+/**
+ * Resolve the signed-in user from the session.
+ * Always reads the DB so role changes (e.g. vendor approval) apply immediately.
+ */
+export async function getSessionUser(req: Request): Promise<SessionUser | null> {
+  const userId = req.session?.userId;
+  if (!userId) return null;
+
+  const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+  return user ? toSessionUser(user) : null;
+}
+
+/** Start a fresh session for `userId` (new id to avoid session fixation) */
+export function signIn(req: Request, userId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function signOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!req.session) return resolve();
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+/* -----------------------------------------------------------------------------
+   Guards
+----------------------------------------------------------------------------- */
+
+/** 401 unless signed in; exposes the user as `req.authUser` */
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Not signed in" });
+    req.authUser = user;
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * 401 unless signed in, 403 unless the user has one of `roles`.
+ *   router.get("/orders", requireRole("admin"), handler)
+ */
+export function requireRole(...roles: Role[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireAuth(req, res, (err?: unknown) => {
+      if (err) return next(err);
+      if (!roles.includes(req.authUser!.role)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      next();
+    });
+}
+
+/** The vendor row owned by `userId`, if any (approved or not) */
+export async function getVendorForUser(userId: string): Promise<Vendor | undefined> {
+  return db.query.vendors.findFirst({ where: eq(vendors.userId, userId) });
+}
+
+/**
+ * Ownership check for vendor-scoped resources.
+ * Admins may act on any vendor; vendors only on their own, approved store.
+ */
+export async function canActForVendor(
+  user: SessionUser,
+  vendorId: string,
+): Promise<boolean> {
+  if (user.role === "admin") return true;
+  if (user.role !== "vendor") return false;
+  const vendor = await getVendorForUser(user.id);
+  return !!vendor && vendor.isApproved && vendor.id === vendorId;
+}
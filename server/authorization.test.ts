@@ -0,0 +1,321 @@
+// server/authorization.test.ts
+// Every guarded API route answers 401 to guests, 403 to the wrong role and
+// 403 to a vendor acting for someone else's store. The routers are mounted
+// as in server/index.ts; the session and the few lookups the guards make
+// (user, their vendor, the product being edited) are stubbed, so no
+// database is needed.
+import express, { type NextFunction, type Request, type Response } from "express";
+import type { SessionData } from "express-session";
+import request from "supertest";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { db, type Product, type User, type Vendor } from "./db";
+import type { Role } from "./auth";
+
+import cartRouter from "./routes/cart";
+import categoriesRouter from "./routes/categories";
+import ordersRouter from "./routes/orders";
+import paymentProofsRouter from "./routes/payment-proofs";
+import refundsRouter from "./routes/refunds";
+import returnsRouter from "./routes/returns";
+import payoutsRouter from "./routes/payouts";
+import uploadsRouter from "./routes/uploads";
+import productsRouter from "./routes/products";
+import productImagesRouter from "./routes/product-images";
+import productVariantsRouter from "./routes/product-variants";
+import productReviewsRouter from "./routes/product-reviews";
+import reviewsRouter from "./routes/reviews";
+import productQuestionsRouter from "./routes/product-questions";
+import questionsRouter from "./routes/questions";
+import wishlistRouter from "./routes/wishlist";
+import vendorsRouter from "./routes/vendors";
+import vendorRequestsRouter from "./routes/vendor-requests";
+import adminRouter from "./routes/admin";
+
+type TestUser = { id: string; role: Role };
+
+const customer: TestUser = { id: "u-customer", role: "customer" };
+const vendor: TestUser = { id: "u-vendor", role: "vendor" }; // owns v1
+const otherVendor: TestUser = { id: "u-other-vendor", role: "vendor" }; // owns v2
+const pendingVendor: TestUser = { id: "u-pending-vendor", role: "vendor" }; // owns v3, not approved
+const admin: TestUser = { id: "u-admin", role: "admin" };
+
+const vendorOf: Record<string, Pick<Vendor, "id" | "isApproved">> = {
+  [vendor.id]: { id: "v1", isApproved: true },
+  [otherVendor.id]: { id: "v2", isApproved: true },
+  [pendingVendor.id]: { id: "v3", isApproved: false },
+};
+
+const createdAt = new Date("2025-01-01T00:00:00Z");
+
+const userRow = (u: TestUser): User => ({
+  id: u.id,
+  email: `${u.id}@example.com`,
+  password: "x",
+  firstName: "Test",
+  lastName: "User",
+  role: u.role,
+  createdAt,
+});
+
+const vendorRow = (u: TestUser): Vendor | undefined =>
+  vendorOf[u.id] && {
+    ...vendorOf[u.id],
+    userId: u.id,
+    storeName: `Store ${vendorOf[u.id].id}`,
+    description: null,
+    phone: null,
+    returnWindowDays: 14,
+    createdAt,
+  };
+
+// every product in these tests belongs to v1
+const productRow: Product = {
+  id: "p1",
+  vendorId: "v1",
+  categoryId: "c1",
+  name: "Phone",
+  description: "",
+  price: "10.00",
+  stock: 5,
+  imageUrl: "",
+  isActive: true,
+  hasVariants: false,
+  attributes: {},
+  ratingAverage: null,
+  ratingCount: 0,
+  createdAt,
+};
+
+/** Who the next request is signed in as */
+let signedIn: TestUser | null = null;
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  const session: Partial<SessionData> = signedIn ? { userId: signedIn.id } : {};
+  Object.assign(req, { session });
+  next();
+});
+app.use("/api/categories", categoriesRouter);
+app.use("/api/products/:productId/images", productImagesRouter);
+app.use("/api/products/:productId/variants", productVariantsRouter);
+app.use("/api/products/:productId/reviews", productReviewsRouter);
+app.use("/api/products/:productId/questions", productQuestionsRouter);
+app.use("/api/products", productsRouter);
+app.use("/api/cart", cartRouter);
+app.use("/api/wishlist", wishlistRouter);
+app.use("/api/orders", ordersRouter);
+app.use("/api/payment-proofs", paymentProofsRouter);
+app.use("/api/refunds", refundsRouter);
+app.use("/api/returns", returnsRouter);
+app.use("/api/reviews", reviewsRouter);
+app.use("/api/questions", questionsRouter);
+app.use("/api/payouts", payoutsRouter);
+app.use("/api/uploads", uploadsRouter);
+app.use("/api/vendors", vendorsRouter);
+app.use("/api/vendor-requests", vendorRequestsRouter);
+app.use("/api", adminRouter);
+app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  const e = err as { status?: number; message?: string };
+  res.status(Number(e?.status || 500)).json({ message: String(e?.message) });
+});
+
+type Stubbed = "users" | "vendors" | "products";
+type FindFirst<K extends Stubbed> = (typeof db.query)[K]["findFirst"];
+
+/**
+ * Stub a relational findFirst with a row of its table. The handlers only
+ * await the query, so a promise of the row stands in for the builder.
+ */
+function stubFindFirst<K extends Stubbed>(
+  table: K,
+  row: () => Awaited<ReturnType<FindFirst<K>>>,
+) {
+  const query = db.query[table] as { findFirst: FindFirst<K> };
+  vi.spyOn(query, "findFirst").mockImplementation(
+    () => Promise.resolve(row()) as unknown as ReturnType<FindFirst<K>>,
+  );
+}
+
+beforeAll(() => {
+  stubFindFirst("users", () => (signedIn ? userRow(signedIn) : undefined));
+  stubFindFirst("vendors", () => (signedIn ? vendorRow(signedIn) : undefined));
+  stubFindFirst("products", () => productRow);
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  signedIn = null;
+});
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+/** A guarded route; `roles` for requireRole, none for requireAuth only */
+type Guarded = [method: Method, path: string, roles?: Role[]];
+
+const ADMIN: Role[] = ["admin"];
+const STAFF: Role[] = ["vendor", "admin"];
+
+const guarded: Guarded[] = [
+  // admin.ts
+  ["get", "/api/admin/vendors", ADMIN],
+  ["get", "/api/admin/products", ADMIN],
+  ["post", "/api/admin/vendors/v1/approve", ADMIN],
+  ["post", "/api/admin/vendors/v1/reject", ADMIN],
+  ["patch", "/api/admin/vendors/v1", ADMIN],
+  ["post", "/api/vendors/v1/approve", ADMIN],
+  ["post", "/api/vendors/v1/reject", ADMIN],
+  ["put", "/api/vendors/v1/approval", ADMIN],
+  // vendors.ts
+  ["get", "/api/vendors/pending", ADMIN],
+  ["patch", "/api/vendors/v1/approve", ADMIN],
+  ["get", "/api/vendors/me"],
+  ["patch", "/api/vendors/v1/return-policy", STAFF],
+  ["get", "/api/vendors/v1/products", STAFF],
+  ["get", "/api/vendors/user"],
+  // vendor-requests.ts
+  ["get", "/api/vendor-requests", ADMIN],
+  ["patch", "/api/vendor-requests/v1/approve", ADMIN],
+  ["patch", "/api/vendor-requests/v1/reject", ADMIN],
+  // categories.ts
+  ["post", "/api/categories", ADMIN],
+  ["put", "/api/categories/order", ADMIN],
+  ["patch", "/api/categories/c1", ADMIN],
+  ["delete", "/api/categories/c1", ADMIN],
+  ["post", "/api/categories/c1/move-products", ADMIN],
+  // products.ts and the per-product routers
+  ["post", "/api/products", STAFF],
+  ["put", "/api/products/p1", STAFF],
+  ["delete", "/api/products/p1", STAFF],
+  ["post", "/api/products/p1/images", STAFF],
+  ["put", "/api/products/p1/images/order", STAFF],
+  ["patch", "/api/products/p1/images/img1", STAFF],
+  ["delete", "/api/products/p1/images/img1", STAFF],
+  ["put", "/api/products/p1/variants", STAFF],
+  ["post", "/api/products/p1/reviews"],
+  ["delete", "/api/products/p1/reviews/mine"],
+  ["post", "/api/products/p1/questions"],
+  ["post", "/api/uploads", STAFF],
+  // cart.ts, wishlist.ts
+  ["get", "/api/cart"],
+  ["put", "/api/cart"],
+  ["post", "/api/cart/merge"],
+  ["post", "/api/cart/accept-prices"],
+  ["get", "/api/wishlist"],
+  ["post", "/api/wishlist"],
+  ["patch", "/api/wishlist/w1"],
+  ["delete", "/api/wishlist/w1"],
+  // orders.ts
+  ["get", "/api/orders", ADMIN],
+  ["get", "/api/orders/vendor/v1", STAFF],
+  ["get", "/api/orders/customer/u-customer"],
+  ["get", "/api/orders/mine"],
+  ["put", "/api/orders/o1/status"],
+  ["get", "/api/orders/o1/events"],
+  // payment-proofs.ts, refunds.ts
+  ["get", "/api/payment-proofs", ADMIN],
+  ["get", "/api/payment-proofs/pp1/file", ADMIN],
+  ["post", "/api/payment-proofs/pp1/review", ADMIN],
+  ["get", "/api/refunds", ADMIN],
+  ["get", "/api/refunds/order/o1", ADMIN],
+  ["post", "/api/refunds", ADMIN],
+  // returns.ts
+  ["get", "/api/returns/eligibility/o1"],
+  ["get", "/api/returns/mine"],
+  ["get", "/api/returns/vendor/v1", STAFF],
+  ["post", "/api/returns"],
+  ["post", "/api/returns/r1/photos"],
+  ["get", "/api/returns/r1/photos/ph1"],
+  ["put", "/api/returns/r1/status", STAFF],
+  // reviews.ts, questions.ts
+  ["get", "/api/reviews", ADMIN],
+  ["get", "/api/reviews/vendor/v1", STAFF],
+  ["put", "/api/reviews/rv1/reply", STAFF],
+  ["put", "/api/reviews/rv1/moderation", ADMIN],
+  ["post", "/api/reviews/rv1/photos"],
+  ["delete", "/api/reviews/rv1/photos/ph1"],
+  ["get", "/api/questions", ADMIN],
+  ["get", "/api/questions/vendor/v1", STAFF],
+  ["put", "/api/questions/q1/answer", STAFF],
+  ["put", "/api/questions/q1/moderation", ADMIN],
+  // payouts.ts
+  ["get", "/api/payouts/vendor/v1"],
+  ["put", "/api/payouts/vendor/v1/account"],
+  ["get", "/api/payouts/balances", ADMIN],
+  ["get", "/api/payouts/commission", ADMIN],
+  ["put", "/api/payouts/commission", ADMIN],
+  ["get", "/api/payouts/batches", ADMIN],
+  ["post", "/api/payouts/batches", ADMIN],
+  ["put", "/api/payouts/po1", ADMIN],
+];
+
+const send = (method: Method, path: string, as: TestUser | null, body: object = {}) => {
+  signedIn = as;
+  const req = request(app)[method](path);
+  return method === "get" || method === "delete" ? req : req.send(body);
+};
+
+describe("guests", () => {
+  it.each(guarded)("%s %s → 401", async (method, path) => {
+    const res = await send(method, path, null);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("wrong role", () => {
+  const cases = guarded.flatMap(([method, path, roles]) =>
+    roles
+      ? [customer, vendor]
+          .filter((u) => !roles.includes(u.role))
+          .map((u) => [method, path, u.role, u] as const)
+      : [],
+  );
+
+  it.each(cases)("%s %s as %s → 403", async (method, path, _role, user) => {
+    const res = await send(method, path, user);
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("someone else's store or account", () => {
+  const variantSet = { options: [], variants: [] };
+
+  const cases: Array<[Method, string, TestUser, object?]> = [
+    ["get", "/api/payouts/vendor/v1", customer],
+    ["get", "/api/payouts/vendor/v1", otherVendor],
+    ["put", "/api/payouts/vendor/v1/account", otherVendor],
+    ["put", "/api/payouts/vendor/v3/account", pendingVendor], // own store, not approved yet
+    ["get", "/api/orders/vendor/v1", otherVendor],
+    ["get", "/api/orders/customer/u-customer", vendor],
+    ["get", "/api/returns/vendor/v1", otherVendor],
+    ["get", "/api/reviews/vendor/v1", otherVendor],
+    ["get", "/api/questions/vendor/v1", otherVendor],
+    ["patch", "/api/vendors/v1/return-policy", otherVendor],
+    ["get", "/api/vendors/v1/products", otherVendor],
+    ["put", "/api/products/p1", otherVendor],
+    ["delete", "/api/products/p1", otherVendor],
+    ["put", "/api/products/p1/variants", otherVendor, variantSet],
+    ["put", "/api/products/p1/images/order", otherVendor, { ids: ["img1"] }],
+    ["patch", "/api/products/p1/images/img1", otherVendor, { alt: "Front" }],
+    ["delete", "/api/products/p1/images/img1", otherVendor],
+  ];
+
+  it.each(cases)("%s %s → 403", async (method, path, user, body) => {
+    const res = await send(method, path, user, body);
+    expect(res.status).toBe(403);
+  });
+
+  // the owner and admins get past the check (and fail validation instead)
+  it.each([
+    ["put", "/api/payouts/vendor/v1/account", vendor],
+    ["put", "/api/payouts/vendor/v1/account", admin],
+    ["patch", "/api/vendors/v1/return-policy", vendor],
+    ["patch", "/api/vendors/v1/return-policy", admin],
+  ] as Array<[Method, string, TestUser]>)("%s %s by the owner or an admin → 400", async (method, path, user) => {
+    const res = await send(method, path, user, { returnWindowDays: -1 });
+    expect(res.status).toBe(400);
+  });
+});
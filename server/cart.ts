@@ -0,0 +1,178 @@
+// server/cart.ts
+import { and, asc, eq, inArray } from "drizzle-orm";
+import {
+  db,
+  cartItems,
+  products,
+  productVariants,
+  type CartItem,
+  type Product,
+  type ProductVariant,
+} from "./db";
+import type { Tx } from "./inventory";
+import { money } from "./pricing";
+import { cartLineKey, variantLabel } from "../shared/variants";
+import type { CartLine, CartLineInput, CartLineIssue } from "../shared/cart";
+
+type CartRow = CartItem & { product: Product; variant: ProductVariant | null };
+
+function lineIssue(row: CartRow, available: number): CartLineIssue | null {
+  const { product, variant } = row;
+  if (!product.isActive || variant?.isActive === false || (product.hasVariants && !variant)) {
+    return "unavailable";
+  }
+  if (available <= 0) return "out_of_stock";
+  if (row.quantity > available) return "insufficient_stock";
+  return null;
+}
+
+function toCartLine(row: CartRow): CartLine {
+  const { product, variant } = row;
+  const priceEach = money(Number(row.priceEach));
+  const currentPrice = money(Number(variant ? variant.price : product.price));
+  const available = variant ? variant.stock : product.stock;
+  return {
+    id: row.id,
+    productId: row.productId,
+    variantId: row.variantId,
+    variantLabel: variant ? variantLabel(variant.options) : null,
+    imageUrl: variant?.imageUrl ?? null,
+    quantity: row.quantity,
+    priceEach,
+    currentPrice,
+    priceChanged: priceEach !== currentPrice,
+    available,
+    issue: lineIssue(row, available),
+    createdAt: row.createdAt.toISOString(),
+    product,
+  };
+}
+
+/** The buyer's cart, oldest line first, checked against current prices and stock */
+export async function getCart(userId: string, q: Tx | typeof db = db): Promise<CartLine[]> {
+  const rows = await q.query.cartItems.findMany({
+    where: eq(cartItems.userId, userId),
+    with: { product: true, variant: true },
+    orderBy: [asc(cartItems.createdAt), asc(cartItems.id)],
+  });
+  return rows.map(toCartLine);
+}
+
+/**
+ * Current unit price of each input line, keyed by cartLineKey. Lines whose
+ * product or variant doesn't exist (or doesn't belong together) are left
+ * out, so a stale browser cart can't fail the whole write.
+ */
+async function currentPrices(tx: Tx, items: CartLineInput[]): Promise<Map<string, number>> {
+  const productIds = Array.from(new Set(items.map((i) => i.productId)));
+  const variantIds = Array.from(new Set(items.flatMap((i) => (i.variantId ? [i.variantId] : []))));
+  const [productRows, variantRows] = await Promise.all([
+    productIds.length
+      ? tx
+          .select({ id: products.id, price: products.price })
+          .from(products)
+          .where(inArray(products.id, productIds))
+      : [],
+    variantIds.length
+      ? tx
+          .select({ id: productVariants.id, productId: productVariants.productId, price: productVariants.price })
+          .from(productVariants)
+          .where(inArray(productVariants.id, variantIds))
+      : [],
+  ]);
+  const productsById = new Map(productRows.map((p) => [p.id, p]));
+  const variantsById = new Map(variantRows.map((v) => [v.id, v]));
+
+  const prices = new Map<string, number>();
+  for (const item of items) {
+    const product = productsById.get(item.productId);
+    if (!product) continue;
+    if (item.variantId) {
+      const variant = variantsById.get(item.variantId);
+      if (variant?.productId !== product.id) continue;
+      prices.set(cartLineKey(product.id, variant.id), money(Number(variant.price)));
+    } else {
+      prices.set(cartLineKey(product.id), money(Number(product.price)));
+    }
+  }
+  return prices;
+}
+
+/**
+ * Write browser cart lines into the buyer's server cart.
+ * - replace: the cart becomes exactly `items` (quantities as sent)
+ * - merge: lines are added; a line in both keeps the larger quantity
+ * Existing lines keep their price snapshot; new ones take the price the
+ * buyer saw, or the current price.
+ */
+async function writeCart(userId: string, items: CartLineInput[], mode: "replace" | "merge") {
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select()
+      .from(cartItems)
+      .where(eq(cartItems.userId, userId))
+      .for("update");
+    const existingByKey = new Map(existing.map((r) => [cartLineKey(r.productId, r.variantId), r]));
+
+    // one entry per line; a repeated line counts once, last one wins
+    const incoming = new Map(items.map((i) => [cartLineKey(i.productId, i.variantId), i]));
+    const prices = await currentPrices(tx, Array.from(incoming.values()));
+
+    if (mode === "replace") {
+      const dropped = existing
+        .filter((r) => !incoming.has(cartLineKey(r.productId, r.variantId)))
+        .map((r) => r.id);
+      if (dropped.length) await tx.delete(cartItems).where(inArray(cartItems.id, dropped));
+    }
+
+    for (const [key, item] of Array.from(incoming)) {
+      const price = prices.get(key);
+      if (price === undefined) continue;
+
+      const row = existingByKey.get(key);
+      if (row) {
+        const quantity = mode === "merge" ? Math.max(row.quantity, item.quantity) : item.quantity;
+        if (quantity !== row.quantity) {
+          await tx
+            .update(cartItems)
+            .set({ quantity, updatedAt: new Date() })
+            .where(eq(cartItems.id, row.id));
+        }
+      } else {
+        await tx.insert(cartItems).values({
+          userId,
+          productId: item.productId,
+          variantId: item.variantId ?? null,
+          quantity: item.quantity,
+          priceEach: money(item.priceEach ?? price).toFixed(2),
+        });
+      }
+    }
+
+    return getCart(userId, tx);
+  });
+}
+
+/** PUT /api/cart: the buyer's cart becomes these lines */
+export function replaceCart(userId: string, items: CartLineInput[]): Promise<CartLine[]> {
+  return writeCart(userId, items, "replace");
+}
+
+/** At sign-in: fold the browser's guest cart into the saved one */
+export function mergeCart(userId: string, items: CartLineInput[]): Promise<CartLine[]> {
+  return writeCart(userId, items, "merge");
+}
+
+/** The buyer has seen the new prices: snapshot them on every line */
+export async function acceptCartPrices(userId: string): Promise<CartLine[]> {
+  return db.transaction(async (tx) => {
+    const lines = await getCart(userId, tx);
+    for (const line of lines.filter((l) => l.priceChanged)) {
+      await tx
+        .update(cartItems)
+        .set({ priceEach: line.currentPrice.toFixed(2), updatedAt: new Date() })
+        .where(and(eq(cartItems.id, line.id), eq(cartItems.userId, userId)));
+    }
+    return getCart(userId, tx);
+  });
+}
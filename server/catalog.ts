@@ -0,0 +1,257 @@
+// server/catalog.ts
+import { and, asc, count, desc, eq, gt, gte, inArray, lte, max, min, sql, type SQL } from "drizzle-orm";
+import { db, categories, orderItems, orders, products, vendors } from "./db";
+import type {
+  AttributeFacet,
+  ProductFacets,
+  ProductFilters,
+  ProductListResponse,
+  ProductSort,
+} from "../shared/catalog";
+import { descendantIds } from "../shared/categories";
+import { effectiveAttributes, type AttributeDef } from "../shared/attributes";
+
+/** Unusable `cursor` param; the central error handler uses `status` */
+export class CatalogError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_ATTRIBUTE_FACET_VALUES = 30;
+
+/** Orders whose units count towards "popular" (placed and not cancelled/refunded) */
+const SOLD_STATUSES = ["paid", "processing", "shipped", "delivered"];
+
+const sold = db
+  .select({
+    productId: orderItems.productId,
+    units: sql<string>`sum(${orderItems.quantity})`.as("units"),
+  })
+  .from(orderItems)
+  .innerJoin(orders, eq(orders.id, orderItems.orderId))
+  .where(inArray(orders.status, SOLD_STATUSES))
+  .groupBy(orderItems.productId)
+  .as("sold");
+
+/**
+ * Each sort is keyset-paginated on (key, id). `type` casts the cursor's text
+ * copy of the key back for the comparison, so timestamps keep their
+ * microseconds and prices their exact decimals.
+ */
+const SORTS: Record<ProductSort, { key: SQL; type: string; dir: "asc" | "desc" }> = {
+  newest: { key: sql`${products.createdAt}`, type: "timestamp", dir: "desc" },
+  price_asc: { key: sql`${products.price}`, type: "numeric", dir: "asc" },
+  price_desc: { key: sql`${products.price}`, type: "numeric", dir: "desc" },
+  popular: { key: sql`coalesce(${sold.units}, 0)`, type: "bigint", dir: "desc" },
+};
+
+type Cursor = { s: ProductSort; k: string; id: string };
+
+const encodeCursor = (c: Cursor) => Buffer.from(JSON.stringify(c)).toString("base64url");
+
+/** A timestamp's text form as Postgres prints it, e.g. "2025-03-01 09:30:00.123456" */
+function isTimestampText(k: string): boolean {
+  const m = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(\.\d{1,6})?$/.exec(k);
+  if (!m) return false;
+  // rejects impossible dates (2025-02-30) that would still fail the cast
+  const d = new Date(`${m[1]}T${m[2]}Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 19) === `${m[1]}T${m[2]}`;
+}
+
+/** The cursor key must cast cleanly to its sort's type, or Postgres errors out */
+const KEY_CHECKS: Record<string, (k: string) => boolean> = {
+  timestamp: isTimestampText,
+  numeric: (k) => /^-?\d{1,20}(\.\d{1,10})?$/.test(k),
+  bigint: (k) => /^-?\d{1,18}$/.test(k),
+};
+
+function decodeCursor(raw: string, sort: ProductSort): Cursor {
+  try {
+    const c = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Cursor;
+    if (
+      c.s === sort &&
+      typeof c.k === "string" &&
+      typeof c.id === "string" &&
+      KEY_CHECKS[SORTS[sort].type](c.k)
+    ) {
+      return c;
+    }
+  } catch {
+    // fall through
+  }
+  throw new CatalogError("Invalid cursor; reload the listing");
+}
+
+type Facet = "category" | "vendor" | "price" | "inStock" | `attr:${string}`;
+
+/**
+ * Filters with the chosen category expanded to include its subcategories,
+ * plus that category's attribute schema (for attribute facets).
+ */
+type Scope = ProductFilters & { categoryIds?: string[]; attributeDefs?: AttributeDef[] };
+
+async function toScope(filters: ProductFilters): Promise<Scope> {
+  if (!filters.categoryId) return filters;
+  const tree = await db
+    .select({ id: categories.id, parentId: categories.parentId, attributes: categories.attributes })
+    .from(categories);
+  return {
+    ...filters,
+    categoryIds: descendantIds(tree, filters.categoryId),
+    attributeDefs: effectiveAttributes(tree, filters.categoryId),
+  };
+}
+
+/**
+ * An attribute's values as text rows, whether stored as a single value or a
+ * multiselect array (a missing key gives one NULL row).
+ */
+const attributeValues = (key: string) => sql`jsonb_array_elements_text(
+  case jsonb_typeof(${products.attributes} -> ${key})
+    when 'array' then ${products.attributes} -> ${key}
+    else jsonb_build_array(${products.attributes} -> ${key})
+  end)`;
+
+/**
+ * Storefront visibility (active products of approved stores) plus every
+ * filter except `omit` — a facet's counts ignore its own selection.
+ */
+function conditions(f: Scope, omit?: Facet): SQL[] {
+  const where: SQL[] = [eq(products.isActive, true), eq(vendors.isApproved, true)];
+  if (f.categoryIds && omit !== "category") where.push(inArray(products.categoryId, f.categoryIds));
+  if (f.vendorId && omit !== "vendor") where.push(eq(products.vendorId, f.vendorId));
+  if (omit !== "price") {
+    if (f.minPrice !== undefined) where.push(gte(products.price, f.minPrice.toFixed(2)));
+    if (f.maxPrice !== undefined) where.push(lte(products.price, f.maxPrice.toFixed(2)));
+  }
+  if (f.inStock && omit !== "inStock") where.push(gt(products.stock, 0));
+  Object.entries(f.attributes ?? {}).forEach(([key, value]) => {
+    if (omit !== `attr:${key}`) where.push(sql`${value} in (select ${attributeValues(key)})`);
+  });
+  return where;
+}
+
+/** Value counts for each filterable, non-numeric attribute of the chosen category */
+function getAttributeFacets(f: Scope): Promise<AttributeFacet[]> {
+  const defs = (f.attributeDefs ?? []).filter((d) => d.filterable && d.type !== "number");
+  return Promise.all(
+    defs.map(async (def) => {
+      const rows = await db
+        .select({ value: sql<string>`av.value`, count: count() })
+        .from(products)
+        .innerJoin(vendors, eq(vendors.id, products.vendorId))
+        .innerJoin(sql`lateral ${attributeValues(def.key)} as av(value)`, sql`true`)
+        .where(and(...conditions(f, `attr:${def.key}`), sql`av.value is not null`))
+        .groupBy(sql`av.value`)
+        .orderBy(desc(count()), sql`av.value`)
+        .limit(MAX_ATTRIBUTE_FACET_VALUES);
+      return {
+        key: def.key,
+        label: def.label,
+        values: rows.map((r) => ({
+          id: r.value,
+          name: def.type === "boolean" ? (r.value === "true" ? "Yes" : "No") : r.value,
+          count: r.count,
+        })),
+      };
+    }),
+  );
+}
+
+async function countWhere(where: SQL[]): Promise<number> {
+  const [row] = await db
+    .select({ n: count() })
+    .from(products)
+    .innerJoin(vendors, eq(vendors.id, products.vendorId))
+    .where(and(...where));
+  return row?.n ?? 0;
+}
+
+async function getFacets(f: Scope): Promise<ProductFacets> {
+  const [categoryCounts, vendorCounts, [range], inStock, attributes] = await Promise.all([
+    db
+      .select({ id: categories.id, name: categories.name, count: count() })
+      .from(products)
+      .innerJoin(vendors, eq(vendors.id, products.vendorId))
+      .innerJoin(categories, eq(categories.id, products.categoryId))
+      .where(and(...conditions(f, "category")))
+      .groupBy(categories.id, categories.name)
+      .orderBy(asc(categories.name)),
+    db
+      .select({ id: vendors.id, name: vendors.storeName, count: count() })
+      .from(products)
+      .innerJoin(vendors, eq(vendors.id, products.vendorId))
+      .where(and(...conditions(f, "vendor")))
+      .groupBy(vendors.id, vendors.storeName)
+      .orderBy(asc(vendors.storeName)),
+    db
+      .select({ min: min(products.price), max: max(products.price) })
+      .from(products)
+      .innerJoin(vendors, eq(vendors.id, products.vendorId))
+      .where(and(...conditions(f, "price"))),
+    countWhere([...conditions(f, "inStock"), gt(products.stock, 0)]),
+    getAttributeFacets(f),
+  ]);
+
+  return {
+    categories: categoryCounts,
+    vendors: vendorCounts,
+    price: {
+      min: range?.min == null ? null : Number(range.min),
+      max: range?.max == null ? null : Number(range.max),
+    },
+    inStock,
+    attributes: attributes.filter((a) => a.values.length > 0),
+  };
+}
+
+/**
+ * One page of the storefront listing; a category includes its subcategories.
+ * Facets and the total come with the first page only (no cursor); later
+ * pages just continue the same order.
+ */
+export async function listProducts(
+  filters: ProductFilters,
+  opts: { cursor?: string; limit: number },
+): Promise<ProductListResponse> {
+  const sort = SORTS[filters.sort];
+  const order = sort.dir === "asc" ? asc : desc;
+  const scope = await toScope(filters);
+  const where = conditions(scope);
+
+  if (opts.cursor) {
+    const c = decodeCursor(opts.cursor, filters.sort);
+    const op = sql.raw(sort.dir === "asc" ? ">" : "<");
+    where.push(
+      sql`(${sort.key}, ${products.id}) ${op} (cast(${c.k} as ${sql.raw(sort.type)}), ${c.id})`,
+    );
+  }
+
+  const [rows, total, facets] = await Promise.all([
+    db
+      .select({ product: products, key: sql<string>`(${sort.key})::text` })
+      .from(products)
+      .innerJoin(vendors, eq(vendors.id, products.vendorId))
+      .leftJoin(sold, eq(sold.productId, products.id))
+      .where(and(...where))
+      .orderBy(order(sort.key), order(products.id))
+      .limit(opts.limit + 1),
+    opts.cursor ? null : countWhere(where),
+    opts.cursor ? null : getFacets(scope),
+  ]);
+
+  const page = rows.slice(0, opts.limit);
+  const last = page[page.length - 1];
+  return {
+    items: page.map((r) => r.product),
+    nextCursor:
+      rows.length > opts.limit && last
+        ? encodeCursor({ s: filters.sort, k: last.key, id: last.product.id })
+        : null,
+    total,
+    facets,
+  };
+}
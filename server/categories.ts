@@ -0,0 +1,240 @@
+// server/categories.ts
+import { and, asc, count, eq, inArray, isNull, max, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import { db, categories, products, type Category } from "./db";
+import type { Tx } from "./inventory";
+import {
+  AttributeError,
+  attributeDefsSchema,
+  getCategoryAttributes,
+  validateAttributes,
+} from "./attributes";
+import {
+  CATEGORY_ICONS,
+  MAX_CATEGORY_DEPTH,
+  categoryPath,
+  descendantIds,
+  slugify,
+} from "../shared/categories";
+
+/** Rejected category change; the central error handler uses `status` */
+export class CategoryError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const slugSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(120)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and dashes");
+
+/** POST /api/categories body; PATCH takes any subset */
+export const categoryBodySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  slug: slugSchema.optional(), // derived from the name when left out
+  parentId: z.string().min(1).nullable().default(null),
+  description: z.string().trim().max(500).nullable().optional(),
+  icon: z.enum(CATEGORY_ICONS).default("tag"),
+  attributes: attributeDefsSchema.default([]), // own attributes; parents' are inherited
+});
+
+export const categoryPatchSchema = categoryBodySchema
+  .extend({ parentId: z.string().min(1).nullable() })
+  .partial();
+
+export type CategoryBody = z.infer<typeof categoryBodySchema>;
+export type CategoryPatch = z.infer<typeof categoryPatchSchema>;
+
+/** Postgres unique_violation */
+const isUniqueViolation = (err: unknown) =>
+  (err as { code?: string; constraint?: string } | null)?.code === "23505";
+
+function uniqueMessage(err: unknown): string {
+  const constraint = (err as { constraint?: string }).constraint ?? "";
+  return constraint.includes("slug")
+    ? "Another category here already uses this slug"
+    : "A category with this name already exists here";
+}
+
+const siblingsOf = (parentId: string | null): SQL =>
+  parentId ? eq(categories.parentId, parentId) : isNull(categories.parentId);
+
+/** How many levels `id` and its subcategories span (1 for a leaf) */
+function subtreeHeight(rows: Category[], id: string): number {
+  const children = rows.filter((r) => r.parentId === id);
+  return 1 + Math.max(0, ...children.map((c) => subtreeHeight(rows, c.id)));
+}
+
+/**
+ * Refuses a parent that doesn't exist, that would make a loop, or that would
+ * push the subtree below MAX_CATEGORY_DEPTH.
+ */
+async function checkParent(tx: Tx, parentId: string | null, movingId?: string) {
+  if (!parentId) return;
+  const rows = await tx.select().from(categories);
+  if (!rows.some((r) => r.id === parentId)) {
+    throw new CategoryError("Parent category not found", 404);
+  }
+  if (movingId && descendantIds(rows, movingId).includes(parentId)) {
+    throw new CategoryError("A category can't be moved under itself or its subcategories");
+  }
+  const height = movingId ? subtreeHeight(rows, movingId) : 1;
+  if (categoryPath(rows, parentId).length + height > MAX_CATEGORY_DEPTH) {
+    throw new CategoryError(`Categories can be at most ${MAX_CATEGORY_DEPTH} levels deep`);
+  }
+}
+
+async function nextPosition(tx: Tx, parentId: string | null): Promise<number> {
+  const [row] = await tx
+    .select({ last: max(categories.position) })
+    .from(categories)
+    .where(siblingsOf(parentId));
+  return (row?.last ?? -1) + 1;
+}
+
+/** All categories in sibling order (the client rebuilds the tree) */
+export function listCategories(q: Tx | typeof db = db): Promise<Category[]> {
+  return q.select().from(categories).orderBy(asc(categories.position), asc(categories.name));
+}
+
+export async function createCategory(input: CategoryBody): Promise<Category> {
+  try {
+    return await db.transaction(async (tx) => {
+      await checkParent(tx, input.parentId);
+      const [row] = await tx
+        .insert(categories)
+        .values({
+          ...input,
+          slug: input.slug ?? slugify(input.name),
+          position: await nextPosition(tx, input.parentId),
+        })
+        .returning();
+      return row;
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) throw new CategoryError(uniqueMessage(err), 409);
+    throw err;
+  }
+}
+
+/** Rename, re-slug or move a category; a moved category goes last among its new siblings */
+export async function updateCategory(id: string, patch: CategoryPatch): Promise<Category> {
+  try {
+    return await db.transaction(async (tx) => {
+      const current = await tx.query.categories.findFirst({ where: eq(categories.id, id) });
+      if (!current) throw new CategoryError("Category not found", 404);
+
+      const values: Partial<typeof categories.$inferInsert> = { ...patch };
+      if (patch.parentId !== undefined && patch.parentId !== current.parentId) {
+        await checkParent(tx, patch.parentId, id);
+        values.position = await nextPosition(tx, patch.parentId);
+      }
+
+      const [row] = await tx.update(categories).set(values).where(eq(categories.id, id)).returning();
+      return row;
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) throw new CategoryError(uniqueMessage(err), 409);
+    throw err;
+  }
+}
+
+/** Only empty categories can go: no subcategories and no products */
+export async function deleteCategory(id: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const current = await tx.query.categories.findFirst({ where: eq(categories.id, id) });
+    if (!current) throw new CategoryError("Category not found", 404);
+
+    const [children] = await tx
+      .select({ n: count() })
+      .from(categories)
+      .where(eq(categories.parentId, id));
+    if (children.n > 0) {
+      throw new CategoryError("Move or delete its subcategories first", 409);
+    }
+
+    const [inUse] = await tx
+      .select({ n: count() })
+      .from(products)
+      .where(eq(products.categoryId, id));
+    if (inUse.n > 0) {
+      throw new CategoryError(
+        `Move its ${inUse.n} product${inUse.n === 1 ? "" : "s"} to another category first`,
+        409,
+      );
+    }
+
+    await tx.delete(categories).where(eq(categories.id, id));
+  });
+}
+
+/** `ids` must list every sibling under `parentId` exactly once, in the new order */
+export async function reorderCategories(parentId: string | null, ids: string[]): Promise<void> {
+  await db.transaction(async (tx) => {
+    const siblings = await tx
+      .select({ id: categories.id })
+      .from(categories)
+      .where(siblingsOf(parentId));
+    const known = new Set(siblings.map((s) => s.id));
+    if (ids.length !== known.size || new Set(ids).size !== ids.length || !ids.every((id) => known.has(id))) {
+      throw new CategoryError("List each category under this parent exactly once");
+    }
+    for (let position = 0; position < ids.length; position++) {
+      await tx.update(categories).set({ position }).where(eq(categories.id, ids[position]));
+    }
+  });
+}
+
+/**
+ * Re-file products from one category into another: all of them, or just
+ * `productIds`. Their attributes are re-checked against the new category's
+ * schema, as a category change on a single product does: values it doesn't
+ * define are dropped. Returns how many moved.
+ */
+export async function moveProducts(
+  fromId: string,
+  toId: string,
+  productIds?: string[],
+): Promise<number> {
+  if (fromId === toId) throw new CategoryError("Pick a different category to move to");
+  const target = await db.query.categories.findFirst({
+    where: eq(categories.id, toId),
+    columns: { id: true },
+  });
+  if (!target) throw new CategoryError("Target category not found", 404);
+
+  const where = productIds?.length
+    ? and(eq(products.categoryId, fromId), inArray(products.id, productIds))
+    : eq(products.categoryId, fromId);
+
+  return db.transaction(async (tx) => {
+    const rows = await tx
+      .select({ id: products.id, name: products.name, attributes: products.attributes })
+      .from(products)
+      .where(where)
+      .for("update");
+    const defs = await getCategoryAttributes(toId, tx);
+
+    for (const row of rows) {
+      let attributes;
+      try {
+        attributes = validateAttributes(defs, row.attributes, { enforceRequired: false });
+      } catch (err) {
+        if (err instanceof AttributeError) {
+          throw new CategoryError(`"${row.name}": ${err.message}`);
+        }
+        throw err;
+      }
+      await tx
+        .update(products)
+        .set({ categoryId: toId, attributes })
+        .where(eq(products.id, row.id));
+    }
+    return rows.length;
+  });
+}
@@ -0,0 +1,129 @@
+// server/db-prepare.ts
+// Runs before `drizzle-kit push` (npm run db:push): installs the extensions
+// the schema relies on and brings existing data into a shape the schema can be
+// pushed onto without prompts or data loss. Every step is idempotent and skips
+// tables that don't exist yet (a fresh database gets everything from the push
+// itself).
+//
+// Only needs DATABASE_URL, like drizzle.config.ts.
+import "dotenv/config";
+import { Pool, type PoolClient } from "pg";
+import { slugify } from "../shared/categories";
+
+type Step = { name: string; run: (client: PoolClient) => Promise<void> };
+
+async function tableExists(client: PoolClient, table: string): Promise<boolean> {
+  const { rows } = await client.query("select to_regclass($1) is not null as ok", [
+    `public.${table}`,
+  ]);
+  return rows[0].ok;
+}
+
+async function columnExists(client: PoolClient, table: string, column: string): Promise<boolean> {
+  const { rows } = await client.query(
+    `select 1 from information_schema.columns
+      where table_schema = 'public' and table_name = $1 and column_name = $2`,
+    [table, column],
+  );
+  return rows.length > 0;
+}
+
+const steps: Step[] = [
+  {
+    // products_name_trgm_idx uses gin_trgm_ops, so the push fails without it
+    name: "pg_trgm extension",
+    async run(client) {
+      try {
+        await client.query("create extension if not exists pg_trgm");
+      } catch (err) {
+        throw new Error(
+          `pg_trgm could not be installed (${(err as Error).message}). ` +
+            "Ask your database provider to enable it, then run db:push again.",
+        );
+      }
+    },
+  },
+  {
+    // categories.slug is NOT NULL and unique among siblings: add it nullable,
+    // derive it from the name, then the push tightens it
+    name: "category slugs",
+    async run(client) {
+      if (!(await tableExists(client, "categories"))) return;
+      await client.query("alter table categories add column if not exists slug varchar(120)");
+
+      const { rows } = await client.query<{
+        id: string;
+        parent_id: string | null;
+        name: string;
+        slug: string | null;
+      }>("select id, parent_id, name, slug from categories order by name, id");
+
+      const taken = new Map<string, Set<string>>(); // parent -> slugs in use
+      const siblings = (parentId: string | null) => {
+        const key = parentId ?? "";
+        if (!taken.has(key)) taken.set(key, new Set());
+        return taken.get(key)!;
+      };
+      for (const r of rows) if (r.slug) siblings(r.parent_id).add(r.slug);
+
+      for (const r of rows.filter((r) => !r.slug)) {
+        const used = siblings(r.parent_id);
+        const base = slugify(r.name) || "category";
+        let slug = base;
+        for (let n = 2; used.has(slug); n++) {
+          const suffix = `-${n}`;
+          slug = base.slice(0, 120 - suffix.length) + suffix;
+        }
+        used.add(slug);
+        await client.query("update categories set slug = $1 where id = $2", [slug, r.id]);
+      }
+    },
+  },
+  {
+    // cart_items.price_each is NOT NULL: lines saved before it existed start
+    // from today's price (the variant's when the line has one)
+    name: "cart line prices",
+    async run(client) {
+      if (!(await tableExists(client, "cart_items"))) return;
+      await client.query(
+        "alter table cart_items add column if not exists price_each numeric(10, 2)",
+      );
+      const variantPrice = (await columnExists(client, "cart_items", "variant_id"))
+        ? "(select v.price from product_variants v where v.id = cart_items.variant_id)"
+        : "null";
+      await client.query(
+        `update cart_items
+            set price_each = coalesce(${variantPrice}, p.price)
+           from products p
+          where p.id = cart_items.product_id and cart_items.price_each is null`,
+      );
+    },
+  },
+];
+
+async function main() {
+  const url = process.env.DATABASE_URL;
+  if (!url) throw new Error("DATABASE_URL is missing. Set it in your environment first.");
+
+  const pool = new Pool({ connectionString: url });
+  const client = await pool.connect();
+  try {
+    await client.query("begin");
+    for (const step of steps) {
+      console.log(`[db:prepare] ${step.name}`);
+      await step.run(client);
+    }
+    await client.query("commit");
+  } catch (err) {
+    await client.query("rollback");
+    throw err;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((err) => {
+  console.error("[db:prepare] failed:", err);
+  process.exit(1);
+});
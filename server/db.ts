@@ -10,7 +10,7 @@ import { env } from "./env";
  * - Uses SSL in production (Render/Neon).
  * - Conservative pool sizing; override with PGPOOL_MAX if you need.
  */
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: env.DATABASE_URL,
   ssl:
     env.NODE_ENV === "production"
@@ -20,7 +20,7 @@ async function getTransport() {
   });
 }
 
-type OrderEmailBase = {
+export type OrderEmailBase = {
   to: string;
   orderId: string;
   vendor: { id: string; storeName: string };
@@ -46,12 +46,33 @@ type OrderEmailBase = {
   }>;
 };
 
+/** One buyer receipt for a whole checkout (one section per vendor order) */
+export type CheckoutReceiptEmail = {
+  to: string;
+  checkoutGroupId: string;
+  customer: OrderEmailBase["customer"];
+  currency: string;
+  rate: number;
+  subtotal: number;
+  shippingFee: number;
+  total: number;
+  paymentMethod: string;
+  shippingAddress: Record<string, any>;
+  notes?: string | null;
+  orders: Array<{
+    orderId: string;
+    vendor: { id: string; storeName: string };
+    items: OrderEmailBase["items"];
+    total: number;
+  }>;
+};
+
 function renderItemsTable(items: OrderEmailBase["items"], currency: string) {
   const rows = items
     .map(
       (i) => `
         <tr>
-          <td style="padding:8px;border:1px solid #eee">${i.name}</td>
+          <td style="padding:8px;border:1px solid #eee">${escapeHtml(i.name)}</td>
           <td style="padding:8px;border:1px solid #eee;text-align:center">${i.quantity}</td>
           <td style="padding:8px;border:1px solid #eee;text-align:right">${currency} ${i.price.toFixed(2)}</td>
           <td style="padding:8px;border:1px solid #eee;text-align:right">${currency} ${(i.price * i.quantity).toFixed(2)}</td>
@@ -137,8 +158,53 @@ export async function sendAdminNewOrderEmail(p: OrderEmailBase) {
   });
 }
 
-/** Send to buyer (receipt) */
-export async function sendBuyerReceiptEmail(p: OrderEmailBase) {
+function renderCheckoutReceipt(p: CheckoutReceiptEmail) {
+  const addr =
+    p.shippingAddress &&
+    Object.entries(p.shippingAddress)
+      .map(([k, v]) => `${escapeHtml(k)}: ${escapeHtml(String(v))}`)
+      .join("<br/>");
+
+  const sections = p.orders
+    .map(
+      (o) => `
+        <h3 style="margin:16px 0 0">${escapeHtml(o.vendor.storeName)}
+          <span style="color:#666;font-weight:normal;font-size:12px">(order ${o.orderId.slice(0, 8)})</span></h3>
+        ${renderItemsTable(o.items, p.currency)}
+      `,
+    )
+    .join("");
+
+  return `
+    <div style="font:14px/1.4 -apple-system,BlinkMacSystemFont,Segoe UI,Roboto,Helvetica,Arial,sans-serif;color:#111">
+      <p><strong>Checkout ID:</strong> ${p.checkoutGroupId}</p>
+      <p><strong>Payment:</strong> ${p.paymentMethod}</p>
+      <p><strong>Currency:</strong> ${p.currency}${
+        p.currency === "USD" ? ` (rate ${p.rate} NLe/USD)` : ""
+      }</p>
+
+      ${sections}
+
+      <table style="margin-left:auto">
+        <tr><td style="padding:4px 8px">Subtotal:</td><td style="padding:4px 8px;text-align:right"><strong>${p.currency} ${p.subtotal.toFixed(
+          2,
+        )}</strong></td></tr>
+        <tr><td style="padding:4px 8px">Shipping:</td><td style="padding:4px 8px;text-align:right"><strong>${p.currency} ${p.shippingFee.toFixed(
+          2,
+        )}</strong></td></tr>
+        <tr><td style="padding:4px 8px">Total:</td><td style="padding:4px 8px;text-align:right"><strong>${p.currency} ${p.total.toFixed(
+          2,
+        )}</strong></td></tr>
+      </table>
+
+      ${addr ? `<p><strong>Shipping Address</strong><br/>${addr}</p>` : ""}
+      ${p.notes ? `<p><strong>Notes:</strong> ${escapeHtml(p.notes)}</p>` : ""}
+    </div>
+  `;
+}
+
+/** Send to buyer (one receipt for the whole checkout) */
+export async function sendBuyerReceiptEmail(p: CheckoutReceiptEmail) {
   const transport = await getTransport();
   if (!transport) {
     // no SMTP configured — just skip silently
@@ -146,11 +212,14 @@ export async function sendBuyerReceiptEmail(p: OrderEmailBase) {
   }
 
   const from = env.FROM_EMAIL || `LWG MarketPlace <${env.SMTP_USER}>`;
-  const subject = `Your receipt — Order ${p.orderId.slice(0, 8)}`;
+  const subject = `Your receipt — Order ${p.checkoutGroupId.slice(0, 8)}`;
   const html =
-    `<h2>Thank you for your order, ${p.customer.customerName}!</h2>` +
+    `<h2>Thank you for your order, ${escapeHtml(p.customer.customerName)}!</h2>` +
     `<p>We’ve received your order and will update you when it ships.</p>` +
-    renderOrderSummary(p) +
+    (p.orders.length > 1
+      ? `<p>Your items come from ${p.orders.length} sellers, so they may arrive separately.</p>`
+      : "") +
+    renderCheckoutReceipt(p) +
     `<p style="color:#666;font-size:12px;margin-top:12px">If you have questions, reply to this email or contact ${env.SUPPORT_EMAIL}.</p>`;
 
   await transport.sendMail({
@@ -160,3 +229,167 @@ export async function sendBuyerReceiptEmail(p: OrderEmailBase) {
     html,
   });
 }
+
+export type PaymentReviewEmail = {
+  to: string;
+  customerName: string;
+  reference: string;
+  approved: boolean;
+  note?: string | null;
+};
+
+/** Tell the buyer whether their bank-transfer receipt was accepted */
+export async function sendPaymentReviewEmail(p: PaymentReviewEmail) {
+  const transport = await getTransport();
+  if (!transport) {
+    // no SMTP configured — just skip silently
+    return;
+  }
+
+  const from = env.FROM_EMAIL || `LWG MarketPlace <${env.SMTP_USER}>`;
+  const subject = p.approved
+    ? `Payment confirmed — Order ${p.reference}`
+    : `Action needed: payment for Order ${p.reference}`;
+  // name, reference and note are typed by the buyer or an admin
+  const reference = escapeHtml(p.reference);
+  const html =
+    `<h2>Hi ${escapeHtml(p.customerName)},</h2>` +
+    (p.approved
+      ? `<p>We’ve verified your bank transfer for order <strong>${reference}</strong>. Your sellers are now preparing it.</p>`
+      : `<p>We couldn’t verify the payment receipt you uploaded for order <strong>${reference}</strong>. Please upload a clearer receipt from the order tracking page.</p>`) +
+    (p.note ? `<p><strong>Note from our team:</strong> ${escapeHtml(p.note)}</p>` : "") +
+    `<p style="color:#666;font-size:12px;margin-top:12px">If you have questions, reply to this email or contact ${escapeHtml(env.SUPPORT_EMAIL ?? "our support team")}.</p>`;
+
+  await transport.sendMail({
+    from,
+    to: p.to,
+    subject,
+    html,
+  });
+}
+
+/** Shoppers' text goes into the html as-is otherwise */
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export type NewQuestionEmail = {
+  to: string;
+  storeName: string;
+  productName: string;
+  question: string;
+};
+
+/** Tell a store that a shopper asked about one of its products */
+export async function sendNewQuestionEmail(p: NewQuestionEmail) {
+  const transport = await getTransport();
+  if (!transport) {
+    // no SMTP configured — just skip silently
+    return;
+  }
+
+  const from = env.FROM_EMAIL || `LWG MarketPlace <${env.SMTP_USER}>`;
+  const subject = `New question about ${p.productName}`;
+  const html =
+    `<h2>Hi ${escapeHtml(p.storeName)},</h2>` +
+    `<p>A shopper asked about <strong>${escapeHtml(p.productName)}</strong>:</p>` +
+    `<blockquote style="border-left:3px solid #ddd;margin:0;padding:4px 12px">${escapeHtml(p.question)}</blockquote>` +
+    `<p>Answer it from the Questions section of your vendor dashboard. Your answer is shown on the product page.</p>`;
+
+  await transport.sendMail({
+    from,
+    to: p.to,
+    subject,
+    html,
+  });
+}
+
+export type QuestionAnsweredEmail = {
+  to: string;
+  customerName: string;
+  productName: string;
+  storeName: string;
+  question: string;
+  answer: string;
+};
+
+/** Tell the shopper that the store answered their question */
+export async function sendQuestionAnsweredEmail(p: QuestionAnsweredEmail) {
+  const transport = await getTransport();
+  if (!transport) {
+    // no SMTP configured — just skip silently
+    return;
+  }
+
+  const from = env.FROM_EMAIL || `LWG MarketPlace <${env.SMTP_USER}>`;
+  const subject = `${p.storeName} answered your question about ${p.productName}`;
+  const html =
+    `<h2>Hi ${escapeHtml(p.customerName)},</h2>` +
+    `<p>You asked about <strong>${escapeHtml(p.productName)}</strong>:</p>` +
+    `<blockquote style="border-left:3px solid #ddd;margin:0;padding:4px 12px">${escapeHtml(p.question)}</blockquote>` +
+    `<p><strong>${escapeHtml(p.storeName)} answered:</strong></p>` +
+    `<blockquote style="border-left:3px solid #ddd;margin:0;padding:4px 12px">${escapeHtml(p.answer)}</blockquote>` +
+    `<p style="color:#666;font-size:12px;margin-top:12px">If you have questions, reply to this email or contact ${env.SUPPORT_EMAIL}.</p>`;
+
+  await transport.sendMail({
+    from,
+    to: p.to,
+    subject,
+    html,
+  });
+}
+
+export type WishlistAlertEmail = {
+  to: string;
+  customerName: string;
+  items: Array<{
+    name: string;
+    kind: "price_drop" | "back_in_stock";
+    /** Current unit price (NLe) */
+    price: number;
+    /** Price before the drop */
+    was?: number;
+  }>;
+};
+
+/** Tell a buyer that wishlisted items got cheaper or are back in stock */
+export async function sendWishlistAlertEmail(p: WishlistAlertEmail) {
+  const transport = await getTransport();
+  if (!transport) {
+    // no SMTP configured — just skip silently
+    return;
+  }
+
+  const from = env.FROM_EMAIL || `LWG MarketPlace <${env.SMTP_USER}>`;
+  const subject =
+    p.items.length === 1
+      ? p.items[0].kind === "price_drop"
+        ? `Price drop: ${p.items[0].name}`
+        : `Back in stock: ${p.items[0].name}`
+      : "Updates on your wishlist";
+  const rows = p.items
+    .map((i) =>
+      i.kind === "price_drop"
+        ? `<li><strong>${escapeHtml(i.name)}</strong> is now NLe ${i.price.toFixed(2)}` +
+          (i.was !== undefined ? ` (was NLe ${i.was.toFixed(2)})` : "") +
+          `</li>`
+        : `<li><strong>${escapeHtml(i.name)}</strong> is back in stock at NLe ${i.price.toFixed(2)}</li>`,
+    )
+    .join("");
+  const html =
+    `<h2>Hi ${escapeHtml(p.customerName)},</h2>` +
+    `<p>Good news about items on your wishlist:</p>` +
+    `<ul>${rows}</ul>` +
+    `<p style="color:#666;font-size:12px;margin-top:12px">You can turn these alerts off on your wishlist page.</p>`;
+
+  await transport.sendMail({
+    from,
+    to: p.to,
+    subject,
+    html,
+  });
+}
@@ -22,6 +22,35 @@ const schema = z.object({
   // Optional display/support addresses
   FROM_EMAIL: z.string().optional(),
   SUPPORT_EMAIL: z.string().optional(),
+
+  // Checkout: flat shipping fee (NLe) charged per vendor order
+  SHIPPING_FEE_PER_VENDOR: z.coerce.number().min(0).default(0),
+
+  // Marketplace commission (%) kept from each sale unless a vendor/category rate overrides it
+  PLATFORM_COMMISSION_PERCENT: z.coerce.number().min(0).max(100).default(10),
+
+  // Mobile-money payments (server/payments.ts). "simulator" is offline/test only.
+  PAYMENT_PROVIDER: z.enum(["simulator"]).default("simulator"),
+  PAYMENT_WEBHOOK_SECRET: z.string().min(16).optional(),
+
+  // Uploaded files (payment receipts etc.) are written under this directory
+  UPLOAD_DIR: z.string().default("uploads"),
+
+  // Public uploads (product images): "local" serves them from UPLOAD_DIR/public,
+  // "s3" puts them in any S3-compatible bucket (AWS, R2, MinIO…)
+  STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default("auto"),
+  S3_ENDPOINT: z.string().url().optional(), // omit for AWS
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_PUBLIC_URL: z.string().url().optional(), // CDN/base URL objects are served from
+
+  // Twilio WhatsApp (optional — if missing, messages are skipped)
+  TWILIO_ACCOUNT_SID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  TWILIO_WHATSAPP_FROM: z.string().optional(),
+  WHATSAPP_ADMIN: z.string().optional(), // ops number for new-order alerts
 });
 
 export const env = schema.parse(process.env);
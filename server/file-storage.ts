@@ -0,0 +1,100 @@
+// server/file-storage.ts
+import fs from "node:fs/promises";
+import path from "node:path";
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { env } from "./env";
+
+/**
+ * Where public uploads (product images) live. Keys are relative paths like
+ * "products/<uuid>/full.webp"; `put` returns the URL browsers load it from.
+ * Private files (receipts, return photos) stay in server/private-files.ts.
+ */
+export interface FileStorage {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  remove(key: string): Promise<void>;
+}
+
+/** Served by express.static at /uploads (see server/index.ts) */
+export const PUBLIC_UPLOAD_DIR = path.resolve(process.cwd(), env.UPLOAD_DIR, "public");
+
+function localPath(key: string): string {
+  const file = path.resolve(PUBLIC_UPLOAD_DIR, key);
+  if (!file.startsWith(PUBLIC_UPLOAD_DIR + path.sep)) {
+    throw new Error("Invalid file key");
+  }
+  return file;
+}
+
+const localStorage: FileStorage = {
+  name: "local",
+
+  async put(key, body) {
+    const file = localPath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+    return `/uploads/${key}`;
+  },
+
+  async remove(key) {
+    await fs.rm(localPath(key), { force: true });
+  },
+};
+
+let s3Client: S3Client | null = null;
+
+function s3(): S3Client {
+  if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+    throw new Error("S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY");
+  }
+  s3Client ??= new S3Client({
+    region: env.S3_REGION,
+    endpoint: env.S3_ENDPOINT,
+    forcePathStyle: !!env.S3_ENDPOINT, // MinIO and most non-AWS endpoints
+    credentials: {
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    },
+  });
+  return s3Client;
+}
+
+function s3Url(key: string): string {
+  if (env.S3_PUBLIC_URL) return `${env.S3_PUBLIC_URL.replace(/\/$/, "")}/${key}`;
+  if (env.S3_ENDPOINT) return `${env.S3_ENDPOINT.replace(/\/$/, "")}/${env.S3_BUCKET}/${key}`;
+  return `https://${env.S3_BUCKET}.s3.${env.S3_REGION}.amazonaws.com/${key}`;
+}
+
+const s3Storage: FileStorage = {
+  name: "s3",
+
+  async put(key, body, contentType) {
+    await s3().send(
+      new PutObjectCommand({
+        Bucket: env.S3_BUCKET,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        // keys are unique per upload, so objects never change
+        CacheControl: "public, max-age=31536000, immutable",
+      }),
+    );
+    return s3Url(key);
+  },
+
+  async remove(key) {
+    await s3().send(new DeleteObjectCommand({ Bucket: env.S3_BUCKET, Key: key }));
+  },
+};
+
+const drivers: Record<string, FileStorage> = {
+  local: localStorage,
+  s3: s3Storage,
+};
+
+/** Storage adapter by name (defaults to STORAGE_DRIVER) */
+export function getFileStorage(name: string = env.STORAGE_DRIVER): FileStorage {
+  const storage = drivers[name];
+  if (!storage) throw new Error(`Unknown storage driver "${name}"`);
+  return storage;
+}
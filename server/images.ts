@@ -0,0 +1,70 @@
+// server/images.ts
+import crypto from "node:crypto";
+import sharp from "sharp";
+import { getFileStorage } from "./file-storage";
+import { sniffDocumentType } from "./private-files";
+import { THUMBNAIL_WIDTHS, type ThumbnailWidth } from "../shared/images";
+
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+const FULL_WIDTH = 1600;
+
+/** Rejected upload; the central error handler uses `status` */
+export class ImageUploadError extends Error {
+  status: number;
+  constructor(message: string, status = 415) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type StoredImage = {
+  url: string;
+  thumbnails: Record<ThumbnailWidth, string>;
+  width: number;
+  height: number;
+};
+
+/**
+ * Validate and store a product image: the real type is sniffed from the
+ * bytes, the picture is turned upright and re-encoded as WebP (which drops
+ * EXIF/GPS metadata), and thumbnails are written next to it
+ * (naming in shared/images.ts). `prefix` is the top-level folder
+ * ("reviews" for buyers' review photos).
+ */
+export async function storeProductImage(buf: Buffer, prefix = "products"): Promise<StoredImage> {
+  const type = buf.length ? sniffDocumentType(buf) : null;
+  if (!type || !type.mime.startsWith("image/")) {
+    throw new ImageUploadError("Upload a JPG, PNG or WEBP image");
+  }
+
+  let source: sharp.Sharp;
+  try {
+    // rotate() applies the EXIF orientation before the metadata is dropped
+    source = sharp(buf, { limitInputPixels: 40_000_000 }).rotate();
+    await source.metadata();
+  } catch {
+    throw new ImageUploadError("That image could not be read", 400);
+  }
+
+  const folder = `${prefix}/${crypto.randomUUID()}`;
+  const storage = getFileStorage();
+
+  const full = await source
+    .clone()
+    .resize({ width: FULL_WIDTH, height: FULL_WIDTH, fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+  const url = await storage.put(`${folder}/full.webp`, full.data, "image/webp");
+
+  const thumbnails = {} as Record<ThumbnailWidth, string>;
+  for (const width of THUMBNAIL_WIDTHS) {
+    const thumb = await source
+      .clone()
+      .resize({ width, height: width, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+    thumbnails[width] = await storage.put(`${folder}/thumb-${width}.webp`, thumb, "image/webp");
+  }
+
+  return { url, thumbnails, width: full.info.width, height: full.info.height };
+}
@@ -9,13 +9,43 @@ import { createServer } from "node:http";
 
 import { env } from "./env";
 import { setupVite, serveStatic, log } from "./vite";
+import { sessionMiddleware } from "./auth";
 
+import authRouter from "./routes/auth";
 import catalogRouter from "./routes/catalog";
+import categoriesRouter from "./routes/categories";
 import checkoutRouter from "./routes/checkout";
+import ordersRouter from "./routes/orders";
+import paymentsRouter from "./routes/payments";
+import paymentProofsRouter from "./routes/payment-proofs";
+import refundsRouter from "./routes/refunds";
+import returnsRouter from "./routes/returns";
+import payoutsRouter from "./routes/payouts";
+import uploadsRouter from "./routes/uploads";
+import searchRouter from "./routes/search";
+import { PUBLIC_UPLOAD_DIR } from "./file-storage";
+import productsRouter from "./routes/products";
+import productImagesRouter from "./routes/product-images";
+import productVariantsRouter from "./routes/product-variants";
+import productReviewsRouter from "./routes/product-reviews";
+import reviewsRouter from "./routes/reviews";
+import productQuestionsRouter from "./routes/product-questions";
+import questionsRouter from "./routes/questions";
+import cartRouter from "./routes/cart";
+import wishlistRouter from "./routes/wishlist";
 import vendorsRouter from "./routes/vendors";
 import vendorRequestsRouter from "./routes/vendor-requests"; // compat for older UI
 import adminRouter from "./routes/admin"; // exposes /api/admin/vendors/* and /api/vendors/:id/approval
 
+declare global {
+  namespace Express {
+    interface Request {
+      /** Unparsed JSON body, set by express.json's verify hook */
+      rawBody?: Buffer;
+    }
+  }
+}
+
 /* -----------------------------------------------------------------------------
    App
 ----------------------------------------------------------------------------- */
@@ -24,7 +54,15 @@ const app = express();
 /** Basic hardening + body parsing */
 app.set("trust proxy", 1);
 app.disable("x-powered-by");
-app.use(express.json({ limit: "1mb" }));
+app.use(
+  express.json({
+    limit: "1mb",
+    // keep the exact bytes for webhook signature checks (routes/payments.ts)
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  }),
+);
 app.use(express.urlencoded({ extended: false }));
 
 /* -----------------------------------------------------------------------------
@@ -64,6 +102,9 @@ app.use(
 /** Helmet base protections */
 app.use(helmet());
 
+/** Cookie sessions (Postgres-backed) — see server/auth.ts */
+app.use(sessionMiddleware);
+
 /** Tiny API logger */
 app.use("/api", (req, res, next) => {
   const t = Date.now();
@@ -73,6 +114,14 @@ app.use("/api", (req, res, next) => {
   next();
 });
 
+/* -----------------------------------------------------------------------------
+   Public uploads (local storage driver; unique keys, so cache forever)
+----------------------------------------------------------------------------- */
+app.use(
+  "/uploads",
+  express.static(PUBLIC_UPLOAD_DIR, { index: false, immutable: true, maxAge: "365d" }),
+);
+
 /* -----------------------------------------------------------------------------
    Health
 ----------------------------------------------------------------------------- */
@@ -81,8 +130,27 @@ app.get("/api/health", (_req, res) => res.json({ status: "ok" }));
 /* -----------------------------------------------------------------------------
    API routes
 ----------------------------------------------------------------------------- */
+app.use("/api/auth", authRouter);
 app.use("/api", catalogRouter);
+app.use("/api/categories", categoriesRouter); // admin: tree edits, moving products
+app.use("/api/products/:productId/images", productImagesRouter); // gallery order + alt text
+app.use("/api/products/:productId/variants", productVariantsRouter); // options + SKUs
+app.use("/api/products/:productId/reviews", productReviewsRouter); // verified-buyer reviews
+app.use("/api/products/:productId/questions", productQuestionsRouter); // public Q&A
+app.use("/api/products", productsRouter); // writes are vendor-owner / admin only
+app.use("/api/cart", cartRouter); // signed-in buyers' saved carts
+app.use("/api/wishlist", wishlistRouter); // bookmarks, saved-for-later, alerts
+app.use("/api/orders", ordersRouter);
 app.use("/api/checkout", checkoutRouter);
+app.use("/api/payments", paymentsRouter); // mobile money + provider webhooks
+app.use("/api/payment-proofs", paymentProofsRouter); // bank-transfer receipts
+app.use("/api/refunds", refundsRouter); // admin only
+app.use("/api/returns", returnsRouter); // buyer requests, vendor decisions
+app.use("/api/reviews", reviewsRouter); // review photos, vendor replies, moderation
+app.use("/api/questions", questionsRouter); // vendor answers, moderation
+app.use("/api/payouts", payoutsRouter); // vendor ledger, commission, payout batches
+app.use("/api/uploads", uploadsRouter); // product images (server/file-storage.ts)
+app.use("/api/search", searchRouter); // full-text + trigram product search
 app.use("/api/vendors", vendorsRouter);
 app.use("/api/vendor-requests", vendorRequestsRouter); // compat path for Admin
 app.use("/api", adminRouter); // also exposes /api/vendors/:id/approval
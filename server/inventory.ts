@@ -0,0 +1,154 @@
+// server/inventory.ts
+import { eq, inArray, sql } from "drizzle-orm";
+import { db, products, productVariants, orderItems } from "./db";
+import { syncVariantSummary } from "./variants";
+import { variantLabel } from "../shared/variants";
+
+/** A drizzle transaction handle (what db.transaction passes to its callback) */
+export type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type StockShortage = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  requested: number;
+  available: number;
+};
+
+/** A cart/order line as far as stock is concerned (variantId for products with variants) */
+export type StockLine = { productId: string; variantId?: string | null; quantity: number };
+
+/** Thrown inside a transaction so the whole checkout rolls back */
+export class OutOfStockError extends Error {
+  status = 409;
+  constructor(public items: StockShortage[]) {
+    super("Some items are out of stock");
+  }
+}
+
+/** Sum quantities per key (the same product/variant can appear on several lines) */
+function totals(lines: StockLine[], key: (l: StockLine) => string | null | undefined) {
+  const wanted = new Map<string, number>();
+  for (const l of lines) {
+    const k = key(l);
+    if (k) wanted.set(k, (wanted.get(k) ?? 0) + l.quantity);
+  }
+  return wanted;
+}
+
+/**
+ * Lock the product/variant rows (SELECT … FOR UPDATE) and decrement stock.
+ * Lines with a variant draw on that variant's stock (the product total is
+ * then recomputed); plain lines draw on products.stock. Must run inside the
+ * transaction that creates the order; throws OutOfStockError listing every
+ * short line if any can't be filled.
+ */
+export async function reserveStock(tx: Tx, lines: StockLine[]): Promise<void> {
+  const plain = totals(lines, (l) => (l.variantId ? null : l.productId));
+  const byVariant = totals(lines, (l) => l.variantId);
+  if (!plain.size && !byVariant.size) return;
+
+  const shortages: StockShortage[] = [];
+
+  const lockedProducts = plain.size
+    ? await tx
+        .select({ id: products.id, name: products.name, stock: products.stock })
+        .from(products)
+        .where(inArray(products.id, Array.from(plain.keys())))
+        .orderBy(products.id) // stable lock order avoids deadlocks between checkouts
+        .for("update")
+    : [];
+  for (const p of lockedProducts) {
+    const requested = plain.get(p.id)!;
+    if (p.stock < requested) {
+      shortages.push({ productId: p.id, variantId: null, name: p.name, requested, available: p.stock });
+    }
+  }
+
+  const lockedVariants = byVariant.size
+    ? await tx
+        .select({
+          id: productVariants.id,
+          productId: productVariants.productId,
+          options: productVariants.options,
+          stock: productVariants.stock,
+          name: products.name,
+        })
+        .from(productVariants)
+        .innerJoin(products, eq(products.id, productVariants.productId))
+        .where(inArray(productVariants.id, Array.from(byVariant.keys())))
+        .orderBy(productVariants.id)
+        .for("update", { of: productVariants })
+    : [];
+  for (const v of lockedVariants) {
+    const requested = byVariant.get(v.id)!;
+    if (v.stock < requested) {
+      shortages.push({
+        productId: v.productId,
+        variantId: v.id,
+        name: `${v.name} (${variantLabel(v.options)})`,
+        requested,
+        available: v.stock,
+      });
+    }
+  }
+  if (shortages.length) throw new OutOfStockError(shortages);
+
+  for (const [productId, quantity] of Array.from(plain)) {
+    await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} - ${quantity}` })
+      .where(eq(products.id, productId));
+  }
+  for (const [variantId, quantity] of Array.from(byVariant)) {
+    await tx
+      .update(productVariants)
+      .set({ stock: sql`${productVariants.stock} - ${quantity}` })
+      .where(eq(productVariants.id, variantId));
+  }
+  for (const productId of Array.from(new Set(lockedVariants.map((v) => v.productId)))) {
+    await syncVariantSummary(tx, productId);
+  }
+}
+
+/**
+ * Put quantities back on the shelf (returns, cancellations). A line whose
+ * variant has since been deleted goes back to the product itself.
+ */
+export async function restockItems(tx: Tx, lines: StockLine[]): Promise<void> {
+  const variantProducts = new Set<string>();
+  for (const line of lines) {
+    if (line.variantId) {
+      const [variant] = await tx
+        .update(productVariants)
+        .set({ stock: sql`${productVariants.stock} + ${line.quantity}` })
+        .where(eq(productVariants.id, line.variantId))
+        .returning({ productId: productVariants.productId });
+      if (variant) {
+        variantProducts.add(variant.productId);
+        continue;
+      }
+    }
+    await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} + ${line.quantity}` })
+      .where(eq(products.id, line.productId));
+  }
+  for (const productId of Array.from(variantProducts)) {
+    await syncVariantSummary(tx, productId);
+  }
+}
+
+/** Put an order's quantities back on the shelf (e.g. when it is cancelled) */
+export async function restockOrder(tx: Tx, orderId: string): Promise<void> {
+  const items = await tx
+    .select({
+      productId: orderItems.productId,
+      variantId: orderItems.variantId,
+      quantity: orderItems.quantity,
+    })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId));
+
+  await restockItems(tx, items);
+}
@@ -0,0 +1,284 @@
+// server/ledger.ts
+import { and, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import {
+  db,
+  categories,
+  commissionRates,
+  orderItems,
+  payoutBatches,
+  payouts,
+  products,
+  vendorLedgerEntries,
+  vendorPayoutAccounts,
+  vendors,
+  type Order,
+  type Payout,
+  type PayoutBatch,
+  type Refund,
+} from "./db";
+import { env } from "./env";
+import { money } from "./pricing";
+import type { Tx } from "./inventory";
+import { categoryPath } from "../shared/categories";
+
+/** Rejected payout operation; the central error handler uses `status` */
+export class PayoutError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const PAYOUT_METHODS = ["mobile_money", "bank"] as const;
+
+/**
+ * Commission % per category for one vendor's sale: the vendor's own rate,
+ * else the rate of the category or its nearest ancestor that has one, else
+ * PLATFORM_COMMISSION_PERCENT.
+ */
+export async function commissionPercents(
+  q: Tx | typeof db,
+  vendorId: string,
+  categoryIds: string[],
+): Promise<(categoryId: string) => number> {
+  const tree = categoryIds.length
+    ? await q.select({ id: categories.id, parentId: categories.parentId }).from(categories)
+    : [];
+  // each category with its ancestors, nearest first
+  const lineage = new Map(
+    categoryIds.map((id) => [id, categoryPath(tree, id).map((c) => c.id).reverse()] as const),
+  );
+  const relevant = Array.from(new Set(Array.from(lineage.values()).flat()));
+
+  const rows = await q
+    .select()
+    .from(commissionRates)
+    .where(
+      relevant.length
+        ? or(
+            eq(commissionRates.vendorId, vendorId),
+            inArray(commissionRates.categoryId, relevant),
+          )
+        : eq(commissionRates.vendorId, vendorId),
+    );
+
+  const vendorRate = rows.find((r) => r.vendorId === vendorId);
+  const categoryRates = new Map(
+    rows.filter((r) => r.categoryId).map((r) => [r.categoryId!, Number(r.percent)] as const),
+  );
+  return (categoryId) => {
+    if (vendorRate) return Number(vendorRate.percent);
+    const nearest = (lineage.get(categoryId) ?? [categoryId]).find((id) => categoryRates.has(id));
+    return nearest ? categoryRates.get(nearest)! : env.PLATFORM_COMMISSION_PERCENT;
+  };
+}
+
+/**
+ * Credit the vendor for a paid order: total less commission on the items
+ * (shipping passes through in full). Runs once per order.
+ */
+export async function creditOrderSale(tx: Tx, order: Order): Promise<void> {
+  const [already] = await tx
+    .select({ id: vendorLedgerEntries.id })
+    .from(vendorLedgerEntries)
+    .where(
+      and(eq(vendorLedgerEntries.orderId, order.id), eq(vendorLedgerEntries.type, "sale")),
+    );
+  if (already) return;
+
+  const lines = await tx
+    .select({
+      price: orderItems.price,
+      quantity: orderItems.quantity,
+      categoryId: products.categoryId,
+    })
+    .from(orderItems)
+    .innerJoin(products, eq(products.id, orderItems.productId))
+    .where(eq(orderItems.orderId, order.id));
+
+  const percentFor = await commissionPercents(
+    tx,
+    order.vendorId,
+    Array.from(new Set(lines.map((l) => l.categoryId))),
+  );
+  const commission = money(
+    lines.reduce(
+      (s, l) => s + (Number(l.price) * l.quantity * percentFor(l.categoryId)) / 100,
+      0,
+    ),
+  );
+  const gross = money(Number(order.total));
+
+  await tx.insert(vendorLedgerEntries).values({
+    vendorId: order.vendorId,
+    type: "sale",
+    orderId: order.id,
+    gross: gross.toFixed(2),
+    commission: commission.toFixed(2),
+    amount: money(gross - commission).toFixed(2),
+    note: `Order #${order.id.substring(0, 8)}`,
+  });
+}
+
+/**
+ * Debit the vendor for a refund, giving back the commission on the refunded
+ * items at the order's effective rate. Orders never credited (e.g. cash on
+ * delivery) are skipped: that money never passed through the platform.
+ */
+export async function debitRefund(tx: Tx, order: Order, refund: Refund): Promise<void> {
+  const [sale] = await tx
+    .select()
+    .from(vendorLedgerEntries)
+    .where(
+      and(eq(vendorLedgerEntries.orderId, order.id), eq(vendorLedgerEntries.type, "sale")),
+    );
+  if (!sale) return;
+
+  const subtotal = Number(order.subtotal);
+  const rate = subtotal > 0 ? Number(sale.commission) / subtotal : 0;
+  const itemsRefunded = Number(refund.amount) - Number(refund.shippingAmount);
+  const commissionBack = money(itemsRefunded * rate);
+  const gross = money(Number(refund.amount));
+
+  await tx.insert(vendorLedgerEntries).values({
+    vendorId: order.vendorId,
+    type: "refund",
+    orderId: order.id,
+    refundId: refund.id,
+    gross: (-gross).toFixed(2),
+    commission: (-commissionBack).toFixed(2),
+    amount: (-money(gross - commissionBack)).toFixed(2),
+    note: `Refund on order #${order.id.substring(0, 8)}`,
+  });
+}
+
+/** Current balance per vendor (all vendors with ledger entries when `vendorIds` is omitted) */
+export async function vendorBalances(
+  q: Tx | typeof db,
+  vendorIds?: string[],
+): Promise<Map<string, number>> {
+  const rows = await q
+    .select({
+      vendorId: vendorLedgerEntries.vendorId,
+      balance: sql<string>`coalesce(sum(${vendorLedgerEntries.amount}), 0)::text`,
+    })
+    .from(vendorLedgerEntries)
+    .where(vendorIds ? inArray(vendorLedgerEntries.vendorId, vendorIds) : undefined)
+    .groupBy(vendorLedgerEntries.vendorId);
+  return new Map(rows.map((r) => [r.vendorId, money(Number(r.balance))]));
+}
+
+/**
+ * Pay out every selected vendor's full balance (≥ `minAmount`) to their payout
+ * account. Each payout debits the ledger right away; a failed payout is
+ * credited back by settlePayout.
+ */
+export async function createPayoutBatch(input: {
+  adminId: string;
+  vendorIds?: string[];
+  minAmount?: number;
+  note?: string;
+}): Promise<{ batch: PayoutBatch; payouts: Payout[] }> {
+  return db.transaction(async (tx) => {
+    const accounts = await tx
+      .select()
+      .from(vendorPayoutAccounts)
+      .where(
+        input.vendorIds?.length
+          ? inArray(vendorPayoutAccounts.vendorId, input.vendorIds)
+          : isNotNull(vendorPayoutAccounts.vendorId),
+      );
+    if (!accounts.length) throw new PayoutError("No selected vendor has a payout account");
+
+    // lock the vendors so two batches can't pay the same balance
+    const ids = accounts.map((a) => a.vendorId);
+    await tx
+      .select({ id: vendors.id })
+      .from(vendors)
+      .where(inArray(vendors.id, ids))
+      .orderBy(vendors.id)
+      .for("update");
+
+    const balances = await vendorBalances(tx, ids);
+    const minAmount = Math.max(input.minAmount ?? 0, 0.01);
+    const due = accounts.filter((a) => (balances.get(a.vendorId) ?? 0) >= minAmount);
+    if (!due.length) throw new PayoutError("No vendor has a balance to pay out");
+
+    const [batch] = await tx
+      .insert(payoutBatches)
+      .values({ createdBy: input.adminId, note: input.note ?? null })
+      .returning();
+
+    const created: Payout[] = [];
+    for (const a of due) {
+      const amount = balances.get(a.vendorId)!;
+      const [payout] = await tx
+        .insert(payouts)
+        .values({
+          batchId: batch.id,
+          vendorId: a.vendorId,
+          amount: amount.toFixed(2),
+          method: a.method,
+          provider: a.provider,
+          accountName: a.accountName,
+          accountNumber: a.accountNumber,
+        })
+        .returning();
+
+      await tx.insert(vendorLedgerEntries).values({
+        vendorId: a.vendorId,
+        type: "payout",
+        payoutId: payout.id,
+        gross: (-amount).toFixed(2),
+        amount: (-amount).toFixed(2),
+        note: `Payout to ${a.provider.replace("_", " ")} ${a.accountNumber}`,
+      });
+      created.push(payout);
+    }
+
+    return { batch, payouts: created };
+  });
+}
+
+/** Record the outcome of a pending payout; failures put the money back on the balance */
+export async function settlePayout(
+  payoutId: string,
+  outcome: { status: "paid" | "failed"; reference?: string; reason?: string },
+): Promise<Payout> {
+  return db.transaction(async (tx) => {
+    const [payout] = await tx
+      .select()
+      .from(payouts)
+      .where(eq(payouts.id, payoutId))
+      .for("update");
+    if (!payout) throw new PayoutError("Payout not found", 404);
+    if (payout.status !== "pending") {
+      throw new PayoutError(`This payout is already ${payout.status}`);
+    }
+
+    const [updated] = await tx
+      .update(payouts)
+      .set({
+        status: outcome.status,
+        reference: outcome.reference ?? null,
+        failureReason: outcome.status === "failed" ? outcome.reason ?? "Failed" : null,
+        settledAt: new Date(),
+      })
+      .where(eq(payouts.id, payout.id))
+      .returning();
+
+    if (outcome.status === "failed") {
+      await tx.insert(vendorLedgerEntries).values({
+        vendorId: payout.vendorId,
+        type: "payout_reversal",
+        payoutId: payout.id,
+        gross: payout.amount,
+        amount: payout.amount,
+        note: `Payout failed${outcome.reason ? `: ${outcome.reason}` : ""}`,
+      });
+    }
+
+    return updated;
+  });
+}
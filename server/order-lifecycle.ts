@@ -0,0 +1,93 @@
+// server/order-lifecycle.ts
+import { eq } from "drizzle-orm";
+import { orders, orderStatusEvents, type Order } from "./db";
+import {
+  canTransition,
+  type OrderActorRole,
+  type OrderStatus,
+} from "../shared/order-status";
+import { restockOrder, type Tx } from "./inventory";
+import { creditOrderSale } from "./ledger";
+
+/** Who is moving the order; "system" is for automated flows (webhooks, jobs) */
+export type OrderActor = {
+  id: string | null;
+  role: OrderActorRole | "system";
+};
+
+/** Rejected move; the central error handler turns `status` into the response code */
+export class OrderTransitionError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Append a timeline entry (no status change of its own) */
+export async function recordOrderEvent(
+  tx: Tx,
+  e: {
+    orderId: string;
+    from: string | null;
+    to: string;
+    actor: OrderActor;
+    note?: string | null;
+  },
+): Promise<void> {
+  await tx.insert(orderStatusEvents).values({
+    orderId: e.orderId,
+    fromStatus: e.from,
+    toStatus: e.to,
+    actorId: e.actor.id,
+    actorRole: e.actor.role,
+    note: e.note ?? null,
+  });
+}
+
+/**
+ * Move an order to `to` if the transition table allows it for the actor's role,
+ * record the event, and run side effects (paid -> vendor ledger credit,
+ * cancelled -> restock).
+ * Ownership (which vendor/customer) is the caller's job.
+ */
+export async function transitionOrder(
+  tx: Tx,
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  note?: string | null,
+): Promise<Order> {
+  // row lock: concurrent moves of the same order run one after another
+  const [current] = await tx
+    .select()
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update");
+  if (!current) throw new OrderTransitionError("Order not found", 404);
+
+  // automated flows follow the same rules as an admin
+  const role = actor.role === "system" ? "admin" : actor.role;
+  if (!canTransition(current.status, to, role)) {
+    throw new OrderTransitionError(
+      `Can't move an order from "${current.status}" to "${to}"`,
+    );
+  }
+
+  const [updated] = await tx
+    .update(orders)
+    .set({ status: to })
+    .where(eq(orders.id, orderId))
+    .returning();
+
+  await recordOrderEvent(tx, { orderId, from: current.status, to, actor, note });
+
+  if (to === "paid") {
+    await creditOrderSale(tx, updated);
+  }
+  if (to === "cancelled") {
+    await restockOrder(tx, orderId);
+  }
+
+  return updated;
+}
@@ -0,0 +1,70 @@
+// server/payment-provider.ts
+import crypto from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+
+/** Checkout payment methods that go through a provider */
+export const MOBILE_MONEY_METHODS = ["orange_money", "afrimoney"] as const;
+export type MobileMoneyMethod = (typeof MOBILE_MONEY_METHODS)[number];
+
+export type InitiateRequest = {
+  paymentId: string;
+  /** Checkout reference the buyer sees; providers echo it back */
+  reference: string;
+  amount: number; // NLe
+  currency: string;
+  method: MobileMoneyMethod;
+  phone: string;
+};
+
+export type InitiateResult = {
+  providerRef: string;
+  /** What to tell the buyer (e.g. "approve the prompt on your phone") */
+  instructions: string;
+};
+
+/** A provider's view of one payment, from a webhook or a status poll */
+export type ProviderEvent = {
+  providerRef: string;
+  status: "pending" | "succeeded" | "failed";
+  amount: number;
+  reference: string | null;
+  reason?: string;
+};
+
+/**
+ * One mobile-money integration. Adding a real one (e.g. an Orange Money
+ * merchant API) means implementing this and registering it in server/payments.ts.
+ */
+export interface PaymentProvider {
+  name: string;
+  initiate(req: InitiateRequest): Promise<InitiateResult>;
+  fetchStatus(providerRef: string): Promise<ProviderEvent>;
+  /** Verify the signature and parse the body; null if it doesn't check out */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderEvent | null;
+}
+
+/** Rejected payment request; the central error handler uses `status` */
+export class PaymentError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Hex HMAC-SHA256 of a webhook body */
+export function signPayload(secret: string, body: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/** Constant-time check of a hex signature header */
+export function verifySignature(
+  secret: string,
+  body: string | Buffer,
+  signature: string | undefined,
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signPayload(secret, body), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
@@ -0,0 +1,105 @@
+// server/payment-simulator.ts
+import crypto from "node:crypto";
+import { z } from "zod";
+import { env } from "./env";
+import {
+  PaymentError,
+  signPayload,
+  verifySignature,
+  type PaymentProvider,
+  type ProviderEvent,
+} from "./payment-provider";
+
+/**
+ * Offline stand-in for a mobile-money provider. Payments live in memory
+ * until someone approves or declines them via simulateOutcome(), which
+ * delivers a signed webhook to this server exactly like a real provider.
+ */
+
+export const SIMULATOR_SIGNATURE_HEADER = "x-simulator-signature";
+
+const secret = () => env.PAYMENT_WEBHOOK_SECRET ?? "lwg-payment-simulator";
+
+const simulated = new Map<string, ProviderEvent>();
+
+const webhookSchema = z.object({
+  providerRef: z.string().min(1),
+  status: z.enum(["pending", "succeeded", "failed"]),
+  amount: z.coerce.number(),
+  reference: z.string().nullable(),
+  reason: z.string().optional(),
+});
+
+export const simulatorProvider: PaymentProvider = {
+  name: "simulator",
+
+  async initiate(req) {
+    const providerRef = `SIM-${crypto.randomUUID()}`;
+    simulated.set(providerRef, {
+      providerRef,
+      status: "pending",
+      amount: req.amount,
+      reference: req.reference,
+    });
+    return {
+      providerRef,
+      instructions:
+        "Test mode: no money moves. Approve or decline this payment with the simulator buttons.",
+    };
+  },
+
+  async fetchStatus(providerRef) {
+    const p = simulated.get(providerRef);
+    // a restart forgets simulated payments; report them as failed
+    return p ?? { providerRef, status: "failed", amount: 0, reference: null, reason: "unknown" };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers[SIMULATOR_SIGNATURE_HEADER];
+    if (!verifySignature(secret(), rawBody, typeof signature === "string" ? signature : undefined)) {
+      return null;
+    }
+    try {
+      const parsed = webhookSchema.safeParse(JSON.parse(rawBody.toString("utf8")));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * Play the provider's part: settle a simulated payment and POST the signed
+ * webhook to our own receiver. `amount` overrides what is reported as paid
+ * (to exercise the amount-mismatch path).
+ */
+export async function simulateOutcome(
+  providerRef: string,
+  outcome: "succeeded" | "failed",
+  amount?: number,
+): Promise<void> {
+  const p = simulated.get(providerRef);
+  if (!p) throw new PaymentError("Unknown simulated payment", 404);
+  if (p.status !== "pending") throw new PaymentError("Payment already settled");
+
+  const event: ProviderEvent = {
+    ...p,
+    status: outcome,
+    amount: amount ?? p.amount,
+    reason: outcome === "failed" ? "declined" : undefined,
+  };
+  simulated.set(providerRef, event);
+
+  const body = JSON.stringify(event);
+  const res = await fetch(`http://127.0.0.1:${env.PORT}/api/payments/webhook/simulator`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [SIMULATOR_SIGNATURE_HEADER]: signPayload(secret(), body),
+    },
+    body,
+  });
+  if (!res.ok) {
+    throw new PaymentError(`Webhook delivery failed (${res.status})`, 502);
+  }
+}
@@ -0,0 +1,179 @@
+// server/payments.ts
+import { and, eq } from "drizzle-orm";
+import {
+  db,
+  checkoutGroups,
+  orders,
+  payments,
+  type CheckoutGroup,
+  type Payment,
+} from "./db";
+import { env } from "./env";
+import { money } from "./pricing";
+import { transitionOrder } from "./order-lifecycle";
+import type { Tx } from "./inventory";
+import {
+  PaymentError,
+  type MobileMoneyMethod,
+  type PaymentProvider,
+  type ProviderEvent,
+} from "./payment-provider";
+import { simulatorProvider } from "./payment-simulator";
+
+const providers: Record<string, PaymentProvider> = {
+  simulator: simulatorProvider,
+};
+
+/** Provider by registry name (defaults to PAYMENT_PROVIDER) */
+export function getPaymentProvider(name: string = env.PAYMENT_PROVIDER): PaymentProvider {
+  const provider = providers[name];
+  if (!provider) throw new PaymentError(`Unknown payment provider "${name}"`, 404);
+  if (provider === simulatorProvider && env.NODE_ENV === "production") {
+    throw new PaymentError("The payment simulator is disabled in production", 503);
+  }
+  return provider;
+}
+
+/** Reference providers see for a checkout (older checkouts have none stored) */
+export const paymentReference = (group: CheckoutGroup) => group.reference ?? group.id;
+
+/**
+ * What a checkout still owes: its orders awaiting payment and their total
+ * (NLe). Cancelled orders are neither charged nor marked paid.
+ */
+export async function getAmountDue(
+  q: Tx | typeof db,
+  checkoutGroupId: string,
+): Promise<{ orderIds: string[]; amount: number }> {
+  const rows = await q
+    .select({ id: orders.id, total: orders.total })
+    .from(orders)
+    .where(and(eq(orders.checkoutGroupId, checkoutGroupId), eq(orders.status, "pending")));
+  return {
+    orderIds: rows.map((r) => r.id),
+    amount: money(rows.reduce((s, r) => s + Number(r.total), 0)),
+  };
+}
+
+/**
+ * Start a mobile-money payment for the checkout group's amount due.
+ * The amount is computed server-side (NLe), never a client value.
+ */
+export async function initiatePayment(
+  group: CheckoutGroup,
+  method: MobileMoneyMethod,
+  phone: string,
+): Promise<{ payment: Payment; instructions: string }> {
+  const { orderIds, amount } = await getAmountDue(db, group.id);
+  if (!orderIds.length) {
+    throw new PaymentError("This checkout has nothing left to pay");
+  }
+
+  const provider = getPaymentProvider();
+  const [payment] = await db
+    .insert(payments)
+    .values({
+      checkoutGroupId: group.id,
+      provider: provider.name,
+      method,
+      amount: amount.toFixed(2),
+      currency: "NLE",
+      payerPhone: phone,
+    })
+    .returning();
+
+  try {
+    const result = await provider.initiate({
+      paymentId: payment.id,
+      reference: paymentReference(group),
+      amount,
+      currency: "NLE",
+      method,
+      phone,
+    });
+
+    const [updated] = await db
+      .update(payments)
+      .set({ providerRef: result.providerRef })
+      .where(eq(payments.id, payment.id))
+      .returning();
+    return { payment: updated, instructions: result.instructions };
+  } catch (err) {
+    await db
+      .update(payments)
+      .set({ status: "failed", failureReason: "initiate_failed", settledAt: new Date() })
+      .where(eq(payments.id, payment.id));
+    throw err;
+  }
+}
+
+/**
+ * Apply a provider event (webhook or poll) to its payment. Safe to call
+ * repeatedly: only a pending payment changes. On success every still-pending
+ * order in the checkout moves to "paid"; a wrong amount or reference fails
+ * the payment instead, and so does money arriving for a checkout with nothing
+ * left to pay ("refund_due", to be returned to the buyer).
+ * Returns null when the event matches no payment of this provider.
+ */
+export async function settlePayment(
+  providerName: string,
+  event: ProviderEvent,
+): Promise<Payment | null> {
+  return db.transaction(async (tx) => {
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(
+        and(eq(payments.provider, providerName), eq(payments.providerRef, event.providerRef)),
+      )
+      .for("update");
+    if (!payment) return null;
+    if (payment.status !== "pending" || event.status === "pending") return payment;
+
+    const group = await tx.query.checkoutGroups.findFirst({
+      where: eq(checkoutGroups.id, payment.checkoutGroupId),
+    });
+
+    const { orderIds } = await getAmountDue(tx, payment.checkoutGroupId);
+
+    let failureReason: string | null = null;
+    if (event.status === "failed") failureReason = event.reason ?? "declined";
+    else if (money(event.amount) !== money(Number(payment.amount))) failureReason = "amount_mismatch";
+    else if (!group || (event.reference && event.reference !== paymentReference(group))) {
+      failureReason = "reference_mismatch";
+    } else if (!orderIds.length) {
+      // the buyer paid, but every order was cancelled meanwhile: hand it back
+      failureReason = "refund_due";
+    }
+
+    const [updated] = await tx
+      .update(payments)
+      .set({
+        status: failureReason ? "failed" : "succeeded",
+        failureReason,
+        settledAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id))
+      .returning();
+    if (failureReason) return updated;
+
+    for (const orderId of orderIds) {
+      await transitionOrder(
+        tx,
+        orderId,
+        "paid",
+        { id: null, role: "system" },
+        `Paid via ${payment.method} (${event.providerRef})`,
+      );
+    }
+    return updated;
+  });
+}
+
+/** Ask the provider where a payment stands and apply the answer */
+export async function refreshPayment(payment: Payment): Promise<Payment> {
+  if (payment.status !== "pending" || !payment.providerRef) return payment;
+  const provider = getPaymentProvider(payment.provider);
+  const event = await provider.fetchStatus(payment.providerRef);
+  return (await settlePayment(provider.name, event)) ?? payment;
+}
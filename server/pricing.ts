@@ -0,0 +1,187 @@
+// server/pricing.ts
+import { inArray } from "drizzle-orm";
+import { db, products, productVariants, type Product, type ProductVariant } from "./db";
+import { env } from "./env";
+import { cartLineKey, variantLabel } from "../shared/variants";
+
+/** What the client sends per cart line */
+export type CartLineInput = {
+  productId: string;
+  /** Required for products with variants */
+  variantId?: string | null;
+  quantity: number;
+  /** Price the buyer was shown (NLe); only used to detect stale carts */
+  unitPrice?: number;
+};
+
+export type PricedLine = {
+  product: Product;
+  variant: ProductVariant | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+};
+
+/** One future `orders` row */
+export type VendorQuote = {
+  vendorId: string;
+  lines: PricedLine[];
+  subtotal: number;
+  shippingFee: number;
+  total: number;
+};
+
+export type CartQuote = {
+  vendorOrders: VendorQuote[];
+  subtotal: number;
+  shippingFee: number;
+  total: number;
+};
+
+export type UnavailableLine = {
+  productId: string;
+  variantId: string | null;
+  reason: "not_found" | "inactive" | "variant_required";
+};
+
+export type PriceChange = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  expected: number;
+  actual: number;
+};
+
+/** Round to cents so float noise never reaches the DB or a comparison */
+export const money = (n: number) => Math.round(n * 100) / 100;
+
+/** Product name plus the chosen variant, e.g. "T-shirt (Size: M)" */
+export const lineName = (l: Pick<PricedLine, "product" | "variant">) =>
+  l.variant ? `${l.product.name} (${variantLabel(l.variant.options)})` : l.product.name;
+
+/** Shipping is a flat fee per vendor order (each store ships separately) */
+function shippingFor(_lines: PricedLine[]): number {
+  return money(env.SHIPPING_FEE_PER_VENDOR);
+}
+
+/**
+ * Price a cart from the DB. Client-sent prices are ignored here; missing or
+ * inactive products (or variants, or a product with variants sent without
+ * one) are reported in `unavailable` and left out of the quote.
+ */
+export async function priceCart(
+  items: CartLineInput[],
+): Promise<{ quote: CartQuote; unavailable: UnavailableLine[] }> {
+  const ids = Array.from(new Set(items.map((i) => i.productId)));
+  const rows = ids.length
+    ? await db.select().from(products).where(inArray(products.id, ids))
+    : [];
+  const byId = new Map(rows.map((p) => [p.id, p]));
+
+  const variantIds = Array.from(
+    new Set(items.flatMap((i) => (i.variantId ? [i.variantId] : []))),
+  );
+  const variantRows = variantIds.length
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, variantIds))
+    : [];
+  const variantsById = new Map(variantRows.map((v) => [v.id, v]));
+
+  const unavailable: UnavailableLine[] = [];
+  const byVendor = new Map<string, PricedLine[]>();
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    const product = byId.get(item.productId);
+    const variantId = item.variantId ?? null;
+    const variant = variantId ? variantsById.get(variantId) : undefined;
+
+    let reason: UnavailableLine["reason"] | null = null;
+    if (!product || (variantId && variant?.productId !== product.id)) reason = "not_found";
+    else if (!product.isActive || variant?.isActive === false) reason = "inactive";
+    else if (product.hasVariants && !variant) reason = "variant_required";
+
+    if (reason) {
+      const key = cartLineKey(item.productId, variantId);
+      if (!seen.has(key)) unavailable.push({ productId: item.productId, variantId, reason });
+      seen.add(key);
+      continue;
+    }
+
+    const unitPrice = money(Number(variant ? variant.price : product!.price));
+    const line: PricedLine = {
+      product: product!,
+      variant: variant ?? null,
+      quantity: item.quantity,
+      unitPrice,
+      lineTotal: money(unitPrice * item.quantity),
+    };
+    byVendor.set(product!.vendorId, [...(byVendor.get(product!.vendorId) ?? []), line]);
+  }
+
+  const vendorOrders = Array.from(byVendor, ([vendorId, lines]): VendorQuote => {
+    const subtotal = money(lines.reduce((s, l) => s + l.lineTotal, 0));
+    const shippingFee = shippingFor(lines);
+    return { vendorId, lines, subtotal, shippingFee, total: money(subtotal + shippingFee) };
+  });
+
+  const subtotal = money(vendorOrders.reduce((s, v) => s + v.subtotal, 0));
+  const shippingFee = money(vendorOrders.reduce((s, v) => s + v.shippingFee, 0));
+
+  return {
+    quote: { vendorOrders, subtotal, shippingFee, total: money(subtotal + shippingFee) },
+    unavailable,
+  };
+}
+
+/** Lines whose client-shown unit price no longer matches the DB */
+export function findPriceChanges(
+  items: CartLineInput[],
+  quote: CartQuote,
+): PriceChange[] {
+  const current = new Map(
+    quote.vendorOrders.flatMap((v) =>
+      v.lines.map((l) => [cartLineKey(l.product.id, l.variant?.id), l] as const),
+    ),
+  );
+
+  const changes: PriceChange[] = [];
+  for (const item of items) {
+    const line = current.get(cartLineKey(item.productId, item.variantId));
+    if (!line || item.unitPrice === undefined) continue;
+    if (money(item.unitPrice) !== line.unitPrice) {
+      changes.push({
+        productId: item.productId,
+        variantId: line.variant?.id ?? null,
+        name: lineName(line),
+        expected: money(item.unitPrice),
+        actual: line.unitPrice,
+      });
+    }
+  }
+  return changes;
+}
+
+/** JSON shape returned to the client (amounts as 2dp strings, like the DB) */
+export function serializeQuote(quote: CartQuote) {
+  return {
+    vendorOrders: quote.vendorOrders.map((v) => ({
+      vendorId: v.vendorId,
+      lines: v.lines.map((l) => ({
+        productId: l.product.id,
+        variantId: l.variant?.id ?? null,
+        name: l.product.name,
+        variantLabel: l.variant ? variantLabel(l.variant.options) : null,
+        imageUrl: l.variant?.imageUrl || l.product.imageUrl,
+        quantity: l.quantity,
+        unitPrice: l.unitPrice.toFixed(2),
+        lineTotal: l.lineTotal.toFixed(2),
+      })),
+      subtotal: v.subtotal.toFixed(2),
+      shippingFee: v.shippingFee.toFixed(2),
+      total: v.total.toFixed(2),
+    })),
+    subtotal: quote.subtotal.toFixed(2),
+    shippingFee: quote.shippingFee.toFixed(2),
+    total: quote.total.toFixed(2),
+  };
+}
@@ -0,0 +1,51 @@
+// server/private-files.ts
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { env } from "./env";
+
+/**
+ * Files only staff should see (e.g. payment receipts). They live outside
+ * any static directory and are streamed by authorized routes only.
+ */
+const PRIVATE_DIR = path.resolve(process.cwd(), env.UPLOAD_DIR, "private");
+
+export type SniffedType = { mime: string; ext: string };
+
+/** Detect the real type from magic bytes (never trust the client's Content-Type) */
+export function sniffDocumentType(buf: Buffer): SniffedType | null {
+  if (buf.subarray(0, 4).toString("latin1") === "%PDF") {
+    return { mime: "application/pdf", ext: "pdf" };
+  }
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) {
+    return { mime: "image/jpeg", ext: "jpg" };
+  }
+  if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { mime: "image/png", ext: "png" };
+  }
+  if (
+    buf.subarray(0, 4).toString("latin1") === "RIFF" &&
+    buf.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return { mime: "image/webp", ext: "webp" };
+  }
+  return null;
+}
+
+/** Write under a random name; returns the key to store in the DB */
+export async function savePrivateFile(folder: string, buf: Buffer, ext: string): Promise<string> {
+  const key = path.posix.join(folder, `${crypto.randomUUID()}.${ext}`);
+  const file = privateFilePath(key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, buf);
+  return key;
+}
+
+/** Absolute path for a stored key (refuses keys that escape the directory) */
+export function privateFilePath(key: string): string {
+  const file = path.resolve(PRIVATE_DIR, key);
+  if (!file.startsWith(PRIVATE_DIR + path.sep)) {
+    throw new Error("Invalid file key");
+  }
+  return file;
+}
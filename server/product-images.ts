@@ -0,0 +1,65 @@
+// server/product-images.ts
+import { asc, eq } from "drizzle-orm";
+import { db, productImages, products, type Product } from "./db";
+import type { Tx } from "./inventory";
+import type { GalleryImage } from "../shared/images";
+
+export const MAX_PRODUCT_IMAGES = 10;
+
+/**
+ * A product's gallery in display order. Products created before galleries
+ * existed have no rows; their single imageUrl stands in (with a null id).
+ */
+export async function getGallery(
+  q: Tx | typeof db,
+  product: Pick<Product, "id" | "name" | "imageUrl">,
+): Promise<GalleryImage[]> {
+  const rows = await q
+    .select({ id: productImages.id, url: productImages.url, alt: productImages.alt })
+    .from(productImages)
+    .where(eq(productImages.productId, product.id))
+    .orderBy(asc(productImages.position), asc(productImages.createdAt));
+  if (rows.length) return rows;
+  return product.imageUrl ? [{ id: null, url: product.imageUrl, alt: product.name }] : [];
+}
+
+/**
+ * Turn the legacy imageUrl into the first gallery row so it survives the
+ * first add/reorder. No-op once the product has images.
+ */
+export async function ensureGallery(tx: Tx, product: Product): Promise<void> {
+  const existing = await tx
+    .select({ id: productImages.id })
+    .from(productImages)
+    .where(eq(productImages.productId, product.id))
+    .limit(1);
+  if (existing.length || !product.imageUrl) return;
+  await tx
+    .insert(productImages)
+    .values({ productId: product.id, url: product.imageUrl, alt: product.name, position: 0 });
+}
+
+/**
+ * Renumber positions 0..n-1 in the given order (defaults to the current
+ * order) and copy the first image into products.imageUrl.
+ */
+export async function syncCoverImage(tx: Tx, productId: string, orderedIds?: string[]): Promise<void> {
+  const rows = await tx
+    .select({ id: productImages.id, url: productImages.url })
+    .from(productImages)
+    .where(eq(productImages.productId, productId))
+    .orderBy(asc(productImages.position), asc(productImages.createdAt));
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const ordered = orderedIds ? orderedIds.map((id) => byId.get(id)!) : rows;
+
+  for (let position = 0; position < ordered.length; position++) {
+    await tx
+      .update(productImages)
+      .set({ position })
+      .where(eq(productImages.id, ordered[position].id));
+  }
+  if (ordered[0]) {
+    await tx.update(products).set({ imageUrl: ordered[0].url }).where(eq(products.id, productId));
+  }
+}
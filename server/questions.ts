@@ -0,0 +1,198 @@
+// server/questions.ts
+import { and, count, desc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { db, productQuestions, products, type ProductQuestion } from "./db";
+import { reviewerName } from "../shared/reviews";
+import {
+  MAX_OPEN_QUESTIONS,
+  type ManagedQuestion,
+  type OwnQuestion,
+  type PublicQuestion,
+  type QuestionStatus,
+} from "../shared/questions";
+
+/** Rejected question or answer; the central error handler uses `status` */
+export class QuestionError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Asker name loaded with every question */
+const questionDetails = {
+  customer: { columns: { firstName: true as const, lastName: true as const } },
+};
+
+type QuestionWithDetails = ProductQuestion & {
+  customer: { firstName: string; lastName: string };
+};
+
+function toPublicQuestion(q: QuestionWithDetails): PublicQuestion {
+  return {
+    id: q.id,
+    body: q.body,
+    author: reviewerName(q.customer.firstName, q.customer.lastName),
+    answer: q.answer,
+    answeredAt: q.answeredAt?.toISOString() ?? null,
+    createdAt: q.createdAt.toISOString(),
+  };
+}
+
+function toOwnQuestion(q: QuestionWithDetails): OwnQuestion {
+  return {
+    ...toPublicQuestion(q),
+    status: q.status as QuestionStatus,
+    moderationNote: q.moderationNote,
+  };
+}
+
+/**
+ * A signed-in shopper asks about an active product. Each shopper may have
+ * at most MAX_OPEN_QUESTIONS unanswered questions on a product.
+ */
+export async function askQuestion(input: {
+  productId: string;
+  customerId: string;
+  body: string;
+}): Promise<ProductQuestion> {
+  return db.transaction(async (tx) => {
+    const product = await tx.query.products.findFirst({
+      where: eq(products.id, input.productId),
+      columns: { id: true, vendorId: true, isActive: true },
+    });
+    if (!product || !product.isActive) throw new QuestionError("Product not found", 404);
+
+    const [open] = await tx
+      .select({ n: count() })
+      .from(productQuestions)
+      .where(
+        and(
+          eq(productQuestions.productId, product.id),
+          eq(productQuestions.customerId, input.customerId),
+          isNull(productQuestions.answer),
+        ),
+      );
+    if (open.n >= MAX_OPEN_QUESTIONS) {
+      throw new QuestionError(
+        `You already have ${MAX_OPEN_QUESTIONS} unanswered questions about this product`,
+      );
+    }
+
+    const [row] = await tx
+      .insert(productQuestions)
+      .values({
+        productId: product.id,
+        vendorId: product.vendorId,
+        customerId: input.customerId,
+        body: input.body,
+      })
+      .returning();
+    return row;
+  });
+}
+
+/** The store's public answer; null removes it */
+export async function answerQuestion(
+  questionId: string,
+  userId: string,
+  answer: string | null,
+): Promise<ProductQuestion> {
+  const [row] = await db
+    .update(productQuestions)
+    .set({
+      answer,
+      answeredBy: answer ? userId : null,
+      answeredAt: answer ? new Date() : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(productQuestions.id, questionId))
+    .returning();
+  if (!row) throw new QuestionError("Question not found", 404);
+  return row;
+}
+
+/** Hide a question (and its answer) from shoppers, or publish it again */
+export async function moderateQuestion(
+  questionId: string,
+  adminId: string,
+  status: QuestionStatus,
+  note?: string,
+): Promise<ProductQuestion> {
+  const [row] = await db
+    .update(productQuestions)
+    .set({
+      status,
+      moderationNote: note || null,
+      moderatedBy: adminId,
+      moderatedAt: new Date(),
+    })
+    .where(eq(productQuestions.id, questionId))
+    .returning();
+  if (!row) throw new QuestionError("Question not found", 404);
+  return row;
+}
+
+/** Published questions of a product, newest first, `limit` at a time */
+export async function listProductQuestions(
+  productId: string,
+  { offset, limit }: { offset: number; limit: number },
+): Promise<{ questions: PublicQuestion[]; nextOffset: number | null }> {
+  const rows = await db.query.productQuestions.findMany({
+    where: and(eq(productQuestions.productId, productId), eq(productQuestions.status, "published")),
+    with: questionDetails,
+    orderBy: [desc(productQuestions.createdAt), desc(productQuestions.id)],
+    offset,
+    limit: limit + 1,
+  });
+  return {
+    questions: rows.slice(0, limit).map(toPublicQuestion),
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
+
+/** The shopper's own questions on a product that a moderator hid */
+export async function listHiddenOwnQuestions(
+  productId: string,
+  customerId: string,
+): Promise<OwnQuestion[]> {
+  const rows = await db.query.productQuestions.findMany({
+    where: and(
+      eq(productQuestions.productId, productId),
+      eq(productQuestions.customerId, customerId),
+      eq(productQuestions.status, "hidden"),
+    ),
+    with: questionDetails,
+    orderBy: [desc(productQuestions.createdAt)],
+  });
+  return rows.map(toOwnQuestion);
+}
+
+/** Questions for the vendor dashboard or the admin moderation list; unanswered first, then newest */
+export async function listManagedQuestions(filter: {
+  vendorId?: string;
+  status?: QuestionStatus;
+  limit?: number;
+}): Promise<ManagedQuestion[]> {
+  const where: SQL[] = [];
+  if (filter.vendorId) where.push(eq(productQuestions.vendorId, filter.vendorId));
+  if (filter.status) where.push(eq(productQuestions.status, filter.status));
+
+  const rows = await db.query.productQuestions.findMany({
+    where: where.length ? and(...where) : undefined,
+    with: {
+      ...questionDetails,
+      product: { columns: { name: true } },
+      vendor: { columns: { storeName: true } },
+    },
+    orderBy: [sql`${productQuestions.answer} is not null`, desc(productQuestions.createdAt)],
+    limit: filter.limit ?? 200,
+  });
+  return rows.map((q) => ({
+    ...toOwnQuestion(q),
+    productId: q.productId,
+    productName: q.product.name,
+    vendorId: q.vendorId,
+    storeName: q.vendor.storeName,
+  }));
+}
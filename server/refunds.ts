@@ -0,0 +1,223 @@
+// server/refunds.ts
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  db,
+  orders,
+  orderItems,
+  orderStatusEvents,
+  payments,
+  refunds,
+  refundItems,
+  type Order,
+  type Refund,
+} from "./db";
+import { money } from "./pricing";
+import { canTransition } from "../shared/order-status";
+import { recordOrderEvent, transitionOrder, type OrderActor } from "./order-lifecycle";
+import type { Tx } from "./inventory";
+import { debitRefund } from "./ledger";
+
+export const REFUND_METHODS = ["mobile_money", "bank", "cash"] as const;
+export type RefundMethod = (typeof REFUND_METHODS)[number];
+
+/** Rejected refund; the central error handler uses `status` */
+export class RefundError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type RefundableItem = {
+  orderItemId: string;
+  name: string;
+  price: string;
+  quantity: number;
+  refundedQuantity: number;
+};
+
+export type RefundSummary = {
+  order: Order;
+  items: RefundableItem[];
+  shippingRefunded: boolean;
+  refundedTotal: number;
+};
+
+/** What has been refunded on an order so far, per line */
+export async function getRefundSummary(
+  q: Tx | typeof db,
+  order: Order,
+): Promise<RefundSummary> {
+  const lines = await q.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+  const past = await q.select().from(refunds).where(eq(refunds.orderId, order.id));
+  const pastItems = past.length
+    ? await q
+        .select()
+        .from(refundItems)
+        .where(inArray(refundItems.refundId, past.map((r) => r.id)))
+    : [];
+
+  const refundedQty = new Map<string, number>();
+  for (const ri of pastItems) {
+    refundedQty.set(ri.orderItemId, (refundedQty.get(ri.orderItemId) ?? 0) + ri.quantity);
+  }
+
+  return {
+    order,
+    items: lines.map((l) => ({
+      orderItemId: l.id,
+      name: l.variantLabel ? `${l.name} (${l.variantLabel})` : l.name,
+      price: l.price,
+      quantity: l.quantity,
+      refundedQuantity: refundedQty.get(l.id) ?? 0,
+    })),
+    shippingRefunded: past.some((r) => Number(r.shippingAmount) > 0),
+    refundedTotal: money(past.reduce((s, r) => s + Number(r.amount), 0)),
+  };
+}
+
+/**
+ * Whether the order ever moved past "pending" (paid, or fulfilled as cash on
+ * delivery). One cancelled straight from pending never took any money.
+ */
+async function wasEverPaid(tx: Tx, orderId: string): Promise<boolean> {
+  const [event] = await tx
+    .select({ id: orderStatusEvents.id })
+    .from(orderStatusEvents)
+    .where(
+      and(
+        eq(orderStatusEvents.orderId, orderId),
+        inArray(orderStatusEvents.toStatus, ["paid", "processing", "shipped", "delivered"]),
+      ),
+    )
+    .limit(1);
+  return !!event;
+}
+
+export type RefundRequest = {
+  orderId: string;
+  /** Omit (with `full`) to refund everything not yet refunded */
+  items?: Array<{ orderItemId: string; quantity: number }>;
+  full?: boolean;
+  includeShipping?: boolean;
+  method: RefundMethod;
+  reason: string;
+  actor: OrderActor;
+};
+
+/**
+ * Record a refund for some or all of an order's lines (+ optionally shipping).
+ * Amounts come from the order's price snapshot. When nothing is left to
+ * refund the order moves to "refunded"; partial refunds leave the status and
+ * add a note to the timeline.
+ */
+export async function createRefund(req: RefundRequest): Promise<Refund> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, req.orderId))
+      .for("update");
+    if (!order) throw new RefundError("Order not found", 404);
+    if (order.status === "pending" || order.status === "refunded") {
+      throw new RefundError(`A ${order.status} order can't be refunded`);
+    }
+    if (!(await wasEverPaid(tx, order.id))) {
+      throw new RefundError("This order was never paid, so there is nothing to refund");
+    }
+
+    const summary = await getRefundSummary(tx, order);
+    const remaining = (i: RefundableItem) => i.quantity - i.refundedQuantity;
+
+    const wanted = req.full
+      ? summary.items
+          .filter((i) => remaining(i) > 0)
+          .map((i) => ({ orderItemId: i.orderItemId, quantity: remaining(i) }))
+      : req.items ?? [];
+
+    // the same line listed twice counts once, with the quantities added up
+    const perItem = new Map<string, number>();
+    for (const w of wanted) {
+      perItem.set(w.orderItemId, (perItem.get(w.orderItemId) ?? 0) + w.quantity);
+    }
+    const lines = Array.from(perItem).map(([orderItemId, quantity]) => {
+      const item = summary.items.find((i) => i.orderItemId === orderItemId);
+      if (!item) throw new RefundError("Item is not part of this order", 400);
+      if (quantity > remaining(item)) {
+        throw new RefundError(`Only ${remaining(item)} of "${item.name}" can still be refunded`);
+      }
+      return { orderItemId, quantity, amount: money(Number(item.price) * quantity) };
+    });
+
+    const shippingAmount =
+      (req.full || req.includeShipping) && !summary.shippingRefunded
+        ? money(Number(order.shippingFee))
+        : 0;
+    const amount = money(lines.reduce((s, l) => s + l.amount, 0) + shippingAmount);
+    if (amount <= 0) throw new RefundError("Nothing left to refund", 400);
+    if (money(summary.refundedTotal + amount) > money(Number(order.total))) {
+      throw new RefundError("Refund would exceed the order total");
+    }
+
+    // the latest settled payment for this checkout, if any was recorded
+    const payment = order.checkoutGroupId
+      ? await tx.query.payments.findFirst({
+          where: and(
+            eq(payments.checkoutGroupId, order.checkoutGroupId),
+            eq(payments.status, "succeeded"),
+          ),
+          orderBy: [desc(payments.settledAt)],
+        })
+      : undefined;
+
+    const [refund] = await tx
+      .insert(refunds)
+      .values({
+        orderId: order.id,
+        paymentId: payment?.id ?? null,
+        amount: amount.toFixed(2),
+        shippingAmount: shippingAmount.toFixed(2),
+        method: req.method,
+        reason: req.reason,
+        createdBy: req.actor.id,
+      })
+      .returning();
+
+    if (lines.length) {
+      await tx.insert(refundItems).values(
+        lines.map((l) => ({
+          refundId: refund.id,
+          orderItemId: l.orderItemId,
+          quantity: l.quantity,
+          amount: l.amount.toFixed(2),
+        })),
+      );
+    }
+
+    await debitRefund(tx, order, refund);
+
+    const itemsLeft = summary.items.some((i) => {
+      const now = lines.find((l) => l.orderItemId === i.orderItemId)?.quantity ?? 0;
+      return remaining(i) - now > 0;
+    });
+    const shippingLeft =
+      Number(order.shippingFee) > 0 && !summary.shippingRefunded && shippingAmount === 0;
+    const note = `Refunded NLe ${amount.toFixed(2)} via ${req.method.replace("_", " ")}: ${req.reason}`;
+
+    const role = req.actor.role === "system" ? "admin" : req.actor.role;
+    if (!itemsLeft && !shippingLeft && canTransition(order.status, "refunded", role)) {
+      await transitionOrder(tx, order.id, "refunded", req.actor, note);
+    } else {
+      await recordOrderEvent(tx, {
+        orderId: order.id,
+        from: order.status,
+        to: order.status,
+        actor: req.actor,
+        note,
+      });
+    }
+
+    return refund;
+  });
+}
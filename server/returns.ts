@@ -0,0 +1,245 @@
+// server/returns.ts
+import { and, desc, eq, ne } from "drizzle-orm";
+import {
+  db,
+  orders,
+  orderItems,
+  orderStatusEvents,
+  returnItems,
+  returnRequests,
+  vendors,
+  type Order,
+  type ReturnRequest,
+} from "./db";
+import { canTransitionReturn, type ReturnStatus } from "../shared/return-status";
+import { recordOrderEvent, type OrderActor } from "./order-lifecycle";
+import { restockItems, type Tx } from "./inventory";
+
+/** Rejected return request or move; the central error handler uses `status` */
+export class ReturnError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReturnableItem = {
+  orderItemId: string;
+  name: string;
+  quantity: number;
+  returnableQuantity: number;
+};
+
+export type ReturnEligibility = {
+  deliveredAt: Date | null;
+  windowDays: number;
+  deadline: Date | null;
+  open: boolean;
+  items: ReturnableItem[];
+};
+
+/**
+ * Whether a buyer can still return items from `order`, and how many of each.
+ * The window starts at the order's move to "delivered" and is set per vendor;
+ * quantities already in a non-rejected return are not returnable again.
+ */
+export async function getReturnEligibility(
+  q: Tx | typeof db,
+  order: Order,
+): Promise<ReturnEligibility> {
+  const [vendor] = await q
+    .select({ returnWindowDays: vendors.returnWindowDays })
+    .from(vendors)
+    .where(eq(vendors.id, order.vendorId));
+  const windowDays = vendor?.returnWindowDays ?? 0;
+
+  const [delivered] = await q
+    .select({ createdAt: orderStatusEvents.createdAt })
+    .from(orderStatusEvents)
+    .where(
+      and(
+        eq(orderStatusEvents.orderId, order.id),
+        eq(orderStatusEvents.toStatus, "delivered"),
+        ne(orderStatusEvents.fromStatus, "delivered"), // skip note-only events
+      ),
+    )
+    .orderBy(desc(orderStatusEvents.createdAt))
+    .limit(1);
+  const deliveredAt = delivered?.createdAt ?? null;
+  const deadline = deliveredAt ? new Date(deliveredAt.getTime() + windowDays * DAY_MS) : null;
+
+  const lines = await q.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+  const active = await q
+    .select({ orderItemId: returnItems.orderItemId, quantity: returnItems.quantity })
+    .from(returnItems)
+    .innerJoin(returnRequests, eq(returnRequests.id, returnItems.returnId))
+    .where(and(eq(returnRequests.orderId, order.id), ne(returnRequests.status, "rejected")));
+
+  const taken = new Map<string, number>();
+  for (const a of active) {
+    taken.set(a.orderItemId, (taken.get(a.orderItemId) ?? 0) + a.quantity);
+  }
+
+  return {
+    deliveredAt,
+    windowDays,
+    deadline,
+    open:
+      order.status === "delivered" &&
+      windowDays > 0 &&
+      !!deadline &&
+      deadline.getTime() > Date.now(),
+    items: lines.map((l) => ({
+      orderItemId: l.id,
+      name: l.variantLabel ? `${l.name} (${l.variantLabel})` : l.name,
+      quantity: l.quantity,
+      returnableQuantity: Math.max(0, l.quantity - (taken.get(l.id) ?? 0)),
+    })),
+  };
+}
+
+export type ReturnRequestInput = {
+  orderId: string;
+  customerId: string;
+  items: Array<{ orderItemId: string; quantity: number }>;
+  reason: string;
+};
+
+/** Open a return for some of a delivered order's lines (buyer side) */
+export async function createReturnRequest(input: ReturnRequestInput): Promise<ReturnRequest> {
+  return db.transaction(async (tx) => {
+    // lock the order so two requests can't claim the same quantities
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, input.orderId))
+      .for("update");
+    if (!order || order.customerId !== input.customerId) {
+      throw new ReturnError("Order not found", 404);
+    }
+    if (order.status !== "delivered") {
+      throw new ReturnError("Only delivered orders can be returned");
+    }
+
+    const eligibility = await getReturnEligibility(tx, order);
+    if (!eligibility.open) {
+      throw new ReturnError(
+        eligibility.windowDays > 0
+          ? "The return window for this order has closed"
+          : "This store does not accept returns",
+      );
+    }
+
+    const wanted = new Map<string, number>();
+    for (const i of input.items) {
+      wanted.set(i.orderItemId, (wanted.get(i.orderItemId) ?? 0) + i.quantity);
+    }
+    for (const [orderItemId, quantity] of Array.from(wanted)) {
+      const item = eligibility.items.find((i) => i.orderItemId === orderItemId);
+      if (!item) throw new ReturnError("Item is not part of this order", 400);
+      if (quantity > item.returnableQuantity) {
+        throw new ReturnError(`Only ${item.returnableQuantity} of "${item.name}" can be returned`);
+      }
+    }
+
+    const [request] = await tx
+      .insert(returnRequests)
+      .values({
+        orderId: order.id,
+        vendorId: order.vendorId,
+        customerId: input.customerId,
+        reason: input.reason,
+      })
+      .returning();
+
+    await tx.insert(returnItems).values(
+      Array.from(wanted).map(([orderItemId, quantity]) => ({
+        returnId: request.id,
+        orderItemId,
+        quantity,
+      })),
+    );
+
+    await recordOrderEvent(tx, {
+      orderId: order.id,
+      from: order.status,
+      to: order.status,
+      actor: { id: input.customerId, role: "customer" },
+      note: `Return requested: ${input.reason}`,
+    });
+
+    return request;
+  });
+}
+
+const RETURN_EVENT_NOTES: Partial<Record<ReturnStatus, string>> = {
+  approved: "Return approved",
+  rejected: "Return rejected",
+  received: "Returned items received",
+  restocked: "Returned items restocked",
+};
+
+/**
+ * Move a return along shared/return-status.ts (vendor or admin side).
+ * "restocked" adds the returned quantities back to products.stock.
+ */
+export async function transitionReturn(
+  returnId: string,
+  to: ReturnStatus,
+  actor: OrderActor,
+  note?: string,
+): Promise<ReturnRequest> {
+  return db.transaction(async (tx) => {
+    const [request] = await tx
+      .select()
+      .from(returnRequests)
+      .where(eq(returnRequests.id, returnId))
+      .for("update");
+    if (!request) throw new ReturnError("Return not found", 404);
+    if (!canTransitionReturn(request.status, to)) {
+      throw new ReturnError(`Can't move a return from "${request.status}" to "${to}"`);
+    }
+
+    if (to === "restocked") {
+      const lines = await tx
+        .select({
+          productId: orderItems.productId,
+          variantId: orderItems.variantId,
+          quantity: returnItems.quantity,
+        })
+        .from(returnItems)
+        .innerJoin(orderItems, eq(orderItems.id, returnItems.orderItemId))
+        .where(eq(returnItems.returnId, request.id));
+      await restockItems(tx, lines);
+    }
+
+    const [updated] = await tx
+      .update(returnRequests)
+      .set({
+        status: to,
+        vendorNote: note ?? request.vendorNote,
+        updatedAt: new Date(),
+      })
+      .where(eq(returnRequests.id, request.id))
+      .returning();
+
+    const [order] = await tx
+      .select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, request.orderId));
+    const label = RETURN_EVENT_NOTES[to] ?? `Return ${to}`;
+    await recordOrderEvent(tx, {
+      orderId: request.orderId,
+      from: order.status,
+      to: order.status,
+      actor,
+      note: note ? `${label}: ${note}` : label,
+    });
+
+    return updated;
+  });
+}
+
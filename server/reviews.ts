@@ -0,0 +1,291 @@
+// server/reviews.ts
+import { and, asc, count, desc, eq, sql, type SQL } from "drizzle-orm";
+import {
+  db,
+  orderItems,
+  orders,
+  products,
+  reviews,
+  reviewPhotos,
+  type Review,
+} from "./db";
+import type { Tx } from "./inventory";
+import {
+  reviewerName,
+  type ManagedReview,
+  type OwnReview,
+  type PublicReview,
+  type RatingSummary,
+  type ReviewStatus,
+} from "../shared/reviews";
+
+/** Rejected review or review change; the central error handler uses `status` */
+export class ReviewError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Author name and photos loaded with every review */
+const reviewDetails = {
+  customer: { columns: { firstName: true as const, lastName: true as const } },
+  photos: {
+    columns: { id: true as const, url: true as const },
+    orderBy: [asc(reviewPhotos.createdAt)],
+  },
+};
+
+type ReviewWithDetails = Review & {
+  customer: { firstName: string; lastName: string };
+  photos: Array<{ id: string; url: string }>;
+};
+
+function toPublicReview(r: ReviewWithDetails): PublicReview {
+  return {
+    id: r.id,
+    rating: r.rating,
+    title: r.title,
+    body: r.body,
+    author: reviewerName(r.customer.firstName, r.customer.lastName),
+    photos: r.photos,
+    vendorReply: r.vendorReply,
+    vendorReplyAt: r.vendorReplyAt?.toISOString() ?? null,
+    createdAt: r.createdAt.toISOString(),
+    updatedAt: r.updatedAt.toISOString(),
+  };
+}
+
+function toOwnReview(r: ReviewWithDetails): OwnReview {
+  return {
+    ...toPublicReview(r),
+    status: r.status as ReviewStatus,
+    moderationNote: r.moderationNote,
+  };
+}
+
+/**
+ * The buyer's most recent delivered order that contains the product, or
+ * null when they aren't a verified buyer of it.
+ */
+export async function findQualifyingOrder(
+  q: Tx | typeof db,
+  customerId: string,
+  productId: string,
+): Promise<string | null> {
+  const [row] = await q
+    .select({ id: orders.id })
+    .from(orders)
+    .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+    .where(
+      and(
+        eq(orders.customerId, customerId),
+        eq(orders.status, "delivered"),
+        eq(orderItems.productId, productId),
+      ),
+    )
+    .orderBy(desc(orders.createdAt))
+    .limit(1);
+  return row?.id ?? null;
+}
+
+/** Star counts over published reviews of one product or one store */
+export async function getRatingSummary(
+  q: Tx | typeof db,
+  scope: { productId: string } | { vendorId: string },
+): Promise<RatingSummary> {
+  const where =
+    "productId" in scope ? eq(reviews.productId, scope.productId) : eq(reviews.vendorId, scope.vendorId);
+  const rows = await q
+    .select({ rating: reviews.rating, n: count() })
+    .from(reviews)
+    .where(and(where, eq(reviews.status, "published")))
+    .groupBy(reviews.rating);
+
+  const stars: RatingSummary["stars"] = [0, 0, 0, 0, 0];
+  let total = 0;
+  let sum = 0;
+  for (const r of rows) {
+    stars[r.rating - 1] = r.n;
+    total += r.n;
+    sum += r.rating * r.n;
+  }
+  return { average: total ? Math.round((sum / total) * 100) / 100 : null, count: total, stars };
+}
+
+/** Copy the product's published average and count onto products (for cards and listings) */
+async function refreshProductRating(tx: Tx, productId: string): Promise<void> {
+  const published = and(eq(reviews.productId, productId), eq(reviews.status, "published"));
+  await tx
+    .update(products)
+    .set({
+      ratingAverage: sql`(select round(avg(${reviews.rating}), 2) from ${reviews} where ${published})`,
+      ratingCount: sql`(select count(*) from ${reviews} where ${published})::int`,
+    })
+    .where(eq(products.id, productId));
+}
+
+export type ReviewInput = {
+  productId: string;
+  customerId: string;
+  rating: number;
+  title?: string | null;
+  body?: string | null;
+};
+
+/**
+ * Create the buyer's review of a product or replace their earlier one.
+ * An edited review keeps its moderation status.
+ */
+export async function saveReview(input: ReviewInput): Promise<{ review: Review; created: boolean }> {
+  return db.transaction(async (tx) => {
+    const product = await tx.query.products.findFirst({
+      where: eq(products.id, input.productId),
+      columns: { id: true, vendorId: true },
+    });
+    if (!product) throw new ReviewError("Product not found", 404);
+
+    const orderId = await findQualifyingOrder(tx, input.customerId, product.id);
+    if (!orderId) {
+      throw new ReviewError("Only buyers whose order has been delivered can review this product", 403);
+    }
+
+    const values = {
+      rating: input.rating,
+      title: input.title || null,
+      body: input.body || null,
+    };
+    const [existing] = await tx
+      .select({ id: reviews.id })
+      .from(reviews)
+      .where(and(eq(reviews.productId, product.id), eq(reviews.customerId, input.customerId)))
+      .for("update");
+
+    let review: Review;
+    if (existing) {
+      [review] = await tx
+        .update(reviews)
+        .set({ ...values, orderId, updatedAt: new Date() })
+        .where(eq(reviews.id, existing.id))
+        .returning();
+    } else {
+      [review] = await tx
+        .insert(reviews)
+        .values({
+          ...values,
+          productId: product.id,
+          vendorId: product.vendorId,
+          customerId: input.customerId,
+          orderId,
+        })
+        .returning();
+    }
+
+    await refreshProductRating(tx, product.id);
+    return { review, created: !existing };
+  });
+}
+
+/** The buyer removes their own review of a product */
+export async function deleteReview(productId: string, customerId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(reviews)
+      .where(and(eq(reviews.productId, productId), eq(reviews.customerId, customerId)))
+      .returning({ id: reviews.id });
+    if (!removed.length) throw new ReviewError("Review not found", 404);
+    await refreshProductRating(tx, productId);
+  });
+}
+
+/** The store's public answer to a review; null removes it */
+export async function replyToReview(reviewId: string, reply: string | null): Promise<Review> {
+  const [row] = await db
+    .update(reviews)
+    .set({ vendorReply: reply, vendorReplyAt: reply ? new Date() : null })
+    .where(eq(reviews.id, reviewId))
+    .returning();
+  if (!row) throw new ReviewError("Review not found", 404);
+  return row;
+}
+
+/** Hide a review from shoppers (and from ratings), or publish it again */
+export async function moderateReview(
+  reviewId: string,
+  adminId: string,
+  status: ReviewStatus,
+  note?: string,
+): Promise<Review> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(reviews)
+      .set({
+        status,
+        moderationNote: note || null,
+        moderatedBy: adminId,
+        moderatedAt: new Date(),
+      })
+      .where(eq(reviews.id, reviewId))
+      .returning();
+    if (!row) throw new ReviewError("Review not found", 404);
+    await refreshProductRating(tx, row.productId);
+    return row;
+  });
+}
+
+/** Published reviews of a product, newest first, `limit` at a time */
+export async function listProductReviews(
+  productId: string,
+  { offset, limit }: { offset: number; limit: number },
+): Promise<{ reviews: PublicReview[]; nextOffset: number | null }> {
+  const rows = await db.query.reviews.findMany({
+    where: and(eq(reviews.productId, productId), eq(reviews.status, "published")),
+    with: reviewDetails,
+    orderBy: [desc(reviews.createdAt), desc(reviews.id)],
+    offset,
+    limit: limit + 1,
+  });
+  return {
+    reviews: rows.slice(0, limit).map(toPublicReview),
+    nextOffset: rows.length > limit ? offset + limit : null,
+  };
+}
+
+/** The buyer's own review of a product, hidden or not */
+export async function getOwnReview(productId: string, customerId: string): Promise<OwnReview | null> {
+  const row = await db.query.reviews.findFirst({
+    where: and(eq(reviews.productId, productId), eq(reviews.customerId, customerId)),
+    with: reviewDetails,
+  });
+  return row ? toOwnReview(row) : null;
+}
+
+/** Reviews for the vendor dashboard or the admin moderation list, newest first */
+export async function listManagedReviews(filter: {
+  vendorId?: string;
+  status?: ReviewStatus;
+  limit?: number;
+}): Promise<ManagedReview[]> {
+  const where: SQL[] = [];
+  if (filter.vendorId) where.push(eq(reviews.vendorId, filter.vendorId));
+  if (filter.status) where.push(eq(reviews.status, filter.status));
+
+  const rows = await db.query.reviews.findMany({
+    where: where.length ? and(...where) : undefined,
+    with: {
+      ...reviewDetails,
+      product: { columns: { name: true } },
+      vendor: { columns: { storeName: true } },
+    },
+    orderBy: [desc(reviews.createdAt)],
+    limit: filter.limit ?? 200,
+  });
+  return rows.map((r) => ({
+    ...toOwnReview(r),
+    productId: r.productId,
+    productName: r.product.name,
+    vendorId: r.vendorId,
+    storeName: r.vendor.storeName,
+  }));
+}
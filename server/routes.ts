@@ -1,12 +1,10 @@
 // server/routes.ts
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import bcrypt from "bcrypt";
 import { z } from "zod";
 import { storage } from "./storage";
 
 import {
-  insertUserSchema,
   insertVendorSchema,
   insertProductSchema,
   insertCartItemSchema,
@@ -37,59 +35,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }),
   );
 
-  // ---------------------------------------------------------------------------
-  // AUTH
-  // ---------------------------------------------------------------------------
-  app.post(
-    "/api/auth/register",
-    asyncHandler(async (req, res) => {
-      const userData = insertUserSchema.parse(req.body);
-
-      const existingUser = await storage.getUserByEmail(userData.email);
-      if (existingUser) {
-        return res.status(400).json({ message: "User already exists" });
-      }
-
-      const hashedPassword = await bcrypt.hash(userData.password, 10);
-      const user = await storage.createUser({
-        ...userData,
-        password: hashedPassword,
-      });
-
-      res.json({
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      });
-    }),
-  );
-
-  app.post(
-    "/api/auth/login",
-    asyncHandler(async (req, res) => {
-      const { email, password } = z
-        .object({ email: z.string().email(), password: z.string().min(1) })
-        .parse(req.body);
-
-      const user = await storage.getUserByEmail(email);
-      if (!user) return res.status(401).json({ message: "Invalid credentials" });
-
-      const isValidPassword = await bcrypt.compare(password, user.password);
-      if (!isValidPassword) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-
-      res.json({
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      });
-    }),
-  );
+  // Auth (register/login/me/logout) lives in routes/auth.ts and is session-backed.
 
   // ---------------------------------------------------------------------------
   // CATEGORIES
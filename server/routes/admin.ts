@@ -1,7 +1,8 @@
 // server/routes/admin.ts
 import { Router, type Request, type Response, type NextFunction } from "express";
-import { db } from "../db";
-import { sql } from "drizzle-orm";
+import { db, products } from "../db";
+import { desc, sql } from "drizzle-orm";
+import { requireRole } from "../auth";
 
 // Cache which approval column exists
 let approvalColumnCache: "is_approved" | "status" | null = null;
@@ -39,12 +40,23 @@ async function setApproval(vendorId: string, approve: boolean) {
       sql`UPDATE "vendors" SET "status" = ${approve ? "approved" : "rejected"} WHERE "id" = ${vendorId}`
     );
   }
+
+  // Approved vendors need role=vendor to pass requireRole("vendor") (never demote admins)
+  if (approve) {
+    await db.execute(
+      sql`UPDATE "users" SET "role" = 'vendor'
+          WHERE "role" = 'customer'
+            AND "id" = (SELECT "user_id" FROM "vendors" WHERE "id" = ${vendorId})`
+    );
+  }
 }
 
 const router = Router();
 
+// Every route here is admin-only.
+
 /** List vendors (no reference to a non-existent "name" column) */
-router.get("/admin/vendors", async (_req: Request, res: Response, next: NextFunction) => {
+router.get("/admin/vendors", requireRole("admin"), async (_req: Request, res: Response, next: NextFunction) => {
   try {
     const col = await getApprovalColumn();
     const { rows } = await db.execute(
@@ -70,8 +82,17 @@ router.get("/admin/vendors", async (_req: Request, res: Response, next: NextFunc
   }
 });
 
+/** All products in any state (the storefront listing only has active ones) */
+router.get("/admin/products", requireRole("admin"), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await db.select().from(products).orderBy(desc(products.createdAt)));
+  } catch (e) {
+    next(e);
+  }
+});
+
 /** Approve / Reject – Admin paths */
-router.post("/admin/vendors/:id/approve", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/admin/vendors/:id/approve", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     await setApproval(req.params.id, true);
     res.json({ ok: true });
@@ -80,7 +101,7 @@ router.post("/admin/vendors/:id/approve", async (req: Request, res: Response, ne
   }
 });
 
-router.post("/admin/vendors/:id/reject", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/admin/vendors/:id/reject", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     await setApproval(req.params.id, false);
     res.json({ ok: true });
@@ -90,7 +111,7 @@ router.post("/admin/vendors/:id/reject", async (req: Request, res: Response, nex
 });
 
 /** Generic PATCH (accepts several payload shapes) */
-router.patch("/admin/vendors/:id", async (req: Request, res: Response, next: NextFunction) => {
+router.patch("/admin/vendors/:id", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const body = req.body ?? {};
     const approve =
@@ -116,7 +137,7 @@ router.patch("/admin/vendors/:id", async (req: Request, res: Response, next: Nex
 });
 
 /** Aliases without /admin in the path (covers other UIs) */
-router.post("/vendors/:id/approve", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/vendors/:id/approve", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     await setApproval(req.params.id, true);
     res.json({ ok: true });
@@ -125,7 +146,7 @@ router.post("/vendors/:id/approve", async (req: Request, res: Response, next: Ne
   }
 });
 
-router.post("/vendors/:id/reject", async (req: Request, res: Response, next: NextFunction) => {
+router.post("/vendors/:id/reject", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     await setApproval(req.params.id, false);
     res.json({ ok: true });
@@ -135,7 +156,7 @@ router.post("/vendors/:id/reject", async (req: Request, res: Response, next: Nex
 });
 
 // Unified approval endpoint used by the Admin UI
-router.put("/vendors/:id/approval", async (req: Request, res: Response, next: NextFunction) => {
+router.put("/vendors/:id/approval", requireRole("admin"), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = String(req.params.id);
     const isApproved = Boolean(req.body?.isApproved);
@@ -0,0 +1,105 @@
+// server/routes/auth.ts
+import { Router } from "express";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { db, users, insertUserSchema } from "../db";
+import {
+  SESSION_COOKIE,
+  getSessionUser,
+  signIn,
+  signOut,
+  toSessionUser,
+} from "../auth";
+
+const router = Router();
+
+const registerSchema = insertUserSchema
+  .pick({ email: true, password: true, firstName: true, lastName: true })
+  .extend({
+    email: z.string().email().transform((v) => v.trim().toLowerCase()),
+    password: z.string().min(6),
+  });
+
+const loginSchema = z.object({
+  email: z.string().email().transform((v) => v.trim().toLowerCase()),
+  password: z.string().min(1),
+});
+
+/**
+ * POST /api/auth/register
+ * New accounts are always customers; vendor/admin roles are granted server-side
+ * (vendor approval) and can't be chosen by the client.
+ */
+router.post("/register", async (req, res, next) => {
+  try {
+    const parsed = registerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid registration details" });
+    }
+    const data = parsed.data;
+
+    const existing = await db.query.users.findFirst({
+      where: eq(users.email, data.email),
+    });
+    if (existing) {
+      return res.status(400).json({ message: "User already exists" });
+    }
+
+    const hashed = await bcrypt.hash(data.password, 10);
+    const [user] = await db
+      .insert(users)
+      .values({ ...data, password: hashed, role: "customer" })
+      .returning();
+
+    await signIn(req, user.id);
+    res.status(201).json(toSessionUser(user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** POST /api/auth/login */
+router.post("/login", async (req, res, next) => {
+  try {
+    const parsed = loginSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Email and password are required" });
+    }
+    const { email, password } = parsed.data;
+
+    const user = await db.query.users.findFirst({ where: eq(users.email, email) });
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
+
+    await signIn(req, user.id);
+    res.json(toSessionUser(user));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/auth/me -> current session user, or 401 */
+router.get("/me", async (req, res, next) => {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return res.status(401).json({ message: "Not signed in" });
+    res.json(user);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** POST /api/auth/logout -> destroy the session and clear the cookie */
+router.post("/logout", async (req, res, next) => {
+  try {
+    await signOut(req);
+    res.clearCookie(SESSION_COOKIE);
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
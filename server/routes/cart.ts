@@ -0,0 +1,77 @@
+// server/routes/cart.ts
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../auth";
+import { acceptCartPrices, getCart, mergeCart, replaceCart } from "../cart";
+import { MAX_CART_LINES, MAX_LINE_QUANTITY } from "../../shared/cart";
+
+// mounted at /api/cart; the signed-in buyer's own cart (guests keep theirs in
+// the browser and send it to checkout directly)
+const router = Router();
+
+const cartBodySchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        variantId: z.string().min(1).nullish(),
+        quantity: z.coerce.number().int().min(1).max(MAX_LINE_QUANTITY),
+        priceEach: z.coerce.number().nonnegative().optional(),
+      }),
+    )
+    .max(MAX_CART_LINES, `A cart holds at most ${MAX_CART_LINES} lines`),
+});
+
+/** GET /api/cart → CartLine[] with price-change and stock flags */
+router.get("/", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await getCart(req.authUser!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/cart { items } → CartLine[]
+ * Replaces the cart with the browser's copy; lines for products that no
+ * longer exist are dropped.
+ */
+router.put("/", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = cartBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid cart" });
+    }
+    res.json(await replaceCart(req.authUser!.id, parsed.data.items));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/cart/merge { items } → CartLine[]
+ * At sign-in: adds the guest cart to the saved one (a line in both keeps
+ * the larger quantity), so repeating it is harmless.
+ */
+router.post("/merge", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = cartBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid cart" });
+    }
+    res.json(await mergeCart(req.authUser!.id, parsed.data.items));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** POST /api/cart/accept-prices → CartLine[] (clears the price-changed flags) */
+router.post("/accept-prices", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await acceptCartPrices(req.authUser!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -1,65 +1,87 @@
 // server/routes/catalog.ts
-import { Router, type Request, type Response } from "express";
-import { and, desc, eq } from "drizzle-orm";
-import { db, categories, vendors, products, orders } from "../db";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { db, vendors, products } from "../db";
+import { listProducts } from "../catalog";
+import { listCategories } from "../categories";
+import { getGallery } from "../product-images";
+import { getVariants } from "../variants";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, parseProductFilters } from "../../shared/catalog";
 
 const router = Router();
 
-/** GET /api/categories */
-router.get("/categories", async (_req: Request, res: Response) => {
-  const rows = await db.select().from(categories);
-  res.json(rows);
+/** GET /api/categories (flat, in sibling order; `parentId` links the tree) */
+router.get("/categories", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await listCategories());
+  } catch (err) {
+    next(err);
+  }
 });
 
 /** GET /api/vendors */
 router.get("/vendors", async (_req: Request, res: Response) => {
   const rows = await db.select().from(vendors);
-  res.json(rows);
+  // the store's notification number stays private
+  res.json(rows.map(({ phone, ...v }) => v));
 });
 
-/** GET /api/products?vendorId=&categoryId= */
-router.get("/products", async (req: Request, res: Response) => {
-  const vendorId = req.query.vendorId ? String(req.query.vendorId) : undefined;
-  const categoryId = req.query.categoryId
-    ? String(req.query.categoryId)
-    : undefined;
+const listQuerySchema = z.object({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+});
 
-  let where;
-  if (vendorId && categoryId) {
-    where = and(
-      eq(products.vendorId, vendorId),
-      eq(products.categoryId, categoryId),
-    );
-  } else if (vendorId) {
-    where = eq(products.vendorId, vendorId);
-  } else if (categoryId) {
-    where = eq(products.categoryId, categoryId);
+/**
+ * GET /api/products?categoryId=&vendorId=&minPrice=&maxPrice=&inStock=1&sort=&cursor=&limit= (public)
+ * Active products of approved stores, one page at a time (shared/catalog.ts).
+ */
+router.get("/products", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid page size" });
+    }
+    const filters = parseProductFilters(new URLSearchParams(req.query as Record<string, string>));
+    res.json(await listProducts(filters, parsed.data));
+  } catch (err) {
+    next(err);
   }
-
-  const rows = await db
-    .select()
-    .from(products)
-    .where(where as any)
-    .orderBy(desc(products.createdAt));
-
-  res.json(rows);
 });
 
-/** ✅ NEW: GET /api/orders (Admin uses this) */
-router.get("/orders", async (_req: Request, res: Response) => {
-  const rows = await db.select().from(orders).orderBy(desc(orders.createdAt));
-  res.json(rows);
+/**
+ * GET /api/products/batch?ids=a,b,c
+ * The named products whatever their status, for hydrating cart lines.
+ */
+router.get("/products/batch", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ids = String(req.query.ids ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .slice(0, 100);
+    if (!ids.length) return res.json([]);
+    res.json(await db.select().from(products).where(inArray(products.id, ids)));
+  } catch (err) {
+    next(err);
+  }
 });
 
-/** Optional: GET /api/orders/vendor/:vendorId (Vendor dashboard) */
-router.get("/orders/vendor/:vendorId", async (req: Request, res: Response) => {
-  const vendorId = String(req.params.vendorId);
-  const rows = await db
-    .select()
-    .from(orders)
-    .where(eq(orders.vendorId, vendorId))
-    .orderBy(desc(orders.createdAt));
-  res.json(rows);
+/** GET /api/products/:id (with its gallery as `images`, cover first, plus `options` and `variants`) */
+router.get("/products/:id", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, String(req.params.id)),
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+    res.json({
+      ...product,
+      images: await getGallery(db, product),
+      ...(await getVariants(db, product.id)),
+    });
+  } catch (err) {
+    next(err);
+  }
 });
 
 export default router;
@@ -0,0 +1,96 @@
+// server/routes/categories.ts
+import { Router } from "express";
+import { z } from "zod";
+import { requireRole } from "../auth";
+import {
+  categoryBodySchema,
+  categoryPatchSchema,
+  createCategory,
+  deleteCategory,
+  moveProducts,
+  reorderCategories,
+  updateCategory,
+} from "../categories";
+
+// mounted at /api/categories; the public GET lives in routes/catalog.ts.
+// Every route here is admin-only.
+const router = Router();
+
+const orderSchema = z.object({
+  parentId: z.string().min(1).nullable().default(null),
+  ids: z.array(z.string()).min(1),
+});
+
+const moveSchema = z.object({
+  toCategoryId: z.string().min(1),
+  productIds: z.array(z.string()).max(500).optional(),
+});
+
+/** POST /api/categories { name, slug?, parentId?, description?, icon?, attributes? } */
+router.post("/", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = categoryBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid category" });
+    }
+    res.status(201).json(await createCategory(parsed.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PUT /api/categories/order { parentId, ids } (siblings in their new order) */
+router.put("/order", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = orderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Invalid order" });
+    await reorderCategories(parsed.data.parentId, parsed.data.ids);
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PATCH /api/categories/:id (any of name, slug, parentId, description, icon, attributes) */
+router.patch("/:id", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = categoryPatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid category" });
+    }
+    res.json(await updateCategory(String(req.params.id), parsed.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** DELETE /api/categories/:id (must have no subcategories or products) */
+router.delete("/:id", requireRole("admin"), async (req, res, next) => {
+  try {
+    await deleteCategory(String(req.params.id));
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/categories/:id/move-products { toCategoryId, productIds? }
+ * Moves all of the category's products, or only the listed ones.
+ */
+router.post("/:id/move-products", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = moveSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Choose a category to move to" });
+    const moved = await moveProducts(
+      String(req.params.id),
+      parsed.data.toCategoryId,
+      parsed.data.productIds,
+    );
+    res.json({ moved });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
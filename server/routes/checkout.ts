@@ -1,88 +1,379 @@
 // server/routes/checkout.ts
 import { Router } from "express";
-import { db, products, orders } from "../db";
-import { eq } from "drizzle-orm";
-import { sendAdminNewOrderEmail, sendBuyerReceiptEmail } from "../email";
+import { eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import {
+  db,
+  vendors,
+  orders,
+  orderItems,
+  checkoutGroups,
+  type CheckoutGroup,
+  type Order,
+} from "../db";
+import { env } from "../env";
+import {
+  sendAdminNewOrderEmail,
+  sendBuyerReceiptEmail,
+  type OrderEmailBase,
+} from "../email";
 import { sendWhatsApp } from "../whatsapp";
+import { OutOfStockError, reserveStock } from "../inventory";
+import { getSessionUser } from "../auth";
+import { recordOrderEvent } from "../order-lifecycle";
+import { checkWishlistAlerts } from "../wishlist";
+import {
+  findPriceChanges,
+  lineName,
+  money,
+  priceCart,
+  serializeQuote,
+  type PricedLine,
+} from "../pricing";
+import { variantLabel } from "../../shared/variants";
 
 const router = Router();
 
+const cartItemsSchema = z
+  .array(
+    z.object({
+      productId: z.string().min(1),
+      variantId: z.string().min(1).nullish(),
+      quantity: z.coerce.number().int().min(1),
+      unitPrice: z.coerce.number().nonnegative().optional(),
+    }),
+  )
+  .min(1);
+
+const referenceSchema = z.string().trim().min(1).max(64);
+
+const checkoutSchema = z.object({
+  /** Client order reference; used as the idempotency key if no header is sent */
+  ref: referenceSchema.optional(),
+  customerName: z.string().trim().min(1),
+  customerEmail: z.string().trim().email(),
+  customerPhone: z.string().trim().optional(),
+  shippingAddress: z.record(z.any()).default({}),
+  items: cartItemsSchema,
+  /** Total the buyer was shown (NLe); a mismatch returns PRICE_CHANGED */
+  total: z.coerce.number().nonnegative().optional(),
+  currency: z.string().max(8).default("NLE"),
+  rate: z.coerce.number().positive().default(1),
+  paymentMethod: z.string().min(1).max(50),
+  notes: z.string().optional(),
+});
+
+/** Body of a successful checkout (also what a replayed request gets back) */
+function checkoutResponse(group: CheckoutGroup, groupOrders: Order[]) {
+  return {
+    checkoutGroupId: group.id,
+    reference: group.reference,
+    orders: groupOrders.map((order) => ({
+      orderId: order.id,
+      vendorId: order.vendorId,
+      total: order.total,
+    })),
+    subtotal: group.subtotal,
+    shippingFee: group.shippingFee,
+    total: group.total,
+  };
+}
+
+/** The key was already spent on another buyer's checkout */
+class IdempotencyKeyReusedError extends Error {
+  status = 422;
+  constructor() {
+    super("This Idempotency-Key was already used for a different checkout");
+  }
+}
+
+/** Postgres unique_violation */
+const isUniqueViolation = (err: unknown) =>
+  (err as { code?: string } | null)?.code === "23505";
+
+/**
+ * Checkout already stored under `reference`, or null.
+ * Throws IdempotencyKeyReusedError if the reference belongs to someone else's checkout.
+ */
+async function findReplay(reference: string, customerEmail: string) {
+  const group = await db.query.checkoutGroups.findFirst({
+    where: eq(checkoutGroups.reference, reference),
+    with: { orders: true },
+  });
+  if (!group) return null;
+
+  if (group.customerEmail.toLowerCase() !== customerEmail.toLowerCase()) {
+    throw new IdempotencyKeyReusedError();
+  }
+  return checkoutResponse(group, group.orders);
+}
+
+/**
+ * POST /api/checkout/quote  Body: { items }
+ * Server-priced totals for the checkout summary (nothing is written).
+ */
+router.post("/quote", async (req, res, next) => {
+  try {
+    const parsed = z.object({ items: cartItemsSchema }).safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "items are required" });
+    }
+
+    const { quote, unavailable } = await priceCart(parsed.data.items);
+    res.json({ ...serializeQuote(quote), unavailable });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/checkout
+ * Prices the cart from the DB, then splits it into one `orders` row
+ * (+ its `order_items`) per vendor, all under a single `checkout_groups` row,
+ * in one transaction.
+ *
+ * Idempotent: the `Idempotency-Key` header (or body `ref`) is stored as the
+ * checkout reference; repeating a request with the same key returns the
+ * original checkout (200, `Idempotent-Replayed: true`) instead of a new one.
+ *
+ * Errors (besides 400 for a bad body):
+ * - 409 { code: "UNAVAILABLE", items }  missing or inactive products/variants
+ * - 409 { code: "PRICE_CHANGED", changes, quote }  client amounts are stale
+ * - 409 { code: "OUT_OF_STOCK", items }  per-line requested vs available
+ */
 router.post("/", async (req, res, next) => {
+  let reference: string | null = null;
+  let customerEmail = "";
   try {
-    const {
-      customerName,
-      customerEmail,
-      customerPhone,
-      shippingAddress,
-      items,
-      subtotal,
-      shippingFee,
-      total,
-      currency,
-      rate,
-      paymentMethod,
-      notes,
-    } = req.body ?? {};
-
-    if (
-      !customerName ||
-      !customerEmail ||
-      !Array.isArray(items) ||
-      items.length === 0
-    ) {
+    const parsed = checkoutSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
       return res.status(400).json({ message: "Missing required fields" });
     }
+    const body = parsed.data;
+    customerEmail = body.customerEmail;
+
+    const keyParsed = referenceSchema.optional().safeParse(
+      req.get("Idempotency-Key") ?? body.ref,
+    );
+    if (!keyParsed.success) {
+      return res.status(400).json({ message: "Invalid Idempotency-Key" });
+    }
+    reference = keyParsed.data ?? null;
+
+    // a retry of a checkout that already went through: hand back the original
+    if (reference) {
+      const replay = await findReplay(reference, body.customerEmail);
+      if (replay) {
+        res.set("Idempotent-Replayed", "true");
+        return res.status(200).json(replay);
+      }
+    }
 
-    // validate product ids (basic)
-    const ids = items.map((i: any) => i.productId);
-    const dbProducts = await db
-      .select()
-      .from(products)
-      .where(eq(products.id, ids[0] as any));
-    if (!dbProducts?.length)
-      return res.status(400).json({ message: "Product not found" });
-
-    // insert order (simplified)
-    const [row] = await db
-      .insert(orders)
-      .values({
-        customerId: null,
-        vendorId: items[0].vendorId,
-        total,
-        subtotal,
-        shippingFee,
-        shippingAddress,
-        status: "pending",
-        currency,
-        rate,
-        customerName,
-        customerEmail,
-        customerPhone,
-        paymentMethod,
-        notes,
-      })
-      .returning();
+    // prices, vendors and totals come from the DB, never the client
+    const { quote, unavailable } = await priceCart(body.items);
+    if (unavailable.length) {
+      return res.status(409).json({
+        code: "UNAVAILABLE",
+        message: "Some items are no longer available",
+        items: unavailable,
+      });
+    }
+
+    const changes = findPriceChanges(body.items, quote);
+    const totalChanged =
+      body.total !== undefined && money(body.total) !== quote.total;
+    if (changes.length || totalChanged) {
+      return res.status(409).json({
+        code: "PRICE_CHANGED",
+        message: "Prices have changed since you loaded your cart",
+        changes,
+        quote: serializeQuote(quote),
+      });
+    }
+
+    const { subtotal, shippingFee, total } = quote;
+
+    // guests may check out; signed-in buyers get the orders on their account
+    const buyer = await getSessionUser(req);
+
+    const { group, created } = await db.transaction(async (tx) => {
+      // lock + decrement first; a shortage throws and rolls everything back
+      await reserveStock(tx, body.items);
+
+      const [group] = await tx
+        .insert(checkoutGroups)
+        .values({
+          reference,
+          customerId: buyer?.id ?? null,
+          customerEmail: body.customerEmail,
+          currency: body.currency,
+          rate: String(body.rate),
+          subtotal: subtotal.toFixed(2),
+          shippingFee: shippingFee.toFixed(2),
+          total: total.toFixed(2),
+          paymentMethod: body.paymentMethod,
+        })
+        .returning();
+
+      const created = [];
+      for (const v of quote.vendorOrders) {
+        const [order] = await tx
+          .insert(orders)
+          .values({
+            checkoutGroupId: group.id,
+            vendorId: v.vendorId,
+            customerId: buyer?.id ?? null,
+            customerName: body.customerName,
+            customerEmail: body.customerEmail,
+            customerPhone: body.customerPhone,
+            currency: body.currency,
+            rate: String(body.rate),
+            subtotal: v.subtotal.toFixed(2),
+            shippingFee: v.shippingFee.toFixed(2),
+            total: v.total.toFixed(2),
+            paymentMethod: body.paymentMethod,
+            notes: body.notes,
+            shippingAddress: body.shippingAddress,
+            status: "pending",
+          })
+          .returning();
+
+        await tx.insert(orderItems).values(
+          v.lines.map((l) => ({
+            orderId: order.id,
+            productId: l.product.id,
+            variantId: l.variant?.id ?? null,
+            vendorId: v.vendorId,
+            name: l.product.name,
+            variantLabel: l.variant ? variantLabel(l.variant.options) : null,
+            sku: l.variant?.sku ?? null,
+            imageUrl: l.variant?.imageUrl || l.product.imageUrl,
+            price: l.unitPrice.toFixed(2),
+            quantity: l.quantity,
+          })),
+        );
+
+        await recordOrderEvent(tx, {
+          orderId: order.id,
+          from: null,
+          to: "pending",
+          actor: { id: buyer?.id ?? null, role: "customer" },
+          note: "Order placed",
+        });
+
+        created.push({ order, lines: v.lines });
+      }
+
+      return { group, created };
+    });
 
     // fire-and-forget notifications
     (async () => {
       try {
+        const vendorRows = await db
+          .select()
+          .from(vendors)
+          .where(inArray(vendors.id, created.map((c) => c.order.vendorId)));
+        const storeName = (id: string) =>
+          vendorRows.find((v) => v.id === id)?.storeName ?? "Vendor";
+
+        const customer = {
+          customerName: body.customerName,
+          customerEmail: body.customerEmail,
+          customerPhone: body.customerPhone,
+        };
+        const emailItems = (lines: PricedLine[]): OrderEmailBase["items"] =>
+          lines.map((l) => ({
+            productId: l.product.id,
+            name: lineName(l),
+            quantity: l.quantity,
+            price: l.unitPrice,
+            imageUrl: l.variant?.imageUrl || l.product.imageUrl,
+          }));
+
         await Promise.allSettled([
-          sendAdminNewOrderEmail(row, items),
-          sendBuyerReceiptEmail(row, items),
-          sendWhatsApp({
-            to: customerPhone,
-            text: `Hi ${customerName}, we received your order ${row.id}. Total ${currency} ${total}.`,
-          }),
-          sendWhatsApp({
-            to: process.env.WHATSAPP_ADMIN,
-            text: `New order ${row.id} from ${customerName}, total ${currency} ${total}.`,
+          ...created.map(({ order, lines }) =>
+            env.SUPPORT_EMAIL
+              ? sendAdminNewOrderEmail({
+                  to: env.SUPPORT_EMAIL,
+                  orderId: order.id,
+                  vendor: { id: order.vendorId, storeName: storeName(order.vendorId) },
+                  customer,
+                  currency: body.currency,
+                  rate: body.rate,
+                  subtotal: Number(order.subtotal),
+                  shippingFee: Number(order.shippingFee),
+                  total: Number(order.total),
+                  paymentMethod: body.paymentMethod,
+                  shippingAddress: body.shippingAddress,
+                  notes: body.notes,
+                  items: emailItems(lines),
+                })
+              : Promise.resolve(),
+          ),
+          sendBuyerReceiptEmail({
+            to: body.customerEmail,
+            checkoutGroupId: group.id,
+            customer,
+            currency: body.currency,
+            rate: body.rate,
+            subtotal,
+            shippingFee,
+            total,
+            paymentMethod: body.paymentMethod,
+            shippingAddress: body.shippingAddress,
+            notes: body.notes,
+            orders: created.map(({ order, lines }) => ({
+              orderId: order.id,
+              vendor: { id: order.vendorId, storeName: storeName(order.vendorId) },
+              items: emailItems(lines),
+              total: Number(order.total),
+            })),
           }),
+          body.customerPhone
+            ? sendWhatsApp(
+                body.customerPhone,
+                `Hi ${body.customerName}, we received your order ${group.id.slice(0, 8)}. Total ${body.currency} ${total.toFixed(2)}.`,
+              )
+            : Promise.resolve(),
+          env.WHATSAPP_ADMIN
+            ? sendWhatsApp(
+                env.WHATSAPP_ADMIN,
+                `New order ${group.id.slice(0, 8)} from ${body.customerName} (${created.length} vendor order(s)), total ${body.currency} ${total.toFixed(2)}.`,
+              )
+            : Promise.resolve(),
         ]);
       } catch {}
     })();
 
-    res.status(201).json({ orderId: row.id });
+    // fire-and-forget: items that just sold out can be announced when restocked
+    (async () => {
+      try {
+        await checkWishlistAlerts(body.items.map((i) => i.productId));
+      } catch {}
+    })();
+
+    res.status(201).json(checkoutResponse(group, created.map((c) => c.order)));
   } catch (err) {
+    // two identical requests raced; the loser's transaction rolled back
+    if (reference && isUniqueViolation(err)) {
+      try {
+        const replay = await findReplay(reference, customerEmail);
+        if (replay) {
+          res.set("Idempotent-Replayed", "true");
+          return res.status(200).json(replay);
+        }
+      } catch (replayErr) {
+        return next(replayErr);
+      }
+    }
+    if (err instanceof OutOfStockError) {
+      return res.status(409).json({
+        code: "OUT_OF_STOCK",
+        message: err.message,
+        items: err.items,
+      });
+    }
     next(err);
   }
 });
@@ -0,0 +1,277 @@
+// server/routes/orders.ts
+import { Router } from "express";
+import { asc, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+  db,
+  orders,
+  orderItems,
+  orderStatusEvents,
+  checkoutGroups,
+  refunds,
+  users,
+  type Order,
+} from "../db";
+import {
+  canActForVendor,
+  requireAuth,
+  requireRole,
+  type SessionUser,
+} from "../auth";
+import { transitionOrder } from "../order-lifecycle";
+import { checkWishlistAlerts } from "../wishlist";
+import {
+  ORDER_STATUSES,
+  RECORD_DRIVEN_STATUSES,
+  type OrderActorRole,
+} from "../../shared/order-status";
+
+const router = Router();
+
+/** GET /api/orders (Admin dashboard) */
+router.get("/", requireRole("admin"), async (_req, res, next) => {
+  try {
+    const rows = await db.select().from(orders).orderBy(desc(orders.createdAt));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/orders/vendor/:vendorId (Vendor dashboard; owner or admin) */
+router.get(
+  "/vendor/:vendorId",
+  requireRole("vendor", "admin"),
+  async (req, res, next) => {
+    try {
+      const vendorId = String(req.params.vendorId);
+      if (!(await canActForVendor(req.authUser!, vendorId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const rows = await db
+        .select()
+        .from(orders)
+        .where(eq(orders.vendorId, vendorId))
+        .orderBy(desc(orders.createdAt));
+      res.json(rows);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/** GET /api/orders/customer/:customerId (the customer themself or admin) */
+router.get("/customer/:customerId", requireAuth, async (req, res, next) => {
+  try {
+    const customerId = String(req.params.customerId);
+    const me = req.authUser!;
+    if (me.id !== customerId && me.role !== "admin") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const rows = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.customerId, customerId))
+      .orderBy(desc(orders.createdAt));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** Refund fields a buyer sees on their order (no staff ids) */
+const buyerRefundColumns = {
+  columns: { id: true, amount: true, method: true, reason: true, createdAt: true },
+  orderBy: [asc(refunds.createdAt)],
+};
+
+/** GET /api/orders/mine (signed-in buyer's orders with lines, store and reference) */
+router.get("/mine", requireAuth, async (req, res, next) => {
+  try {
+    const rows = await db.query.orders.findMany({
+      where: eq(orders.customerId, req.authUser!.id),
+      with: {
+        items: true,
+        vendor: { columns: { storeName: true } },
+        checkoutGroup: { columns: { reference: true } },
+        refunds: buyerRefundColumns,
+      },
+      orderBy: [desc(orders.createdAt)],
+    });
+
+    res.json(
+      rows.map(({ vendor, checkoutGroup, ...order }) => ({
+        ...order,
+        storeName: vendor?.storeName ?? null,
+        reference: checkoutGroup?.reference ?? null,
+      })),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+const lookupSchema = z.object({
+  reference: z.string().trim().min(1).max(64),
+  email: z.string().trim().email(),
+});
+
+/**
+ * POST /api/orders/lookup  Body: { reference, email }
+ * Public order tracking for guests: the checkout's orders, lines and timeline.
+ * Wrong reference and wrong email get the same 404 so neither can be probed.
+ */
+router.post("/lookup", async (req, res, next) => {
+  try {
+    const parsed = lookupSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Order reference and email are required" });
+    }
+    const { reference, email } = parsed.data;
+
+    const group = await db.query.checkoutGroups.findFirst({
+      where: eq(checkoutGroups.reference, reference),
+      with: {
+        orders: {
+          with: {
+            items: true,
+            vendor: { columns: { storeName: true } },
+            refunds: buyerRefundColumns,
+            statusEvents: {
+              columns: { actorId: false },
+              orderBy: [asc(orderStatusEvents.createdAt)],
+            },
+          },
+        },
+      },
+    });
+    if (!group || group.customerEmail.toLowerCase() !== email.toLowerCase()) {
+      return res
+        .status(404)
+        .json({ message: "No order matches that reference and email" });
+    }
+
+    const { orders: groupOrders, customerId: _customerId, ...checkout } = group;
+    res.json({
+      ...checkout,
+      orders: groupOrders.map(({ vendor, statusEvents, ...order }) => ({
+        ...order,
+        storeName: vendor?.storeName ?? null,
+        reference: group.reference,
+        events: statusEvents,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** Admin, the order's vendor, or the customer who placed it */
+async function canAccessOrder(user: SessionUser, order: Order): Promise<boolean> {
+  if (user.role === "admin") return true;
+  if (order.customerId && order.customerId === user.id) return true;
+  return user.role === "vendor" && (await canActForVendor(user, order.vendorId));
+}
+
+/** Role the caller acts in for this order (a vendor buying elsewhere is a customer) */
+function actorRoleFor(user: SessionUser, order: Order): OrderActorRole {
+  if (user.role === "admin") return "admin";
+  if (user.role === "vendor" && order.customerId !== user.id) return "vendor";
+  return "customer";
+}
+
+const statusBodySchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * PUT /api/orders/:id/status
+ * Moves are checked against shared/order-status.ts and recorded in the
+ * order's timeline; moving to "cancelled" puts the stock back.
+ */
+router.put("/:id/status", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = statusBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "A valid status is required" });
+    }
+
+    if (RECORD_DRIVEN_STATUSES.includes(parsed.data.status)) {
+      return res
+        .status(409)
+        .json({ message: "Orders become refunded by recording a refund" });
+    }
+
+    const id = String(req.params.id);
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
+    if (!order) return res.status(404).json({ message: "Order not found" });
+
+    const me = req.authUser!;
+    if (!(await canAccessOrder(me, order))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const updated = await db.transaction((tx) =>
+      transitionOrder(
+        tx,
+        id,
+        parsed.data.status,
+        { id: me.id, role: actorRoleFor(me, order) },
+        parsed.data.note,
+      ),
+    );
+
+    // fire-and-forget back-in-stock alerts for what the cancellation restocked
+    if (updated.status === "cancelled") {
+      (async () => {
+        try {
+          const items = await db
+            .select({ productId: orderItems.productId })
+            .from(orderItems)
+            .where(eq(orderItems.orderId, id));
+          await checkWishlistAlerts(items.map((i) => i.productId));
+        } catch {}
+      })();
+    }
+
+    res.json(updated);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/orders/:id/events (status timeline, oldest first) */
+router.get("/:id/events", requireAuth, async (req, res, next) => {
+  try {
+    const id = String(req.params.id);
+    const order = await db.query.orders.findFirst({ where: eq(orders.id, id) });
+    if (!order) return res.status(404).json({ message: "Order not found" });
+
+    if (!(await canAccessOrder(req.authUser!, order))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const rows = await db
+      .select({
+        id: orderStatusEvents.id,
+        fromStatus: orderStatusEvents.fromStatus,
+        toStatus: orderStatusEvents.toStatus,
+        actorRole: orderStatusEvents.actorRole,
+        actorName: users.firstName,
+        note: orderStatusEvents.note,
+        createdAt: orderStatusEvents.createdAt,
+      })
+      .from(orderStatusEvents)
+      .leftJoin(users, eq(users.id, orderStatusEvents.actorId))
+      .where(eq(orderStatusEvents.orderId, id))
+      .orderBy(asc(orderStatusEvents.createdAt));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
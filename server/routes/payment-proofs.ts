@@ -0,0 +1,254 @@
+// server/routes/payment-proofs.ts
+import express, { Router } from "express";
+import { asc, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+  db,
+  checkoutGroups,
+  orders,
+  paymentProofs,
+  payments,
+} from "../db";
+import { requireRole } from "../auth";
+import { transitionOrder } from "../order-lifecycle";
+import { getAmountDue, paymentReference } from "../payments";
+import { PaymentError } from "../payment-provider";
+import { privateFilePath, savePrivateFile, sniffDocumentType } from "../private-files";
+import { sendPaymentReviewEmail } from "../email";
+import { sendWhatsApp } from "../whatsapp";
+
+const router = Router();
+
+const MAX_PROOF_BYTES = 5 * 1024 * 1024;
+
+const lookupSchema = z.object({
+  reference: z.string().trim().min(1).max(64),
+  email: z.string().trim().email(),
+});
+
+/**
+ * POST /api/payment-proofs
+ * Body: the receipt file itself (image/jpeg|png|webp or application/pdf, ≤ 5 MB)
+ * Headers: X-Order-Reference, X-Order-Email, X-File-Name (optional)
+ * Reference + email identify the checkout, as on the tracking page.
+ */
+router.post(
+  "/",
+  express.raw({ type: () => true, limit: MAX_PROOF_BYTES }),
+  async (req, res, next) => {
+    try {
+      const parsed = lookupSchema.safeParse({
+        reference: req.get("X-Order-Reference"),
+        email: req.get("X-Order-Email"),
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Order reference and email are required" });
+      }
+      const { reference, email } = parsed.data;
+
+      const file = Buffer.isBuffer(req.body) ? req.body : null;
+      const type = file?.length ? sniffDocumentType(file) : null;
+      if (!file || !type) {
+        return res.status(415).json({ message: "Upload a JPG, PNG, WEBP or PDF receipt" });
+      }
+
+      const group = await db.query.checkoutGroups.findFirst({
+        where: eq(checkoutGroups.reference, reference),
+        with: { orders: { columns: { status: true } } },
+      });
+      if (!group || group.customerEmail.toLowerCase() !== email.toLowerCase()) {
+        return res.status(404).json({ message: "No order matches that reference and email" });
+      }
+      if (group.paymentMethod !== "bank_transfer") {
+        return res.status(409).json({ message: "This order is not paid by bank transfer" });
+      }
+      if (!group.orders.some((o) => o.status === "pending")) {
+        return res.status(409).json({ message: "This order has nothing left to pay" });
+      }
+
+      const fileKey = await savePrivateFile("payment-proofs", file, type.ext);
+      const fileName = (req.get("X-File-Name") ?? `receipt.${type.ext}`).slice(0, 200);
+
+      const [proof] = await db
+        .insert(paymentProofs)
+        .values({
+          checkoutGroupId: group.id,
+          fileKey,
+          fileName,
+          mimeType: type.mime,
+          size: file.length,
+        })
+        .returning();
+
+      res.status(201).json({
+        id: proof.id,
+        status: proof.status,
+        fileName: proof.fileName,
+        createdAt: proof.createdAt,
+      });
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/** GET /api/payment-proofs?status=pending (Admin verification queue, oldest first) */
+router.get("/", requireRole("admin"), async (req, res, next) => {
+  try {
+    const status = String(req.query.status ?? "pending");
+    const rows = await db
+      .select({
+        id: paymentProofs.id,
+        status: paymentProofs.status,
+        fileName: paymentProofs.fileName,
+        mimeType: paymentProofs.mimeType,
+        size: paymentProofs.size,
+        reviewNote: paymentProofs.reviewNote,
+        reviewedAt: paymentProofs.reviewedAt,
+        createdAt: paymentProofs.createdAt,
+        checkoutGroupId: checkoutGroups.id,
+        reference: checkoutGroups.reference,
+        customerEmail: checkoutGroups.customerEmail,
+        total: checkoutGroups.total,
+      })
+      .from(paymentProofs)
+      .innerJoin(checkoutGroups, eq(checkoutGroups.id, paymentProofs.checkoutGroupId))
+      .where(eq(paymentProofs.status, status))
+      .orderBy(status === "pending" ? asc(paymentProofs.createdAt) : desc(paymentProofs.reviewedAt));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/payment-proofs/:id/file (Admin; streams the private receipt) */
+router.get("/:id/file", requireRole("admin"), async (req, res, next) => {
+  try {
+    const proof = await db.query.paymentProofs.findFirst({
+      where: eq(paymentProofs.id, String(req.params.id)),
+    });
+    if (!proof) return res.status(404).json({ message: "Proof not found" });
+
+    res.type(proof.mimeType);
+    res.set("Content-Disposition", `inline; filename="${proof.fileName.replace(/"/g, "")}"`);
+    res.sendFile(privateFilePath(proof.fileKey), (err) => err && next(err));
+  } catch (err) {
+    next(err);
+  }
+});
+
+const reviewSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/payment-proofs/:id/review  Body: { decision, note? } (Admin)
+ * Approving records the payment and moves the checkout's pending orders
+ * to "paid"; either way the buyer is notified.
+ */
+router.post("/:id/review", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = reviewSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "decision must be approve or reject" });
+    }
+    const { decision, note } = parsed.data;
+    const admin = req.authUser!;
+    const id = String(req.params.id);
+
+    const result = await db.transaction(async (tx) => {
+      const [proof] = await tx
+        .select()
+        .from(paymentProofs)
+        .where(eq(paymentProofs.id, id))
+        .for("update");
+      if (!proof) return null;
+      if (proof.status !== "pending") {
+        throw new PaymentError("This proof was already reviewed");
+      }
+
+      const group = (await tx.query.checkoutGroups.findFirst({
+        where: eq(checkoutGroups.id, proof.checkoutGroupId),
+      }))!;
+
+      if (decision === "approve") {
+        // only what the checkout still owes (cancelled orders aren't paid for)
+        const { orderIds, amount } = await getAmountDue(tx, group.id);
+        if (!orderIds.length) {
+          throw new PaymentError("This checkout has nothing left to pay; reject the receipt instead");
+        }
+        await tx.insert(payments).values({
+          checkoutGroupId: group.id,
+          provider: "manual",
+          method: "bank_transfer",
+          providerRef: `proof:${proof.id}`,
+          amount: amount.toFixed(2),
+          currency: "NLE",
+          status: "succeeded",
+          settledAt: new Date(),
+        });
+
+        for (const orderId of orderIds) {
+          await transitionOrder(
+            tx,
+            orderId,
+            "paid",
+            { id: admin.id, role: "admin" },
+            note ? `Bank transfer verified: ${note}` : "Bank transfer verified",
+          );
+        }
+      }
+
+      const [updated] = await tx
+        .update(paymentProofs)
+        .set({
+          status: decision === "approve" ? "approved" : "rejected",
+          reviewedBy: admin.id,
+          reviewNote: note ?? null,
+          reviewedAt: new Date(),
+        })
+        .where(eq(paymentProofs.id, id))
+        .returning();
+
+      return { proof: updated, group };
+    });
+    if (!result) return res.status(404).json({ message: "Proof not found" });
+
+    // fire-and-forget buyer notification
+    (async () => {
+      try {
+        const { group } = result;
+        const order = await db.query.orders.findFirst({
+          where: eq(orders.checkoutGroupId, group.id),
+        });
+        const reference = paymentReference(group);
+        const approved = decision === "approve";
+
+        await Promise.allSettled([
+          sendPaymentReviewEmail({
+            to: group.customerEmail,
+            customerName: order?.customerName ?? "there",
+            reference,
+            approved,
+            note,
+          }),
+          order?.customerPhone
+            ? sendWhatsApp(
+                order.customerPhone,
+                approved
+                  ? `Hi ${order.customerName}, your bank transfer for order ${reference} is confirmed.`
+                  : `Hi ${order.customerName}, we couldn't verify your payment receipt for order ${reference}. Please upload a new one.`,
+              )
+            : Promise.resolve(),
+        ]);
+      } catch {}
+    })();
+
+    res.json(result.proof);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
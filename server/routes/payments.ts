@@ -0,0 +1,143 @@
+// server/routes/payments.ts
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, checkoutGroups, payments, type Payment } from "../db";
+import { env } from "../env";
+import { MOBILE_MONEY_METHODS } from "../payment-provider";
+import { simulateOutcome } from "../payment-simulator";
+import {
+  getPaymentProvider,
+  initiatePayment,
+  refreshPayment,
+  settlePayment,
+} from "../payments";
+
+const router = Router();
+
+/** What the buyer's browser gets to see about a payment */
+const publicPayment = (p: Payment) => ({
+  paymentId: p.id,
+  provider: p.provider,
+  method: p.method,
+  providerRef: p.providerRef,
+  amount: p.amount,
+  currency: p.currency,
+  status: p.status,
+  failureReason: p.failureReason,
+});
+
+const initiateSchema = z.object({
+  reference: z.string().trim().min(1).max(64),
+  email: z.string().trim().email(),
+  method: z.enum(MOBILE_MONEY_METHODS),
+  phone: z.string().trim().min(6).max(20),
+});
+
+/**
+ * POST /api/payments/initiate  Body: { reference, email, method, phone }
+ * Starts a mobile-money charge for the checkout's server-side total.
+ * Reference + email identify the checkout, as on the tracking page.
+ */
+router.post("/initiate", async (req, res, next) => {
+  try {
+    const parsed = initiateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "reference, email, method and phone are required" });
+    }
+    const { reference, email, method, phone } = parsed.data;
+
+    const group = await db.query.checkoutGroups.findFirst({
+      where: eq(checkoutGroups.reference, reference),
+    });
+    if (!group || group.customerEmail.toLowerCase() !== email.toLowerCase()) {
+      return res.status(404).json({ message: "No order matches that reference and email" });
+    }
+
+    const { payment, instructions } = await initiatePayment(group, method, phone);
+    res.status(201).json({ ...publicPayment(payment), instructions });
+  } catch (err) {
+    next(err);
+  }
+});
+
+const confirmSchema = initiateSchema.pick({ reference: true, email: true });
+
+/**
+ * POST /api/payments/:id/confirm  Body: { reference, email }
+ * Polls the provider and applies the result (for when a webhook is slow or lost).
+ * Only the buyer who started it may ask; the outcome always comes from the
+ * provider itself, never from the request.
+ */
+router.post("/:id/confirm", async (req, res, next) => {
+  try {
+    const parsed = confirmSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "reference and email are required" });
+    }
+    const { reference, email } = parsed.data;
+
+    const payment = await db.query.payments.findFirst({
+      where: eq(payments.id, String(req.params.id)),
+      with: { checkoutGroup: true },
+    });
+    const group = payment?.checkoutGroup;
+    if (
+      !payment ||
+      !group ||
+      group.reference !== reference ||
+      group.customerEmail.toLowerCase() !== email.toLowerCase()
+    ) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+
+    res.json(publicPayment(await refreshPayment(payment)));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/payments/webhook/:provider
+ * Signed provider callback; the signature is checked against the raw body.
+ */
+router.post("/webhook/:provider", async (req, res, next) => {
+  try {
+    const provider = getPaymentProvider(String(req.params.provider));
+    const event = req.rawBody ? provider.parseWebhook(req.rawBody, req.headers) : null;
+    if (!event) return res.status(401).json({ message: "Invalid webhook signature" });
+
+    const payment = await settlePayment(provider.name, event);
+    res.json({ received: true, matched: !!payment });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/payments/simulator/:providerRef  Body: { outcome, amount? }
+ * Test mode only: approve/decline a simulated payment (delivers a signed webhook).
+ */
+router.post("/simulator/:providerRef", async (req, res, next) => {
+  try {
+    if (env.PAYMENT_PROVIDER !== "simulator" || env.NODE_ENV === "production") {
+      return res.status(404).json({ message: "Not Found" });
+    }
+    const parsed = z
+      .object({
+        outcome: z.enum(["succeeded", "failed"]),
+        amount: z.coerce.number().nonnegative().optional(),
+      })
+      .safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "outcome must be succeeded or failed" });
+    }
+
+    await simulateOutcome(String(req.params.providerRef), parsed.data.outcome, parsed.data.amount);
+    res.json({ delivered: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
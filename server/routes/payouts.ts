@@ -0,0 +1,268 @@
+// server/routes/payouts.ts
+import { Router } from "express";
+import { desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import {
+  db,
+  categories,
+  commissionRates,
+  payoutBatches,
+  payouts,
+  vendorLedgerEntries,
+  vendorPayoutAccounts,
+  vendors,
+} from "../db";
+import { canActForVendor, requireAuth, requireRole } from "../auth";
+import {
+  createPayoutBatch,
+  PAYOUT_METHODS,
+  settlePayout,
+  vendorBalances,
+} from "../ledger";
+import { env } from "../env";
+
+const router = Router();
+
+/**
+ * GET /api/payouts/vendor/:vendorId (owner or admin)
+ * Balance, payout account, commission rate and the latest ledger entries.
+ */
+router.get("/vendor/:vendorId", requireAuth, async (req, res, next) => {
+  try {
+    const vendorId = String(req.params.vendorId);
+    if (!(await canActForVendor(req.authUser!, vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const balances = await vendorBalances(db, [vendorId]);
+    const account = await db.query.vendorPayoutAccounts.findFirst({
+      where: eq(vendorPayoutAccounts.vendorId, vendorId),
+    });
+    const rate = await db.query.commissionRates.findFirst({
+      where: eq(commissionRates.vendorId, vendorId),
+    });
+    const entries = await db
+      .select()
+      .from(vendorLedgerEntries)
+      .where(eq(vendorLedgerEntries.vendorId, vendorId))
+      .orderBy(desc(vendorLedgerEntries.createdAt))
+      .limit(200);
+    const recentPayouts = await db
+      .select()
+      .from(payouts)
+      .where(eq(payouts.vendorId, vendorId))
+      .orderBy(desc(payouts.createdAt))
+      .limit(50);
+
+    res.json({
+      balance: balances.get(vendorId) ?? 0,
+      commissionPercent: rate ? Number(rate.percent) : null,
+      defaultCommissionPercent: env.PLATFORM_COMMISSION_PERCENT,
+      account: account ?? null,
+      entries,
+      payouts: recentPayouts,
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+const accountSchema = z.object({
+  method: z.enum(PAYOUT_METHODS),
+  provider: z.string().trim().min(2).max(60),
+  accountName: z.string().trim().min(2).max(120),
+  accountNumber: z.string().trim().min(4).max(40),
+});
+
+/** PUT /api/payouts/vendor/:vendorId/account (owner or admin; where payouts go) */
+router.put("/vendor/:vendorId/account", requireAuth, async (req, res, next) => {
+  try {
+    const vendorId = String(req.params.vendorId);
+    if (!(await canActForVendor(req.authUser!, vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const parsed = accountSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ message: parsed.error.issues[0]?.message ?? "Invalid payout account" });
+    }
+
+    const [row] = await db
+      .insert(vendorPayoutAccounts)
+      .values({ vendorId, ...parsed.data })
+      .onConflictDoUpdate({
+        target: vendorPayoutAccounts.vendorId,
+        set: { ...parsed.data, updatedAt: new Date() },
+      })
+      .returning();
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/payouts/balances (Admin; every vendor's balance and payout readiness) */
+router.get("/balances", requireRole("admin"), async (_req, res, next) => {
+  try {
+    const rows = await db
+      .select({
+        vendorId: vendors.id,
+        storeName: vendors.storeName,
+        isApproved: vendors.isApproved,
+        accountMethod: vendorPayoutAccounts.method,
+        accountProvider: vendorPayoutAccounts.provider,
+        commissionPercent: commissionRates.percent,
+      })
+      .from(vendors)
+      .leftJoin(vendorPayoutAccounts, eq(vendorPayoutAccounts.vendorId, vendors.id))
+      .leftJoin(commissionRates, eq(commissionRates.vendorId, vendors.id))
+      .orderBy(vendors.storeName);
+
+    const balances = await vendorBalances(db);
+    res.json(
+      rows.map((r) => ({
+        ...r,
+        commissionPercent: r.commissionPercent === null ? null : Number(r.commissionPercent),
+        balance: balances.get(r.vendorId) ?? 0,
+      })),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/payouts/commission (Admin; default rate and every override) */
+router.get("/commission", requireRole("admin"), async (_req, res, next) => {
+  try {
+    const rows = await db
+      .select({
+        id: commissionRates.id,
+        vendorId: commissionRates.vendorId,
+        categoryId: commissionRates.categoryId,
+        percent: commissionRates.percent,
+        storeName: vendors.storeName,
+        categoryName: categories.name,
+      })
+      .from(commissionRates)
+      .leftJoin(vendors, eq(vendors.id, commissionRates.vendorId))
+      .leftJoin(categories, eq(categories.id, commissionRates.categoryId));
+    res.json({ defaultPercent: env.PLATFORM_COMMISSION_PERCENT, rates: rows });
+  } catch (err) {
+    next(err);
+  }
+});
+
+const commissionSchema = z
+  .object({
+    vendorId: z.string().min(1).optional(),
+    categoryId: z.string().min(1).optional(),
+    percent: z.coerce.number().min(0).max(100).nullable(),
+  })
+  .refine((b) => !!b.vendorId !== !!b.categoryId, {
+    message: "Give either vendorId or categoryId",
+  });
+
+/**
+ * PUT /api/payouts/commission  Body: { vendorId | categoryId, percent } (Admin)
+ * percent: null removes the override. Applies to sales credited from now on.
+ */
+router.put("/commission", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = commissionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ message: parsed.error.issues[0]?.message ?? "Invalid commission rate" });
+    }
+    const { vendorId, categoryId, percent } = parsed.data;
+    const target = vendorId ? commissionRates.vendorId : commissionRates.categoryId;
+    const key = (vendorId ?? categoryId)!;
+
+    if (percent === null) {
+      await db.delete(commissionRates).where(eq(target, key));
+      return res.json({ ok: true });
+    }
+
+    const [row] = await db
+      .insert(commissionRates)
+      .values({ vendorId, categoryId, percent: percent.toFixed(2) })
+      .onConflictDoUpdate({
+        target,
+        set: { percent: percent.toFixed(2), updatedAt: new Date() },
+      })
+      .returning();
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/payouts/batches (Admin; latest batches with their payouts) */
+router.get("/batches", requireRole("admin"), async (_req, res, next) => {
+  try {
+    const rows = await db.query.payoutBatches.findMany({
+      with: {
+        payouts: {
+          with: { vendor: { columns: { storeName: true } } },
+        },
+      },
+      orderBy: [desc(payoutBatches.createdAt)],
+      limit: 20,
+    });
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+const batchSchema = z.object({
+  vendorIds: z.array(z.string().min(1)).optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/payouts/batches  Body: { vendorIds?, minAmount?, note? } (Admin)
+ * Pays each selected vendor's whole balance to their payout account.
+ */
+router.post("/batches", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = batchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid payout batch" });
+    }
+
+    const result = await createPayoutBatch({
+      ...parsed.data,
+      adminId: req.authUser!.id,
+    });
+    res.status(201).json(result);
+  } catch (err) {
+    next(err);
+  }
+});
+
+const settleSchema = z.object({
+  status: z.enum(["paid", "failed"]),
+  reference: z.string().trim().max(120).optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/** PUT /api/payouts/:id  Body: { status: paid|failed, reference?, reason? } (Admin) */
+router.put("/:id", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = settleSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "status must be paid or failed" });
+    }
+
+    const payout = await settlePayout(String(req.params.id), parsed.data);
+    res.json(payout);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+// server/routes/product-images.ts
+import { Router, type Request, type Response } from "express";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, productImages, products, type Product } from "../db";
+import { canActForVendor, requireRole } from "../auth";
+import { ensureGallery, getGallery, MAX_PRODUCT_IMAGES, syncCoverImage } from "../product-images";
+
+// mounted at /api/products/:productId/images
+const router = Router({ mergeParams: true });
+
+const addImageSchema = z.object({
+  url: z.string().trim().min(1).max(2048),
+  alt: z.string().trim().max(200).default(""),
+});
+
+const altSchema = z.object({ alt: z.string().trim().max(200) });
+
+const orderSchema = z.object({ ids: z.array(z.string()).min(1) });
+
+/** :productId from the mount path (mergeParams isn't reflected in the handler types) */
+const productIdOf = (req: Request) => String(req.params.productId);
+
+/** The product named in the URL, if the signed-in user may manage it (else responds) */
+async function loadOwnedProduct(req: Request, res: Response): Promise<Product | null> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, productIdOf(req)),
+  });
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return null;
+  }
+  if (!(await canActForVendor(req.authUser!, product.vendorId))) {
+    res.status(403).json({ message: "Forbidden" });
+    return null;
+  }
+  return product;
+}
+
+/** GET /api/products/:productId/images (public; display order, cover first) */
+router.get("/", async (req, res, next) => {
+  try {
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productIdOf(req)),
+      columns: { id: true, name: true, imageUrl: true },
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+    res.json(await getGallery(db, product));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/products/:productId/images { url, alt? } (owner or admin)
+ * Appends to the gallery; `url` is usually one returned by POST /api/uploads.
+ */
+router.post("/", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = addImageSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Invalid image" });
+
+    const product = await loadOwnedProduct(req, res);
+    if (!product) return;
+
+    const gallery = await db.transaction(async (tx) => {
+      await ensureGallery(tx, product);
+      const current = await getGallery(tx, product);
+      if (current.length >= MAX_PRODUCT_IMAGES) return null;
+
+      await tx.insert(productImages).values({
+        productId: product.id,
+        ...parsed.data,
+        position: current.length,
+      });
+      await syncCoverImage(tx, product.id);
+      return getGallery(tx, product);
+    });
+
+    if (!gallery) {
+      return res
+        .status(400)
+        .json({ message: `A product can have at most ${MAX_PRODUCT_IMAGES} images` });
+    }
+    res.status(201).json(gallery);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PUT /api/products/:productId/images/order { ids } — every image id, new order */
+router.put("/order", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = orderSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Invalid order" });
+
+    const product = await loadOwnedProduct(req, res);
+    if (!product) return;
+
+    const gallery = await db.transaction(async (tx) => {
+      const current = await getGallery(tx, product);
+      const ids = new Set(parsed.data.ids);
+      const sameSet =
+        ids.size === parsed.data.ids.length &&
+        current.length === ids.size &&
+        current.every((img) => img.id && ids.has(img.id));
+      if (!sameSet) return null;
+
+      await syncCoverImage(tx, product.id, parsed.data.ids);
+      return getGallery(tx, product);
+    });
+
+    if (!gallery) {
+      return res.status(400).json({ message: "List each of the product's images exactly once" });
+    }
+    res.json(gallery);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PATCH /api/products/:productId/images/:imageId { alt } */
+router.patch("/:imageId", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = altSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Invalid alt text" });
+
+    const product = await loadOwnedProduct(req, res);
+    if (!product) return;
+
+    const [row] = await db
+      .update(productImages)
+      .set({ alt: parsed.data.alt })
+      .where(
+        and(
+          eq(productImages.id, String(req.params.imageId)),
+          eq(productImages.productId, product.id),
+        ),
+      )
+      .returning();
+    if (!row) return res.status(404).json({ message: "Image not found" });
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** DELETE /api/products/:productId/images/:imageId (the last image can't go) */
+router.delete("/:imageId", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const product = await loadOwnedProduct(req, res);
+    if (!product) return;
+
+    const result = await db.transaction(async (tx) => {
+      const current = await getGallery(tx, product);
+      const imageId = String(req.params.imageId);
+      if (!current.some((img) => img.id === imageId)) return "missing" as const;
+      if (current.length === 1) return "last" as const;
+
+      await tx.delete(productImages).where(eq(productImages.id, imageId));
+      await syncCoverImage(tx, product.id);
+      return getGallery(tx, product);
+    });
+
+    if (result === "missing") return res.status(404).json({ message: "Image not found" });
+    if (result === "last") {
+      return res.status(400).json({ message: "A product needs at least one image" });
+    }
+    res.json(result);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+// server/routes/product-questions.ts
+import { Router, type Request } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, products, productQuestions } from "../db";
+import { getSessionUser, requireAuth } from "../auth";
+import { askQuestion, listHiddenOwnQuestions, listProductQuestions } from "../questions";
+import { sendNewQuestionEmail } from "../email";
+import { sendWhatsApp } from "../whatsapp";
+import { MAX_QUESTION_LENGTH, QUESTIONS_PAGE_SIZE } from "../../shared/questions";
+
+// mounted at /api/products/:productId/questions; answers and moderation live
+// in routes/questions.ts
+const router = Router({ mergeParams: true });
+
+const listQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(QUESTIONS_PAGE_SIZE),
+});
+
+const questionBodySchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(5, "Please write a full question")
+    .max(MAX_QUESTION_LENGTH, `Questions are at most ${MAX_QUESTION_LENGTH} characters`),
+});
+
+/** :productId from the mount path (mergeParams isn't reflected in the handler types) */
+const productIdOf = (req: Request) => String(req.params.productId);
+
+/**
+ * GET /api/products/:productId/questions?offset=&limit= (public)
+ * Published questions newest first, answered or not; a signed-in shopper
+ * also gets their own questions that a moderator hid.
+ */
+router.get("/", async (req, res, next) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ message: "Invalid page" });
+
+    const productId = productIdOf(req);
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productId),
+      columns: { id: true },
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+
+    const user = await getSessionUser(req);
+    const [page, hidden] = await Promise.all([
+      listProductQuestions(productId, parsed.data),
+      user ? listHiddenOwnQuestions(productId, user.id) : [],
+    ]);
+
+    res.json({ ...page, hidden });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/products/:productId/questions { body } (signed in)
+ * Publishes the question and notifies the store by email and WhatsApp.
+ */
+router.post("/", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = questionBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid question" });
+    }
+
+    const question = await askQuestion({
+      productId: productIdOf(req),
+      customerId: req.authUser!.id,
+      body: parsed.data.body,
+    });
+
+    // fire-and-forget store notification
+    (async () => {
+      try {
+        const row = await db.query.productQuestions.findFirst({
+          where: eq(productQuestions.id, question.id),
+          columns: { id: true },
+          with: {
+            product: { columns: { name: true } },
+            vendor: {
+              columns: { storeName: true, phone: true },
+              with: { user: { columns: { email: true } } },
+            },
+          },
+        });
+        if (!row) return;
+        const { product, vendor } = row;
+
+        await Promise.allSettled([
+          sendNewQuestionEmail({
+            to: vendor.user.email,
+            storeName: vendor.storeName,
+            productName: product.name,
+            question: question.body,
+          }),
+          vendor.phone
+            ? sendWhatsApp(
+                vendor.phone,
+                `New question about ${product.name}: "${question.body}" Answer it from your vendor dashboard.`,
+              )
+            : Promise.resolve(),
+        ]);
+      } catch {}
+    })();
+
+    res.status(201).json(question);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
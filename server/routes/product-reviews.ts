@@ -0,0 +1,99 @@
+// server/routes/product-reviews.ts
+import { Router, type Request } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, products } from "../db";
+import { getSessionUser, requireAuth } from "../auth";
+import {
+  deleteReview,
+  findQualifyingOrder,
+  getOwnReview,
+  getRatingSummary,
+  listProductReviews,
+  saveReview,
+} from "../reviews";
+import { MAX_REVIEW_LENGTH, REVIEWS_PAGE_SIZE } from "../../shared/reviews";
+
+// mounted at /api/products/:productId/reviews
+const router = Router({ mergeParams: true });
+
+const listQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(50).default(REVIEWS_PAGE_SIZE),
+});
+
+const reviewBodySchema = z.object({
+  rating: z.coerce.number().int().min(1, "Choose 1 to 5 stars").max(5, "Choose 1 to 5 stars"),
+  title: z.string().trim().max(120).nullable().optional(),
+  body: z.string().trim().max(MAX_REVIEW_LENGTH).nullable().optional(),
+});
+
+/** :productId from the mount path (mergeParams isn't reflected in the handler types) */
+const productIdOf = (req: Request) => String(req.params.productId);
+
+/**
+ * GET /api/products/:productId/reviews?offset=&limit= (public)
+ * Published reviews newest first plus the rating summary; a signed-in buyer
+ * also gets their own review and whether they may write one.
+ */
+router.get("/", async (req, res, next) => {
+  try {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ message: "Invalid page" });
+
+    const productId = productIdOf(req);
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productId),
+      columns: { id: true },
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+
+    const user = await getSessionUser(req);
+    const [summary, page, mine, orderId] = await Promise.all([
+      getRatingSummary(db, { productId }),
+      listProductReviews(productId, parsed.data),
+      user ? getOwnReview(productId, user.id) : null,
+      user ? findQualifyingOrder(db, user.id, productId) : null,
+    ]);
+
+    res.json({ summary, ...page, mine, canReview: !!orderId });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/products/:productId/reviews { rating, title?, body? }
+ * Writes the caller's review, or replaces it if they already wrote one.
+ * Only buyers with a delivered order containing the product qualify.
+ * Photos go to POST /api/reviews/:id/photos afterwards.
+ */
+router.post("/", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = reviewBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid review" });
+    }
+
+    const { review, created } = await saveReview({
+      ...parsed.data,
+      productId: productIdOf(req),
+      customerId: req.authUser!.id,
+    });
+    res.status(created ? 201 : 200).json(review);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** DELETE /api/products/:productId/reviews/mine (the author) */
+router.delete("/mine", requireAuth, async (req, res, next) => {
+  try {
+    await deleteReview(productIdOf(req), req.authUser!.id);
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+// server/routes/product-variants.ts
+import { Router, type Request } from "express";
+import { eq } from "drizzle-orm";
+import { db, products } from "../db";
+import { canActForVendor, requireRole } from "../auth";
+import { getVariants, replaceVariants, variantSetSchema } from "../variants";
+import { checkWishlistAlerts } from "../wishlist";
+
+// mounted at /api/products/:productId/variants
+const router = Router({ mergeParams: true });
+
+/** :productId from the mount path (mergeParams isn't reflected in the handler types) */
+const productIdOf = (req: Request) => String(req.params.productId);
+
+/** GET /api/products/:productId/variants (public) -> { options, variants } */
+router.get("/", async (req, res, next) => {
+  try {
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productIdOf(req)),
+      columns: { id: true },
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+    res.json(await getVariants(db, product.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/products/:productId/variants { options, variants } (owner or admin)
+ * Replaces the whole set; send empty arrays to turn variants off. The
+ * product's price and stock then follow its variants (server/variants.ts).
+ */
+router.put("/", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = variantSetSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid options or variants" });
+    }
+
+    const product = await db.query.products.findFirst({
+      where: eq(products.id, productIdOf(req)),
+      columns: { id: true, vendorId: true },
+    });
+    if (!product) return res.status(404).json({ message: "Product not found" });
+    if (!(await canActForVendor(req.authUser!, product.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const saved = await replaceVariants(product.id, parsed.data);
+
+    // fire-and-forget price-drop / back-in-stock alerts
+    (async () => {
+      try {
+        await checkWishlistAlerts([product.id]);
+      } catch {}
+    })();
+
+    res.json(saved);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
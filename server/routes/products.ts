@@ -0,0 +1,181 @@
+// server/routes/products.ts
+import { Router } from "express";
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, categories, productImages, products, insertProductSchema } from "../db";
+import { canActForVendor, getVendorForUser, requireRole } from "../auth";
+import { getCategoryAttributes, validateAttributes } from "../attributes";
+import { checkWishlistAlerts } from "../wishlist";
+
+const router = Router();
+
+/** A product must point at a real category (the FK would otherwise 500) */
+async function categoryExists(categoryId: string): Promise<boolean> {
+  const row = await db.query.categories.findFirst({
+    where: eq(categories.id, categoryId),
+    columns: { id: true },
+  });
+  return !!row;
+}
+
+/** Dashboard forms send numbers; the decimal column wants a string */
+const productBodySchema = insertProductSchema.extend({
+  price: z.coerce.number().nonnegative().transform((n) => n.toFixed(2)),
+  stock: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * POST /api/products
+ * Vendors always create under their own approved store (body vendorId is ignored);
+ * admins must name the vendor. `attributes` follow the category's schema.
+ */
+router.post("/", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const me = req.authUser!;
+    let vendorId = req.body?.vendorId ? String(req.body.vendorId) : "";
+
+    if (me.role === "vendor") {
+      const vendor = await getVendorForUser(me.id);
+      if (!vendor?.isApproved) {
+        return res
+          .status(403)
+          .json({ message: "Your store must be approved before adding products" });
+      }
+      vendorId = vendor.id;
+    }
+
+    const parsed = productBodySchema.safeParse({ ...req.body, vendorId });
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid product details" });
+    }
+    if (!(await categoryExists(parsed.data.categoryId))) {
+      return res.status(400).json({ message: "Unknown category" });
+    }
+    const attributes = validateAttributes(
+      await getCategoryAttributes(parsed.data.categoryId),
+      req.body?.attributes,
+    );
+
+    // the image given here starts the gallery (routes/product-images.ts)
+    const row = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(products)
+        .values({ ...parsed.data, attributes })
+        .returning();
+      await tx.insert(productImages).values({
+        productId: created.id,
+        url: created.imageUrl,
+        alt: created.name,
+        position: 0,
+      });
+      return created;
+    });
+    res.status(201).json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/products/:id (owning vendor or admin; vendorId can't change)
+ * Vendors may only edit products of their own approved store.
+ */
+router.put("/:id", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const id = String(req.params.id);
+    const existing = await db.query.products.findFirst({
+      where: eq(products.id, id),
+    });
+    if (!existing) return res.status(404).json({ message: "Product not found" });
+
+    if (!(await canActForVendor(req.authUser!, existing.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const parsed = productBodySchema
+      .omit({ vendorId: true })
+      .partial()
+      .safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid product details" });
+    }
+    if (parsed.data.categoryId && !(await categoryExists(parsed.data.categoryId))) {
+      return res.status(400).json({ message: "Unknown category" });
+    }
+    // with variants, price and stock are derived from them (server/variants.ts)
+    if (existing.hasVariants) {
+      delete parsed.data.price;
+      delete parsed.data.stock;
+    }
+
+    // sent attributes are checked in full; a category change alone just
+    // drops the values the new category doesn't define
+    const categoryId = parsed.data.categoryId ?? existing.categoryId;
+    const sentAttributes = req.body?.attributes !== undefined;
+    const attributes =
+      sentAttributes || categoryId !== existing.categoryId
+        ? validateAttributes(
+            await getCategoryAttributes(categoryId),
+            sentAttributes ? req.body.attributes : existing.attributes,
+            { enforceRequired: sentAttributes },
+          )
+        : undefined;
+
+    const row = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(products)
+        .set({ ...parsed.data, ...(attributes && { attributes }) })
+        .where(eq(products.id, id))
+        .returning();
+      // a new imageUrl replaces the cover (first gallery image)
+      if (parsed.data.imageUrl && parsed.data.imageUrl !== existing.imageUrl) {
+        const [cover] = await tx
+          .select({ id: productImages.id })
+          .from(productImages)
+          .where(eq(productImages.productId, id))
+          .orderBy(asc(productImages.position), asc(productImages.createdAt))
+          .limit(1);
+        if (cover) {
+          await tx
+            .update(productImages)
+            .set({ url: parsed.data.imageUrl })
+            .where(eq(productImages.id, cover.id));
+        }
+      }
+      return updated;
+    });
+
+    // fire-and-forget price-drop / back-in-stock alerts
+    (async () => {
+      try {
+        await checkWishlistAlerts([id]);
+      } catch {}
+    })();
+
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** DELETE /api/products/:id -> soft delete (isActive=false); owner or admin */
+router.delete("/:id", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const id = String(req.params.id);
+    const existing = await db.query.products.findFirst({
+      where: eq(products.id, id),
+    });
+    if (!existing) return res.status(404).json({ message: "Product not found" });
+
+    if (!(await canActForVendor(req.authUser!, existing.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    await db.update(products).set({ isActive: false }).where(eq(products.id, id));
+    res.json({ message: "Product deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,117 @@
+// server/routes/questions.ts
+import { Router } from "express";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, productQuestions } from "../db";
+import { canActForVendor, requireRole } from "../auth";
+import { answerQuestion, listManagedQuestions, moderateQuestion } from "../questions";
+import { sendQuestionAnsweredEmail } from "../email";
+import { MAX_ANSWER_LENGTH, QUESTION_STATUSES, isQuestionStatus } from "../../shared/questions";
+
+// mounted at /api/questions; asking and listing a product's questions lives
+// in routes/product-questions.ts
+const router = Router();
+
+const answerSchema = z.object({
+  answer: z.string().trim().max(MAX_ANSWER_LENGTH).nullable(),
+});
+
+const moderationSchema = z.object({
+  status: z.enum(QUESTION_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+/** GET /api/questions?status= (admin moderation list) */
+router.get("/", requireRole("admin"), async (req, res, next) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+    res.json(await listManagedQuestions({ status: status && isQuestionStatus(status) ? status : undefined }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/questions/vendor/:vendorId (Vendor dashboard; owner or admin; unanswered first) */
+router.get("/vendor/:vendorId", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const vendorId = String(req.params.vendorId);
+    if (!(await canActForVendor(req.authUser!, vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    res.json(await listManagedQuestions({ vendorId }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * PUT /api/questions/:id/answer { answer } (selling vendor or admin; null or "" removes it)
+ * A new answer is emailed to the shopper who asked.
+ */
+router.put("/:id/answer", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = answerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: `Answers are at most ${MAX_ANSWER_LENGTH} characters` });
+    }
+
+    const question = await db.query.productQuestions.findFirst({
+      where: eq(productQuestions.id, String(req.params.id)),
+      columns: { id: true, vendorId: true, answer: true },
+    });
+    if (!question) return res.status(404).json({ message: "Question not found" });
+    if (!(await canActForVendor(req.authUser!, question.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const answer = parsed.data.answer || null;
+    const updated = await answerQuestion(question.id, req.authUser!.id, answer);
+
+    // fire-and-forget shopper notification, only the first time it's answered
+    if (answer && !question.answer) {
+      (async () => {
+        try {
+          const row = await db.query.productQuestions.findFirst({
+            where: eq(productQuestions.id, question.id),
+            columns: { id: true },
+            with: {
+              customer: { columns: { email: true, firstName: true } },
+              product: { columns: { name: true } },
+              vendor: { columns: { storeName: true } },
+            },
+          });
+          if (!row) return;
+
+          await sendQuestionAnsweredEmail({
+            to: row.customer.email,
+            customerName: row.customer.firstName,
+            productName: row.product.name,
+            storeName: row.vendor.storeName,
+            question: updated.body,
+            answer,
+          });
+        } catch {}
+      })();
+    }
+
+    res.json(updated);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PUT /api/questions/:id/moderation { status, note? } (admin; hidden questions leave the product page) */
+router.put("/:id/moderation", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = moderationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "A valid status is required" });
+
+    res.json(
+      await moderateQuestion(String(req.params.id), req.authUser!.id, parsed.data.status, parsed.data.note),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+// server/routes/refunds.ts
+import { Router } from "express";
+import { desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db, orders, refunds } from "../db";
+import { requireRole } from "../auth";
+import { createRefund, getRefundSummary, REFUND_METHODS } from "../refunds";
+
+const router = Router();
+
+/**
+ * GET /api/refunds (Admin report)
+ * Latest refunds plus totals per method.
+ */
+router.get("/", requireRole("admin"), async (_req, res, next) => {
+  try {
+    const rows = await db
+      .select({
+        id: refunds.id,
+        orderId: refunds.orderId,
+        amount: refunds.amount,
+        method: refunds.method,
+        reason: refunds.reason,
+        createdAt: refunds.createdAt,
+        customerName: orders.customerName,
+        orderStatus: orders.status,
+      })
+      .from(refunds)
+      .innerJoin(orders, eq(orders.id, refunds.orderId))
+      .orderBy(desc(refunds.createdAt))
+      .limit(100);
+
+    const totals = await db
+      .select({
+        method: refunds.method,
+        count: sql<number>`count(*)::int`,
+        amount: sql<string>`coalesce(sum(${refunds.amount}), 0)::text`,
+      })
+      .from(refunds)
+      .groupBy(refunds.method);
+
+    res.json({ refunds: rows, totals });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/refunds/order/:orderId (Admin; what can still be refunded + history) */
+router.get("/order/:orderId", requireRole("admin"), async (req, res, next) => {
+  try {
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, String(req.params.orderId)),
+    });
+    if (!order) return res.status(404).json({ message: "Order not found" });
+
+    const summary = await getRefundSummary(db, order);
+    const history = await db.query.refunds.findMany({
+      where: eq(refunds.orderId, order.id),
+      with: { items: true },
+      orderBy: [desc(refunds.createdAt)],
+    });
+    res.json({ ...summary, refunds: history });
+  } catch (err) {
+    next(err);
+  }
+});
+
+const refundBodySchema = z
+  .object({
+    orderId: z.string().min(1),
+    full: z.boolean().optional(),
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.string().min(1),
+          quantity: z.coerce.number().int().min(1),
+        }),
+      )
+      .optional(),
+    includeShipping: z.boolean().optional(),
+    method: z.enum(REFUND_METHODS),
+    reason: z.string().trim().min(3).max(500),
+  })
+  .refine((b) => b.full || b.items?.length || b.includeShipping, {
+    message: "Choose items to refund or a full refund",
+  });
+
+/**
+ * POST /api/refunds (Admin)
+ * Body: { orderId, full? | items?: [{ orderItemId, quantity }], includeShipping?, method, reason }
+ */
+router.post("/", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = refundBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ message: parsed.error.issues[0]?.message ?? "Invalid refund" });
+    }
+
+    const refund = await createRefund({
+      ...parsed.data,
+      actor: { id: req.authUser!.id, role: "admin" },
+    });
+    res.status(201).json(refund);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
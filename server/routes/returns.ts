@@ -0,0 +1,271 @@
+// server/routes/returns.ts
+import express, { Router } from "express";
+import { and, asc, desc, eq, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import {
+  db,
+  orderItems,
+  orders,
+  returnItems,
+  returnPhotos,
+  returnRequests,
+  type ReturnRequest,
+} from "../db";
+import { canActForVendor, requireAuth, requireRole, type SessionUser } from "../auth";
+import { createReturnRequest, getReturnEligibility, transitionReturn } from "../returns";
+import { checkWishlistAlerts } from "../wishlist";
+import { privateFilePath, savePrivateFile, sniffDocumentType } from "../private-files";
+import { isReturnStatus, RETURN_STATUSES } from "../../shared/return-status";
+
+const router = Router();
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+const MAX_PHOTOS_PER_RETURN = 5;
+
+/** Lines, photo ids and store name shown with each return */
+const returnDetails = {
+  items: {
+    columns: { orderItemId: true, quantity: true },
+    with: {
+      orderItem: {
+        columns: { name: true, variantLabel: true, imageUrl: true, price: true, productId: true },
+      },
+    },
+  },
+  photos: {
+    columns: { id: true },
+    orderBy: [asc(returnPhotos.createdAt)],
+  },
+  vendor: { columns: { storeName: true } },
+};
+
+/** The buyer who opened it, the selling vendor, or an admin */
+async function canAccessReturn(user: SessionUser, request: ReturnRequest): Promise<boolean> {
+  if (user.role === "admin") return true;
+  if (request.customerId === user.id) return true;
+  return user.role === "vendor" && (await canActForVendor(user, request.vendorId));
+}
+
+/** GET /api/returns/eligibility/:orderId (buyer; window + returnable quantities) */
+router.get("/eligibility/:orderId", requireAuth, async (req, res, next) => {
+  try {
+    const order = await db.query.orders.findFirst({
+      where: eq(orders.id, String(req.params.orderId)),
+    });
+    if (!order || order.customerId !== req.authUser!.id) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+    res.json(await getReturnEligibility(db, order));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/returns/mine (signed-in buyer's returns, newest first) */
+router.get("/mine", requireAuth, async (req, res, next) => {
+  try {
+    const rows = await db.query.returnRequests.findMany({
+      where: eq(returnRequests.customerId, req.authUser!.id),
+      with: returnDetails,
+      orderBy: [desc(returnRequests.createdAt)],
+    });
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/returns/vendor/:vendorId?status= (Vendor dashboard; owner or admin) */
+router.get(
+  "/vendor/:vendorId",
+  requireRole("vendor", "admin"),
+  async (req, res, next) => {
+    try {
+      const vendorId = String(req.params.vendorId);
+      if (!(await canActForVendor(req.authUser!, vendorId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const status = req.query.status ? String(req.query.status) : undefined;
+      const filters: SQL[] = [eq(returnRequests.vendorId, vendorId)];
+      if (status && isReturnStatus(status)) filters.push(eq(returnRequests.status, status));
+
+      const rows = await db.query.returnRequests.findMany({
+        where: and(...filters),
+        with: {
+          ...returnDetails,
+          order: { columns: { customerName: true, customerPhone: true } },
+        },
+        orderBy: [desc(returnRequests.createdAt)],
+      });
+      res.json(rows);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+const requestBodySchema = z.object({
+  orderId: z.string().min(1),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().min(1),
+        quantity: z.coerce.number().int().min(1),
+      }),
+    )
+    .min(1, "Choose at least one item to return"),
+  reason: z.string().trim().min(3, "Tell the store why you're returning it").max(1000),
+});
+
+/**
+ * POST /api/returns  Body: { orderId, items: [{ orderItemId, quantity }], reason }
+ * The order must be the caller's, delivered, and inside the store's return window.
+ * Photos are attached afterwards with POST /api/returns/:id/photos.
+ */
+router.post("/", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = requestBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ message: parsed.error.issues[0]?.message ?? "Invalid return request" });
+    }
+
+    const request = await createReturnRequest({
+      ...parsed.data,
+      customerId: req.authUser!.id,
+    });
+    res.status(201).json(request);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/returns/:id/photos
+ * Body: the image itself (JPG, PNG or WEBP, ≤ 5 MB); buyer only, while the
+ * return is still awaiting the store's decision.
+ */
+router.post(
+  "/:id/photos",
+  requireAuth,
+  express.raw({ type: () => true, limit: MAX_PHOTO_BYTES }),
+  async (req, res, next) => {
+    try {
+      const request = await db.query.returnRequests.findFirst({
+        where: eq(returnRequests.id, String(req.params.id)),
+        with: { photos: { columns: { id: true } } },
+      });
+      if (!request || request.customerId !== req.authUser!.id) {
+        return res.status(404).json({ message: "Return not found" });
+      }
+      if (request.status !== "requested") {
+        return res.status(409).json({ message: "Photos can only be added before the store decides" });
+      }
+      if (request.photos.length >= MAX_PHOTOS_PER_RETURN) {
+        return res
+          .status(409)
+          .json({ message: `A return can have at most ${MAX_PHOTOS_PER_RETURN} photos` });
+      }
+
+      const file = Buffer.isBuffer(req.body) ? req.body : null;
+      const type = file?.length ? sniffDocumentType(file) : null;
+      if (!file || !type || !type.mime.startsWith("image/")) {
+        return res.status(415).json({ message: "Upload a JPG, PNG or WEBP photo" });
+      }
+
+      const fileKey = await savePrivateFile("return-photos", file, type.ext);
+      const [photo] = await db
+        .insert(returnPhotos)
+        .values({ returnId: request.id, fileKey, mimeType: type.mime, size: file.length })
+        .returning({ id: returnPhotos.id });
+
+      res.status(201).json(photo);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/** GET /api/returns/:id/photos/:photoId (buyer, selling vendor or admin) */
+router.get("/:id/photos/:photoId", requireAuth, async (req, res, next) => {
+  try {
+    const request = await db.query.returnRequests.findFirst({
+      where: eq(returnRequests.id, String(req.params.id)),
+    });
+    if (!request) return res.status(404).json({ message: "Return not found" });
+    if (!(await canAccessReturn(req.authUser!, request))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const photo = await db.query.returnPhotos.findFirst({
+      where: and(
+        eq(returnPhotos.id, String(req.params.photoId)),
+        eq(returnPhotos.returnId, request.id),
+      ),
+    });
+    if (!photo) return res.status(404).json({ message: "Photo not found" });
+
+    res.type(photo.mimeType);
+    res.sendFile(privateFilePath(photo.fileKey), (err) => err && next(err));
+  } catch (err) {
+    next(err);
+  }
+});
+
+const statusBodySchema = z.object({
+  status: z.enum(RETURN_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * PUT /api/returns/:id/status  Body: { status, note? } (selling vendor or admin)
+ * Moves are checked against shared/return-status.ts; "restocked" puts the
+ * returned quantities back into stock.
+ */
+router.put("/:id/status", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = statusBodySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "A valid status is required" });
+    }
+
+    const request = await db.query.returnRequests.findFirst({
+      where: eq(returnRequests.id, String(req.params.id)),
+    });
+    if (!request) return res.status(404).json({ message: "Return not found" });
+
+    const me = req.authUser!;
+    if (!(await canActForVendor(me, request.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    const updated = await transitionReturn(
+      request.id,
+      parsed.data.status,
+      { id: me.id, role: me.role === "admin" ? "admin" : "vendor" },
+      parsed.data.note,
+    );
+
+    // fire-and-forget back-in-stock alerts for the restocked items
+    if (updated.status === "restocked") {
+      (async () => {
+        try {
+          const items = await db
+            .select({ productId: orderItems.productId })
+            .from(returnItems)
+            .innerJoin(orderItems, eq(orderItems.id, returnItems.orderItemId))
+            .where(eq(returnItems.returnId, updated.id));
+          await checkWishlistAlerts(items.map((i) => i.productId));
+        } catch {}
+      })();
+    }
+
+    res.json(updated);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,155 @@
+// server/routes/reviews.ts
+import express, { Router } from "express";
+import { and, count, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db, reviewPhotos, reviews } from "../db";
+import { canActForVendor, requireAuth, requireRole } from "../auth";
+import { MAX_IMAGE_BYTES, storeProductImage } from "../images";
+import {
+  getRatingSummary,
+  listManagedReviews,
+  moderateReview,
+  replyToReview,
+} from "../reviews";
+import { MAX_REVIEW_PHOTOS, REVIEW_STATUSES, isReviewStatus } from "../../shared/reviews";
+
+// mounted at /api/reviews; writing and listing a product's reviews lives in
+// routes/product-reviews.ts
+const router = Router();
+
+const replySchema = z.object({
+  reply: z.string().trim().max(1000).nullable(),
+});
+
+const moderationSchema = z.object({
+  status: z.enum(REVIEW_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+/** GET /api/reviews?status= (admin moderation list, newest first) */
+router.get("/", requireRole("admin"), async (req, res, next) => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+    res.json(await listManagedReviews({ status: status && isReviewStatus(status) ? status : undefined }));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/reviews/vendor/:vendorId (Vendor dashboard; owner or admin) → { summary, reviews } */
+router.get("/vendor/:vendorId", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const vendorId = String(req.params.vendorId);
+    if (!(await canActForVendor(req.authUser!, vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    const [summary, rows] = await Promise.all([
+      getRatingSummary(db, { vendorId }),
+      listManagedReviews({ vendorId }),
+    ]);
+    res.json({ summary, reviews: rows });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PUT /api/reviews/:id/reply { reply } (selling vendor or admin; null or "" removes it) */
+router.put("/:id/reply", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const parsed = replySchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Replies are at most 1000 characters" });
+
+    const review = await db.query.reviews.findFirst({
+      where: eq(reviews.id, String(req.params.id)),
+      columns: { id: true, vendorId: true },
+    });
+    if (!review) return res.status(404).json({ message: "Review not found" });
+    if (!(await canActForVendor(req.authUser!, review.vendorId))) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
+    res.json(await replyToReview(review.id, parsed.data.reply || null));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PUT /api/reviews/:id/moderation { status, note? } (admin; hidden reviews leave the ratings) */
+router.put("/:id/moderation", requireRole("admin"), async (req, res, next) => {
+  try {
+    const parsed = moderationSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "A valid status is required" });
+
+    res.json(
+      await moderateReview(String(req.params.id), req.authUser!.id, parsed.data.status, parsed.data.note),
+    );
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/reviews/:id/photos
+ * Body: the image itself (JPG, PNG or WEBP, ≤ 8 MB); the author only.
+ * Stored publicly like product images. Returns the new { id, url }.
+ */
+router.post(
+  "/:id/photos",
+  requireAuth,
+  express.raw({ type: () => true, limit: MAX_IMAGE_BYTES }),
+  async (req, res, next) => {
+    try {
+      const review = await db.query.reviews.findFirst({
+        where: eq(reviews.id, String(req.params.id)),
+        columns: { id: true, customerId: true },
+      });
+      if (!review || review.customerId !== req.authUser!.id) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      const [photos] = await db
+        .select({ n: count() })
+        .from(reviewPhotos)
+        .where(eq(reviewPhotos.reviewId, review.id));
+      if (photos.n >= MAX_REVIEW_PHOTOS) {
+        return res
+          .status(409)
+          .json({ message: `A review can have at most ${MAX_REVIEW_PHOTOS} photos` });
+      }
+
+      const file = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const image = await storeProductImage(file, "reviews");
+      const [photo] = await db
+        .insert(reviewPhotos)
+        .values({ reviewId: review.id, url: image.url })
+        .returning({ id: reviewPhotos.id, url: reviewPhotos.url });
+      res.status(201).json(photo);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/** DELETE /api/reviews/:id/photos/:photoId (the author) */
+router.delete("/:id/photos/:photoId", requireAuth, async (req, res, next) => {
+  try {
+    const review = await db.query.reviews.findFirst({
+      where: eq(reviews.id, String(req.params.id)),
+      columns: { id: true, customerId: true },
+    });
+    if (!review || review.customerId !== req.authUser!.id) {
+      return res.status(404).json({ message: "Review not found" });
+    }
+
+    const removed = await db
+      .delete(reviewPhotos)
+      .where(and(eq(reviewPhotos.id, String(req.params.photoId)), eq(reviewPhotos.reviewId, review.id)))
+      .returning({ id: reviewPhotos.id });
+    if (!removed.length) return res.status(404).json({ message: "Photo not found" });
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
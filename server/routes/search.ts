@@ -0,0 +1,31 @@
+// server/routes/search.ts
+import { Router } from "express";
+import { z } from "zod";
+import { searchProducts } from "../search";
+import { SEARCH_MAX_QUERY } from "../../shared/search";
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(SEARCH_MAX_QUERY),
+  limit: z.coerce.number().int().min(1).max(50).default(24),
+});
+
+/**
+ * GET /api/search?q=&limit= (public)
+ * Ranked active products with highlighted name/description (shared/search.ts).
+ */
+router.get("/", async (req, res, next) => {
+  try {
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Enter a search term" });
+    }
+    const { q, limit } = parsed.data;
+    res.json({ query: q, results: await searchProducts(q, limit) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
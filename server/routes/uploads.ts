@@ -0,0 +1,39 @@
+// server/routes/uploads.ts
+import express, { Router } from "express";
+import { getVendorForUser, requireRole } from "../auth";
+import { MAX_IMAGE_BYTES, storeProductImage } from "../images";
+
+const router = Router();
+
+/**
+ * POST /api/uploads
+ * Body: the image itself (JPG, PNG or WEBP, ≤ 8 MB); approved vendors and admins.
+ * Returns { url, thumbnails: { 320, 640 }, width, height } — `url` goes into
+ * products.imageUrl.
+ */
+router.post(
+  "/",
+  requireRole("vendor", "admin"),
+  express.raw({ type: () => true, limit: MAX_IMAGE_BYTES }),
+  async (req, res, next) => {
+    try {
+      const me = req.authUser!;
+      if (me.role === "vendor") {
+        const vendor = await getVendorForUser(me.id);
+        if (!vendor?.isApproved) {
+          return res
+            .status(403)
+            .json({ message: "Your store must be approved before uploading images" });
+        }
+      }
+
+      const file = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const image = await storeProductImage(file);
+      res.status(201).json(image);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+export default router;
@@ -1,11 +1,12 @@
 import { Router } from "express";
 import { db, vendors, users } from "../db";
 import { desc, eq } from "drizzle-orm";
+import { requireRole } from "../auth";
 
 const router = Router();
 
 /** GET /api/vendor-requests  -> list pending as “applications” */
-router.get("/", async (_req, res, next) => {
+router.get("/", requireRole("admin"), async (_req, res, next) => {
   try {
     const rows = await db
       .select({
@@ -28,7 +29,7 @@ router.get("/", async (_req, res, next) => {
 });
 
 /** PATCH /api/vendor-requests/:id/approve -> approve vendor */
-router.patch("/:id/approve", async (req, res, next) => {
+router.patch("/:id/approve", requireRole("admin"), async (req, res, next) => {
   try {
     const id = String(req.params.id);
     const [v] = await db
@@ -51,7 +52,7 @@ router.patch("/:id/approve", async (req, res, next) => {
 });
 
 /** PATCH /api/vendor-requests/:id/reject -> keep pending=false (no-op), return ok */
-router.patch("/:id/reject", async (req, res, next) => {
+router.patch("/:id/reject", requireRole("admin"), async (req, res, next) => {
   try {
     // You could also delete the row or add a separate status column.
     res.json({ ok: true });
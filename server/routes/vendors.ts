@@ -1,57 +1,73 @@
 import { Router } from "express";
-import { db, users, vendors } from "../db";
+import { db, products, users, vendors } from "../db";
 import { desc, eq } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import crypto from "node:crypto";
+import { z } from "zod";
+import {
+  canActForVendor,
+  getSessionUser,
+  getVendorForUser,
+  requireAuth,
+  requireRole,
+} from "../auth";
 
 const router = Router();
 
 /**
  * POST /api/vendors/apply
- * Body: { storeName, email?, phone?, address?, description?, userId? }
- * - If userId is missing and email exists:
- *     * link to existing user with that email, or
+ * Body: { storeName, email?, phone?, address?, description? }
+ * - Signed-in callers apply for their own account (the session decides, not the body).
+ * - Otherwise, with an email:
+ *     * an email that already has an account must sign in first, else
  *     * create a minimal user with a random password.
- * - Store the application in `vendors` with isApproved=false.
+ * - Store the application in `vendors` with isApproved=false; the phone is
+ *   the store's WhatsApp number for notifications.
  */
 router.post("/apply", async (req, res, next) => {
   try {
-    const { storeName, email, phone, address, description, userId } =
-      req.body ?? {};
+    const { storeName, email, phone, address, description } = req.body ?? {};
 
     if (!storeName) {
       return res.status(400).json({ message: "storeName is required" });
     }
+    if (phone !== undefined && (typeof phone !== "string" || phone.length > 40)) {
+      return res.status(400).json({ message: "phone looks invalid" });
+    }
+    const storePhone = phone?.trim() || null;
 
-    let ownerId: string | null = userId ?? null;
+    const sessionUser = await getSessionUser(req);
+    let ownerId: string | null = sessionUser?.id ?? null;
 
     if (!ownerId) {
       if (!email) {
         return res
           .status(400)
-          .json({ message: "email is required when userId is missing" });
+          .json({ message: "email is required when not signed in" });
       }
 
-      // link to existing user by email or create a minimal one
+      // anonymous callers may not act on someone else's account
       const existing = await db.query.users.findFirst({
         where: eq(users.email, email),
       });
 
       if (existing) {
-        ownerId = existing.id;
-      } else {
-        const hashed = await bcrypt.hash(crypto.randomUUID(), 10);
-        const inserted = await db
-          .insert(users)
-          .values({
-            email,
-            password: hashed,
-            firstName: "Vendor",
-            lastName: "Applicant",
-          })
-          .returning({ id: users.id });
-        ownerId = inserted[0].id;
+        return res
+          .status(401)
+          .json({ message: "Please sign in to apply with this email" });
       }
+
+      const hashed = await bcrypt.hash(crypto.randomUUID(), 10);
+      const inserted = await db
+        .insert(users)
+        .values({
+          email,
+          password: hashed,
+          firstName: "Vendor",
+          lastName: "Applicant",
+        })
+        .returning({ id: users.id });
+      ownerId = inserted[0].id;
     }
 
     // Upsert: if a vendor row already exists for this user, refresh it and pend again
@@ -65,6 +81,7 @@ router.post("/apply", async (req, res, next) => {
         .set({
           storeName,
           description: description ?? already.description ?? "",
+          phone: storePhone ?? already.phone,
           isApproved: false,
         })
         .where(eq(vendors.id, already.id));
@@ -77,6 +94,7 @@ router.post("/apply", async (req, res, next) => {
         userId: ownerId!,
         storeName,
         description: description ?? "",
+        phone: storePhone,
         isApproved: false,
       })
       .returning({ id: vendors.id });
@@ -88,7 +106,7 @@ router.post("/apply", async (req, res, next) => {
 });
 
 /** GET /api/vendors/pending */
-router.get("/pending", async (_req, res, next) => {
+router.get("/pending", requireRole("admin"), async (_req, res, next) => {
   try {
     const rows = await db
       .select()
@@ -102,7 +120,7 @@ router.get("/pending", async (_req, res, next) => {
 });
 
 /** PATCH /api/vendors/:id/approve */
-router.patch("/:id/approve", async (req, res, next) => {
+router.patch("/:id/approve", requireRole("admin"), async (req, res, next) => {
   try {
     const id = String(req.params.id);
     const [v] = await db
@@ -125,8 +143,78 @@ router.patch("/:id/approve", async (req, res, next) => {
   }
 });
 
-/** GET /api/vendors/user?userId=... OR ?email=... */
-router.get("/user", async (req, res, next) => {
+/** GET /api/vendors/me -> the signed-in user's vendor row (any approval state) */
+router.get("/me", requireAuth, async (req, res, next) => {
+  try {
+    const row = await getVendorForUser(req.authUser!.id);
+    if (!row) return res.status(404).json({ message: "Not found" });
+    res.json(row);
+  } catch (err) {
+    next(err);
+  }
+});
+
+const returnPolicySchema = z.object({
+  returnWindowDays: z.coerce.number().int().min(0).max(90),
+});
+
+/** PATCH /api/vendors/:id/return-policy  Body: { returnWindowDays } (owner or admin; 0 = no returns) */
+router.patch(
+  "/:id/return-policy",
+  requireRole("vendor", "admin"),
+  async (req, res, next) => {
+    try {
+      const id = String(req.params.id);
+      if (!(await canActForVendor(req.authUser!, id))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const parsed = returnPolicySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res
+          .status(400)
+          .json({ message: "returnWindowDays must be between 0 and 90" });
+      }
+
+      const [row] = await db
+        .update(vendors)
+        .set({ returnWindowDays: parsed.data.returnWindowDays })
+        .where(eq(vendors.id, id))
+        .returning({ id: vendors.id, returnWindowDays: vendors.returnWindowDays });
+      if (!row) return res.status(404).json({ message: "Not found" });
+      res.json(row);
+    } catch (err) {
+      next(err);
+    }
+  },
+);
+
+/**
+ * GET /api/vendors/:id/products (owner or admin)
+ * Every product of the store, inactive ones included, for the dashboard.
+ * Unlike writes, the owner may look before the store is approved.
+ */
+router.get("/:id/products", requireRole("vendor", "admin"), async (req, res, next) => {
+  try {
+    const id = String(req.params.id);
+    const me = req.authUser!;
+    const isOwner = me.role === "vendor" && (await getVendorForUser(me.id))?.id === id;
+    if (me.role !== "admin" && !isOwner) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    const rows = await db
+      .select()
+      .from(products)
+      .where(eq(products.vendorId, id))
+      .orderBy(desc(products.createdAt));
+    res.json(rows);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** GET /api/vendors/user?userId=... OR ?email=... (self or admin) */
+router.get("/user", requireAuth, async (req, res, next) => {
   try {
     const userId = req.query.userId ? String(req.query.userId) : undefined;
     const email = req.query.email ? String(req.query.email) : undefined;
@@ -134,6 +222,12 @@ router.get("/user", async (req, res, next) => {
       return res.status(400).json({ message: "Provide userId or email" });
     }
 
+    const me = req.authUser!;
+    const isSelf = userId ? userId === me.id : email === me.email;
+    if (!isSelf && me.role !== "admin") {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+
     let row = null;
     if (userId) {
       row = await db.query.vendors.findFirst({
@@ -156,16 +250,18 @@ router.get("/user", async (req, res, next) => {
   }
 });
 
-/** GET /api/vendors (approved only unless ?all=1) */
+/** GET /api/vendors (approved only unless ?all=1, which is admin-only) */
 router.get("/", async (req, res, next) => {
   try {
-    const all = req.query.all === "1" || req.query.all === "true";
+    const wantsAll = req.query.all === "1" || req.query.all === "true";
+    const all = wantsAll && (await getSessionUser(req))?.role === "admin";
     const rows = await db
       .select()
       .from(vendors)
       .where(all ? undefined : eq(vendors.isApproved, true))
       .orderBy(desc(vendors.createdAt));
-    res.json(rows);
+    // the store's notification number stays private
+    res.json(all ? rows : rows.map(({ phone, ...v }) => v));
   } catch (err) {
     next(err);
   }
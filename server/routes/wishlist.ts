@@ -0,0 +1,74 @@
+// server/routes/wishlist.ts
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth } from "../auth";
+import {
+  addToWishlist,
+  listWishlist,
+  removeFromWishlist,
+  updateWishlistAlerts,
+} from "../wishlist";
+
+// mounted at /api/wishlist; the signed-in buyer's own wishlist
+const router = Router();
+
+const alertsSchema = z.object({
+  notifyPriceDrop: z.boolean().optional(),
+  notifyBackInStock: z.boolean().optional(),
+});
+
+const addSchema = alertsSchema.extend({
+  productId: z.string().min(1),
+  variantId: z.string().min(1).nullish(),
+  priceEach: z.coerce.number().nonnegative().optional(),
+});
+
+/** GET /api/wishlist → WishlistEntry[] (newest first) */
+router.get("/", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await listWishlist(req.authUser!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/wishlist { productId, variantId?, priceEach?, notifyPriceDrop?, notifyBackInStock? }
+ * Bookmarks a product, or saves a cart line for later with its variant and
+ * price. Saving the same item again returns it (200) instead of a new one (201).
+ */
+router.post("/", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = addSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid item" });
+    }
+    const { entry, created } = await addToWishlist(req.authUser!.id, parsed.data);
+    res.status(created ? 201 : 200).json(entry);
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** PATCH /api/wishlist/:id { notifyPriceDrop?, notifyBackInStock? } */
+router.patch("/:id", requireAuth, async (req, res, next) => {
+  try {
+    const parsed = alertsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ message: "Invalid alert settings" });
+    res.json(await updateWishlistAlerts(req.authUser!.id, String(req.params.id), parsed.data));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/** DELETE /api/wishlist/:id */
+router.delete("/:id", requireAuth, async (req, res, next) => {
+  try {
+    await removeFromWishlist(req.authUser!.id, String(req.params.id));
+    res.json({ ok: true });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
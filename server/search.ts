@@ -0,0 +1,109 @@
+// server/search.ts
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { log } from "./vite";
+import type { HighlightSegment, SearchResult } from "../shared/search";
+
+// ts_headline marks matches with these (private-use code points that don't
+// occur in product text); toSegments() turns them into HighlightSegment[]
+const START = "\uE000";
+const STOP = "\uE001";
+
+/** Below this word similarity a name doesn't count as a typo match */
+const MIN_NAME_SIMILARITY = 0.35;
+
+let trigramReady: Promise<boolean> | null = null;
+
+/**
+ * pg_trgm powers typo tolerance (similarity on product names). db:prepare
+ * installs it; this covers databases set up without it, and without it (no
+ * privilege) search falls back to full-text only.
+ */
+function ensureTrigram(): Promise<boolean> {
+  trigramReady ??= db
+    .execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`)
+    .then(() => true)
+    .catch((err) => {
+      log(`pg_trgm unavailable, typo tolerance disabled: ${err?.message ?? err}`, "search");
+      return false;
+    });
+  return trigramReady;
+}
+
+function toSegments(marked: string | null): HighlightSegment[] {
+  if (!marked) return [];
+  const segments: HighlightSegment[] = [];
+  for (const part of marked.split(START)) {
+    const stop = part.indexOf(STOP);
+    if (stop === -1) {
+      if (part) segments.push({ text: part, match: false });
+      continue;
+    }
+    segments.push({ text: part.slice(0, stop), match: true });
+    if (stop + 1 < part.length) segments.push({ text: part.slice(stop + 1), match: false });
+  }
+  return segments;
+}
+
+type SearchRow = {
+  id: string;
+  name: string;
+  price: string;
+  stock: number;
+  image_url: string;
+  has_variants: boolean;
+  vendor_id: string;
+  store_name: string;
+  category_id: string;
+  category_name: string;
+  score: number | string;
+  name_hl: string | null;
+  description_hl: string | null;
+};
+
+/**
+ * Active products matching `query`, best first. Full-text search covers the
+ * product name (weight A), description (B), category and store name (C);
+ * with pg_trgm a misspelt product name still matches by similarity.
+ */
+export async function searchProducts(query: string, limit: number): Promise<SearchResult[]> {
+  const trigram = await ensureTrigram();
+  const tsq = sql`websearch_to_tsquery('english', ${query})`;
+  // same expression as products_search_idx (shared/schema.ts)
+  const productDoc = sql`(setweight(to_tsvector('english', p.name), 'A') || setweight(to_tsvector('english', p.description), 'B'))`;
+  const doc = sql`(${productDoc} || setweight(to_tsvector('english', c.name || ' ' || v.store_name), 'C'))`;
+  const nameSimilarity = trigram ? sql`word_similarity(${query}, p.name)` : sql`0`;
+  const headline = (column: SQL, extra: string) =>
+    sql`ts_headline('english', ${column}, ${tsq}, ${`StartSel="${START}", StopSel="${STOP}", ${extra}`})`;
+
+  const { rows } = await db.execute<SearchRow>(sql`
+    SELECT p.id, p.name, p.price, p.stock, p.image_url, p.has_variants,
+           p.vendor_id, v.store_name, p.category_id, c.name AS category_name,
+           (ts_rank_cd(${doc}, ${tsq}) * 2 + ${nameSimilarity}) AS score,
+           ${headline(sql`p.name`, "HighlightAll=true")} AS name_hl,
+           ${headline(sql`p.description`, "MaxFragments=2, MaxWords=25, MinWords=10")} AS description_hl
+    FROM products p
+    JOIN vendors v ON v.id = p.vendor_id
+    JOIN categories c ON c.id = p.category_id
+    WHERE p.is_active
+      AND v.is_approved
+      AND (${doc} @@ ${tsq} OR ${nameSimilarity} >= ${MIN_NAME_SIMILARITY})
+    ORDER BY score DESC, p.created_at DESC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    price: r.price,
+    stock: r.stock,
+    imageUrl: r.image_url,
+    hasVariants: r.has_variants,
+    vendorId: r.vendor_id,
+    storeName: r.store_name,
+    categoryId: r.category_id,
+    categoryName: r.category_name,
+    score: Number(r.score),
+    highlight: { name: toSegments(r.name_hl), description: toSegments(r.description_hl) },
+  }));
+}
@@ -5,6 +5,7 @@ import {
   type Order, type InsertOrder, type OrderItem, type InsertOrderItem,
   type CartItem, type InsertCartItem
 } from "@shared/schema";
+import { slugify } from "@shared/categories";
 import { db } from "./db";
 import { eq, and, desc, asc } from "drizzle-orm";
 
@@ -93,7 +94,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const [category] = await db.insert(categories).values(insertCategory).returning();
+    const [category] = await db
+      .insert(categories)
+      .values({ ...insertCategory, slug: insertCategory.slug || slugify(insertCategory.name) })
+      .returning();
     return category;
   }
 
@@ -0,0 +1,236 @@
+// server/variants.ts
+import { and, asc, eq, notInArray } from "drizzle-orm";
+import { z } from "zod";
+import { db, productOptions, productVariants, products } from "./db";
+import type { Tx } from "./inventory";
+import {
+  MAX_OPTION_VALUES,
+  MAX_OPTIONS,
+  MAX_VARIANTS,
+  sameOptions,
+  type ProductVariantsResponse,
+} from "../shared/variants";
+
+/** Rejected variant set; the central error handler uses `status` */
+export class VariantError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const optionName = z.string().trim().min(1).max(40);
+const optionValue = z.string().trim().min(1).max(60);
+
+/** PUT /api/products/:productId/variants body: the complete set, replacing the old one */
+export const variantSetSchema = z.object({
+  options: z
+    .array(
+      z.object({
+        name: optionName,
+        values: z.array(optionValue).min(1).max(MAX_OPTION_VALUES),
+      }),
+    )
+    .max(MAX_OPTIONS),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().optional(), // keep the id (and order history link) of an existing variant
+        sku: z.string().trim().min(1).max(64),
+        options: z.record(optionName, optionValue),
+        price: z.coerce.number().nonnegative(),
+        stock: z.coerce.number().int().min(0),
+        imageUrl: z.string().trim().max(2048).nullish(),
+        isActive: z.boolean().default(true),
+      }),
+    )
+    .max(MAX_VARIANTS),
+});
+
+export type VariantSetInput = z.infer<typeof variantSetSchema>;
+
+/** Options (in order) and variants of a product; inactive variants included */
+export async function getVariants(
+  q: Tx | typeof db,
+  productId: string,
+): Promise<ProductVariantsResponse> {
+  const options = await q
+    .select({ name: productOptions.name, values: productOptions.values })
+    .from(productOptions)
+    .where(eq(productOptions.productId, productId))
+    .orderBy(asc(productOptions.position));
+  const variants = await q
+    .select({
+      id: productVariants.id,
+      sku: productVariants.sku,
+      options: productVariants.options,
+      price: productVariants.price,
+      stock: productVariants.stock,
+      imageUrl: productVariants.imageUrl,
+      isActive: productVariants.isActive,
+    })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId))
+    .orderBy(asc(productVariants.position));
+  return { options, variants };
+}
+
+/** Option names unique, values unique per option; every variant a distinct, valid combination */
+function validateVariantSet(input: VariantSetInput): void {
+  const names = input.options.map((o) => o.name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    throw new VariantError("Option names must be unique");
+  }
+  for (const o of input.options) {
+    if (new Set(o.values.map((v) => v.toLowerCase())).size !== o.values.length) {
+      throw new VariantError(`"${o.name}" lists the same value twice`);
+    }
+  }
+  if (!input.options.length && input.variants.length) {
+    throw new VariantError("Add at least one option before adding variants");
+  }
+  if (input.options.length && !input.variants.length) {
+    throw new VariantError("Add at least one variant for these options");
+  }
+
+  const skus = new Set<string>();
+  input.variants.forEach((v, i) => {
+    const keys = Object.keys(v.options);
+    const valid =
+      keys.length === input.options.length &&
+      input.options.every((o) => o.values.includes(v.options[o.name]));
+    if (!valid) {
+      throw new VariantError(`Variant ${v.sku} must pick one value for each option`);
+    }
+    if (input.variants.slice(0, i).some((other) => sameOptions(other.options, v.options))) {
+      throw new VariantError(`Two variants have the same options as ${v.sku}`);
+    }
+    const sku = v.sku.toLowerCase();
+    if (skus.has(sku)) throw new VariantError(`SKU ${v.sku} is used twice`);
+    skus.add(sku);
+  });
+}
+
+/**
+ * Keep products.price / stock / hasVariants in line with the active
+ * variants, so cards, filters and the product-level stock badge keep working.
+ * A product stays variant-based while it has any variant rows; with none
+ * active it shows as out of stock. No-op for products without variants.
+ */
+export async function syncVariantSummary(tx: Tx, productId: string): Promise<void> {
+  const all = await tx
+    .select({
+      price: productVariants.price,
+      stock: productVariants.stock,
+      isActive: productVariants.isActive,
+    })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId));
+
+  const [product] = await tx
+    .select({ hasVariants: products.hasVariants })
+    .from(products)
+    .where(eq(products.id, productId));
+  if (!product) return;
+
+  if (!all.length) {
+    if (product.hasVariants) {
+      // the variant set was emptied: back to a plain product; price/stock
+      // stay at their last values
+      await tx.update(products).set({ hasVariants: false }).where(eq(products.id, productId));
+    }
+    return;
+  }
+
+  const rows = all.filter((r) => r.isActive);
+  if (!rows.length) {
+    // every variant switched off: nothing to sell, price stays as it was
+    await tx
+      .update(products)
+      .set({ hasVariants: true, stock: 0 })
+      .where(eq(products.id, productId));
+    return;
+  }
+
+  await tx
+    .update(products)
+    .set({
+      hasVariants: true,
+      price: Math.min(...rows.map((r) => Number(r.price))).toFixed(2),
+      stock: rows.reduce((sum, r) => sum + r.stock, 0),
+    })
+    .where(eq(products.id, productId));
+}
+
+/** Postgres unique_violation */
+const isUniqueViolation = (err: unknown) =>
+  (err as { code?: string } | null)?.code === "23505";
+
+/**
+ * Replace a product's options and variants. Variants sent with their `id`
+ * are updated in place; the rest are created, and missing ones deleted
+ * (order items keep their snapshot, their variantId is nulled).
+ */
+export async function replaceVariants(
+  productId: string,
+  input: VariantSetInput,
+): Promise<ProductVariantsResponse> {
+  validateVariantSet(input);
+
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productOptions).where(eq(productOptions.productId, productId));
+      if (input.options.length) {
+        await tx.insert(productOptions).values(
+          input.options.map((o, position) => ({ productId, ...o, position })),
+        );
+      }
+
+      const existing = await tx
+        .select({ id: productVariants.id })
+        .from(productVariants)
+        .where(eq(productVariants.productId, productId));
+      const existingIds = new Set(existing.map((v) => v.id));
+      const keptIds = input.variants.flatMap((v) => (v.id && existingIds.has(v.id) ? [v.id] : []));
+
+      await tx
+        .delete(productVariants)
+        .where(
+          keptIds.length
+            ? and(eq(productVariants.productId, productId), notInArray(productVariants.id, keptIds))
+            : eq(productVariants.productId, productId),
+        );
+
+      // free the SKUs of kept variants first so two of them can swap SKUs
+      for (const id of keptIds) {
+        await tx.update(productVariants).set({ sku: `~${id}` }).where(eq(productVariants.id, id));
+      }
+
+      for (const [position, v] of Array.from(input.variants.entries())) {
+        const values = {
+          sku: v.sku,
+          options: v.options,
+          price: v.price.toFixed(2),
+          stock: v.stock,
+          imageUrl: v.imageUrl || null,
+          isActive: v.isActive,
+          position,
+        };
+        if (v.id && existingIds.has(v.id)) {
+          await tx.update(productVariants).set(values).where(eq(productVariants.id, v.id));
+        } else {
+          await tx.insert(productVariants).values({ productId, ...values });
+        }
+      }
+
+      await syncVariantSummary(tx, productId);
+      return getVariants(tx, productId);
+    });
+  } catch (err) {
+    if (isUniqueViolation(err)) {
+      throw new VariantError("One of these SKUs is already used by another product", 409);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,239 @@
+// server/wishlist.ts
+import { and, count, desc, eq, inArray, isNull } from "drizzle-orm";
+import {
+  db,
+  products,
+  productVariants,
+  wishlistItems,
+  type Product,
+  type ProductVariant,
+  type WishlistItem,
+} from "./db";
+import { money } from "./pricing";
+import { sendWishlistAlertEmail, type WishlistAlertEmail } from "./email";
+import { variantLabel } from "../shared/variants";
+import { MAX_WISHLIST_ITEMS, type WishlistEntry } from "../shared/wishlist";
+
+/** Rejected wishlist change; the central error handler uses `status` */
+export class WishlistError extends Error {
+  status: number;
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type WishlistRow = WishlistItem & { product: Product; variant: ProductVariant | null };
+
+/** Unit price and availability of the saved product or variant right now */
+function currentState(row: { product: Product; variant: ProductVariant | null }) {
+  const { product, variant } = row;
+  const price = money(Number(variant ? variant.price : product.price));
+  const active = product.isActive && variant?.isActive !== false;
+  const stock = variant ? variant.stock : product.stock;
+  return { price, inStock: active && stock > 0 };
+}
+
+function toEntry(row: WishlistRow): WishlistEntry {
+  const { product, variant } = row;
+  const { price, inStock } = currentState(row);
+  return {
+    id: row.id,
+    productId: row.productId,
+    variantId: row.variantId,
+    variant: variant
+      ? {
+          id: variant.id,
+          sku: variant.sku,
+          options: variant.options,
+          price: variant.price,
+          imageUrl: variant.imageUrl,
+        }
+      : null,
+    variantLabel: variant ? variantLabel(variant.options) : null,
+    priceAtAdd: money(Number(row.priceAtAdd)),
+    currentPrice: price,
+    inStock,
+    notifyPriceDrop: row.notifyPriceDrop,
+    notifyBackInStock: row.notifyBackInStock,
+    createdAt: row.createdAt.toISOString(),
+    product,
+  };
+}
+
+/** The buyer's wishlist, newest first */
+export async function listWishlist(userId: string): Promise<WishlistEntry[]> {
+  const rows = await db.query.wishlistItems.findMany({
+    where: eq(wishlistItems.userId, userId),
+    with: { product: true, variant: true },
+    orderBy: [desc(wishlistItems.createdAt), desc(wishlistItems.id)],
+  });
+  return rows.map(toEntry);
+}
+
+async function getEntry(userId: string, id: string): Promise<WishlistEntry> {
+  const row = await db.query.wishlistItems.findFirst({
+    where: and(eq(wishlistItems.id, id), eq(wishlistItems.userId, userId)),
+    with: { product: true, variant: true },
+  });
+  if (!row) throw new WishlistError("Wishlist item not found", 404);
+  return toEntry(row);
+}
+
+export type WishlistInput = {
+  productId: string;
+  variantId?: string | null;
+  /** Price the buyer saw (e.g. a cart line's snapshot); defaults to the current price */
+  priceEach?: number;
+  notifyPriceDrop?: boolean;
+  notifyBackInStock?: boolean;
+};
+
+/**
+ * Bookmark a product (or save a variant) for the buyer. Saving the same
+ * product and variant again returns the existing item, with any alert
+ * settings sent applied.
+ */
+export async function addToWishlist(
+  userId: string,
+  input: WishlistInput,
+): Promise<{ entry: WishlistEntry; created: boolean }> {
+  const product = await db.query.products.findFirst({
+    where: eq(products.id, input.productId),
+  });
+  if (!product) throw new WishlistError("Product not found", 404);
+
+  let variant: ProductVariant | null = null;
+  if (input.variantId) {
+    variant =
+      (await db.query.productVariants.findFirst({
+        where: and(eq(productVariants.id, input.variantId), eq(productVariants.productId, product.id)),
+      })) ?? null;
+    if (!variant) throw new WishlistError("Variant not found", 404);
+  }
+
+  const alerts = {
+    ...(input.notifyPriceDrop !== undefined && { notifyPriceDrop: input.notifyPriceDrop }),
+    ...(input.notifyBackInStock !== undefined && { notifyBackInStock: input.notifyBackInStock }),
+  };
+  const { price, inStock } = currentState({ product, variant });
+
+  const { id, created } = await db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select({ id: wishlistItems.id })
+      .from(wishlistItems)
+      .where(
+        and(
+          eq(wishlistItems.userId, userId),
+          eq(wishlistItems.productId, product.id),
+          variant ? eq(wishlistItems.variantId, variant.id) : isNull(wishlistItems.variantId),
+        ),
+      );
+    if (existing) {
+      if (Object.keys(alerts).length) {
+        await tx.update(wishlistItems).set(alerts).where(eq(wishlistItems.id, existing.id));
+      }
+      return { id: existing.id, created: false };
+    }
+
+    const [{ n }] = await tx
+      .select({ n: count() })
+      .from(wishlistItems)
+      .where(eq(wishlistItems.userId, userId));
+    if (n >= MAX_WISHLIST_ITEMS) {
+      throw new WishlistError(`A wishlist holds at most ${MAX_WISHLIST_ITEMS} items`);
+    }
+
+    const [row] = await tx
+      .insert(wishlistItems)
+      .values({
+        userId,
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        priceAtAdd: money(input.priceEach ?? price).toFixed(2),
+        lastPrice: price.toFixed(2),
+        lastInStock: inStock,
+        ...alerts,
+      })
+      .returning({ id: wishlistItems.id });
+    return { id: row.id, created: true };
+  });
+
+  return { entry: await getEntry(userId, id), created };
+}
+
+/** Turn the item's price-drop / back-in-stock emails on or off */
+export async function updateWishlistAlerts(
+  userId: string,
+  id: string,
+  alerts: { notifyPriceDrop?: boolean; notifyBackInStock?: boolean },
+): Promise<WishlistEntry> {
+  if (Object.keys(alerts).length) {
+    await db
+      .update(wishlistItems)
+      .set(alerts)
+      .where(and(eq(wishlistItems.id, id), eq(wishlistItems.userId, userId)));
+  }
+  return getEntry(userId, id);
+}
+
+export async function removeFromWishlist(userId: string, id: string): Promise<void> {
+  const removed = await db
+    .delete(wishlistItems)
+    .where(and(eq(wishlistItems.id, id), eq(wishlistItems.userId, userId)))
+    .returning({ id: wishlistItems.id });
+  if (!removed.length) throw new WishlistError("Wishlist item not found", 404);
+}
+
+/**
+ * After prices or stock of these products changed: email the buyers who
+ * asked to hear about a price drop or a restock, one email per buyer.
+ * Every item's last seen price and availability are brought up to date, so
+ * each change is announced once. Call after the change has committed.
+ */
+export async function checkWishlistAlerts(productIds: string[]): Promise<void> {
+  const ids = Array.from(new Set(productIds));
+  if (!ids.length) return;
+
+  const rows = await db.query.wishlistItems.findMany({
+    where: inArray(wishlistItems.productId, ids),
+    with: {
+      product: true,
+      variant: true,
+      user: { columns: { email: true, firstName: true } },
+    },
+  });
+
+  const emails = new Map<string, WishlistAlertEmail>();
+  for (const row of rows) {
+    const { price, inStock } = currentState(row);
+    const lastPrice = money(Number(row.lastPrice));
+    if (price === lastPrice && inStock === row.lastInStock) continue;
+
+    await db
+      .update(wishlistItems)
+      .set({ lastPrice: price.toFixed(2), lastInStock: inStock })
+      .where(eq(wishlistItems.id, row.id));
+
+    const name = row.variant
+      ? `${row.product.name} (${variantLabel(row.variant.options)})`
+      : row.product.name;
+    let alert: WishlistAlertEmail["items"][number] | null = null;
+    if (row.notifyBackInStock && inStock && !row.lastInStock) {
+      alert = { name, kind: "back_in_stock", price };
+    } else if (row.notifyPriceDrop && inStock && price < lastPrice) {
+      alert = { name, kind: "price_drop", price, was: lastPrice };
+    }
+    if (!alert) continue;
+
+    const email = emails.get(row.userId) ?? {
+      to: row.user.email,
+      customerName: row.user.firstName,
+      items: [],
+    };
+    email.items.push(alert);
+    emails.set(row.userId, email);
+  }
+
+  await Promise.allSettled(Array.from(emails.values()).map((e) => sendWishlistAlertEmail(e)));
+}
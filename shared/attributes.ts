@@ -0,0 +1,62 @@
+// shared/attributes.ts
+// Structured product fields defined per category (brand and warranty for
+// electronics, material for home…). A category's schema includes the
+// attributes of its parent categories; a subcategory can redefine a key.
+// Products store their values in `products.attributes`, keyed by `key`.
+
+export const ATTRIBUTE_TYPES = ["text", "number", "boolean", "select", "multiselect"] as const;
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export const MAX_ATTRIBUTES = 20;
+export const MAX_ATTRIBUTE_OPTIONS = 50;
+
+export type AttributeDef = {
+  /** Stable id used in products.attributes and listing URLs, e.g. "warranty_months" */
+  key: string;
+  label: string;
+  type: AttributeType;
+  /** Choices for select / multiselect */
+  options?: string[];
+  /** Shown after number values, e.g. "months" */
+  unit?: string;
+  required?: boolean;
+  /** Offer as a facet on the category's product listing */
+  filterable?: boolean;
+};
+
+export type AttributeValue = string | number | boolean | string[];
+export type ProductAttributes = Record<string, AttributeValue>;
+
+/** Listing URLs carry attribute filters as `attr.<key>=<value>` */
+export const ATTRIBUTE_PARAM_PREFIX = "attr.";
+
+type SchemaRow = { id: string; parentId: string | null; attributes: AttributeDef[] };
+
+/**
+ * The attributes a product in `categoryId` gets: its ancestors' first, then
+ * its own; a key defined again lower down replaces the inherited one in place.
+ */
+export function effectiveAttributes(rows: SchemaRow[], categoryId: string): AttributeDef[] {
+  const byId = new Map(rows.map((r) => [r.id, r] as const));
+  const chain: SchemaRow[] = [];
+  for (let c = byId.get(categoryId); c && chain.length < 10; c = c.parentId ? byId.get(c.parentId) : undefined) {
+    chain.unshift(c);
+  }
+  const defs: AttributeDef[] = [];
+  chain.forEach((c) =>
+    (c.attributes ?? []).forEach((def) => {
+      const at = defs.findIndex((d) => d.key === def.key);
+      if (at === -1) defs.push(def);
+      else defs[at] = def;
+    }),
+  );
+  return defs;
+}
+
+/** A value as shown in the spec table ("24 months", "Yes", "Red, Blue") */
+export function formatAttributeValue(def: AttributeDef, value: AttributeValue | undefined): string {
+  if (value === undefined || value === "") return "—";
+  if (def.type === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return def.unit ? `${value} ${def.unit}` : String(value);
+}
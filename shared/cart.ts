@@ -0,0 +1,61 @@
+// shared/cart.ts
+// The signed-in buyer's cart as stored on the server (guests keep theirs in
+// the browser only). Each line remembers the unit price it was added at, so
+// a price change since then can be pointed out before checkout.
+
+import type { Product } from "./schema";
+
+export const MAX_CART_LINES = 100;
+export const MAX_LINE_QUANTITY = 999;
+
+/**
+ * Why a line can't be bought as it stands:
+ * - unavailable: product or variant deactivated (or a variant is now required)
+ * - out_of_stock: none left
+ * - insufficient_stock: fewer left than the line's quantity
+ */
+export type CartLineIssue = "unavailable" | "out_of_stock" | "insufficient_stock";
+
+/** One line of GET /api/cart; amounts in NLe */
+export type CartLine = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  /** Variant image, if it has its own */
+  imageUrl: string | null;
+  quantity: number;
+  /** Unit price when the line was added */
+  priceEach: number;
+  /** Unit price now */
+  currentPrice: number;
+  priceChanged: boolean;
+  /** Stock left for the product or variant */
+  available: number;
+  issue: CartLineIssue | null;
+  createdAt: string;
+  product: Product;
+};
+
+/** What the client sends per line to PUT /api/cart and POST /api/cart/merge */
+export type CartLineInput = {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  /** Price the buyer saw when adding it; defaults to the current price */
+  priceEach?: number;
+};
+
+/** "Only 2 left", for a line that has an issue */
+export function cartIssueLabel(line: Pick<CartLine, "issue" | "available">): string | null {
+  switch (line.issue) {
+    case "unavailable":
+      return "No longer available";
+    case "out_of_stock":
+      return "Sold out";
+    case "insufficient_stock":
+      return `Only ${line.available} left`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,110 @@
+// shared/catalog.ts
+// Storefront product listing (GET /api/products): filters, sort orders and
+// facet counts. Filters round-trip through the page URL, so a filtered
+// listing can be bookmarked, shared and restored with the back button.
+
+import type { Product } from "./schema";
+import { ATTRIBUTE_PARAM_PREFIX } from "./attributes";
+
+export const PRODUCT_SORTS = ["newest", "price_asc", "price_desc", "popular"] as const;
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  newest: "Newest",
+  price_asc: "Price: Low to High",
+  price_desc: "Price: High to Low",
+  popular: "Most Popular",
+};
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 60;
+
+export type ProductFilters = {
+  categoryId?: string;
+  vendorId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  /** Category attribute key -> required value (`attr.<key>=` in the URL) */
+  attributes?: Record<string, string>;
+  sort: ProductSort;
+};
+
+/** Query params owned by the listing (plus `attr.*`); other params in the page URL are left alone */
+export const PRODUCT_FILTER_PARAMS = [
+  "categoryId",
+  "vendorId",
+  "minPrice",
+  "maxPrice",
+  "inStock",
+  "sort",
+] as const;
+
+export type FacetCount = { id: string; name: string; count: number };
+
+/** Values of one filterable attribute of the chosen category; `id` is the raw value */
+export type AttributeFacet = { key: string; label: string; values: FacetCount[] };
+
+/**
+ * Counts for each facet apply every other active filter, so picking a
+ * category still shows how many products each of the other categories has.
+ */
+export type ProductFacets = {
+  categories: FacetCount[];
+  vendors: FacetCount[];
+  price: { min: number | null; max: number | null };
+  inStock: number;
+  /** Only when a category is chosen (attributes come from its schema) */
+  attributes: AttributeFacet[];
+};
+
+export type ProductListResponse = {
+  items: Product[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Matching products across all pages (first page only, like facets) */
+  total: number | null;
+  facets: ProductFacets | null;
+};
+
+const toPrice = (raw: string | null) => {
+  if (raw === null || raw.trim() === "") return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/** `?categoryId=…&minPrice=…&sort=…` -> filters; unknown or bad values are dropped */
+export function parseProductFilters(search: string | URLSearchParams): ProductFilters {
+  const sp = typeof search === "string" ? new URLSearchParams(search) : search;
+  const sort = sp.get("sort") as ProductSort | null;
+  const attributes: Record<string, string> = {};
+  sp.forEach((value, name) => {
+    if (name.startsWith(ATTRIBUTE_PARAM_PREFIX) && value) {
+      attributes[name.slice(ATTRIBUTE_PARAM_PREFIX.length)] = value;
+    }
+  });
+  return {
+    categoryId: sp.get("categoryId") || undefined,
+    vendorId: sp.get("vendorId") || undefined,
+    minPrice: toPrice(sp.get("minPrice")),
+    maxPrice: toPrice(sp.get("maxPrice")),
+    inStock: sp.get("inStock") === "1" || sp.get("inStock") === "true" || undefined,
+    attributes: Object.keys(attributes).length ? attributes : undefined,
+    sort: sort && PRODUCT_SORTS.includes(sort) ? sort : "newest",
+  };
+}
+
+/** Filters -> query params, leaving out defaults so URLs stay short */
+export function productFilterParams(filters: ProductFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.categoryId) params.categoryId = filters.categoryId;
+  if (filters.vendorId) params.vendorId = filters.vendorId;
+  if (filters.minPrice !== undefined) params.minPrice = String(filters.minPrice);
+  if (filters.maxPrice !== undefined) params.maxPrice = String(filters.maxPrice);
+  if (filters.inStock) params.inStock = "1";
+  Object.entries(filters.attributes ?? {}).forEach(([key, value]) => {
+    params[ATTRIBUTE_PARAM_PREFIX + key] = value;
+  });
+  if (filters.sort !== "newest") params.sort = filters.sort;
+  return params;
+}
@@ -0,0 +1,85 @@
+// shared/categories.ts
+// Category tree helpers shared by the API (validation, listing filters) and
+// the storefront/admin UI. GET /api/categories returns the flat rows; both
+// sides rebuild the tree from `parentId`.
+
+import type { Category } from "./schema";
+
+/** Top-level categories are depth 1; a sub-sub-category is as deep as it goes */
+export const MAX_CATEGORY_DEPTH = 3;
+
+/** Icon keys the storefront knows how to draw (anything else shows a tag) */
+export const CATEGORY_ICONS = ["electronics", "fashion", "home", "sports", "books", "baby", "tag"] as const;
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+export type CategoryNode = Category & { children: CategoryNode[] };
+
+/** Only what the tree helpers need, so API responses and table rows both fit */
+type TreeRow = { id: string; parentId: string | null };
+
+/** "Home & Garden" -> "home-and-garden" */
+export function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 120);
+}
+
+const bySiblingOrder = (a: Category, b: Category) =>
+  a.position - b.position || a.name.localeCompare(b.name);
+
+/** Roots in sibling order, each with its children nested the same way */
+export function buildCategoryTree(rows: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>();
+  rows.forEach((r) => nodes.set(r.id, { ...r, children: [] }));
+  const roots: CategoryNode[] = [];
+  Array.from(nodes.values())
+    .sort(bySiblingOrder)
+    .forEach((n) => {
+      const parent = n.parentId ? nodes.get(n.parentId) : undefined;
+      (parent ? parent.children : roots).push(n);
+    });
+  return roots;
+}
+
+/** Ancestors of `id`, root first, ending with the category itself */
+export function categoryPath<T extends TreeRow>(rows: T[], id: string): T[] {
+  const byId = new Map(rows.map((r) => [r.id, r] as const));
+  const path: T[] = [];
+  let current = byId.get(id);
+  while (current && path.length <= MAX_CATEGORY_DEPTH) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/** `id` and every category below it */
+export function descendantIds(rows: TreeRow[], id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    rows.forEach((r) => {
+      if (r.parentId === ids[i]) ids.push(r.id);
+    });
+  }
+  return ids;
+}
+
+/** "Home › Kitchen › Knives", for selects that list every category */
+export function categoryLabel(rows: Category[], id: string): string {
+  return categoryPath(rows, id)
+    .map((c) => c.name)
+    .join(" › ");
+}
+
+/** Every category in tree order with its depth (0 = top level), for indented lists */
+export function flattenCategoryTree(
+  nodes: CategoryNode[],
+  depth = 0,
+): Array<{ category: CategoryNode; depth: number }> {
+  return nodes.flatMap((n) => [{ category: n, depth }, ...flattenCategoryTree(n.children, depth + 1)]);
+}
@@ -0,0 +1,33 @@
+// shared/images.ts
+// Naming of uploaded product images (server/images.ts writes them, the
+// storefront picks a size). Each upload is a folder:
+//
+//   products/<uuid>/full.webp        ≤ 1600px, what products.imageUrl points at
+//   products/<uuid>/thumb-320.webp   product cards on small screens
+//   products/<uuid>/thumb-640.webp   product cards, detail page on mobile
+
+export const THUMBNAIL_WIDTHS = [320, 640] as const;
+
+export type ThumbnailWidth = (typeof THUMBNAIL_WIDTHS)[number];
+
+/** One entry of a product gallery (GET /api/products/:id/images), cover first;
+ *  `id` is null for a product that only has its original imageUrl */
+export type GalleryImage = { id: string | null; url: string; alt: string };
+
+const FULL_IMAGE = /\/full\.webp$/;
+
+/** Thumbnail of an uploaded image; external URLs are returned unchanged */
+export function thumbnailUrl(imageUrl: string, width: ThumbnailWidth): string {
+  return FULL_IMAGE.test(imageUrl)
+    ? imageUrl.replace(FULL_IMAGE, `/thumb-${width}.webp`)
+    : imageUrl;
+}
+
+/** `srcSet` for an uploaded image (undefined for external URLs) */
+export function imageSrcSet(imageUrl: string): string | undefined {
+  if (!FULL_IMAGE.test(imageUrl)) return undefined;
+  return [
+    ...THUMBNAIL_WIDTHS.map((w) => `${thumbnailUrl(imageUrl, w)} ${w}w`),
+    `${imageUrl} 1600w`,
+  ].join(", ");
+}
@@ -0,0 +1,84 @@
+// shared/order-status.ts
+// Order lifecycle shared by the API (enforcement) and dashboards (which buttons to show).
+//
+//   pending → paid → processing → shipped → delivered
+//      ↘ cancelled (→ refunded)          paid…delivered ↘ refunded
+//
+// "refunded" is only reached by recording a full refund (server/refunds.ts).
+
+export const ORDER_STATUSES = [
+  "pending",
+  "paid",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type OrderActorRole = "customer" | "vendor" | "admin";
+
+/**
+ * from -> to -> roles allowed to make that move.
+ * Customers may only cancel their own unpaid orders; money moves are admin-only.
+ */
+export const ORDER_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActorRole[]>>
+> = {
+  pending: {
+    paid: ["admin"],
+    processing: ["vendor", "admin"], // e.g. cash on delivery
+    cancelled: ["customer", "vendor", "admin"],
+  },
+  paid: {
+    processing: ["vendor", "admin"],
+    cancelled: ["admin"],
+    refunded: ["admin"],
+  },
+  processing: {
+    shipped: ["vendor", "admin"],
+    cancelled: ["admin"],
+    refunded: ["admin"],
+  },
+  shipped: {
+    delivered: ["vendor", "admin"],
+    refunded: ["admin"], // e.g. lost in transit
+  },
+  delivered: {
+    refunded: ["admin"],
+  },
+  cancelled: {
+    refunded: ["admin"],
+  },
+  refunded: {},
+};
+
+export function isOrderStatus(s: string): s is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(s);
+}
+
+export function canTransition(
+  from: string,
+  to: string,
+  role: OrderActorRole,
+): boolean {
+  if (!isOrderStatus(from) || !isOrderStatus(to)) return false;
+  return ORDER_TRANSITIONS[from][to]?.includes(role) ?? false;
+}
+
+/** Statuses only set as a side effect of another record (a refund), never picked directly */
+export const RECORD_DRIVEN_STATUSES: readonly OrderStatus[] = ["refunded"];
+
+/** Statuses `role` may pick as the next status from `from` (status dropdowns) */
+export function allowedNextStatuses(
+  from: string,
+  role: OrderActorRole,
+): OrderStatus[] {
+  if (!isOrderStatus(from)) return [];
+  return ORDER_STATUSES.filter(
+    (to) => !RECORD_DRIVEN_STATUSES.includes(to) && canTransition(from, to, role),
+  );
+}
@@ -0,0 +1,46 @@
+// shared/questions.ts
+// Public product Q&A. Any signed-in shopper may ask about a product; the
+// selling store (or an admin) answers. Admins can hide abusive questions,
+// which then disappear from the product page.
+
+export const QUESTION_STATUSES = ["published", "hidden"] as const;
+export type QuestionStatus = (typeof QUESTION_STATUSES)[number];
+
+export const MAX_QUESTION_LENGTH = 1000;
+export const MAX_ANSWER_LENGTH = 2000;
+export const QUESTIONS_PAGE_SIZE = 10;
+/** Unanswered questions one shopper may have open on a product */
+export const MAX_OPEN_QUESTIONS = 3;
+
+export function isQuestionStatus(s: string): s is QuestionStatus {
+  return (QUESTION_STATUSES as readonly string[]).includes(s);
+}
+
+/** A question as shown to shoppers (the asker is "First L.") */
+export type PublicQuestion = {
+  id: string;
+  body: string;
+  author: string;
+  answer: string | null;
+  answeredAt: string | null;
+  createdAt: string;
+};
+
+/** The signed-in shopper's own question, which they see even when hidden */
+export type OwnQuestion = PublicQuestion & { status: QuestionStatus; moderationNote: string | null };
+
+/** GET /api/products/:productId/questions */
+export type ProductQuestionsResponse = {
+  questions: PublicQuestion[];
+  nextOffset: number | null;
+  /** The signed-in shopper's questions that a moderator hid */
+  hidden: OwnQuestion[];
+};
+
+/** A question in the vendor and admin lists */
+export type ManagedQuestion = OwnQuestion & {
+  productId: string;
+  productName: string;
+  vendorId: string;
+  storeName: string;
+};
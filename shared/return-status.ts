@@ -0,0 +1,38 @@
+// shared/return-status.ts
+// Return (RMA) lifecycle shared by the API and the dashboards.
+//
+//   requested → approved → received → restocked
+//       ↘ rejected
+//
+// Only the selling vendor (or an admin) moves a return; "restocked" puts the
+// quantities back into products.stock (server/returns.ts).
+
+export const RETURN_STATUSES = [
+  "requested",
+  "approved",
+  "rejected",
+  "received",
+  "restocked",
+] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received"],
+  rejected: [],
+  received: ["restocked"],
+  restocked: [],
+};
+
+/** Default return window for new stores, in days after delivery (0 = no returns) */
+export const DEFAULT_RETURN_WINDOW_DAYS = 14;
+
+export function isReturnStatus(s: string): s is ReturnStatus {
+  return (RETURN_STATUSES as readonly string[]).includes(s);
+}
+
+export function canTransitionReturn(from: string, to: string): boolean {
+  if (!isReturnStatus(from) || !isReturnStatus(to)) return false;
+  return RETURN_TRANSITIONS[from].includes(to);
+}
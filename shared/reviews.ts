@@ -0,0 +1,70 @@
+// shared/reviews.ts
+// Product reviews as seen by the storefront and the dashboards. Only buyers
+// with a delivered order containing the product may review it, once per
+// product (editing replaces the earlier rating). Admins can hide a review;
+// hidden reviews don't count towards ratings.
+
+export const REVIEW_STATUSES = ["published", "hidden"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const MAX_REVIEW_PHOTOS = 4;
+export const MAX_REVIEW_LENGTH = 2000;
+export const REVIEWS_PAGE_SIZE = 10;
+
+export function isReviewStatus(s: string): s is ReviewStatus {
+  return (REVIEW_STATUSES as readonly string[]).includes(s);
+}
+
+/** Average over published reviews; `stars[0]` counts 1-star reviews … `stars[4]` 5-star */
+export type RatingSummary = {
+  average: number | null;
+  count: number;
+  stars: [number, number, number, number, number];
+};
+
+/** A review as shown to shoppers (the author is "First L.") */
+export type PublicReview = {
+  id: string;
+  rating: number;
+  title: string | null;
+  body: string | null;
+  author: string;
+  photos: Array<{ id: string; url: string }>;
+  vendorReply: string | null;
+  vendorReplyAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** The signed-in buyer's own review, which they see even when hidden */
+export type OwnReview = PublicReview & { status: ReviewStatus; moderationNote: string | null };
+
+/** GET /api/products/:productId/reviews */
+export type ProductReviewsResponse = {
+  summary: RatingSummary;
+  reviews: PublicReview[];
+  nextOffset: number | null;
+  /** Only for a signed-in buyer */
+  mine: OwnReview | null;
+  canReview: boolean;
+};
+
+/** A review in the vendor and admin lists */
+export type ManagedReview = OwnReview & {
+  productId: string;
+  productName: string;
+  vendorId: string;
+  storeName: string;
+};
+
+/** "4.6" or "—" */
+export function formatRating(average: number | string | null | undefined): string {
+  const n = average === null || average === undefined ? NaN : Number(average);
+  return Number.isFinite(n) ? n.toFixed(1) : "—";
+}
+
+/** "Aminata K." from first and last name */
+export function reviewerName(firstName: string, lastName: string): string {
+  const initial = lastName.trim().charAt(0);
+  return initial ? `${firstName.trim()} ${initial.toUpperCase()}.` : firstName.trim();
+}
@@ -10,10 +10,14 @@ import {
   boolean,
   jsonb,
   pgEnum,
+  index,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AttributeDef, ProductAttributes } from "./attributes";
 
 /* =========================
    Users
@@ -45,41 +49,173 @@ export const vendors = pgTable("vendors", {
 
   storeName: text("store_name").notNull(),
   description: text("description"),
+  // WhatsApp number for store notifications (from the application form)
+  phone: text("phone"),
   isApproved: boolean("is_approved").default(false).notNull(),
+  // days after delivery a buyer may request a return (0 = no returns)
+  returnWindowDays: integer("return_window_days").notNull().default(14),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 /* =========================
    Categories
 ========================= */
-export const categories = pgTable("categories", {
+export const categories = pgTable(
+  "categories",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    // null for top-level categories (depth limit: shared/categories.ts)
+    parentId: varchar("parent_id").references((): AnyPgColumn => categories.id, {
+      onDelete: "restrict",
+    }),
+    name: text("name").notNull(),
+    // unique among siblings; existing rows are filled in by npm run db:prepare
+    slug: varchar("slug", { length: 120 }).notNull(),
+    description: text("description"),
+    icon: text("icon").notNull().default("tag"), // one of CATEGORY_ICONS
+    position: integer("position").notNull().default(0), // order among siblings
+    // product fields for this category and its subcategories (shared/attributes.ts)
+    attributes: jsonb("attributes").$type<AttributeDef[]>().notNull().default([]),
+  },
+  (t) => [
+    // names are unique among siblings, including top-level ones
+    unique("categories_parent_name_unique").on(t.parentId, t.name).nullsNotDistinct(),
+    unique("categories_parent_slug_unique").on(t.parentId, t.slug).nullsNotDistinct(),
+  ],
+);
+
+/* =========================
+   Products
+========================= */
+export const products = pgTable(
+  "products",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vendorId: varchar("vendor_id")
+      .notNull()
+      .references(() => vendors.id, { onDelete: "cascade" }),
+    categoryId: varchar("category_id")
+      .notNull()
+      .references(() => categories.id),
+    name: text("name").notNull(),
+    description: text("description").notNull(),
+    price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Stored in NLE by default
+    stock: integer("stock").notNull().default(0),
+    imageUrl: text("image_url").notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    // set from product_variants (server/variants.ts); price is then the lowest
+    // variant price and stock the sum of variant stock
+    hasVariants: boolean("has_variants").default(false).notNull(),
+    // values for the category's attribute schema, validated by server/attributes.ts
+    attributes: jsonb("attributes").$type<ProductAttributes>().notNull().default({}),
+    // published reviews only, kept up to date by server/reviews.ts
+    ratingAverage: decimal("rating_average", { precision: 3, scale: 2 }),
+    ratingCount: integer("rating_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    // GET /api/search (server/search.ts uses the same expression)
+    index("products_search_idx").using(
+      "gin",
+      sql`(setweight(to_tsvector('english', ${t.name}), 'A') || setweight(to_tsvector('english', ${t.description}), 'B'))`,
+    ),
+    // typo-tolerant name matching; needs the pg_trgm extension, which
+    // `npm run db:push` installs first (server/db-prepare.ts)
+    index("products_name_trgm_idx").using("gin", sql`${t.name} gin_trgm_ops`),
+  ],
+);
+
+/* =========================
+   Product Images (gallery, in display order)
+   The first image is the cover: products.imageUrl mirrors it so cards and
+   order snapshots keep working off a single URL.
+========================= */
+export const productImages = pgTable("product_images", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  name: text("name").notNull().unique(),
-  description: text("description"),
-  icon: text("icon").notNull(), // e.g. "electronics", "home", "shirt"
+
+  productId: varchar("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "cascade" }),
+
+  url: text("url").notNull(),
+  alt: text("alt").notNull().default(""),
+  position: integer("position").notNull().default(0),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 /* =========================
-   Products
+   Product Options & Variants
+   Options are the choices a buyer makes (Size: S/M/L, Colour: Red/Blue);
+   each variant is one combination with its own SKU, price, stock and image.
 ========================= */
-export const products = pgTable("products", {
+export const productOptions = pgTable("product_options", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  vendorId: varchar("vendor_id")
-    .notNull()
-    .references(() => vendors.id, { onDelete: "cascade" }),
-  categoryId: varchar("category_id")
+
+  productId: varchar("product_id")
     .notNull()
-    .references(() => categories.id),
+    .references(() => products.id, { onDelete: "cascade" }),
+
   name: text("name").notNull(),
-  description: text("description").notNull(),
-  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // Stored in NLE by default
+  values: jsonb("values").$type<string[]>().notNull(),
+  position: integer("position").notNull().default(0),
+});
+
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  productId: varchar("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "cascade" }),
+
+  sku: varchar("sku", { length: 64 }).notNull().unique(),
+  // option name -> chosen value, e.g. { "Size": "M", "Colour": "Red" }
+  options: jsonb("options").$type<Record<string, string>>().notNull(),
+
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(), // NLe
   stock: integer("stock").notNull().default(0),
-  imageUrl: text("image_url").notNull(),
+  imageUrl: text("image_url"), // falls back to the product cover
   isActive: boolean("is_active").default(true).notNull(),
+  position: integer("position").notNull().default(0),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Checkout Groups (one per buyer checkout)
+   Parent of the per-vendor orders created from a single cart.
+========================= */
+export const checkoutGroups = pgTable("checkout_groups", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  /** Client order reference (e.g. LWG-XXXX-123); doubles as the idempotency key */
+  reference: varchar("reference", { length: 64 }).unique(),
+
+  customerId: varchar("customer_id").references(() => users.id),
+  customerEmail: text("customer_email").notNull(),
+
+  currency: varchar("currency", { length: 8 }).notNull().default("NLE"),
+  rate: decimal("rate", { precision: 12, scale: 4 }).notNull().default("1"),
+
+  subtotal: decimal("subtotal", { precision: 14, scale: 2 }).notNull(),
+  shippingFee: decimal("shipping_fee", { precision: 14, scale: 2 })
+    .notNull()
+    .default("0"),
+  total: decimal("total", { precision: 14, scale: 2 }).notNull(),
+
+  paymentMethod: varchar("payment_method", { length: 50 }).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -91,6 +227,12 @@ export const orders = pgTable("orders", {
     .primaryKey()
     .default(sql`gen_random_uuid()`),
 
+  // Ties sibling vendor orders from one checkout together (null for legacy rows)
+  checkoutGroupId: varchar("checkout_group_id").references(
+    () => checkoutGroups.id,
+    { onDelete: "set null" },
+  ),
+
   vendorId: varchar("vendor_id")
     .notNull()
     .references(() => vendors.id, { onDelete: "cascade" }),
@@ -117,7 +259,34 @@ export const orders = pgTable("orders", {
     .notNull()
     .default(sql`'{}'::jsonb`),
 
-  status: text("status").notNull().default("pending"), // pending | paid | delivered | cancelled
+  // pending | paid | processing | shipped | delivered | cancelled | refunded
+  // (transitions: shared/order-status.ts)
+  status: text("status").notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Order Status Events (timeline / audit trail)
+========================= */
+export const orderStatusEvents = pgTable("order_status_events", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+
+  fromStatus: text("from_status"), // null for the "order placed" event
+  toStatus: text("to_status").notNull(),
+
+  // Who made the move (null actor = guest buyer or the system)
+  actorId: varchar("actor_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  actorRole: text("actor_role").notNull(), // customer | vendor | admin | system
+
+  note: text("note"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -136,12 +305,18 @@ export const orderItems = pgTable("order_items", {
   productId: varchar("product_id")
     .notNull()
     .references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id, {
+    onDelete: "set null",
+  }),
 
   vendorId: varchar("vendor_id")
     .notNull()
     .references(() => vendors.id, { onDelete: "cascade" }),
 
   name: text("name").notNull(),
+  // snapshot of the chosen variant, e.g. "Size: M / Colour: Red"
+  variantLabel: text("variant_label"),
+  sku: varchar("sku", { length: 64 }),
   imageUrl: text("image_url"),
 
   price: decimal("price", { precision: 14, scale: 2 }).notNull(),
@@ -149,22 +324,472 @@ export const orderItems = pgTable("order_items", {
 });
 
 /* =========================
-   Cart Items (per user)
+   Payments (one attempt to pay a checkout group)
 ========================= */
-export const cartItems = pgTable("cart_items", {
+export const payments = pgTable("payments", {
   id: varchar("id")
     .primaryKey()
     .default(sql`gen_random_uuid()`),
-  userId: varchar("user_id")
+
+  checkoutGroupId: varchar("checkout_group_id")
+    .notNull()
+    .references(() => checkoutGroups.id, { onDelete: "cascade" }),
+
+  provider: text("provider").notNull(), // server/payments.ts registry name
+  method: varchar("method", { length: 50 }).notNull(), // orange_money | afrimoney
+  providerRef: text("provider_ref").unique(), // set once the provider accepts it
+
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // NLe
+  currency: varchar("currency", { length: 8 }).notNull().default("NLE"),
+  payerPhone: text("payer_phone"),
+
+  // pending | succeeded | failed
+  status: text("status").notNull().default("pending"),
+  failureReason: text("failure_reason"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+/* =========================
+   Payment Proofs (bank-transfer receipts awaiting admin review)
+========================= */
+export const paymentProofs = pgTable("payment_proofs", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  checkoutGroupId: varchar("checkout_group_id")
+    .notNull()
+    .references(() => checkoutGroups.id, { onDelete: "cascade" }),
+
+  // private file (server/private-files.ts), never served publicly
+  fileKey: text("file_key").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+
+  // pending | approved | rejected
+  status: text("status").notNull().default("pending"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Refunds (money returned to a buyer for one order)
+========================= */
+export const refunds = pgTable("refunds", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  // the payment being reversed, when there is one on record
+  paymentId: varchar("payment_id").references(() => payments.id, {
+    onDelete: "set null",
+  }),
+
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // NLe, items + shipping
+  shippingAmount: decimal("shipping_amount", { precision: 14, scale: 2 })
+    .notNull()
+    .default("0"),
+  method: varchar("method", { length: 30 }).notNull(), // mobile_money | bank | cash
+  reason: text("reason").notNull(),
+
+  createdBy: varchar("created_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const refundItems = pgTable("refund_items", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  refundId: varchar("refund_id")
+    .notNull()
+    .references(() => refunds.id, { onDelete: "cascade" }),
+  orderItemId: varchar("order_item_id")
+    .notNull()
+    .references(() => orderItems.id, { onDelete: "cascade" }),
+
+  quantity: integer("quantity").notNull(),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(),
+});
+
+/* =========================
+   Commission Rates (overrides of PLATFORM_COMMISSION_PERCENT)
+   One row per vendor or per category; the vendor rate wins.
+========================= */
+export const commissionRates = pgTable("commission_rates", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  vendorId: varchar("vendor_id")
+    .unique()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+  categoryId: varchar("category_id")
+    .unique()
+    .references(() => categories.id, { onDelete: "cascade" }),
+
+  percent: decimal("percent", { precision: 5, scale: 2 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Vendor Payout Accounts (where payouts are sent; never public)
+========================= */
+export const vendorPayoutAccounts = pgTable("vendor_payout_accounts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  vendorId: varchar("vendor_id")
+    .notNull()
+    .unique()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+
+  method: varchar("method", { length: 30 }).notNull(), // mobile_money | bank
+  provider: text("provider").notNull(), // e.g. orange_money, afrimoney, bank name
+  accountName: text("account_name").notNull(),
+  accountNumber: text("account_number").notNull(), // phone or bank account
+
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Vendor Ledger (money the platform owes each vendor; server/ledger.ts)
+   Balance = sum(amount). Sales credit the net after commission,
+   refunds and payouts debit.
+========================= */
+export const vendorLedgerEntries = pgTable("vendor_ledger_entries", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  vendorId: varchar("vendor_id")
+    .notNull()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+
+  // sale | refund | payout | payout_reversal
+  type: varchar("type", { length: 30 }).notNull(),
+  orderId: varchar("order_id").references(() => orders.id, {
+    onDelete: "set null",
+  }),
+  refundId: varchar("refund_id")
+    .unique()
+    .references(() => refunds.id, { onDelete: "set null" }),
+  payoutId: varchar("payout_id").references(() => payouts.id, {
+    onDelete: "set null",
+  }),
+
+  gross: decimal("gross", { precision: 14, scale: 2 }).notNull().default("0"),
+  commission: decimal("commission", { precision: 14, scale: 2 })
+    .notNull()
+    .default("0"),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // signed, NLe
+  note: text("note"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Payout Batches (one admin run paying out several vendors)
+========================= */
+export const payoutBatches = pgTable("payout_batches", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  createdBy: varchar("created_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const payouts = pgTable("payouts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  batchId: varchar("batch_id")
+    .notNull()
+    .references(() => payoutBatches.id, { onDelete: "cascade" }),
+  vendorId: varchar("vendor_id")
+    .notNull()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // NLe
+
+  // snapshot of the payout account at batch time
+  method: varchar("method", { length: 30 }).notNull(),
+  provider: text("provider").notNull(),
+  accountName: text("account_name").notNull(),
+  accountNumber: text("account_number").notNull(),
+
+  // pending | paid | failed
+  status: text("status").notNull().default("pending"),
+  reference: text("reference"), // transfer id from the bank / provider
+  failureReason: text("failure_reason"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+/* =========================
+   Return Requests (RMA for delivered orders; shared/return-status.ts)
+========================= */
+export const returnRequests = pgTable("return_requests", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  vendorId: varchar("vendor_id")
+    .notNull()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
-  productId: varchar("product_id")
+
+  reason: text("reason").notNull(),
+
+  // requested | approved | rejected | received | restocked
+  status: text("status").notNull().default("requested"),
+  vendorNote: text("vendor_note"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const returnItems = pgTable("return_items", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  returnId: varchar("return_id")
     .notNull()
-    .references(() => products.id, { onDelete: "cascade" }),
-  quantity: integer("quantity").notNull().default(1),
+    .references(() => returnRequests.id, { onDelete: "cascade" }),
+  orderItemId: varchar("order_item_id")
+    .notNull()
+    .references(() => orderItems.id, { onDelete: "cascade" }),
+
+  quantity: integer("quantity").notNull(),
+});
+
+/** Buyer's photos of the items (private files, like payment proofs) */
+export const returnPhotos = pgTable("return_photos", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  returnId: varchar("return_id")
+    .notNull()
+    .references(() => returnRequests.id, { onDelete: "cascade" }),
+
+  fileKey: text("file_key").notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+/* =========================
+   Product Reviews (buyers with a delivered order containing the product;
+   one per buyer and product, see shared/reviews.ts)
+========================= */
+export const reviews = pgTable(
+  "reviews",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+
+    productId: varchar("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    // the selling store, for its dashboard and rating
+    vendorId: varchar("vendor_id")
+      .notNull()
+      .references(() => vendors.id, { onDelete: "cascade" }),
+    customerId: varchar("customer_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // the delivered order that made the buyer eligible
+    orderId: varchar("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+
+    rating: integer("rating").notNull(), // 1-5
+    title: text("title"),
+    body: text("body"),
+
+    // published | hidden (admin moderation)
+    status: text("status").notNull().default("published"),
+    moderationNote: text("moderation_note"),
+    moderatedBy: varchar("moderated_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    moderatedAt: timestamp("moderated_at"),
+
+    vendorReply: text("vendor_reply"),
+    vendorReplyAt: timestamp("vendor_reply_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("reviews_product_customer_unique").on(t.productId, t.customerId),
+    index("reviews_vendor_idx").on(t.vendorId),
+  ],
+);
+
+/** Public photos on a review (stored like product images) */
+export const reviewPhotos = pgTable("review_photos", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+
+  reviewId: varchar("review_id")
+    .notNull()
+    .references(() => reviews.id, { onDelete: "cascade" }),
+
+  url: text("url").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/* =========================
+   Product Questions (public Q&A: signed-in shoppers ask, the selling
+   store answers; see shared/questions.ts)
+========================= */
+export const productQuestions = pgTable(
+  "product_questions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+
+    productId: varchar("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    // the selling store, which answers and sees it on its dashboard
+    vendorId: varchar("vendor_id")
+      .notNull()
+      .references(() => vendors.id, { onDelete: "cascade" }),
+    customerId: varchar("customer_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+
+    body: text("body").notNull(),
+
+    answer: text("answer"),
+    answeredBy: varchar("answered_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    answeredAt: timestamp("answered_at"),
+
+    // published | hidden (admin moderation)
+    status: text("status").notNull().default("published"),
+    moderationNote: text("moderation_note"),
+    moderatedBy: varchar("moderated_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    moderatedAt: timestamp("moderated_at"),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [
+    index("product_questions_product_idx").on(t.productId),
+    index("product_questions_vendor_idx").on(t.vendorId),
+  ],
+);
+
+/* =========================
+   Cart Items (per signed-in user; one row per product + variant,
+   see shared/cart.ts)
+========================= */
+export const cartItems = pgTable(
+  "cart_items",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    productId: varchar("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    // required for products with variants
+    variantId: varchar("variant_id").references(() => productVariants.id, {
+      onDelete: "cascade",
+    }),
+    quantity: integer("quantity").notNull().default(1),
+    // unit price (NLe) when the line was added, to flag price changes
+    // (older lines get the price of the day from server/db-prepare.ts)
+    priceEach: decimal("price_each", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("cart_items_line_unique")
+      .on(t.userId, t.productId, t.variantId)
+      .nullsNotDistinct(),
+  ],
+);
+
+/* =========================
+   Wishlist Items (per user; bookmarked products and cart lines saved for
+   later, with optional price-drop / back-in-stock alerts, see shared/wishlist.ts)
+========================= */
+export const wishlistItems = pgTable(
+  "wishlist_items",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    productId: varchar("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    // set when a variant cart line was saved for later
+    variantId: varchar("variant_id").references(() => productVariants.id, {
+      onDelete: "cascade",
+    }),
+    // unit price (NLe) when saved, shown next to the current one
+    priceAtAdd: decimal("price_at_add", { precision: 10, scale: 2 }).notNull(),
+
+    notifyPriceDrop: boolean("notify_price_drop").notNull().default(false),
+    notifyBackInStock: boolean("notify_back_in_stock").notNull().default(false),
+    // price and availability at the last alert check (server/wishlist.ts)
+    lastPrice: decimal("last_price", { precision: 10, scale: 2 }).notNull(),
+    lastInStock: boolean("last_in_stock").notNull(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (t) => [
+    unique("wishlist_items_line_unique")
+      .on(t.userId, t.productId, t.variantId)
+      .nullsNotDistinct(),
+  ],
+);
+
 /* =========================
    Vendor Applications (PUBLIC form)
    Admin reads/approves/rejects. Approved -> create row in `vendors`.
@@ -210,7 +835,13 @@ export const vendorsRelations = relations(vendors, ({ one, many }) => ({
   orderItems: many(orderItems),
 }));
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "categoryTree",
+  }),
+  children: many(categories, { relationName: "categoryTree" }),
   products: many(products),
 }));
 
@@ -223,11 +854,58 @@ export const productsRelations = relations(products, ({ one, many }) => ({
     fields: [products.categoryId],
     references: [categories.id],
   }),
+  images: many(productImages),
+  options: many(productOptions),
+  variants: many(productVariants),
   orderItems: many(orderItems),
   cartItems: many(cartItems),
+  reviews: many(reviews),
+  questions: many(productQuestions),
+}));
+
+export const productImagesRelations = relations(productImages, ({ one }) => ({
+  product: one(products, {
+    fields: [productImages.productId],
+    references: [products.id],
+  }),
 }));
 
+export const productOptionsRelations = relations(productOptions, ({ one }) => ({
+  product: one(products, {
+    fields: [productOptions.productId],
+    references: [products.id],
+  }),
+}));
+
+export const productVariantsRelations = relations(
+  productVariants,
+  ({ one, many }) => ({
+    product: one(products, {
+      fields: [productVariants.productId],
+      references: [products.id],
+    }),
+    orderItems: many(orderItems),
+  }),
+);
+
+export const checkoutGroupsRelations = relations(
+  checkoutGroups,
+  ({ one, many }) => ({
+    customer: one(users, {
+      fields: [checkoutGroups.customerId],
+      references: [users.id],
+    }),
+    orders: many(orders),
+    payments: many(payments),
+    paymentProofs: many(paymentProofs),
+  }),
+);
+
 export const ordersRelations = relations(orders, ({ one, many }) => ({
+  checkoutGroup: one(checkoutGroups, {
+    fields: [orders.checkoutGroupId],
+    references: [checkoutGroups.id],
+  }),
   customer: one(users, {
     fields: [orders.customerId],
     references: [users.id],
@@ -237,6 +915,206 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     references: [vendors.id],
   }),
   items: many(orderItems),
+  statusEvents: many(orderStatusEvents),
+  refunds: many(refunds),
+  returns: many(returnRequests),
+}));
+
+export const orderStatusEventsRelations = relations(
+  orderStatusEvents,
+  ({ one }) => ({
+    order: one(orders, {
+      fields: [orderStatusEvents.orderId],
+      references: [orders.id],
+    }),
+    actor: one(users, {
+      fields: [orderStatusEvents.actorId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  checkoutGroup: one(checkoutGroups, {
+    fields: [payments.checkoutGroupId],
+    references: [checkoutGroups.id],
+  }),
+}));
+
+export const paymentProofsRelations = relations(paymentProofs, ({ one }) => ({
+  checkoutGroup: one(checkoutGroups, {
+    fields: [paymentProofs.checkoutGroupId],
+    references: [checkoutGroups.id],
+  }),
+  reviewer: one(users, {
+    fields: [paymentProofs.reviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  items: many(refundItems),
+}));
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, {
+    fields: [refundItems.refundId],
+    references: [refunds.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [refundItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const commissionRatesRelations = relations(commissionRates, ({ one }) => ({
+  vendor: one(vendors, {
+    fields: [commissionRates.vendorId],
+    references: [vendors.id],
+  }),
+  category: one(categories, {
+    fields: [commissionRates.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const vendorPayoutAccountsRelations = relations(
+  vendorPayoutAccounts,
+  ({ one }) => ({
+    vendor: one(vendors, {
+      fields: [vendorPayoutAccounts.vendorId],
+      references: [vendors.id],
+    }),
+  }),
+);
+
+export const vendorLedgerEntriesRelations = relations(
+  vendorLedgerEntries,
+  ({ one }) => ({
+    vendor: one(vendors, {
+      fields: [vendorLedgerEntries.vendorId],
+      references: [vendors.id],
+    }),
+    order: one(orders, {
+      fields: [vendorLedgerEntries.orderId],
+      references: [orders.id],
+    }),
+    refund: one(refunds, {
+      fields: [vendorLedgerEntries.refundId],
+      references: [refunds.id],
+    }),
+    payout: one(payouts, {
+      fields: [vendorLedgerEntries.payoutId],
+      references: [payouts.id],
+    }),
+  }),
+);
+
+export const payoutBatchesRelations = relations(payoutBatches, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [payoutBatches.createdBy],
+    references: [users.id],
+  }),
+  payouts: many(payouts),
+}));
+
+export const payoutsRelations = relations(payouts, ({ one }) => ({
+  batch: one(payoutBatches, {
+    fields: [payouts.batchId],
+    references: [payoutBatches.id],
+  }),
+  vendor: one(vendors, {
+    fields: [payouts.vendorId],
+    references: [vendors.id],
+  }),
+}));
+
+export const returnRequestsRelations = relations(
+  returnRequests,
+  ({ one, many }) => ({
+    order: one(orders, {
+      fields: [returnRequests.orderId],
+      references: [orders.id],
+    }),
+    vendor: one(vendors, {
+      fields: [returnRequests.vendorId],
+      references: [vendors.id],
+    }),
+    customer: one(users, {
+      fields: [returnRequests.customerId],
+      references: [users.id],
+    }),
+    items: many(returnItems),
+    photos: many(returnPhotos),
+  }),
+);
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnItems.returnId],
+    references: [returnRequests.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [returnItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}));
+
+export const returnPhotosRelations = relations(returnPhotos, ({ one }) => ({
+  returnRequest: one(returnRequests, {
+    fields: [returnPhotos.returnId],
+    references: [returnRequests.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one, many }) => ({
+  product: one(products, {
+    fields: [reviews.productId],
+    references: [products.id],
+  }),
+  vendor: one(vendors, {
+    fields: [reviews.vendorId],
+    references: [vendors.id],
+  }),
+  customer: one(users, {
+    fields: [reviews.customerId],
+    references: [users.id],
+  }),
+  order: one(orders, {
+    fields: [reviews.orderId],
+    references: [orders.id],
+  }),
+  photos: many(reviewPhotos),
+}));
+
+export const reviewPhotosRelations = relations(reviewPhotos, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewPhotos.reviewId],
+    references: [reviews.id],
+  }),
+}));
+
+export const productQuestionsRelations = relations(productQuestions, ({ one }) => ({
+  product: one(products, {
+    fields: [productQuestions.productId],
+    references: [products.id],
+  }),
+  vendor: one(vendors, {
+    fields: [productQuestions.vendorId],
+    references: [vendors.id],
+  }),
+  customer: one(users, {
+    fields: [productQuestions.customerId],
+    references: [users.id],
+  }),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -248,6 +1126,10 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [orderItems.variantId],
+    references: [productVariants.id],
+  }),
   vendor: one(vendors, {
     fields: [orderItems.vendorId],
     references: [vendors.id],
@@ -263,6 +1145,25 @@ export const cartItemsRelations = relations(cartItems, ({ one }) => ({
     fields: [cartItems.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [cartItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const wishlistItemsRelations = relations(wishlistItems, ({ one }) => ({
+  user: one(users, {
+    fields: [wishlistItems.userId],
+    references: [users.id],
+  }),
+  product: one(products, {
+    fields: [wishlistItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [wishlistItems.variantId],
+    references: [productVariants.id],
+  }),
 }));
 
 /* =========================
@@ -278,11 +1179,43 @@ export const insertVendorSchema = createInsertSchema(vendors).omit({
   createdAt: true,
 });
 
-export const insertCategorySchema = createInsertSchema(categories).omit({
+export const insertCategorySchema = createInsertSchema(categories)
+  .omit({
+    id: true,
+    attributes: true,
+  })
+  .partial({ slug: true }); // derived from the name when left out
+
+export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
+  hasVariants: true,
+  attributes: true,
+  ratingAverage: true,
+  ratingCount: true,
+  createdAt: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductImageSchema = createInsertSchema(productImages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductOptionSchema = createInsertSchema(productOptions, {
+  values: z.array(z.string()),
+}).omit({
+  id: true,
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  options: z.record(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCheckoutGroupSchema = createInsertSchema(
+  checkoutGroups,
+).omit({
   id: true,
   createdAt: true,
 });
@@ -292,13 +1225,126 @@ export const insertOrderSchema = createInsertSchema(orders).omit({
   createdAt: true,
 });
 
+export const insertOrderStatusEventSchema = createInsertSchema(
+  orderStatusEvents,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPaymentProofSchema = createInsertSchema(paymentProofs).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+});
+
+export const insertRefundSchema = createInsertSchema(refunds).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRefundItemSchema = createInsertSchema(refundItems).omit({
+  id: true,
+});
+
+export const insertCommissionRateSchema = createInsertSchema(
+  commissionRates,
+).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertVendorPayoutAccountSchema = createInsertSchema(
+  vendorPayoutAccounts,
+).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertVendorLedgerEntrySchema = createInsertSchema(
+  vendorLedgerEntries,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayoutBatchSchema = createInsertSchema(payoutBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+});
+
+export const insertReturnRequestSchema = createInsertSchema(
+  returnRequests,
+).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReturnItemSchema = createInsertSchema(returnItems).omit({
+  id: true,
+});
+
+export const insertReturnPhotoSchema = createInsertSchema(returnPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReviewSchema = createInsertSchema(reviews).omit({
+  id: true,
+  status: true,
+  moderationNote: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  vendorReply: true,
+  vendorReplyAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReviewPhotoSchema = createInsertSchema(reviewPhotos).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProductQuestionSchema = createInsertSchema(productQuestions).omit({
+  id: true,
+  answer: true,
+  answeredBy: true,
+  answeredAt: true,
+  status: true,
+  moderationNote: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertWishlistItemSchema = createInsertSchema(wishlistItems).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertVendorApplicationSchema = createInsertSchema(
@@ -324,15 +1370,84 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 
+export type ProductImage = typeof productImages.$inferSelect;
+export type InsertProductImage = z.infer<typeof insertProductImageSchema>;
+
+export type ProductOption = typeof productOptions.$inferSelect;
+export type InsertProductOption = z.infer<typeof insertProductOptionSchema>;
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+
+export type CheckoutGroup = typeof checkoutGroups.$inferSelect;
+export type InsertCheckoutGroup = z.infer<typeof insertCheckoutGroupSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+export type OrderStatusEvent = typeof orderStatusEvents.$inferSelect;
+export type InsertOrderStatusEvent = z.infer<
+  typeof insertOrderStatusEventSchema
+>;
+
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type PaymentProof = typeof paymentProofs.$inferSelect;
+export type InsertPaymentProof = z.infer<typeof insertPaymentProofSchema>;
+
+export type Refund = typeof refunds.$inferSelect;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+
+export type RefundItem = typeof refundItems.$inferSelect;
+export type InsertRefundItem = z.infer<typeof insertRefundItemSchema>;
+
+export type CommissionRate = typeof commissionRates.$inferSelect;
+export type InsertCommissionRate = z.infer<typeof insertCommissionRateSchema>;
+
+export type VendorPayoutAccount = typeof vendorPayoutAccounts.$inferSelect;
+export type InsertVendorPayoutAccount = z.infer<
+  typeof insertVendorPayoutAccountSchema
+>;
+
+export type VendorLedgerEntry = typeof vendorLedgerEntries.$inferSelect;
+export type InsertVendorLedgerEntry = z.infer<
+  typeof insertVendorLedgerEntrySchema
+>;
+
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type InsertPayoutBatch = z.infer<typeof insertPayoutBatchSchema>;
+
+export type Payout = typeof payouts.$inferSelect;
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+
+export type ReturnPhoto = typeof returnPhotos.$inferSelect;
+export type InsertReturnPhoto = z.infer<typeof insertReturnPhotoSchema>;
+
+export type Review = typeof reviews.$inferSelect;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type ReviewPhoto = typeof reviewPhotos.$inferSelect;
+export type InsertReviewPhoto = z.infer<typeof insertReviewPhotoSchema>;
+
+export type ProductQuestion = typeof productQuestions.$inferSelect;
+export type InsertProductQuestion = z.infer<typeof insertProductQuestionSchema>;
+
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+export type InsertWishlistItem = z.infer<typeof insertWishlistItemSchema>;
+
 export type VendorApplication = typeof vendorApplications.$inferSelect;
 export type InsertVendorApplication = z.infer<
   typeof insertVendorApplicationSchema
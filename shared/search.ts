@@ -0,0 +1,25 @@
+// shared/search.ts
+// Product search results (GET /api/search). Matches come back as plain-text
+// segments rather than HTML, so product text is never injected as markup.
+
+export type HighlightSegment = { text: string; match: boolean };
+
+export type SearchResult = {
+  id: string;
+  name: string;
+  price: string;
+  stock: number;
+  imageUrl: string;
+  hasVariants: boolean;
+  vendorId: string;
+  storeName: string;
+  categoryId: string;
+  categoryName: string;
+  /** Higher is better; full-text rank plus name similarity */
+  score: number;
+  highlight: { name: HighlightSegment[]; description: HighlightSegment[] };
+};
+
+export type SearchResponse = { query: string; results: SearchResult[] };
+
+export const SEARCH_MAX_QUERY = 100;
@@ -0,0 +1,54 @@
+// shared/variants.ts
+// Product variants as seen by the storefront, the cart and the dashboards.
+// A product with options (Size, Colour…) is sold only as one of its variants;
+// `options` maps each option name to the chosen value.
+
+export const MAX_OPTIONS = 3;
+export const MAX_OPTION_VALUES = 20;
+export const MAX_VARIANTS = 100;
+
+export type VariantOptions = Record<string, string>;
+
+/** GET /api/products/:id/variants */
+export type ProductVariantsResponse = {
+  options: Array<{ name: string; values: string[] }>;
+  variants: Array<{
+    id: string;
+    sku: string;
+    options: VariantOptions;
+    price: string;
+    stock: number;
+    imageUrl: string | null;
+    isActive: boolean;
+  }>;
+};
+
+/** "Size: M / Colour: Red", in the order of `optionNames` when given */
+export function variantLabel(options: VariantOptions, optionNames?: string[]): string {
+  const names = optionNames ?? Object.keys(options);
+  return names
+    .filter((n) => options[n] !== undefined)
+    .map((n) => `${n}: ${options[n]}`)
+    .join(" / ");
+}
+
+/** Same combination of option values (key order doesn't matter) */
+export function sameOptions(a: VariantOptions, b: VariantOptions): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k]);
+}
+
+/** Every combination of the option values, first option varying slowest */
+export function optionCombinations(
+  options: Array<{ name: string; values: string[] }>,
+): VariantOptions[] {
+  return options.reduce<VariantOptions[]>(
+    (combos, option) =>
+      combos.flatMap((combo) => option.values.map((v) => ({ ...combo, [option.name]: v }))),
+    [{}],
+  );
+}
+
+/** Identity of a cart line: the same product in two sizes is two lines */
+export const cartLineKey = (productId: string, variantId?: string | null) =>
+  variantId ? `${productId}:${variantId}` : productId;
@@ -0,0 +1,43 @@
+// shared/wishlist.ts
+// A signed-in buyer's wishlist: bookmarked products (the heart on cards and
+// the product page) and cart lines saved for later, which keep their
+// variant. Each item can ask for an email when its price drops or when it
+// is back in stock.
+
+import type { Product } from "./schema";
+import type { VariantOptions } from "./variants";
+
+export const MAX_WISHLIST_ITEMS = 200;
+
+/** One item of GET /api/wishlist; amounts in NLe */
+export type WishlistEntry = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  /** The saved variant, to put it back in the cart as it was */
+  variant: {
+    id: string;
+    sku: string;
+    options: VariantOptions;
+    price: string;
+    imageUrl: string | null;
+  } | null;
+  variantLabel: string | null;
+  /** Unit price when saved */
+  priceAtAdd: number;
+  currentPrice: number;
+  /** Active and in stock */
+  inStock: boolean;
+  notifyPriceDrop: boolean;
+  notifyBackInStock: boolean;
+  createdAt: string;
+  product: Product;
+};
+
+/** The bookmark for a product as a whole (not a saved variant line) */
+export function findProductBookmark(
+  items: WishlistEntry[] | undefined,
+  productId: string,
+): WishlistEntry | undefined {
+  return items?.find((i) => i.productId === productId && !i.variantId);
+}
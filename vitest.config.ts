@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server-side tests only; they never reach a real database (see server/*.test.ts)
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    env: {
+      NODE_ENV: "test",
+      SESSION_SECRET: "test-session-secret-not-for-production",
+      DATABASE_URL: "postgres://test@127.0.0.1:1/test",
+    },
+  },
+});